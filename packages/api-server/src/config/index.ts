@@ -30,6 +30,23 @@ export const CONFIG = {
   logging: {
     level: process.env.LOG_LEVEL || 'info',
   },
+  invitations: {
+    // Nightly withdrawal of pending invites older than this many days (0 = disabled)
+    staleWithdrawDays: parseInt(process.env.STALE_INVITE_WITHDRAW_DAYS || '0'),
+  },
+  inbox: {
+    // Queue a sync_inbox job for every active account this often (0 = disabled)
+    syncIntervalMinutes: parseInt(process.env.INBOX_SYNC_INTERVAL_MINUTES || '0'),
+    webhookUrl: process.env.INBOX_WEBHOOK_URL,
+  },
+  proxies: {
+    // Health check of every proxy this often (0 = disabled)
+    checkIntervalMinutes: parseInt(process.env.PROXY_CHECK_INTERVAL_MINUTES || '5'),
+  },
+  idempotency: {
+    // Responses to requests with an Idempotency-Key are replayed for this long
+    retentionHours: parseInt(process.env.IDEMPOTENCY_RETENTION_HOURS || '24'),
+  },
 } as const;
 
 export const validateConfig = () => {
@@ -10,11 +10,25 @@ import webhooksRouter from './routes/webhooks';
 import jobsRouter from './routes/jobs';
 import healthRouter from './routes/health';
 import internalRouter from './routes/internal';
+import accountsRouter from './routes/accounts';
+import campaignsRouter from './routes/campaigns';
+import suppressionsRouter from './routes/suppressions';
+import leadsRouter from './routes/leads';
+import leadListsRouter from './routes/leadLists';
+import proxiesRouter from './routes/proxies';
+import { JobService } from './services/jobService';
+import { AccountService } from './services/accountService';
+import { IdempotencyService } from './services/idempotencyService';
+import { ProxyService } from './services/proxyService';
 
 // Validate configuration
 validateConfig();
 
 const app: express.Application = express();
+const jobService = new JobService();
+const accountService = new AccountService();
+const idempotencyService = new IdempotencyService();
+const proxyService = new ProxyService();
 
 // Trust only Render's proxy (more secure than trusting all proxies)
 app.set('trust proxy', 1);
@@ -38,6 +52,12 @@ app.use('/health', healthRouter);
 app.use('/webhook', webhooksRouter);
 app.use('/jobs', jobsRouter);
 app.use('/internal', internalRouter);
+app.use('/accounts', accountsRouter);
+app.use('/campaigns', campaignsRouter);
+app.use('/suppressions', suppressionsRouter);
+app.use('/leads', leadsRouter);
+app.use('/lead-lists', leadListsRouter);
+app.use('/proxies', proxiesRouter);
 
 // Root endpoint
 app.get('/', (req, res) => {
@@ -49,6 +69,12 @@ app.get('/', (req, res) => {
       health: '/health',
       webhooks: '/webhook',
       jobs: '/jobs',
+      accounts: '/accounts',
+      campaigns: '/campaigns',
+      suppressions: '/suppressions',
+      leads: '/leads',
+      leadLists: '/lead-lists',
+      proxies: '/proxies',
     },
   });
 });
@@ -114,6 +140,81 @@ cron.schedule('0 3 * * *', async () => {
   timezone: "UTC"
 });
 
+// Nightly withdrawal of stale pending invitations - runs at 04:00 every day
+cron.schedule('0 4 * * *', async () => {
+  const olderThanDays = CONFIG.invitations.staleWithdrawDays;
+  if (!olderThanDays) return;
+
+  console.log(`🧹 Queueing withdrawal of invitations older than ${olderThanDays} days...`);
+  try {
+    const accounts = await accountService.listActiveAccounts();
+    for (const account of accounts) {
+      await jobService.createJob({
+        type: 'withdraw_invitation',
+        olderThanDays,
+        accountId: account.id,
+        priority: 8,
+      }, account.clientSlug);
+    }
+    console.log(`✅ Queued invitation cleanup for ${accounts.length} accounts`);
+  } catch (error) {
+    console.error('❌ Error queueing invitation cleanup:', error);
+  }
+}, {
+  timezone: "UTC"
+});
+
+// Periodic inbox sync per account; an interval rather than a cron step, which only covers 1-59 minutes
+if (CONFIG.inbox.syncIntervalMinutes > 0) {
+  setInterval(async () => {
+    try {
+      const accounts = await accountService.listActiveAccounts();
+      let queued = 0;
+      for (const account of accounts) {
+        // One sync per account at a time; the next tick queues again once it finished
+        if (await jobService.hasUnfinishedJob(account.clientSlug, account.id, 'sync_inbox')) continue;
+        await jobService.createJob({
+          type: 'sync_inbox',
+          accountId: account.id,
+          n8nWebhookUrl: CONFIG.inbox.webhookUrl,
+        }, account.clientSlug);
+        queued++;
+      }
+      console.log(`📬 Queued inbox sync for ${queued} of ${accounts.length} accounts`);
+    } catch (error) {
+      console.error('❌ Error queueing inbox sync:', error);
+    }
+  }, CONFIG.inbox.syncIntervalMinutes * 60 * 1000);
+}
+
+// Periodic proxy health check; failed proxies leave rotation until they pass again
+if (CONFIG.proxies.checkIntervalMinutes > 0) {
+  setInterval(async () => {
+    try {
+      const { checked, failed } = await proxyService.checkAllProxies();
+      if (checked > 0) {
+        console.log(`🔌 Checked ${checked} proxies, ${failed} failed`);
+      }
+    } catch (error) {
+      console.error('❌ Error checking proxies:', error);
+    }
+  }, CONFIG.proxies.checkIntervalMinutes * 60 * 1000);
+}
+
+// Hourly purge of idempotency keys past their retention window
+cron.schedule('30 * * * *', async () => {
+  try {
+    const purged = await idempotencyService.purgeExpired();
+    if (purged > 0) {
+      console.log(`🧹 Purged ${purged} expired idempotency keys`);
+    }
+  } catch (error) {
+    console.error('❌ Error purging idempotency keys:', error);
+  }
+}, {
+  timezone: "UTC"
+});
+
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM received, shutting down gracefully');
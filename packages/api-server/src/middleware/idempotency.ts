@@ -0,0 +1,67 @@
+import { Response, NextFunction } from 'express';
+import { createHash } from 'crypto';
+import { IDEMPOTENCY_HEADER, IDEMPOTENCY_DEFAULTS } from '@linkedin-bot-suite/shared';
+import { AuthenticatedRequest } from './auth';
+import { IdempotencyService, IdempotencyKeyError, hashIdempotentPayload } from '../services/idempotencyService';
+
+const idempotencyService = new IdempotencyService();
+
+/**
+ * Replay the stored response when a request repeats the Idempotency-Key of
+ * an earlier one from the same API key. Runs after validation so the stored
+ * payload hash is taken from the normalized body. Only successful responses
+ * are kept; failed requests release the key so they can be retried.
+ */
+export const idempotentRequest = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const header = req.get(IDEMPOTENCY_HEADER);
+  if (header === undefined) {
+    return next();
+  }
+
+  const key = header.trim();
+  if (!key || key.length > IDEMPOTENCY_DEFAULTS.MAX_KEY_LENGTH) {
+    return res.status(400).json({
+      error: 'Invalid Idempotency-Key',
+      details: `Idempotency-Key must be 1-${IDEMPOTENCY_DEFAULTS.MAX_KEY_LENGTH} characters`,
+    });
+  }
+
+  const apiKeyId = req.user!.id;
+  const scopedKey = `request:${key}`;
+  const requestHash = hashIdempotentPayload({
+    method: req.method,
+    path: req.baseUrl + req.path,
+    body: req.body,
+    file: req.file && createHash('sha256').update(req.file.buffer).digest('hex'),
+  });
+
+  try {
+    const claim = await idempotencyService.claim(apiKeyId, scopedKey, requestHash);
+    if (claim.replay) {
+      res.setHeader('Idempotent-Replayed', 'true');
+      return res.status(claim.responseStatus).json(claim.responseBody);
+    }
+  } catch (error) {
+    if (error instanceof IdempotencyKeyError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Idempotency error:', error);
+    return res.status(500).json({ error: 'Failed to check idempotency key' });
+  }
+
+  const json = res.json.bind(res);
+  res.json = (body: any) => {
+    const status = res.statusCode;
+    const stored = status >= 200 && status < 300
+      ? idempotencyService.complete(apiKeyId, scopedKey, status, body)
+      : idempotencyService.release(apiKeyId, scopedKey);
+
+    // The response waits for the key to be stored so an immediate retry replays it
+    stored
+      .catch(error => console.error('Error storing idempotent response:', error))
+      .finally(() => json(body));
+    return res;
+  };
+
+  next();
+};
@@ -0,0 +1,30 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { CSV_IMPORT_DEFAULTS } from '@linkedin-bot-suite/shared';
+
+const csvUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: CSV_IMPORT_DEFAULTS.MAX_FILE_BYTES,
+    files: 1,
+  },
+});
+
+// Accepts one multipart "file" field; oversized or malformed uploads are answered with 400
+export const uploadCsvFile = (req: Request, res: Response, next: NextFunction) => {
+  csvUpload.single('file')(req, res, (error: unknown) => {
+    if (error) {
+      return res.status(400).json({
+        error: 'Invalid upload',
+        details: error instanceof Error ? error.message : 'Upload failed',
+      });
+    }
+    if (!req.file) {
+      return res.status(400).json({
+        error: 'Invalid upload',
+        details: 'A CSV file is required in the "file" field',
+      });
+    }
+    next();
+  });
+};
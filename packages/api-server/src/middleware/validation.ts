@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import { validateJobData, validateBulkJobData } from '@linkedin-bot-suite/shared';
+import { validateJobData, validateBulkJobData, validateCampaignData, validateCampaignEnrollmentData, validateCampaignEnrollmentEvent, validateSuppressionEntries, validateLeadData, validateLeadImportData, validateLeadUpdateData, validateLeadListData, validateLeadListMembersData, validateCsvImportData, validateJobExportQuery, validateJobListQuery, validateJobStatusBatchData, validateJobRetryData, validateJobUpdateData, validateProxyData, validateProxyUpdateData, validateAccountProxyData } from '@linkedin-bot-suite/shared';
 
 export const validateJobPayload = (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -43,4 +43,238 @@ export const validateWebhookPayload = (req: Request, res: Response, next: NextFu
   }
   
   next();
-};
\ No newline at end of file
+};
+
+export const validateCampaignPayload = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validatedData = validateCampaignData(req.body);
+    req.body = validatedData;
+    next();
+  } catch (error) {
+    return res.status(400).json({ 
+      error: 'Invalid campaign data', 
+      details: error instanceof Error ? error.message : 'Validation failed' 
+    });
+  }
+};
+
+export const validateCampaignEnrollmentPayload = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validatedData = validateCampaignEnrollmentData(req.body);
+    req.body = validatedData;
+    next();
+  } catch (error) {
+    return res.status(400).json({ 
+      error: 'Invalid enrollment data', 
+      details: error instanceof Error ? error.message : 'Validation failed' 
+    });
+  }
+};
+
+export const validateCampaignEventPayload = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validatedData = validateCampaignEnrollmentEvent(req.body);
+    req.body = validatedData;
+    next();
+  } catch (error) {
+    return res.status(400).json({ 
+      error: 'Invalid enrollment event', 
+      details: error instanceof Error ? error.message : 'Validation failed' 
+    });
+  }
+};
+
+export const validateSuppressionPayload = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validatedData = validateSuppressionEntries(req.body);
+    req.body = validatedData;
+    next();
+  } catch (error) {
+    return res.status(400).json({ 
+      error: 'Invalid suppression entries', 
+      details: error instanceof Error ? error.message : 'Validation failed' 
+    });
+  }
+};
+
+export const validateLeadPayload = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validatedData = validateLeadData(req.body);
+    req.body = validatedData;
+    next();
+  } catch (error) {
+    return res.status(400).json({ 
+      error: 'Invalid lead data', 
+      details: error instanceof Error ? error.message : 'Validation failed' 
+    });
+  }
+};
+
+export const validateLeadImportPayload = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validatedData = validateLeadImportData(req.body);
+    req.body = validatedData;
+    next();
+  } catch (error) {
+    return res.status(400).json({ 
+      error: 'Invalid lead import', 
+      details: error instanceof Error ? error.message : 'Validation failed' 
+    });
+  }
+};
+
+export const validateLeadUpdatePayload = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validatedData = validateLeadUpdateData(req.body);
+    req.body = validatedData;
+    next();
+  } catch (error) {
+    return res.status(400).json({ 
+      error: 'Invalid lead update', 
+      details: error instanceof Error ? error.message : 'Validation failed' 
+    });
+  }
+};
+
+export const validateLeadListPayload = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validatedData = validateLeadListData(req.body);
+    req.body = validatedData;
+    next();
+  } catch (error) {
+    return res.status(400).json({ 
+      error: 'Invalid lead list data', 
+      details: error instanceof Error ? error.message : 'Validation failed' 
+    });
+  }
+};
+
+export const validateLeadListMembersPayload = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validatedData = validateLeadListMembersData(req.body);
+    req.body = validatedData;
+    next();
+  } catch (error) {
+    return res.status(400).json({ 
+      error: 'Invalid list members', 
+      details: error instanceof Error ? error.message : 'Validation failed' 
+    });
+  }
+};
+
+export const validateCsvImportPayload = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validatedData = validateCsvImportData(req.body);
+    req.body = validatedData;
+    next();
+  } catch (error) {
+    return res.status(400).json({ 
+      error: 'Invalid CSV import', 
+      details: error instanceof Error ? error.message : 'Validation failed' 
+    });
+  }
+};
+
+export const validateJobExportParams = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validatedQuery = validateJobExportQuery(req.query);
+    req.query = validatedQuery;
+    next();
+  } catch (error) {
+    return res.status(400).json({ 
+      error: 'Invalid export parameters', 
+      details: error instanceof Error ? error.message : 'Validation failed' 
+    });
+  }
+};
+
+export const validateJobListParams = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validatedQuery = validateJobListQuery(req.query);
+    req.query = validatedQuery;
+    next();
+  } catch (error) {
+    return res.status(400).json({ 
+      error: 'Invalid job filters', 
+      details: error instanceof Error ? error.message : 'Validation failed' 
+    });
+  }
+};
+
+export const validateJobStatusBatchPayload = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validatedData = validateJobStatusBatchData(req.body);
+    req.body = validatedData;
+    next();
+  } catch (error) {
+    return res.status(400).json({ 
+      error: 'Invalid job ids', 
+      details: error instanceof Error ? error.message : 'Validation failed' 
+    });
+  }
+};
+
+export const validateJobRetryPayload = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validatedData = validateJobRetryData(req.body);
+    req.body = validatedData;
+    next();
+  } catch (error) {
+    return res.status(400).json({ 
+      error: 'Invalid retry request', 
+      details: error instanceof Error ? error.message : 'Validation failed' 
+    });
+  }
+};
+
+export const validateJobUpdatePayload = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validatedData = validateJobUpdateData(req.body);
+    req.body = validatedData;
+    next();
+  } catch (error) {
+    return res.status(400).json({ 
+      error: 'Invalid job update', 
+      details: error instanceof Error ? error.message : 'Validation failed' 
+    });
+  }
+};
+
+export const validateProxyPayload = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validatedData = validateProxyData(req.body);
+    req.body = validatedData;
+    next();
+  } catch (error) {
+    return res.status(400).json({ 
+      error: 'Invalid proxy', 
+      details: error instanceof Error ? error.message : 'Validation failed' 
+    });
+  }
+};
+
+export const validateProxyUpdatePayload = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validatedData = validateProxyUpdateData(req.body);
+    req.body = validatedData;
+    next();
+  } catch (error) {
+    return res.status(400).json({ 
+      error: 'Invalid proxy update', 
+      details: error instanceof Error ? error.message : 'Validation failed' 
+    });
+  }
+};
+
+export const validateAccountProxyPayload = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validatedData = validateAccountProxyData(req.body);
+    req.body = validatedData;
+    next();
+  } catch (error) {
+    return res.status(400).json({ 
+      error: 'Invalid proxy assignment', 
+      details: error instanceof Error ? error.message : 'Validation failed' 
+    });
+  }
+};
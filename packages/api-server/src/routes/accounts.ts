@@ -0,0 +1,99 @@
+import { Router } from 'express';
+import { AccountService } from '../services/accountService';
+import { ProxyService, ProxyRequestError } from '../services/proxyService';
+import { authenticateApiKey, requirePermission, AuthenticatedRequest } from '../middleware/auth';
+import { defaultRateLimit } from '../middleware/rateLimiting';
+import { validateAccountProxyPayload } from '../middleware/validation';
+import { API_PERMISSIONS } from '@linkedin-bot-suite/shared';
+
+const router: Router = Router();
+const accountService = new AccountService();
+const proxyService = new ProxyService();
+
+// List the client's LinkedIn accounts with remaining quota
+router.get('/',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.ACCOUNTS_READ),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await accountService.listAccounts(req.user!.clientSlug);
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error listing accounts:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list accounts',
+      });
+    }
+  }
+);
+
+// Get a single account with remaining quota
+router.get('/:accountId',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.ACCOUNTS_READ),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { accountId } = req.params;
+      const result = await accountService.getAccount(accountId, req.user!.clientSlug);
+      
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Account not found',
+        });
+      }
+      
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error getting account:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get account',
+      });
+    }
+  }
+);
+
+// Pin the account to one of the client's proxies, or unassign it with proxyId null
+router.put('/:accountId/proxy',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.ACCOUNTS_MANAGE),
+  validateAccountProxyPayload,
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { accountId } = req.params;
+      const result = await proxyService.assignAccountProxy(accountId, req.user!.clientSlug, req.body.proxyId);
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Account not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error assigning account proxy:', error);
+      res.status(error instanceof ProxyRequestError ? 400 : 500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to assign account proxy',
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,250 @@
+import { Router } from 'express';
+import { CampaignService, CampaignRequestError } from '../services/campaignService';
+import { authenticateApiKey, requirePermission, AuthenticatedRequest } from '../middleware/auth';
+import { defaultRateLimit } from '../middleware/rateLimiting';
+import { validateCampaignPayload, validateCampaignEnrollmentPayload, validateCampaignEventPayload } from '../middleware/validation';
+import { API_PERMISSIONS, CAMPAIGN_STATUS } from '@linkedin-bot-suite/shared';
+
+const router: Router = Router();
+const campaignService = new CampaignService();
+
+// Create a campaign
+router.post('/',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.CAMPAIGNS_MANAGE),
+  validateCampaignPayload,
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await campaignService.createCampaign(req.body, req.user!.clientSlug);
+
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error creating campaign:', error);
+      res.status(error instanceof CampaignRequestError ? 400 : 500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create campaign',
+      });
+    }
+  }
+);
+
+// List campaigns
+router.get('/',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.CAMPAIGNS_READ),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await campaignService.listCampaigns(req.user!.clientSlug);
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error listing campaigns:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list campaigns',
+      });
+    }
+  }
+);
+
+// Get a campaign with enrollment counts per status
+router.get('/:campaignId',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.CAMPAIGNS_READ),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { campaignId } = req.params;
+      const result = await campaignService.getCampaign(campaignId, req.user!.clientSlug);
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Campaign not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error getting campaign:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get campaign',
+      });
+    }
+  }
+);
+
+// Pause a campaign
+router.post('/:campaignId/pause',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.CAMPAIGNS_MANAGE),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { campaignId } = req.params;
+      const result = await campaignService.setCampaignStatus(campaignId, req.user!.clientSlug, CAMPAIGN_STATUS.PAUSED);
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Campaign not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error pausing campaign:', error);
+      res.status(error instanceof CampaignRequestError ? 400 : 500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to pause campaign',
+      });
+    }
+  }
+);
+
+// Resume a campaign
+router.post('/:campaignId/resume',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.CAMPAIGNS_MANAGE),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { campaignId } = req.params;
+      const result = await campaignService.setCampaignStatus(campaignId, req.user!.clientSlug, CAMPAIGN_STATUS.ACTIVE);
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Campaign not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error resuming campaign:', error);
+      res.status(error instanceof CampaignRequestError ? 400 : 500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to resume campaign',
+      });
+    }
+  }
+);
+
+// Enroll leads into a campaign
+router.post('/:campaignId/enrollments',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.CAMPAIGNS_MANAGE),
+  validateCampaignEnrollmentPayload,
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { campaignId } = req.params;
+      const result = await campaignService.enrollProfiles(campaignId, req.user!.clientSlug, req.body.profileUrls);
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Campaign not found',
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error enrolling leads:', error);
+      res.status(error instanceof CampaignRequestError ? 400 : 500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to enroll leads',
+      });
+    }
+  }
+);
+
+// List a campaign's enrollments
+router.get('/:campaignId/enrollments',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.CAMPAIGNS_READ),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { campaignId } = req.params;
+      const result = await campaignService.listEnrollments(campaignId, req.user!.clientSlug, {
+        status: req.query.status as string | undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+        offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
+      });
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Campaign not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error listing enrollments:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list enrollments',
+      });
+    }
+  }
+);
+
+// Report a connection acceptance or reply for an enrolled lead
+router.post('/:campaignId/enrollments/:enrollmentId/events',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.CAMPAIGNS_MANAGE),
+  validateCampaignEventPayload,
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { campaignId, enrollmentId } = req.params;
+      const result = await campaignService.recordEnrollmentEvent(campaignId, enrollmentId, req.user!.clientSlug, req.body.event);
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Enrollment not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error recording enrollment event:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to record enrollment event',
+      });
+    }
+  }
+);
+
+export default router;
@@ -1,12 +1,137 @@
 import { Router } from 'express';
-import { JobService } from '../services/jobService';
+import { JobService, InvalidCursorError, JobStateError } from '../services/jobService';
 import { authenticateApiKey, requirePermission, AuthenticatedRequest } from '../middleware/auth';
+import { once } from 'events';
 import { defaultRateLimit } from '../middleware/rateLimiting';
-import { API_PERMISSIONS } from '@linkedin-bot-suite/shared';
+import { validateJobExportParams, validateJobListParams, validateJobStatusBatchPayload, validateJobRetryPayload, validateJobUpdatePayload } from '../middleware/validation';
+import { API_PERMISSIONS, JOB_EXPORT_COLUMNS, flattenJobHistoryRow, formatCsvRow } from '@linkedin-bot-suite/shared';
 
 const router: Router = Router();
 const jobService = new JobService();
 
+// List jobs, newest first, with filters and cursor pagination
+router.get('/',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.JOBS_READ),
+  validateJobListParams,
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const query = req.query as any;
+      const result = await jobService.listJobs(req.user!.clientSlug, {
+        types: query.type,
+        statuses: query.status,
+        accountId: query.accountId,
+        workflowRunId: query.workflowRunId,
+        profileUrl: query.profileUrl,
+        tag: query.tag,
+        createdFrom: query.createdFrom,
+        createdTo: query.createdTo,
+        completedFrom: query.completedFrom,
+        completedTo: query.completedTo,
+        limit: query.limit,
+        cursor: query.cursor,
+      });
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error listing jobs:', error);
+      res.status(error instanceof InvalidCursorError ? 400 : 500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list jobs',
+      });
+    }
+  }
+);
+
+// Get the status of many jobs at once
+router.post('/status',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.JOBS_READ),
+  validateJobStatusBatchPayload,
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await jobService.getJobStatuses(req.body.jobIds, req.user!.clientSlug);
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error getting job statuses:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get job statuses',
+      });
+    }
+  }
+);
+
+// Export job history as CSV or NDJSON, streamed page by page
+router.get('/export',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.JOBS_READ),
+  validateJobExportParams,
+  async (req: AuthenticatedRequest, res) => {
+    const { format, workflowRunId, type, status, from, to } = req.query as any;
+    const csv = format === 'csv';
+
+    // Headers are sent with the first page so setup errors still get a JSON response
+    const start = () => {
+      if (res.headersSent) return;
+      res.setHeader('Content-Type', csv ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="jobs-${new Date().toISOString().slice(0, 10)}.${format}"`);
+      if (csv) {
+        res.write(formatCsvRow([...JOB_EXPORT_COLUMNS]) + '\n');
+      }
+    };
+
+    try {
+      const pages = jobService.exportJobHistory(req.user!.clientSlug, {
+        workflowRunId,
+        types: type,
+        statuses: status,
+        from,
+        to,
+      });
+
+      for await (const rows of pages) {
+        start();
+        const chunk = rows.map(row => {
+          const record = flattenJobHistoryRow(row);
+          return (csv ? formatCsvRow(JOB_EXPORT_COLUMNS.map(column => record[column])) : JSON.stringify(record)) + '\n';
+        }).join('');
+
+        if (!res.write(chunk)) {
+          await Promise.race([once(res, 'drain'), once(res, 'close')]);
+        }
+        if (res.destroyed) {
+          return;
+        }
+      }
+
+      start();
+      res.end();
+    } catch (error) {
+      console.error('Error exporting jobs:', error);
+      if (res.headersSent) {
+        // Mid-stream failures can only be signalled by cutting the download short
+        res.destroy(error instanceof Error ? error : undefined);
+        return;
+      }
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to export jobs',
+      });
+    }
+  }
+);
+
 // Get job status
 router.get('/:jobId/status',
   defaultRateLimit,
@@ -15,7 +140,14 @@ router.get('/:jobId/status',
   async (req: AuthenticatedRequest, res) => {
     try {
       const { jobId } = req.params;
-      const result = await jobService.getJobStatus(jobId);
+      const result = await jobService.getJobStatus(jobId, req.user!.clientSlug);
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Job not found',
+        });
+      }
       
       res.json({
         success: true,
@@ -39,7 +171,14 @@ router.get('/workflow/:workflowRunId/status',
   async (req: AuthenticatedRequest, res) => {
     try {
       const { workflowRunId } = req.params;
-      const result = await jobService.getWorkflowStatus(workflowRunId);
+      const result = await jobService.getWorkflowStatus(workflowRunId, req.user!.clientSlug);
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Workflow run not found',
+        });
+      }
       
       res.json({
         success: true,
@@ -55,6 +194,159 @@ router.get('/workflow/:workflowRunId/status',
   }
 );
 
+// Retry a failed job
+router.post('/:jobId/retry',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.JOBS_CREATE),
+  validateJobRetryPayload,
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await jobService.retryJob(req.params.jobId, req.user!.clientSlug, { force: req.body.force });
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Job not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error retrying job:', error);
+      res.status(error instanceof JobStateError ? 409 : 500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to retry job',
+      });
+    }
+  }
+);
+
+// Change the priority or start time of a waiting or delayed job
+router.patch('/:jobId',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.JOBS_CREATE),
+  validateJobUpdatePayload,
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await jobService.updateJob(req.params.jobId, req.user!.clientSlug, req.body);
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Job not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error updating job:', error);
+      res.status(error instanceof JobStateError ? 409 : 500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update job',
+      });
+    }
+  }
+);
+
+// Retry every failed job of a workflow run
+router.post('/workflow/:workflowRunId/retry-failed',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.JOBS_CREATE),
+  validateJobRetryPayload,
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await jobService.retryFailedJobs(req.params.workflowRunId, req.user!.clientSlug, { force: req.body.force });
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Workflow run not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error retrying workflow jobs:', error);
+      res.status(error instanceof JobStateError ? 409 : 500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to retry workflow jobs',
+      });
+    }
+  }
+);
+
+// Cancel every job of a workflow run that has not started
+router.post('/workflow/:workflowRunId/cancel-pending',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.JOBS_DELETE),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await jobService.cancelPendingJobs(req.params.workflowRunId, req.user!.clientSlug);
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Workflow run not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error cancelling workflow jobs:', error);
+      res.status(error instanceof JobStateError ? 409 : 500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to cancel workflow jobs',
+      });
+    }
+  }
+);
+
+// Cancel a job; running jobs are stopped by their worker
+router.post('/:jobId/cancel',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.JOBS_DELETE),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await jobService.cancelJob(req.params.jobId, req.user!.clientSlug);
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Job not found',
+        });
+      }
+
+      res.status(result.status === 'cancelling' ? 202 : 200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error cancelling job:', error);
+      res.status(error instanceof JobStateError ? 409 : 500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to cancel job',
+      });
+    }
+  }
+);
+
 // Delete job
 router.delete('/:jobId',
   defaultRateLimit,
@@ -63,7 +355,14 @@ router.delete('/:jobId',
   async (req: AuthenticatedRequest, res) => {
     try {
       const { jobId } = req.params;
-      const result = await jobService.deleteJob(jobId);
+      const result = await jobService.deleteJob(jobId, req.user!.clientSlug);
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Job not found',
+        });
+      }
       
       res.json({
         success: true,
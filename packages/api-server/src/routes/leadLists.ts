@@ -0,0 +1,224 @@
+import { Router } from 'express';
+import { LeadService } from '../services/leadService';
+import { authenticateApiKey, requirePermission, AuthenticatedRequest } from '../middleware/auth';
+import { defaultRateLimit } from '../middleware/rateLimiting';
+import { validateLeadListPayload, validateLeadListMembersPayload } from '../middleware/validation';
+import { API_PERMISSIONS } from '@linkedin-bot-suite/shared';
+
+const router: Router = Router();
+const leadService = new LeadService();
+
+// Create a list
+router.post('/',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.LEADS_MANAGE),
+  validateLeadListPayload,
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await leadService.createList(req.user!.clientSlug, req.body);
+
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error creating lead list:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create lead list',
+      });
+    }
+  }
+);
+
+// List the client's lists with their lead counts
+router.get('/',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.LEADS_READ),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await leadService.listLists(req.user!.clientSlug);
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error listing lead lists:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list lead lists',
+      });
+    }
+  }
+);
+
+// Get a list
+router.get('/:listId',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.LEADS_READ),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { listId } = req.params;
+      const result = await leadService.getList(listId, req.user!.clientSlug);
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Lead list not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error getting lead list:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get lead list',
+      });
+    }
+  }
+);
+
+// Delete a list (its leads are kept)
+router.delete('/:listId',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.LEADS_MANAGE),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { listId } = req.params;
+      const result = await leadService.deleteList(listId, req.user!.clientSlug);
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Lead list not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error deleting lead list:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete lead list',
+      });
+    }
+  }
+);
+
+// Search the leads of a list
+router.get('/:listId/leads',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.LEADS_READ),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { listId } = req.params;
+      const list = await leadService.getList(listId, req.user!.clientSlug);
+
+      if (!list) {
+        return res.status(404).json({
+          success: false,
+          error: 'Lead list not found',
+        });
+      }
+
+      const result = await leadService.listLeads(req.user!.clientSlug, {
+        listId,
+        q: req.query.q as string | undefined,
+        status: req.query.status as string | undefined,
+        tag: req.query.tag as string | undefined,
+        ownerAccountId: req.query.ownerAccountId as string | undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+        offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
+      });
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error listing list leads:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list leads',
+      });
+    }
+  }
+);
+
+// Add leads by id or profile URL
+router.post('/:listId/leads',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.LEADS_MANAGE),
+  validateLeadListMembersPayload,
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { listId } = req.params;
+      const result = await leadService.addListMembers(listId, req.user!.clientSlug, req.body);
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Lead list not found',
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error adding leads to list:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to add leads to list',
+      });
+    }
+  }
+);
+
+// Remove a lead from a list
+router.delete('/:listId/leads/:leadId',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.LEADS_MANAGE),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { listId, leadId } = req.params;
+      const result = await leadService.removeListMember(listId, leadId, req.user!.clientSlug);
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Lead not found in list',
+        });
+      }
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error removing lead from list:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to remove lead from list',
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,194 @@
+import { Router } from 'express';
+import { LeadService, LeadRequestError } from '../services/leadService';
+import { authenticateApiKey, requirePermission, AuthenticatedRequest } from '../middleware/auth';
+import { defaultRateLimit } from '../middleware/rateLimiting';
+import { validateLeadPayload, validateLeadImportPayload, validateLeadUpdatePayload } from '../middleware/validation';
+import { API_PERMISSIONS } from '@linkedin-bot-suite/shared';
+
+const router: Router = Router();
+const leadService = new LeadService();
+
+// Create a lead, or update the stored lead of the same profile
+router.post('/',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.LEADS_MANAGE),
+  validateLeadPayload,
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await leadService.importLeads(req.user!.clientSlug, [req.body]);
+
+      res.status(result!.created > 0 ? 201 : 200).json({
+        success: true,
+        data: result!.leads[0],
+      });
+    } catch (error) {
+      console.error('Error creating lead:', error);
+      res.status(error instanceof LeadRequestError ? 400 : 500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create lead',
+      });
+    }
+  }
+);
+
+// Create or update up to 1000 leads, optionally adding them to a list
+router.post('/import',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.LEADS_MANAGE),
+  validateLeadImportPayload,
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await leadService.importLeads(req.user!.clientSlug, req.body.leads, {
+        listId: req.body.listId,
+        source: 'import',
+      });
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Lead list not found',
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error importing leads:', error);
+      res.status(error instanceof LeadRequestError ? 400 : 500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to import leads',
+      });
+    }
+  }
+);
+
+// Search leads
+router.get('/',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.LEADS_READ),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await leadService.listLeads(req.user!.clientSlug, {
+        q: req.query.q as string | undefined,
+        status: req.query.status as string | undefined,
+        tag: req.query.tag as string | undefined,
+        ownerAccountId: req.query.ownerAccountId as string | undefined,
+        listId: req.query.listId as string | undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+        offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
+      });
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error listing leads:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list leads',
+      });
+    }
+  }
+);
+
+// Get a lead
+router.get('/:leadId',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.LEADS_READ),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { leadId } = req.params;
+      const result = await leadService.getLead(leadId, req.user!.clientSlug);
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Lead not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error getting lead:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get lead',
+      });
+    }
+  }
+);
+
+// Update a lead's status, tags, owner or enrichment data
+router.patch('/:leadId',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.LEADS_MANAGE),
+  validateLeadUpdatePayload,
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { leadId } = req.params;
+      const result = await leadService.updateLead(leadId, req.user!.clientSlug, req.body);
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Lead not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error updating lead:', error);
+      res.status(error instanceof LeadRequestError ? 400 : 500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update lead',
+      });
+    }
+  }
+);
+
+// Delete a lead
+router.delete('/:leadId',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.LEADS_MANAGE),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { leadId } = req.params;
+      const result = await leadService.deleteLead(leadId, req.user!.clientSlug);
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Lead not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error deleting lead:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete lead',
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,186 @@
+import { Router } from 'express';
+import { ProxyService } from '../services/proxyService';
+import { authenticateApiKey, requirePermission, AuthenticatedRequest } from '../middleware/auth';
+import { defaultRateLimit } from '../middleware/rateLimiting';
+import { validateProxyPayload, validateProxyUpdatePayload } from '../middleware/validation';
+import { API_PERMISSIONS } from '@linkedin-bot-suite/shared';
+
+const router: Router = Router();
+const proxyService = new ProxyService();
+
+// List the client's proxies with their health and number of accounts
+router.get('/',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.ACCOUNTS_READ),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await proxyService.listProxies(req.user!.clientSlug, {
+        status: req.query.status as string | undefined,
+        region: req.query.region as string | undefined,
+      });
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error listing proxies:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list proxies',
+      });
+    }
+  }
+);
+
+// Add a proxy to the client's rotation
+router.post('/',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.ACCOUNTS_MANAGE),
+  validateProxyPayload,
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await proxyService.createProxy(req.user!.clientSlug, req.body);
+
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error creating proxy:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create proxy',
+      });
+    }
+  }
+);
+
+// Get a single proxy
+router.get('/:proxyId',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.ACCOUNTS_READ),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { proxyId } = req.params;
+      const result = await proxyService.getProxy(proxyId, req.user!.clientSlug);
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Proxy not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error getting proxy:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get proxy',
+      });
+    }
+  }
+);
+
+// Change a proxy's address, credentials or region, or disable / re-enable it
+router.patch('/:proxyId',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.ACCOUNTS_MANAGE),
+  validateProxyUpdatePayload,
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { proxyId } = req.params;
+      const result = await proxyService.updateProxy(proxyId, req.user!.clientSlug, req.body);
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Proxy not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error updating proxy:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update proxy',
+      });
+    }
+  }
+);
+
+// Run the health check for one proxy now
+router.post('/:proxyId/check',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.ACCOUNTS_MANAGE),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { proxyId } = req.params;
+      const result = await proxyService.checkProxy(proxyId, req.user!.clientSlug);
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Proxy not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error checking proxy:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to check proxy',
+      });
+    }
+  }
+);
+
+// Remove a proxy; its accounts get another one on their next job
+router.delete('/:proxyId',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.ACCOUNTS_MANAGE),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { proxyId } = req.params;
+      const result = await proxyService.deleteProxy(proxyId, req.user!.clientSlug);
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Proxy not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error deleting proxy:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete proxy',
+      });
+    }
+  }
+);
+
+export default router;
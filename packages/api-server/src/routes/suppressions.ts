@@ -0,0 +1,124 @@
+import express, { Router } from 'express';
+import { SuppressionService, SuppressionRequestError } from '../services/suppressionService';
+import { authenticateApiKey, requirePermission, AuthenticatedRequest } from '../middleware/auth';
+import { defaultRateLimit } from '../middleware/rateLimiting';
+import { validateSuppressionPayload } from '../middleware/validation';
+import { API_PERMISSIONS } from '@linkedin-bot-suite/shared';
+
+const router: Router = Router();
+const suppressionService = new SuppressionService();
+
+// List the client's do-not-contact entries
+router.get('/',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.SUPPRESSIONS_READ),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await suppressionService.listEntries(req.user!.clientSlug, {
+        type: req.query.type as string | undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+        offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
+      });
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error listing suppression entries:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list suppression entries',
+      });
+    }
+  }
+);
+
+// Add entries
+router.post('/',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.SUPPRESSIONS_MANAGE),
+  validateSuppressionPayload,
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await suppressionService.addEntries(req.user!.clientSlug, req.body.entries);
+
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error adding suppression entries:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to add suppression entries',
+      });
+    }
+  }
+);
+
+// Bulk upload from a CSV body (type,value,reason)
+router.post('/import',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.SUPPRESSIONS_MANAGE),
+  express.text({ type: ['text/csv', 'text/plain'], limit: '5mb' }),
+  async (req: AuthenticatedRequest, res) => {
+    if (typeof req.body !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Send the CSV as the request body with Content-Type text/csv',
+      });
+    }
+
+    try {
+      const result = await suppressionService.importCsv(req.user!.clientSlug, req.body);
+
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error importing suppression entries:', error);
+      res.status(error instanceof SuppressionRequestError ? 400 : 500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to import suppression entries',
+      });
+    }
+  }
+);
+
+// Remove an entry
+router.delete('/:entryId',
+  defaultRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.SUPPRESSIONS_MANAGE),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const { entryId } = req.params;
+      const result = await suppressionService.deleteEntry(req.user!.clientSlug, entryId);
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Suppression entry not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error deleting suppression entry:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete suppression entry',
+      });
+    }
+  }
+);
+
+export default router;
@@ -1,8 +1,14 @@
 import { Router } from 'express';
-import { JobService } from '../services/jobService';
+import { JobService, CsvImportError, WorkflowRunError } from '../services/jobService';
+import { DuplicateContactError } from '../services/contactService';
+import { SuppressedContactError } from '../services/suppressionService';
+import { IdempotencyKeyError } from '../services/idempotencyService';
+import { LeadRequestError } from '../services/leadService';
 import { WebhookService } from '../services/webhookService';
 import { authenticateApiKey, requirePermission, AuthenticatedRequest } from '../middleware/auth';
-import { validateJobPayload, validateBulkJobPayload } from '../middleware/validation';
+import { validateJobPayload, validateBulkJobPayload, validateCsvImportPayload } from '../middleware/validation';
+import { uploadCsvFile } from '../middleware/upload';
+import { idempotentRequest } from '../middleware/idempotency';
 import { webhookRateLimit, bulkRateLimit } from '../middleware/rateLimiting';
 import { API_PERMISSIONS } from '@linkedin-bot-suite/shared';
 
@@ -10,22 +16,31 @@ const router: Router = Router();
 const jobService = new JobService();
 const webhookService = new WebhookService();
 
+const jobErrorStatus = (error: unknown) => {
+  if (error instanceof DuplicateContactError) return 409;
+  if (error instanceof SuppressedContactError) return 422;
+  if (error instanceof IdempotencyKeyError) return error.statusCode;
+  if (error instanceof WorkflowRunError) return 400;
+  return 500;
+};
+
 // n8n webhook endpoint for single job
 router.post('/linkedin/invite',
   webhookRateLimit,
   authenticateApiKey,
   requirePermission(API_PERMISSIONS.JOBS_CREATE),
   validateJobPayload,
+  idempotentRequest,
   async (req: AuthenticatedRequest, res) => {
     try {
-      const result = await jobService.createJob(req.body, req.user!.clientSlug);
+      const result = await jobService.createJob(req.body, req.user!.clientSlug, req.user!.id);
       res.status(201).json({
         success: true,
         data: result,
       });
     } catch (error) {
       console.error('Error creating job:', error);
-      res.status(500).json({
+      res.status(jobErrorStatus(error)).json({
         success: false,
         error: error instanceof Error ? error.message : 'Failed to create job',
       });
@@ -39,16 +54,17 @@ router.post('/linkedin/message',
   authenticateApiKey,
   requirePermission(API_PERMISSIONS.JOBS_CREATE),
   validateJobPayload,
+  idempotentRequest,
   async (req: AuthenticatedRequest, res) => {
     try {
-      const result = await jobService.createJob(req.body, req.user!.clientSlug);
+      const result = await jobService.createJob(req.body, req.user!.clientSlug, req.user!.id);
       res.status(201).json({
         success: true,
         data: result,
       });
     } catch (error) {
       console.error('Error creating message job:', error);
-      res.status(500).json({
+      res.status(jobErrorStatus(error)).json({
         success: false,
         error: error instanceof Error ? error.message : 'Failed to create message job',
       });
@@ -62,16 +78,17 @@ router.post('/linkedin/profile-view',
   authenticateApiKey,
   requirePermission(API_PERMISSIONS.JOBS_CREATE),
   validateJobPayload,
+  idempotentRequest,
   async (req: AuthenticatedRequest, res) => {
     try {
-      const result = await jobService.createJob(req.body, req.user!.clientSlug);
+      const result = await jobService.createJob(req.body, req.user!.clientSlug, req.user!.id);
       res.status(201).json({
         success: true,
         data: result,
       });
     } catch (error) {
       console.error('Error creating profile view job:', error);
-      res.status(500).json({
+      res.status(jobErrorStatus(error)).json({
         success: false,
         error: error instanceof Error ? error.message : 'Failed to create profile view job',
       });
@@ -79,15 +96,157 @@ router.post('/linkedin/profile-view',
   }
 );
 
+// n8n webhook endpoint for connection state checks
+router.post('/linkedin/check-connection',
+  webhookRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.JOBS_CREATE),
+  validateJobPayload,
+  idempotentRequest,
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await jobService.createJob(req.body, req.user!.clientSlug, req.user!.id);
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error creating connection check job:', error);
+      res.status(jobErrorStatus(error)).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create connection check job',
+      });
+    }
+  }
+);
+
+// n8n webhook endpoint for withdrawing pending invitations
+router.post('/linkedin/withdraw-invitation',
+  webhookRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.JOBS_CREATE),
+  validateJobPayload,
+  idempotentRequest,
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await jobService.createJob(req.body, req.user!.clientSlug, req.user!.id);
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error creating withdraw invitation job:', error);
+      res.status(jobErrorStatus(error)).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create withdraw invitation job',
+      });
+    }
+  }
+);
+
+// n8n webhook endpoint for inbox sync
+router.post('/linkedin/sync-inbox',
+  webhookRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.JOBS_CREATE),
+  validateJobPayload,
+  idempotentRequest,
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await jobService.createJob(req.body, req.user!.clientSlug, req.user!.id);
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error creating inbox sync job:', error);
+      res.status(jobErrorStatus(error)).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create inbox sync job',
+      });
+    }
+  }
+);
+
+// n8n webhook endpoint for replying in an existing conversation
+router.post('/linkedin/reply-in-thread',
+  webhookRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.JOBS_CREATE),
+  validateJobPayload,
+  idempotentRequest,
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await jobService.createJob(req.body, req.user!.clientSlug, req.user!.id);
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error creating thread reply job:', error);
+      res.status(jobErrorStatus(error)).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create thread reply job',
+      });
+    }
+  }
+);
+
+// n8n webhook endpoint for scraping a people search into leads
+router.post('/linkedin/search-scrape',
+  webhookRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.JOBS_CREATE),
+  validateJobPayload,
+  idempotentRequest,
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await jobService.createJob(req.body, req.user!.clientSlug, req.user!.id);
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error creating search scrape job:', error);
+      res.status(jobErrorStatus(error)).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create search scrape job',
+      });
+    }
+  }
+);
+
 // n8n webhook endpoint for bulk jobs
 router.post('/linkedin/bulk',
   bulkRateLimit,
   authenticateApiKey,
   requirePermission(API_PERMISSIONS.JOBS_CREATE),
   validateBulkJobPayload,
+  idempotentRequest,
   async (req: AuthenticatedRequest, res) => {
     try {
-      const { jobs, workflowId, n8nWebhookUrl } = req.body;
+      const { jobs, listId, job, leadStatus, workflowId, n8nWebhookUrl } = req.body;
+
+      if (listId) {
+        const listResult = await jobService.createListJobs(
+          listId,
+          { ...job, n8nWebhookUrl: n8nWebhookUrl || job.n8nWebhookUrl },
+          req.user!.clientSlug,
+          { leadStatus, workflowId, apiKeyId: req.user!.id }
+        );
+
+        if (!listResult) {
+          return res.status(404).json({
+            success: false,
+            error: 'Lead list not found',
+          });
+        }
+
+        return res.status(201).json({
+          success: true,
+          data: listResult,
+        });
+      }
       
       // Add webhook URL to each job if provided
       const enhancedJobs = jobs.map((job: any) => ({
@@ -98,7 +257,8 @@ router.post('/linkedin/bulk',
       const result = await jobService.createBulkJobs(
         enhancedJobs,
         req.user!.clientSlug,
-        workflowId
+        workflowId,
+        req.user!.id
       );
 
       res.status(201).json({
@@ -107,7 +267,7 @@ router.post('/linkedin/bulk',
       });
     } catch (error) {
       console.error('Error creating bulk jobs:', error);
-      res.status(500).json({
+      res.status(error instanceof LeadRequestError || error instanceof WorkflowRunError ? 400 : 500).json({
         success: false,
         error: error instanceof Error ? error.message : 'Failed to create bulk jobs',
       });
@@ -115,6 +275,43 @@ router.post('/linkedin/bulk',
   }
 );
 
+// Bulk jobs from an uploaded CSV (multipart: file, type, mapping and job defaults)
+router.post('/linkedin/bulk/csv',
+  bulkRateLimit,
+  authenticateApiKey,
+  requirePermission(API_PERMISSIONS.JOBS_CREATE),
+  uploadCsvFile,
+  validateCsvImportPayload,
+  idempotentRequest,
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await jobService.createCsvJobs(
+        req.file!.buffer.toString('utf8'),
+        req.body,
+        req.user!.clientSlug
+      );
+
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Error importing CSV jobs:', error);
+      if (error instanceof CsvImportError) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+          errors: error.rowErrors,
+        });
+      }
+      res.status(error instanceof WorkflowRunError ? 400 : 500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to import CSV jobs',
+      });
+    }
+  }
+);
+
 // Webhook endpoint for job status updates (called by workers)
 router.post('/status',
   webhookRateLimit,
@@ -124,7 +321,14 @@ router.post('/status',
     try {
       const { jobId, success, result, error } = req.body;
       
-      await webhookService.processJobCompletion(jobId, success, result, error);
+      const processed = await webhookService.processJobCompletion(jobId, req.user!.clientSlug, success, result, error);
+
+      if (!processed) {
+        return res.status(404).json({
+          success: false,
+          error: 'Job not found',
+        });
+      }
       
       res.status(200).json({
         success: true,
@@ -0,0 +1,147 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { Queue } from 'bullmq';
+import { CONFIG } from '../config';
+import { ACCOUNT_QUOTAS, getAccountQuotaUsage, getQuotaRedisKey } from '@linkedin-bot-suite/shared';
+
+let supabase: SupabaseClient | null = null;
+
+function getSupabaseClient(): SupabaseClient {
+  if (!supabase) {
+    if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE ||
+        process.env.SUPABASE_URL === 'https://placeholder.supabase.co') {
+      throw new Error('Supabase credentials not configured. Please set SUPABASE_URL and SUPABASE_SERVICE_ROLE in Render dashboard.');
+    }
+    supabase = createClient(CONFIG.supabase.url, CONFIG.supabase.serviceRoleKey);
+  }
+  return supabase;
+}
+
+// cookies_url and proxy may embed credentials, so they are never returned
+const PUBLIC_ACCOUNT_COLUMNS = [
+  'id',
+  'client_slug',
+  'proxy_id',
+  'daily_limit',
+  'weekly_invite_limit',
+  'daily_message_limit',
+  'daily_profile_view_limit',
+  'invites_sent',
+  'invites_sent_week',
+  'messages_sent',
+  'profile_views',
+  'last_activity_at',
+  'is_active',
+  'created_at',
+  'updated_at',
+].join(', ');
+
+export class AccountService {
+  private queue: Queue | null = null;
+
+  // Quota windows live in the queue's Redis, so reuse its connection
+  private getQueue(): Queue {
+    if (!this.queue) {
+      this.queue = new Queue(CONFIG.bullmq.queueName, {
+        connection: { url: CONFIG.redis.url },
+        prefix: CONFIG.bullmq.prefix,
+      });
+    }
+    return this.queue;
+  }
+
+  /**
+   * Count the reservations inside each quota window, the same sorted sets the
+   * worker reserves from. Falls back to the stored counters when Redis fails.
+   */
+  private async getWindowCounts(accountIds: string[]): Promise<Map<string, Record<string, number>>> {
+    const counts = new Map<string, Record<string, number>>();
+    if (accountIds.length === 0) return counts;
+
+    try {
+      const now = Date.now();
+      const quotas = Object.values(ACCOUNT_QUOTAS);
+      const pipeline = (await this.getQueue().client).pipeline();
+
+      for (const accountId of accountIds) {
+        for (const quota of quotas) {
+          pipeline.zcount(getQuotaRedisKey(CONFIG.bullmq.prefix, accountId, quota.key), now - quota.windowMs, '+inf');
+        }
+      }
+
+      const results = (await pipeline.exec()) ?? [];
+      accountIds.forEach((accountId, accountIndex) => {
+        const accountCounts: Record<string, number> = {};
+        quotas.forEach((quota, quotaIndex) => {
+          const [error, count] = results[accountIndex * quotas.length + quotaIndex] ?? [];
+          if (!error) {
+            accountCounts[quota.key] = Number(count) || 0;
+          }
+        });
+        counts.set(accountId, accountCounts);
+      });
+    } catch (error) {
+      console.error('Error reading account quota windows:', error);
+    }
+
+    return counts;
+  }
+
+  private formatAccount(account: any, windowCounts?: Record<string, number>) {
+    return {
+      id: account.id,
+      clientSlug: account.client_slug,
+      isActive: account.is_active,
+      proxyId: account.proxy_id ?? null,
+      lastActivityAt: account.last_activity_at,
+      createdAt: account.created_at,
+      updatedAt: account.updated_at,
+      quotas: getAccountQuotaUsage(account, windowCounts),
+    };
+  }
+
+  async listAccounts(clientSlug: string) {
+    const { data: accounts, error } = await getSupabaseClient()
+      .from('linkedin_accounts')
+      .select(PUBLIC_ACCOUNT_COLUMNS)
+      .eq('client_slug', clientSlug)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to list accounts: ${error.message}`);
+    }
+
+    const rows: any[] = accounts || [];
+    const windowCounts = await this.getWindowCounts(rows.map(account => account.id));
+    return rows.map(account => this.formatAccount(account, windowCounts.get(account.id)));
+  }
+
+  async getAccount(accountId: string, clientSlug: string) {
+    const { data: account } = await getSupabaseClient()
+      .from('linkedin_accounts')
+      .select(PUBLIC_ACCOUNT_COLUMNS)
+      .eq('id', accountId)
+      .eq('client_slug', clientSlug)
+      .single();
+
+    if (!account) return null;
+
+    const windowCounts = await this.getWindowCounts([(account as any).id]);
+    return this.formatAccount(account, windowCounts.get((account as any).id));
+  }
+
+  /**
+   * Active accounts across all clients, for scheduled maintenance jobs
+   */
+  async listActiveAccounts(): Promise<Array<{ id: string; clientSlug: string }>> {
+    const { data: accounts, error } = await getSupabaseClient()
+      .from('linkedin_accounts')
+      .select('id, client_slug')
+      .eq('is_active', true);
+
+    if (error) {
+      throw new Error(`Failed to list active accounts: ${error.message}`);
+    }
+
+    return (accounts || []).map(account => ({ id: account.id, clientSlug: account.client_slug }));
+  }
+}
\ No newline at end of file
@@ -0,0 +1,349 @@
+import { Queue } from 'bullmq';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { CONFIG } from '../config';
+import {
+  CampaignStep,
+  CampaignStepJob,
+  CAMPAIGN_STATUS,
+  ENROLLMENT_STATUS,
+  DEFAULT_JOB_OPTIONS,
+  JOB_TYPES,
+  getCampaignStepDelayMs,
+  campaignStepJobId,
+} from '@linkedin-bot-suite/shared';
+import { v4 as uuidv4 } from 'uuid';
+
+let supabase: SupabaseClient | null = null;
+
+function getSupabaseClient(): SupabaseClient {
+  if (!supabase) {
+    if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE ||
+        process.env.SUPABASE_URL === 'https://placeholder.supabase.co') {
+      throw new Error('Supabase credentials not configured. Please set SUPABASE_URL and SUPABASE_SERVICE_ROLE in Render dashboard.');
+    }
+    supabase = createClient(CONFIG.supabase.url, CONFIG.supabase.serviceRoleKey);
+  }
+  return supabase;
+}
+
+// Raised for requests that conflict with the campaign's state; routes answer 400
+export class CampaignRequestError extends Error {}
+
+export interface CreateCampaignInput {
+  name: string;
+  accountId?: string;
+  steps: CampaignStep[];
+  n8nWebhookUrl?: string;
+}
+
+export class CampaignService {
+  private queue: Queue | null = null;
+
+  private getQueue(): Queue {
+    if (!this.queue) {
+      this.queue = new Queue(CONFIG.bullmq.queueName, {
+        connection: { url: CONFIG.redis.url },
+        prefix: CONFIG.bullmq.prefix,
+      });
+    }
+    return this.queue;
+  }
+
+  private formatCampaign(campaign: any) {
+    return {
+      id: campaign.id,
+      name: campaign.name,
+      status: campaign.status,
+      accountId: campaign.account_id,
+      steps: campaign.steps,
+      n8nWebhookUrl: campaign.n8n_webhook_url,
+      createdAt: campaign.created_at,
+      updatedAt: campaign.updated_at,
+    };
+  }
+
+  private formatEnrollment(enrollment: any) {
+    return {
+      id: enrollment.id,
+      campaignId: enrollment.campaign_id,
+      profileUrl: enrollment.profile_url,
+      status: enrollment.status,
+      currentStep: enrollment.current_step,
+      connectionStatus: enrollment.connection_status,
+      repliedAt: enrollment.replied_at,
+      waitingUntil: enrollment.waiting_until,
+      lastJobId: enrollment.last_job_id,
+      stopReason: enrollment.stop_reason,
+      error: enrollment.error_message,
+      enrolledAt: enrollment.enrolled_at,
+      updatedAt: enrollment.updated_at,
+      completedAt: enrollment.completed_at,
+    };
+  }
+
+  private async findCampaign(campaignId: string, clientSlug: string) {
+    const { data: campaign } = await getSupabaseClient()
+      .from('campaigns')
+      .select('*')
+      .eq('id', campaignId)
+      .eq('client_slug', clientSlug)
+      .single();
+
+    return campaign;
+  }
+
+  async createCampaign(input: CreateCampaignInput, clientSlug: string) {
+    if (input.accountId) {
+      const { data: account } = await getSupabaseClient()
+        .from('linkedin_accounts')
+        .select('id')
+        .eq('id', input.accountId)
+        .eq('client_slug', clientSlug)
+        .single();
+
+      if (!account) {
+        throw new CampaignRequestError(`LinkedIn account ${input.accountId} not found`);
+      }
+    }
+
+    const now = new Date().toISOString();
+    const { data: campaign, error } = await getSupabaseClient()
+      .from('campaigns')
+      .insert({
+        id: uuidv4(),
+        client_slug: clientSlug,
+        name: input.name,
+        account_id: input.accountId,
+        status: CAMPAIGN_STATUS.ACTIVE,
+        steps: input.steps,
+        n8n_webhook_url: input.n8nWebhookUrl,
+        created_at: now,
+        updated_at: now,
+      })
+      .select('*')
+      .single();
+
+    if (error || !campaign) {
+      throw new Error(`Failed to create campaign: ${error?.message || 'Unknown error'}`);
+    }
+
+    return this.formatCampaign(campaign);
+  }
+
+  async listCampaigns(clientSlug: string) {
+    const { data: campaigns, error } = await getSupabaseClient()
+      .from('campaigns')
+      .select('*')
+      .eq('client_slug', clientSlug)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to list campaigns: ${error.message}`);
+    }
+
+    return (campaigns || []).map(campaign => this.formatCampaign(campaign));
+  }
+
+  async getCampaign(campaignId: string, clientSlug: string) {
+    const campaign = await this.findCampaign(campaignId, clientSlug);
+    if (!campaign) {
+      return null;
+    }
+
+    const { data: enrollments } = await getSupabaseClient()
+      .from('campaign_enrollments')
+      .select('status')
+      .eq('campaign_id', campaignId);
+
+    const enrollmentStats: Record<string, number> = { total: enrollments?.length || 0 };
+    for (const status of Object.values(ENROLLMENT_STATUS)) {
+      enrollmentStats[status] = enrollments?.filter(e => e.status === status).length || 0;
+    }
+
+    return {
+      ...this.formatCampaign(campaign),
+      enrollments: enrollmentStats,
+    };
+  }
+
+  /**
+   * Pause or resume a campaign. Steps of a paused campaign stay queued and
+   * re-check periodically, so resuming needs no re-scheduling.
+   */
+  async setCampaignStatus(campaignId: string, clientSlug: string, status: 'active' | 'paused') {
+    const campaign = await this.findCampaign(campaignId, clientSlug);
+    if (!campaign) {
+      return null;
+    }
+
+    if (campaign.status === CAMPAIGN_STATUS.ARCHIVED) {
+      throw new CampaignRequestError('Archived campaigns cannot be changed');
+    }
+
+    const { data: updated, error } = await getSupabaseClient()
+      .from('campaigns')
+      .update({ status, updated_at: new Date().toISOString() })
+      .eq('id', campaignId)
+      .select('*')
+      .single();
+
+    if (error || !updated) {
+      throw new Error(`Failed to update campaign: ${error?.message || 'Unknown error'}`);
+    }
+
+    return this.formatCampaign(updated);
+  }
+
+  /**
+   * Enroll leads and queue their first step. Profiles already enrolled in the
+   * campaign are skipped.
+   */
+  async enrollProfiles(campaignId: string, clientSlug: string, profileUrls: string[]) {
+    const campaign = await this.findCampaign(campaignId, clientSlug);
+    if (!campaign) {
+      return null;
+    }
+
+    if (campaign.status === CAMPAIGN_STATUS.ARCHIVED) {
+      throw new CampaignRequestError('Cannot enroll leads in an archived campaign');
+    }
+
+    const uniqueUrls = Array.from(new Set(profileUrls));
+    const { data: existing } = await getSupabaseClient()
+      .from('campaign_enrollments')
+      .select('profile_url')
+      .eq('campaign_id', campaignId)
+      .in('profile_url', uniqueUrls);
+
+    const alreadyEnrolled = new Set((existing || []).map(e => e.profile_url));
+    const now = new Date().toISOString();
+    const rows = uniqueUrls
+      .filter(url => !alreadyEnrolled.has(url))
+      .map(profileUrl => ({
+        id: uuidv4(),
+        campaign_id: campaignId,
+        profile_url: profileUrl,
+        status: ENROLLMENT_STATUS.ACTIVE,
+        current_step: 0,
+        connection_status: 'unknown',
+        enrolled_at: now,
+        updated_at: now,
+      }));
+
+    if (rows.length > 0) {
+      const { error } = await getSupabaseClient().from('campaign_enrollments').insert(rows);
+      if (error) {
+        throw new Error(`Failed to enroll leads: ${error.message}`);
+      }
+    }
+
+    const firstStepDelay = getCampaignStepDelayMs(campaign.steps[0]);
+    const results = [];
+
+    for (const row of rows) {
+      const stepJob: CampaignStepJob = {
+        type: 'campaign_step',
+        campaignId,
+        enrollmentId: row.id,
+        stepIndex: 0,
+        profileUrl: row.profile_url,
+        accountId: campaign.account_id,
+        clientSlug,
+      };
+
+      try {
+        await this.getQueue().add(JOB_TYPES.CAMPAIGN_STEP, stepJob, {
+          ...DEFAULT_JOB_OPTIONS,
+          delay: firstStepDelay,
+          jobId: campaignStepJobId(row.id, 0),
+        });
+        results.push({ enrollmentId: row.id, profileUrl: row.profile_url });
+      } catch (error) {
+        results.push({
+          profileUrl: row.profile_url,
+          error: error instanceof Error ? error.message : 'Failed to queue first step',
+        });
+      }
+    }
+
+    return {
+      campaignId,
+      enrolled: results.filter(r => !('error' in r)).length,
+      skipped: uniqueUrls.length - rows.length,
+      failed: results.filter(r => 'error' in r).length,
+      enrollments: results,
+    };
+  }
+
+  async listEnrollments(campaignId: string, clientSlug: string, options: { status?: string; limit?: number; offset?: number } = {}) {
+    const campaign = await this.findCampaign(campaignId, clientSlug);
+    if (!campaign) {
+      return null;
+    }
+
+    const limit = Math.min(options.limit || 50, 200);
+    const offset = options.offset || 0;
+
+    let query = getSupabaseClient()
+      .from('campaign_enrollments')
+      .select('*')
+      .eq('campaign_id', campaignId)
+      .order('enrolled_at', { ascending: true })
+      .range(offset, offset + limit - 1);
+
+    if (options.status) {
+      query = query.eq('status', options.status);
+    }
+
+    const { data: enrollments, error } = await query;
+    if (error) {
+      throw new Error(`Failed to list enrollments: ${error.message}`);
+    }
+
+    return (enrollments || []).map(enrollment => this.formatEnrollment(enrollment));
+  }
+
+  /**
+   * Record an outside signal for an enrollment. A connection accepted while
+   * the lead is waiting wakes its wait_for_acceptance step immediately.
+   */
+  async recordEnrollmentEvent(campaignId: string, enrollmentId: string, clientSlug: string, event: 'connected' | 'replied') {
+    const campaign = await this.findCampaign(campaignId, clientSlug);
+    if (!campaign) {
+      return null;
+    }
+
+    const updateData: any = { updated_at: new Date().toISOString() };
+    if (event === 'connected') {
+      updateData.connection_status = 'connected';
+    } else {
+      updateData.replied_at = new Date().toISOString();
+    }
+
+    const { data: enrollment } = await getSupabaseClient()
+      .from('campaign_enrollments')
+      .update(updateData)
+      .eq('id', enrollmentId)
+      .eq('campaign_id', campaignId)
+      .select('*')
+      .single();
+
+    if (!enrollment) {
+      return null;
+    }
+
+    if (event === 'connected' && enrollment.status === ENROLLMENT_STATUS.WAITING) {
+      try {
+        const job = await this.getQueue().getJob(campaignStepJobId(enrollment.id, enrollment.current_step));
+        if (job && await job.isDelayed()) {
+          await job.promote();
+        }
+      } catch (error) {
+        // The next poll picks the connection up anyway
+        console.warn(`Could not promote waiting step for enrollment ${enrollment.id}:`, error);
+      }
+    }
+
+    return this.formatEnrollment(enrollment);
+  }
+}
@@ -0,0 +1,96 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { CONFIG } from '../config';
+import { CONTACT_STATUS } from '@linkedin-bot-suite/shared';
+
+let supabase: SupabaseClient | null = null;
+
+function getSupabaseClient(): SupabaseClient {
+  if (!supabase) {
+    if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE ||
+        process.env.SUPABASE_URL === 'https://placeholder.supabase.co') {
+      throw new Error('Supabase credentials not configured. Please set SUPABASE_URL and SUPABASE_SERVICE_ROLE in Render dashboard.');
+    }
+    supabase = createClient(CONFIG.supabase.url, CONFIG.supabase.serviceRoleKey);
+  }
+  return supabase;
+}
+
+// Jobs without an accountId run on the global session
+const GLOBAL_ACCOUNT_KEY = '';
+
+// Raised for jobs with duplicatePolicy "fail" whose profile was already contacted; routes answer 409
+export class DuplicateContactError extends Error {
+  constructor(message: string, public readonly duplicateJobId: string) {
+    super(message);
+  }
+}
+
+export class ContactService {
+  /**
+   * Another job of the account that contacted the profile or is queued to
+   */
+  async findDuplicate(clientSlug: string, accountId: string | undefined, profileUrl: string, action: string) {
+    const { data: entry, error } = await getSupabaseClient()
+      .from('contact_registry')
+      .select('job_id, status, contacted_at')
+      .eq('client_slug', clientSlug)
+      .eq('account_id', accountId || GLOBAL_ACCOUNT_KEY)
+      .eq('profile_url', profileUrl)
+      .eq('action', action)
+      .in('status', [CONTACT_STATUS.QUEUED, CONTACT_STATUS.IN_PROGRESS, CONTACT_STATUS.CONTACTED])
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to check contact registry: ${error.message}`);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Record a queued contact job so later jobs for the same profile see it
+   */
+  async registerQueued(clientSlug: string, accountId: string | undefined, profileUrl: string, action: string, jobId: string) {
+    const now = new Date().toISOString();
+    const { error } = await getSupabaseClient()
+      .from('contact_registry')
+      .insert({
+        client_slug: clientSlug,
+        account_id: accountId || GLOBAL_ACCOUNT_KEY,
+        profile_url: profileUrl,
+        action,
+        job_id: jobId,
+        status: CONTACT_STATUS.QUEUED,
+        created_at: now,
+        updated_at: now,
+      });
+
+    if (error) {
+      throw new Error(`Failed to register contact: ${error.message}`);
+    }
+  }
+
+  /**
+   * Mark the entry of a failed job queued again when the job is retried
+   */
+  async requeue(jobId: string) {
+    await getSupabaseClient()
+      .from('contact_registry')
+      .update({ status: CONTACT_STATUS.QUEUED, updated_at: new Date().toISOString() })
+      .eq('job_id', jobId)
+      .eq('status', CONTACT_STATUS.FAILED);
+  }
+
+  /**
+   * Drop the entry of a deleted job that never contacted the profile
+   */
+  async removeQueued(jobId: string) {
+    await getSupabaseClient()
+      .from('contact_registry')
+      .delete()
+      .eq('job_id', jobId)
+      .eq('status', CONTACT_STATUS.QUEUED);
+  }
+}
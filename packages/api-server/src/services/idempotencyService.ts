@@ -0,0 +1,135 @@
+import { createHash } from 'crypto';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { CONFIG } from '../config';
+import { IDEMPOTENCY_DEFAULTS } from '@linkedin-bot-suite/shared';
+
+let supabase: SupabaseClient | null = null;
+
+function getSupabaseClient(): SupabaseClient {
+  if (!supabase) {
+    if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE ||
+        process.env.SUPABASE_URL === 'https://placeholder.supabase.co') {
+      throw new Error('Supabase credentials not configured. Please set SUPABASE_URL and SUPABASE_SERVICE_ROLE in Render dashboard.');
+    }
+    supabase = createClient(CONFIG.supabase.url, CONFIG.supabase.serviceRoleKey);
+  }
+  return supabase;
+}
+
+// Raised when a key is reused for another payload (422) or while its first request still runs (409)
+export class IdempotencyKeyError extends Error {
+  constructor(message: string, public readonly statusCode: 409 | 422) {
+    super(message);
+  }
+}
+
+export type IdempotencyClaim =
+  | { replay: false }
+  | { replay: true; responseStatus: number; responseBody: any };
+
+export const hashIdempotentPayload = (payload: unknown): string =>
+  createHash('sha256').update(JSON.stringify(payload) ?? '').digest('hex');
+
+export class IdempotencyService {
+  /**
+   * Claim a key for a request. A key already completed within the retention
+   * window returns its stored response instead; expired keys and claims
+   * abandoned mid-request are released and claimed again.
+   */
+  async claim(apiKeyId: string, key: string, requestHash: string, attempt: number = 0): Promise<IdempotencyClaim> {
+    const now = Date.now();
+    const { error } = await getSupabaseClient()
+      .from('idempotency_keys')
+      .insert({
+        api_key_id: apiKeyId,
+        key,
+        request_hash: requestHash,
+        status: 'processing',
+        created_at: new Date(now).toISOString(),
+        expires_at: new Date(now + CONFIG.idempotency.retentionHours * 60 * 60 * 1000).toISOString(),
+      });
+
+    if (!error) {
+      return { replay: false };
+    }
+    if (error.code !== '23505' || attempt > 0) {
+      throw new Error(`Failed to claim idempotency key: ${error.message}`);
+    }
+
+    const { data: existing, error: selectError } = await getSupabaseClient()
+      .from('idempotency_keys')
+      .select('id, request_hash, status, response_status, response_body, created_at, expires_at')
+      .eq('api_key_id', apiKeyId)
+      .eq('key', key)
+      .maybeSingle();
+
+    if (selectError) {
+      throw new Error(`Failed to load idempotency key: ${selectError.message}`);
+    }
+    if (!existing) {
+      return this.claim(apiKeyId, key, requestHash, attempt + 1);
+    }
+
+    const expired = new Date(existing.expires_at).getTime() <= now;
+    const abandoned = existing.status === 'processing' &&
+      now - new Date(existing.created_at).getTime() > IDEMPOTENCY_DEFAULTS.PROCESSING_TIMEOUT_MS;
+    if (expired || abandoned) {
+      await getSupabaseClient().from('idempotency_keys').delete().eq('id', existing.id);
+      return this.claim(apiKeyId, key, requestHash, attempt + 1);
+    }
+
+    if (existing.request_hash !== requestHash) {
+      throw new IdempotencyKeyError(`Idempotency key "${key}" was already used for a different request`, 422);
+    }
+    if (existing.status === 'processing') {
+      throw new IdempotencyKeyError(`A request with idempotency key "${key}" is still being processed`, 409);
+    }
+
+    return { replay: true, responseStatus: existing.response_status, responseBody: existing.response_body };
+  }
+
+  async complete(apiKeyId: string, key: string, responseStatus: number, responseBody: any): Promise<void> {
+    const { error } = await getSupabaseClient()
+      .from('idempotency_keys')
+      .update({
+        status: 'completed',
+        response_status: responseStatus,
+        response_body: responseBody,
+      })
+      .eq('api_key_id', apiKeyId)
+      .eq('key', key);
+
+    if (error) {
+      throw new Error(`Failed to store idempotent response: ${error.message}`);
+    }
+  }
+
+  /**
+   * Drop a claim whose request failed so the client can retry with the same key
+   */
+  async release(apiKeyId: string, key: string): Promise<void> {
+    const { error } = await getSupabaseClient()
+      .from('idempotency_keys')
+      .delete()
+      .eq('api_key_id', apiKeyId)
+      .eq('key', key)
+      .eq('status', 'processing');
+
+    if (error) {
+      throw new Error(`Failed to release idempotency key: ${error.message}`);
+    }
+  }
+
+  async purgeExpired(): Promise<number> {
+    const { data, error } = await getSupabaseClient()
+      .from('idempotency_keys')
+      .delete()
+      .lt('expires_at', new Date().toISOString())
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to purge idempotency keys: ${error.message}`);
+    }
+    return data?.length || 0;
+  }
+}
@@ -1,8 +1,13 @@
-import { Queue } from 'bullmq';
+import { Queue, Job } from 'bullmq';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { CONFIG } from '../config';
-import { LinkedInJob, DEFAULT_JOB_OPTIONS, JOB_STATUS } from '@linkedin-bot-suite/shared';
-import { v4 as uuidv4 } from 'uuid';
+import { LinkedInJob, DEFAULT_JOB_OPTIONS, validateJobData, JOB_STATUS, CONTACT_STATUS, isContactJob, getDuplicatePolicy, CsvImportRequest, buildJobsFromCsv, CSV_IMPORT_DEFAULTS, JOB_EXPORT_DEFAULTS, NON_RETRYABLE_ERROR_CATEGORIES, ProfileIdentityResolver, JOB_CANCEL_KEY_PREFIX, JOB_CANCEL_REQUEST_TTL_MS } from '@linkedin-bot-suite/shared';
+import { ContactService, DuplicateContactError } from './contactService';
+import { SuppressionService } from './suppressionService';
+import { LeadService } from './leadService';
+import { IdempotencyService, hashIdempotentPayload } from './idempotencyService';
+import { WebhookService } from './webhookService';
+import { v4 as uuidv4, validate as isUuid } from 'uuid';
 
 let supabase: SupabaseClient | null = null;
 
@@ -17,8 +22,85 @@ function getSupabaseClient(): SupabaseClient {
   return supabase;
 }
 
+export interface CreatedJob {
+  jobId: string;
+  queueId?: string;
+  status: string;
+  type: string;
+  profileUrl?: string;
+  replayed?: boolean; // Returned from an earlier request with the same idempotency key
+}
+
+export interface JobExportFilters {
+  workflowRunId?: string;
+  types?: string[];
+  statuses?: string[];
+  from?: Date;
+  to?: Date;
+}
+
+export interface JobListFilters {
+  types?: string[];
+  statuses?: string[];
+  accountId?: string;
+  workflowRunId?: string;
+  profileUrl?: string;
+  tag?: string;
+  createdFrom?: Date;
+  createdTo?: Date;
+  completedFrom?: Date;
+  completedTo?: Date;
+  limit: number;
+  cursor?: string;
+}
+
+// Raised for listing requests with a malformed cursor; routes answer 400
+export class InvalidCursorError extends Error {}
+
+// Listing cursors point at the last row of a page by (created_at, id)
+const encodeCursor = (row: { created_at: string; id: string }): string =>
+  Buffer.from(JSON.stringify([row.created_at, row.id])).toString('base64url');
+
+const decodeCursor = (cursor: string): { createdAt: string; id: string } => {
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    // Both values end up in a PostgREST filter, so only accept their exact formats
+    if (/^\d{4}-\d{2}-\d{2}T[\d:.]+(Z|[+-]\d{2}:\d{2})$/.test(createdAt) && /^[0-9a-f-]{36}$/i.test(id)) {
+      return { createdAt, id };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new InvalidCursorError('Invalid cursor');
+};
+
+// Raised when a job is not in a state that allows the change, e.g. retrying a completed job; routes answer 409
+export class JobStateError extends Error {}
+
+// Queue states in which a job can still be rescheduled or reprioritized
+const UPDATABLE_QUEUE_STATES = ['waiting', 'delayed', 'prioritized'];
+
+// History statuses a job can be retried from
+const RETRYABLE_JOB_STATUSES: string[] = [JOB_STATUS.FAILED, JOB_STATUS.TIMED_OUT];
+
+// Raised for a workflowId that is not one of the client's workflow runs; routes answer 400
+export class WorkflowRunError extends Error {}
+
+// Raised for CSV files that cannot be imported at all; routes answer 400 with the row errors
+export class CsvImportError extends Error {
+  constructor(message: string, public readonly rowErrors: Array<{ line: number; error: string }> = []) {
+    super(message);
+  }
+}
+
 export class JobService {
   private queue: Queue | null = null;
+  private contactService = new ContactService();
+  private suppressionService = new SuppressionService();
+  private leadService = new LeadService();
+  private idempotencyService = new IdempotencyService();
+  private webhookService = new WebhookService();
+  private identityResolver = new ProfileIdentityResolver(getSupabaseClient);
 
   constructor() {
     // Lazy initialization - don't connect to Redis until first use
@@ -34,12 +116,70 @@ export class JobService {
     return this.queue;
   }
 
-  async createJob(jobData: LinkedInJob, clientSlug: string) {
+  /**
+   * Create and queue a job. With an API key, a job carrying an idempotencyKey
+   * that key already created returns the original job instead of a new one.
+   * A workflowId must be the id of one of the client's workflow runs.
+   */
+  async createJob(jobData: LinkedInJob, clientSlug: string, apiKeyId?: string): Promise<CreatedJob> {
+    if (jobData.workflowId) {
+      await this.assertOwnWorkflowRun(jobData.workflowId, clientSlug);
+    }
+
+    return this.createJobOnce(jobData, clientSlug, apiKeyId);
+  }
+
+  private async createJobOnce(jobData: LinkedInJob, clientSlug: string, apiKeyId?: string): Promise<CreatedJob> {
+    if (!apiKeyId || !jobData.idempotencyKey) {
+      return this.enqueueJob(jobData, clientSlug);
+    }
+
+    // Bulk requests without a workflowId give every attempt a new workflow run, so it is not part of the payload
+    const { workflowId, idempotencyKey, ...payload } = jobData as LinkedInJob & { workflowId?: string };
+    const key = `job:${idempotencyKey}`;
+    const claim = await this.idempotencyService.claim(apiKeyId, key, hashIdempotentPayload(payload));
+    if (claim.replay) {
+      return { ...claim.responseBody, replayed: true };
+    }
+
+    try {
+      const result = await this.enqueueJob(jobData, clientSlug);
+      await this.idempotencyService.complete(apiKeyId, key, 201, result);
+      return result;
+    } catch (error) {
+      await this.idempotencyService.release(apiKeyId, key).catch(releaseError => {
+        console.error('Error releasing idempotency key:', releaseError);
+      });
+      throw error;
+    }
+  }
+
+  private async enqueueJob(jobData: LinkedInJob, clientSlug: string): Promise<CreatedJob> {
     const jobId = uuidv4();
+
+    // Checks, history and the contact registry use the canonical profile the worker resolves the job to
+    if ('profileUrl' in jobData && jobData.profileUrl) {
+      const identity = await this.identityResolver.resolve(jobData.profileUrl);
+      jobData = { ...jobData, profileUrl: identity.profileUrl };
+    }
+
+    if (isContactJob(jobData)) {
+      await this.suppressionService.assertNotSuppressed(clientSlug, jobData.profileUrl);
+    }
+
+    // Duplicates are skipped by the worker; "fail" rejects them before they are queued
+    if (isContactJob(jobData) && getDuplicatePolicy(jobData) === 'fail') {
+      const duplicate = await this.contactService.findDuplicate(clientSlug, jobData.accountId, jobData.profileUrl, jobData.type);
+      if (duplicate) {
+        const state = duplicate.status === CONTACT_STATUS.CONTACTED ? 'contacted' : 'queued for contact';
+        throw new DuplicateContactError(`${jobData.profileUrl} was already ${state} by job ${duplicate.job_id}`, duplicate.job_id);
+      }
+    }
     
-    // Log job creation in database
-    await getSupabaseClient().from('job_history').insert({
+    // Log job creation in database; a job without its row could not be tracked or reported
+    const { error: historyError } = await getSupabaseClient().from('job_history').insert({
       id: jobId,
+      client_slug: clientSlug,
       workflow_run_id: jobData.workflowId,
       job_type: jobData.type,
       job_data: jobData,
@@ -48,6 +188,15 @@ export class JobService {
       created_at: new Date().toISOString(),
     });
 
+    if (historyError) {
+      throw new Error(`Failed to record job: ${historyError.message}`);
+    }
+
+    // Registered before queueing so the worker always finds the entry
+    if (isContactJob(jobData)) {
+      await this.contactService.registerQueued(clientSlug, jobData.accountId, jobData.profileUrl, jobData.type, jobId);
+    }
+
     // Add job to BullMQ queue
     const job = await this.getQueue().add(
       jobData.type,
@@ -69,60 +218,324 @@ export class JobService {
       queueId: job.id,
       status: 'queued',
       type: jobData.type,
-      profileUrl: jobData.profileUrl,
+      profileUrl: 'profileUrl' in jobData ? jobData.profileUrl : undefined,
     };
   }
 
-  async createBulkJobs(jobs: LinkedInJob[], clientSlug: string, workflowId?: string) {
-    const workflowRunId = workflowId || uuidv4();
-    
-    // Create workflow run record
-    await getSupabaseClient().from('workflow_runs').insert({
+  async createBulkJobs(jobs: LinkedInJob[], clientSlug: string, workflowId?: string, apiKeyId?: string) {
+    const workflowRunId = await this.createWorkflowRun(jobs.length, clientSlug, workflowId);
+    const results = await this.enqueueInChunks(jobs, clientSlug, workflowRunId, apiKeyId);
+    await this.excludeReplayedJobs(workflowRunId, clientSlug, results);
+
+    return {
+      workflowRunId,
+      totalJobs: jobs.length,
+      createdJobs: results.filter(r => !('error' in r)).length,
+      failedJobs: results.filter(r => 'error' in r).length,
+      jobs: results,
+    };
+  }
+
+  /**
+   * Create one job per valid CSV row under a single workflow run. Rows that
+   * fail validation are reported by line and never enqueued.
+   */
+  async createCsvJobs(csv: string, request: CsvImportRequest, clientSlug: string) {
+    let parsed;
+    try {
+      parsed = buildJobsFromCsv(csv, request);
+    } catch (error) {
+      throw new CsvImportError(error instanceof Error ? error.message : 'Invalid CSV file');
+    }
+
+    const { rows, errors } = parsed;
+    if (rows.length === 0) {
+      throw new CsvImportError('CSV file has no valid rows', errors);
+    }
+
+    const workflowRunId = await this.createWorkflowRun(rows.length, clientSlug, request.workflowId);
+    const results = await this.enqueueInChunks(rows.map(row => row.job), clientSlug, workflowRunId);
+    const jobs = results.map((result, index) => ({ line: rows[index].line, ...result }));
+
+    return {
+      workflowRunId,
+      totalRows: rows.length + errors.length,
+      invalidRows: errors.length,
+      createdJobs: jobs.filter(r => !('error' in r)).length,
+      failedJobs: jobs.filter(r => 'error' in r).length,
+      errors,
+      jobs,
+    };
+  }
+
+  /**
+   * Run one job template for every lead of a list (optionally only leads in
+   * the given statuses). Returns null for an unknown list.
+   */
+  async createListJobs(listId: string, template: Partial<LinkedInJob>, clientSlug: string, options: { leadStatus?: string[]; workflowId?: string; apiKeyId?: string } = {}) {
+    const profileUrls = await this.leadService.getListProfileUrls(listId, clientSlug, options.leadStatus);
+    if (!profileUrls) {
+      return null;
+    }
+
+    // A template's idempotency key covers the whole list, so each lead gets its own
+    const jobs: LinkedInJob[] = profileUrls.map(profileUrl => validateJobData({
+      ...template,
+      profileUrl,
+      ...(template.idempotencyKey && { idempotencyKey: `${template.idempotencyKey}:${profileUrl}` }),
+    }));
+    const result = await this.createBulkJobs(jobs, clientSlug, options.workflowId, options.apiKeyId);
+
+    return { listId, ...result };
+  }
+
+  private async assertOwnWorkflowRun(workflowRunId: string, clientSlug: string): Promise<void> {
+    const { data: workflowRun, error } = isUuid(workflowRunId)
+      ? await getSupabaseClient()
+        .from('workflow_runs')
+        .select('id')
+        .eq('id', workflowRunId)
+        .eq('client_slug', clientSlug)
+        .maybeSingle()
+      : { data: null, error: null };
+
+    if (error) {
+      throw new Error(`Failed to look up workflow run: ${error.message}`);
+    }
+    if (!workflowRun) {
+      throw new WorkflowRunError(`Unknown workflowId: ${workflowRunId}`);
+    }
+  }
+
+  /**
+   * The run a bulk request's jobs are recorded under. A uuid workflowId is
+   * the run's id, so callers can look the run up by their own id, and jobs
+   * sent with it again join the same run. Any other workflowId is kept as
+   * the run's label under a new id.
+   */
+  private async createWorkflowRun(totalJobs: number, clientSlug: string, workflowId?: string): Promise<string> {
+    const workflowRunId = workflowId && isUuid(workflowId) ? workflowId : uuidv4();
+
+    const { data: existingRun, error: lookupError } = await getSupabaseClient()
+      .from('workflow_runs')
+      .select('client_slug, total_jobs, completed_at')
+      .eq('id', workflowRunId)
+      .maybeSingle();
+
+    if (lookupError) {
+      throw new Error(`Failed to look up workflow run: ${lookupError.message}`);
+    }
+
+    if (existingRun) {
+      // The id is taken by another client's run
+      if (existingRun.client_slug !== clientSlug) {
+        throw new WorkflowRunError(`workflowId ${workflowRunId} is already in use`);
+      }
+
+      const { error: updateError } = await getSupabaseClient()
+        .from('workflow_runs')
+        .update({
+          total_jobs: (existingRun.total_jobs || 0) + totalJobs,
+          ...(existingRun.completed_at && { status: 'running', completed_at: null }),
+        })
+        .eq('id', workflowRunId)
+        .eq('client_slug', clientSlug);
+
+      if (updateError) {
+        throw new Error(`Failed to update workflow run: ${updateError.message}`);
+      }
+      return workflowRunId;
+    }
+
+    const { error } = await getSupabaseClient().from('workflow_runs').insert({
       id: workflowRunId,
+      client_slug: clientSlug,
       workflow_id: workflowId || 'bulk-' + Date.now(),
       status: 'pending',
       started_at: new Date().toISOString(),
-      total_jobs: jobs.length,
+      total_jobs: totalJobs,
       completed_jobs: 0,
       failed_jobs: 0,
     });
 
-    const results = [];
-    
-    for (const jobData of jobs) {
-      try {
-        const result = await this.createJob(
-          { ...jobData, workflowId: workflowRunId },
-          clientSlug
-        );
-        results.push(result);
-      } catch (error) {
-        results.push({
+    if (error) {
+      throw new Error(`Failed to create workflow run: ${error.message}`);
+    }
+
+    return workflowRunId;
+  }
+
+  // Jobs of a chunk are created concurrently; results keep the input order
+  private async enqueueInChunks(jobs: LinkedInJob[], clientSlug: string, workflowRunId: string, apiKeyId?: string) {
+    const results: Array<CreatedJob | { error: string; jobData: LinkedInJob }> = [];
+
+    for (let i = 0; i < jobs.length; i += CSV_IMPORT_DEFAULTS.ENQUEUE_CHUNK_SIZE) {
+      const chunk = jobs.slice(i, i + CSV_IMPORT_DEFAULTS.ENQUEUE_CHUNK_SIZE);
+      const chunkResults = await Promise.all(chunk.map(jobData =>
+        // The run was just created or checked for this client
+        this.createJobOnce({ ...jobData, workflowId: workflowRunId } as LinkedInJob, clientSlug, apiKeyId).catch(error => ({
           error: error instanceof Error ? error.message : 'Failed to create job',
           jobData,
-        });
-      }
+        }))
+      ));
+      results.push(...chunkResults);
     }
 
-    return {
-      workflowRunId,
-      totalJobs: jobs.length,
-      createdJobs: results.filter(r => !('error' in r)).length,
-      failedJobs: results.filter(r => 'error' in r).length,
-      jobs: results,
-    };
+    return results;
   }
 
-  async getJobStatus(jobId: string) {
-    const job = await this.getQueue().getJob(jobId);
+  /**
+   * Replayed jobs belong to the workflow run that first created them, so the
+   * run only counts the jobs this request created (and is done if it has none)
+   */
+  private async excludeReplayedJobs(workflowRunId: string, clientSlug: string, results: Array<CreatedJob | { error: string }>): Promise<void> {
+    const replayed = results.filter(r => 'replayed' in r && r.replayed).length;
+    if (replayed === 0) return;
+
+    const { data: workflowRun } = await getSupabaseClient()
+      .from('workflow_runs')
+      .select('total_jobs')
+      .eq('id', workflowRunId)
+      .eq('client_slug', clientSlug)
+      .maybeSingle();
+    if (!workflowRun) return;
+
+    const remaining = Math.max((workflowRun.total_jobs || 0) - replayed, 0);
+    await getSupabaseClient()
+      .from('workflow_runs')
+      .update(remaining > 0
+        ? { total_jobs: remaining }
+        : { total_jobs: 0, status: 'completed', completed_at: new Date().toISOString() })
+      .eq('id', workflowRunId)
+      .eq('client_slug', clientSlug);
+  }
+
+  /**
+   * Status of one of the client's jobs; null if the job does not exist or
+   * belongs to another client
+   */
+  async getJobStatus(jobId: string, clientSlug: string) {
     const { data: jobHistory } = await getSupabaseClient()
       .from('job_history')
       .select('*')
       .eq('id', jobId)
-      .single();
+      .eq('client_slug', clientSlug)
+      .maybeSingle();
+
+    const job = await this.getQueue().getJob(jobId);
+    // Jobs recorded before job_history stored the client are matched on the queued data
+    if (!jobHistory && job?.data?.clientSlug !== clientSlug) {
+      return null;
+    }
+
+    return this.toJobStatus(jobId, jobHistory, job);
+  }
+
+  /**
+   * Status of many of the client's jobs at once. Ids that do not exist or
+   * belong to another client are listed in notFound.
+   */
+  async getJobStatuses(jobIds: string[], clientSlug: string) {
+    const { data, error } = await getSupabaseClient()
+      .from('job_history')
+      .select('*')
+      .in('id', jobIds)
+      .eq('client_slug', clientSlug);
+
+    if (error) {
+      throw new Error(`Failed to load jobs: ${error.message}`);
+    }
+
+    const rowsById = new Map((data || []).map(row => [row.id, row]));
+    const statuses = await Promise.all(jobIds.map(async jobId => {
+      const jobHistory = rowsById.get(jobId);
+      const job = await this.getQueue().getJob(jobId);
+      if (!jobHistory && job?.data?.clientSlug !== clientSlug) {
+        return null;
+      }
+      return this.toJobStatus(jobId, jobHistory, job);
+    }));
+
+    return {
+      jobs: statuses.filter(status => status !== null),
+      notFound: jobIds.filter((_, index) => statuses[index] === null),
+    };
+  }
+
+  /**
+   * Whether the account already has a job of this type waiting or running,
+   * so scheduled jobs do not pile up behind a slow or delayed account
+   */
+  async hasUnfinishedJob(clientSlug: string, accountId: string, jobType: LinkedInJob['type']): Promise<boolean> {
+    const { data, error } = await getSupabaseClient()
+      .from('job_history')
+      .select('id')
+      .eq('client_slug', clientSlug)
+      .eq('job_type', jobType)
+      .eq('job_data->>accountId', accountId)
+      .in('status', [JOB_STATUS.PENDING, JOB_STATUS.PROCESSING])
+      .limit(1);
+
+    if (error) {
+      throw new Error(`Failed to look up unfinished jobs: ${error.message}`);
+    }
+    return (data || []).length > 0;
+  }
+
+  /**
+   * The client's jobs, newest first, with their live queue state. Pass the
+   * returned nextCursor to get the following page.
+   */
+  async listJobs(clientSlug: string, filters: JobListFilters) {
+    let query = getSupabaseClient()
+      .from('job_history')
+      .select('*')
+      .eq('client_slug', clientSlug)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(filters.limit + 1);
+
+    if (filters.types?.length) query = query.in('job_type', filters.types);
+    if (filters.statuses?.length) query = query.in('status', filters.statuses);
+    if (filters.accountId) query = query.eq('job_data->>accountId', filters.accountId);
+    if (filters.workflowRunId) query = query.eq('workflow_run_id', filters.workflowRunId);
+    if (filters.profileUrl) query = query.eq('job_data->>profileUrl', filters.profileUrl);
+    if (filters.tag) query = query.filter('job_data->tags', 'cs', JSON.stringify([filters.tag]));
+    if (filters.createdFrom) query = query.gte('created_at', filters.createdFrom.toISOString());
+    if (filters.createdTo) query = query.lte('created_at', filters.createdTo.toISOString());
+    if (filters.completedFrom) query = query.gte('completed_at', filters.completedFrom.toISOString());
+    if (filters.completedTo) query = query.lte('completed_at', filters.completedTo.toISOString());
+    if (filters.cursor) {
+      const cursor = decodeCursor(filters.cursor);
+      query = query.or(`created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt.${cursor.id})`);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to list jobs: ${error.message}`);
+    }
+
+    const rows = data || [];
+    const page = rows.slice(0, filters.limit);
+    const jobs = await Promise.all(page.map(async row => this.toJobStatus(row.id, row, await this.getQueue().getJob(row.id))));
+
+    return {
+      jobs,
+      nextCursor: rows.length > filters.limit ? encodeCursor(page[page.length - 1]) : null,
+    };
+  }
+
+  // Merge the job_history row with the live BullMQ state; either may be missing
+  private async toJobStatus(jobId: string, jobHistory: any, job: Job | undefined) {
+    const jobData = jobHistory?.job_data || job?.data || {};
 
     return {
       jobId,
+      type: jobHistory?.job_type || job?.name,
+      workflowRunId: jobHistory?.workflow_run_id,
+      accountId: jobData.accountId,
+      profileUrl: jobData.profileUrl,
+      tags: jobData.tags || [],
       queueStatus: job ? await job.getState() : 'not_found',
       progress: job ? job.progress : null,
       attempts: job ? job.attemptsMade : 0,
@@ -135,21 +548,23 @@ export class JobService {
     };
   }
 
-  async getWorkflowStatus(workflowRunId: string) {
+  async getWorkflowStatus(workflowRunId: string, clientSlug: string) {
     const { data: workflowRun } = await getSupabaseClient()
       .from('workflow_runs')
       .select('*')
       .eq('id', workflowRunId)
-      .single();
+      .eq('client_slug', clientSlug)
+      .maybeSingle();
 
     if (!workflowRun) {
-      return { error: 'Workflow run not found' };
+      return null;
     }
 
     const { data: jobs } = await getSupabaseClient()
       .from('job_history')
       .select('*')
-      .eq('workflow_run_id', workflowRunId);
+      .eq('workflow_run_id', workflowRunId)
+      .eq('client_slug', clientSlug);
 
     return {
       workflowRunId,
@@ -163,11 +578,369 @@ export class JobService {
     };
   }
 
-  async deleteJob(jobId: string) {
+  /**
+   * The client's job_history rows, oldest first, one page at a time. Pages
+   * are read by (created_at, id) so rows inserted during an export neither
+   * shift nor repeat later pages.
+   */
+  async *exportJobHistory(clientSlug: string, filters: JobExportFilters = {}): AsyncGenerator<any[]> {
+    let cursor: { createdAt: string; id: string } | null = null;
+
+    while (true) {
+      let query = getSupabaseClient()
+        .from('job_history')
+        .select('*')
+        .eq('client_slug', clientSlug)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .limit(JOB_EXPORT_DEFAULTS.PAGE_SIZE);
+
+      if (filters.workflowRunId) query = query.eq('workflow_run_id', filters.workflowRunId);
+      if (filters.types?.length) query = query.in('job_type', filters.types);
+      if (filters.statuses?.length) query = query.in('status', filters.statuses);
+      if (filters.from) query = query.gte('created_at', filters.from.toISOString());
+      if (filters.to) query = query.lte('created_at', filters.to.toISOString());
+      if (cursor) {
+        query = query.or(`created_at.gt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.gt.${cursor.id})`);
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        throw new Error(`Failed to export job history: ${error.message}`);
+      }
+
+      const rows = data || [];
+      if (rows.length > 0) {
+        yield rows;
+      }
+      if (rows.length < JOB_EXPORT_DEFAULTS.PAGE_SIZE) {
+        return;
+      }
+
+      const last = rows[rows.length - 1];
+      cursor = { createdAt: last.created_at, id: last.id };
+    }
+  }
+
+  /**
+   * Queue one of the client's failed or timed out jobs again under the same
+   * id. Returns null if the job is not found.
+   */
+  async retryJob(jobId: string, clientSlug: string, options: { force?: boolean } = {}) {
+    const jobHistory = await this.getOwnedJobHistory(jobId, clientSlug);
+    if (!jobHistory) {
+      return null;
+    }
+
+    await this.requeueFailedJob(jobHistory, clientSlug, options.force);
+    if (jobHistory.workflow_run_id) {
+      await this.webhookService.updateWorkflowRunCounters(jobHistory.workflow_run_id, clientSlug);
+    }
+
+    return {
+      jobId,
+      status: 'queued',
+      attempts: jobHistory.attempts || 0,
+    };
+  }
+
+  /**
+   * Change the priority or start time of a job that is still waiting or
+   * delayed. Returns null if the job is not found.
+   */
+  async updateJob(jobId: string, clientSlug: string, update: { priority?: number; delay?: number; runAt?: Date }) {
+    const jobHistory = await this.getOwnedJobHistory(jobId, clientSlug);
+    if (!jobHistory) {
+      return null;
+    }
+
     const job = await this.getQueue().getJob(jobId);
+    const state = job ? await job.getState() : 'not_found';
+    if (!job || !UPDATABLE_QUEUE_STATES.includes(state)) {
+      throw new JobStateError(`Job ${jobId} is ${state}; only waiting or delayed jobs can be changed`);
+    }
+
+    // Unchanged settings carry over, including the time left on a delay
+    const remainingDelay = Math.max(0, job.timestamp + (job.opts.delay || 0) - Date.now());
+    const delay = update.runAt
+      ? Math.max(0, update.runAt.getTime() - Date.now())
+      : update.delay ?? remainingDelay;
+    const priority = update.priority ?? job.opts.priority ?? 5;
+
+    // Changed in place. changeDelay throws once the job has left the delayed set; a new
+    // priority on a job a worker has just picked up has no effect
+    try {
+      if (priority !== job.opts.priority) {
+        await job.changePriority({ priority });
+      }
+      if (state === 'delayed') {
+        await (delay > 0 ? job.changeDelay(delay) : job.promote());
+      }
+    } catch {
+      throw new JobStateError(`Job ${jobId} has already started`);
+    }
+
+    // BullMQ cannot delay a waiting job in place, so the job is queued again under its id
+    if (state !== 'delayed' && delay > 0) {
+      await this.requeueWithDelay(job, jobId, priority, delay);
+    }
+
+    await getSupabaseClient()
+      .from('job_history')
+      .update({ job_data: { ...jobHistory.job_data, priority, delay } })
+      .eq('id', jobId);
+
+    return {
+      jobId,
+      queueStatus: delay > 0 ? 'delayed' : 'waiting',
+      priority,
+      runAt: new Date(Date.now() + delay).toISOString(),
+    };
+  }
+
+  /**
+   * Remove a waiting job and add it again with a delay. If the new job cannot
+   * be added, the original is put back; if that fails too, the job is marked
+   * failed so its history does not claim a job the queue no longer has.
+   */
+  private async requeueWithDelay(job: Job, jobId: string, priority: number, delay: number): Promise<void> {
+    try {
+      await job.remove();
+    } catch {
+      throw new JobStateError(`Job ${jobId} has already started`);
+    }
+
+    try {
+      await this.getQueue().add(job.name, job.data, { ...DEFAULT_JOB_OPTIONS, priority, delay, jobId });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      try {
+        await this.getQueue().add(job.name, job.data, { ...DEFAULT_JOB_OPTIONS, priority: job.opts.priority, jobId });
+      } catch {
+        await getSupabaseClient()
+          .from('job_history')
+          .update({
+            status: JOB_STATUS.FAILED,
+            error_message: `Job was removed from the queue while being rescheduled: ${message}`,
+            completed_at: new Date().toISOString(),
+          })
+          .eq('id', jobId);
+      }
+      throw new Error(`Failed to reschedule job ${jobId}: ${message}`);
+    }
+  }
+
+  /**
+   * Retry every failed or timed out job of one of the client's workflow runs. Jobs that
+   * cannot be retried are reported instead of failing the whole request.
+   */
+  async retryFailedJobs(workflowRunId: string, clientSlug: string, options: { force?: boolean } = {}) {
+    const failedJobs = await this.getOwnedRunJobs(workflowRunId, clientSlug, RETRYABLE_JOB_STATUSES);
+    if (!failedJobs) {
+      return null;
+    }
+
+    const retried: string[] = [];
+    const skipped: Array<{ jobId: string; error: string }> = [];
+
+    for (const jobHistory of failedJobs) {
+      try {
+        await this.requeueFailedJob(jobHistory, clientSlug, options.force);
+        retried.push(jobHistory.id);
+      } catch (error) {
+        skipped.push({ jobId: jobHistory.id, error: error instanceof Error ? error.message : 'Failed to retry job' });
+      }
+    }
+
+    if (retried.length > 0) {
+      await this.webhookService.updateWorkflowRunCounters(workflowRunId, clientSlug);
+    }
+
+    return { workflowRunId, retried, skipped };
+  }
+
+  /**
+   * Cancel every job of one of the client's workflow runs that has not
+   * started. Cancelled jobs stay in the history with status cancelled.
+   */
+  async cancelPendingJobs(workflowRunId: string, clientSlug: string) {
+    const pendingJobs = await this.getOwnedRunJobs(workflowRunId, clientSlug, [JOB_STATUS.PENDING]);
+    if (!pendingJobs) {
+      return null;
+    }
+
+    const cancelled: string[] = [];
+    const skipped: Array<{ jobId: string; error: string }> = [];
+
+    for (const jobHistory of pendingJobs) {
+      if (await this.cancelQueuedJob(jobHistory.id)) {
+        cancelled.push(jobHistory.id);
+      } else {
+        skipped.push({ jobId: jobHistory.id, error: 'Job has already started' });
+      }
+    }
+
+    if (cancelled.length > 0) {
+      await this.webhookService.updateWorkflowRunCounters(workflowRunId, clientSlug);
+    }
+
+    return { workflowRunId, cancelled, skipped };
+  }
+
+  /**
+   * Cancel one of the client's jobs. A queued job is removed right away; a
+   * running job is flagged for its worker, which stops it within a few
+   * seconds and marks it cancelled. Returns null if the job is not found.
+   */
+  async cancelJob(jobId: string, clientSlug: string) {
+    const jobHistory = await this.getOwnedJobHistory(jobId, clientSlug);
+    if (!jobHistory) {
+      return null;
+    }
+
+    if (jobHistory.status === JOB_STATUS.PENDING && await this.cancelQueuedJob(jobId)) {
+      if (jobHistory.workflow_run_id) {
+        await this.webhookService.updateWorkflowRunCounters(jobHistory.workflow_run_id, clientSlug);
+      }
+      return { jobId, status: JOB_STATUS.CANCELLED };
+    }
+
+    // A pending job that could not be removed has just been picked up by a worker
+    if (jobHistory.status !== JOB_STATUS.PENDING && jobHistory.status !== JOB_STATUS.PROCESSING) {
+      throw new JobStateError(`Job ${jobId} is ${jobHistory.status}; only pending or processing jobs can be cancelled`);
+    }
+
+    const redis = await this.getQueue().client;
+    await redis.set(`${JOB_CANCEL_KEY_PREFIX}${jobId}`, '1', 'PX', JOB_CANCEL_REQUEST_TTL_MS);
+
+    return { jobId, status: 'cancelling' };
+  }
+
+  // Remove a job that has not started from the queue; false once a worker has picked it up
+  private async cancelQueuedJob(jobId: string): Promise<boolean> {
+    try {
+      const job = await this.getQueue().getJob(jobId);
+      if (job) {
+        // Throws for a job a worker has just picked up
+        await job.remove();
+      }
+    } catch {
+      return false;
+    }
+
+    await this.contactService.removeQueued(jobId);
+    await getSupabaseClient()
+      .from('job_history')
+      .update({ status: JOB_STATUS.CANCELLED, completed_at: new Date().toISOString() })
+      .eq('id', jobId);
+    return true;
+  }
+
+  private async getOwnedJobHistory(jobId: string, clientSlug: string) {
+    const { data } = await getSupabaseClient()
+      .from('job_history')
+      .select('*')
+      .eq('id', jobId)
+      .eq('client_slug', clientSlug)
+      .maybeSingle();
+
+    return data;
+  }
+
+  // Jobs of the run in the given statuses; null if the run is not the client's
+  private async getOwnedRunJobs(workflowRunId: string, clientSlug: string, statuses: string[]) {
+    const { data: workflowRun } = await getSupabaseClient()
+      .from('workflow_runs')
+      .select('id')
+      .eq('id', workflowRunId)
+      .eq('client_slug', clientSlug)
+      .maybeSingle();
+
+    if (!workflowRun) {
+      return null;
+    }
+
+    const { data, error } = await getSupabaseClient()
+      .from('job_history')
+      .select('*')
+      .eq('workflow_run_id', workflowRunId)
+      .eq('client_slug', clientSlug)
+      .in('status', statuses);
+
+    if (error) {
+      throw new Error(`Failed to load workflow jobs: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  private async requeueFailedJob(jobHistory: any, clientSlug: string, force?: boolean) {
+    const jobId = jobHistory.id;
+    if (!RETRYABLE_JOB_STATUSES.includes(jobHistory.status)) {
+      throw new JobStateError(`Job ${jobId} is ${jobHistory.status}; only failed or timed out jobs can be retried`);
+    }
+    if (!force && NON_RETRYABLE_ERROR_CATEGORIES.includes(jobHistory.error_category)) {
+      throw new JobStateError(`Job ${jobId} failed with ${jobHistory.error_category}, which a retry cannot fix; retry with force to queue it anyway`);
+    }
+
+    // Non-retryable failures leave the job completed in BullMQ, which would block re-adding its id
+    const job = await this.getQueue().getJob(jobId);
+    if (job) {
+      await job.remove();
+    }
+
+    if (isContactJob(jobHistory.job_data)) {
+      await this.contactService.requeue(jobId);
+    }
+
+    await getSupabaseClient()
+      .from('job_history')
+      .update({
+        status: JOB_STATUS.PENDING,
+        error_message: null,
+        error_category: null,
+        result: null,
+        started_at: null,
+        completed_at: null,
+      })
+      .eq('id', jobId);
+
+    await this.getQueue().add(
+      jobHistory.job_type,
+      {
+        ...jobHistory.job_data,
+        id: jobId,
+        clientSlug,
+      },
+      {
+        ...DEFAULT_JOB_OPTIONS,
+        priority: jobHistory.job_data.priority || 5,
+        jobId,
+      }
+    );
+  }
+
+  /**
+   * Remove one of the client's jobs from the queue and its history; null if
+   * the job does not exist or belongs to another client
+   */
+  async deleteJob(jobId: string, clientSlug: string) {
+    const { data: jobHistory } = await getSupabaseClient()
+      .from('job_history')
+      .select('id')
+      .eq('id', jobId)
+      .eq('client_slug', clientSlug)
+      .maybeSingle();
+
+    const job = await this.getQueue().getJob(jobId);
+    if (!jobHistory && job?.data?.clientSlug !== clientSlug) {
+      return null;
+    }
+
     if (job) {
       await job.remove();
     }
+
+    await this.contactService.removeQueued(jobId);
     
     await getSupabaseClient()
       .from('job_history')
@@ -176,4 +949,4 @@ export class JobService {
 
     return { success: true };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,497 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { CONFIG } from '../config';
+import { LeadStatus, LEAD_STATUS, LEAD_DEFAULTS } from '@linkedin-bot-suite/shared';
+
+let supabase: SupabaseClient | null = null;
+
+function getSupabaseClient(): SupabaseClient {
+  if (!supabase) {
+    if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE ||
+        process.env.SUPABASE_URL === 'https://placeholder.supabase.co') {
+      throw new Error('Supabase credentials not configured. Please set SUPABASE_URL and SUPABASE_SERVICE_ROLE in Render dashboard.');
+    }
+    supabase = createClient(CONFIG.supabase.url, CONFIG.supabase.serviceRoleKey);
+  }
+  return supabase;
+}
+
+// Raised for requests that conflict with the stored leads or lists; routes answer 400
+export class LeadRequestError extends Error {}
+
+export interface LeadInput {
+  profileUrl: string;
+  name?: string | null;
+  headline?: string | null;
+  location?: string | null;
+  company?: string | null;
+  status?: LeadStatus;
+  tags?: string[];
+  ownerAccountId?: string | null;
+  enrichment?: Record<string, any>;
+}
+
+export interface LeadFilters {
+  q?: string;
+  status?: string;
+  tag?: string;
+  ownerAccountId?: string;
+  listId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// Columns a request may set, mapped to their database names
+const LEAD_COLUMNS: Array<[keyof LeadInput, string]> = [
+  ['name', 'name'],
+  ['headline', 'headline'],
+  ['location', 'location'],
+  ['company', 'company'],
+  ['status', 'status'],
+  ['tags', 'tags'],
+  ['ownerAccountId', 'owner_account_id'],
+  ['enrichment', 'enrichment'],
+];
+
+export class LeadService {
+  private formatLead(lead: any) {
+    return {
+      id: lead.id,
+      profileUrl: lead.profile_url,
+      name: lead.name,
+      headline: lead.headline,
+      location: lead.location,
+      company: lead.company,
+      degree: lead.degree,
+      status: lead.status,
+      tags: lead.tags || [],
+      ownerAccountId: lead.owner_account_id,
+      enrichment: lead.enrichment || {},
+      source: lead.source,
+      lastJobId: lead.last_job_id,
+      lastJobType: lead.last_job_type,
+      lastJobStatus: lead.last_job_status,
+      lastActivityAt: lead.last_activity_at,
+      createdAt: lead.created_at,
+      updatedAt: lead.updated_at,
+    };
+  }
+
+  private formatList(list: any) {
+    return {
+      id: list.id,
+      name: list.name,
+      description: list.description,
+      leadCount: list.lead_list_members?.[0]?.count,
+      createdAt: list.created_at,
+      updatedAt: list.updated_at,
+    };
+  }
+
+  /**
+   * Changed columns of a lead. Tags are added to the stored ones and
+   * enrichment is merged key by key unless replace is set.
+   */
+  private leadColumns(input: Partial<LeadInput>, current: any, replace: boolean) {
+    const columns: Record<string, any> = {};
+    for (const [field, column] of LEAD_COLUMNS) {
+      if (input[field] !== undefined) {
+        columns[column] = input[field];
+      }
+    }
+
+    if (!replace && input.tags && current?.tags) {
+      columns.tags = Array.from(new Set([...current.tags, ...input.tags]));
+    }
+    if (input.enrichment && current?.enrichment) {
+      columns.enrichment = { ...current.enrichment, ...input.enrichment };
+    }
+
+    return columns;
+  }
+
+  private async findList(listId: string, clientSlug: string) {
+    const { data: list } = await getSupabaseClient()
+      .from('lead_lists')
+      .select('*')
+      .eq('id', listId)
+      .eq('client_slug', clientSlug)
+      .maybeSingle();
+
+    return list;
+  }
+
+  /**
+   * Leads can only be owned by the client's own LinkedIn accounts
+   */
+  private async assertOwnAccounts(clientSlug: string, inputs: Array<Partial<LeadInput>>) {
+    const accountIds = Array.from(new Set(inputs.map(input => input.ownerAccountId).filter((id): id is string => !!id)));
+    if (accountIds.length === 0) return;
+
+    const { data: accounts, error } = await getSupabaseClient()
+      .from('linkedin_accounts')
+      .select('id')
+      .eq('client_slug', clientSlug)
+      .in('id', accountIds);
+
+    if (error) {
+      throw new Error(`Failed to load accounts: ${error.message}`);
+    }
+
+    const known = new Set((accounts || []).map(account => account.id));
+    const unknown = accountIds.filter(id => !known.has(id));
+    if (unknown.length > 0) {
+      throw new LeadRequestError(`Unknown ownerAccountId: ${unknown.join(', ')}`);
+    }
+  }
+
+  /**
+   * Create leads or merge the given fields into the stored ones, keyed on the
+   * canonical profile URL. Returns null when listId names an unknown list.
+   */
+  async importLeads(clientSlug: string, inputs: LeadInput[], options: { listId?: string; source?: string } = {}) {
+    if (options.listId && !await this.findList(options.listId, clientSlug)) {
+      return null;
+    }
+    await this.assertOwnAccounts(clientSlug, inputs);
+
+    // Later rows for the same profile win
+    const unique = new Map<string, LeadInput>();
+    for (const input of inputs) {
+      unique.set(input.profileUrl, { ...unique.get(input.profileUrl), ...input });
+    }
+    const profileUrls = Array.from(unique.keys());
+
+    const { data: existing, error: loadError } = await getSupabaseClient()
+      .from('leads')
+      .select('*')
+      .eq('client_slug', clientSlug)
+      .in('profile_url', profileUrls);
+
+    if (loadError) {
+      throw new Error(`Failed to load leads: ${loadError.message}`);
+    }
+
+    const stored = new Map((existing || []).map(lead => [lead.profile_url, lead]));
+    const now = new Date().toISOString();
+    const rows = Array.from(unique.values()).map(input => {
+      const current = stored.get(input.profileUrl);
+      // Upserted on the profile URL; rows must not carry the id column
+      const { id, ...currentColumns } = current || {};
+      return {
+        ...(current ? currentColumns : {
+          client_slug: clientSlug,
+          profile_url: input.profileUrl,
+          status: LEAD_STATUS.NEW,
+          tags: [],
+          enrichment: {},
+          source: options.source || 'api',
+          created_at: now,
+        }),
+        ...this.leadColumns(input, current, false),
+        updated_at: now,
+      };
+    });
+
+    const { data: leads, error } = await getSupabaseClient()
+      .from('leads')
+      .upsert(rows, { onConflict: 'client_slug,profile_url' })
+      .select('*');
+
+    if (error || !leads) {
+      throw new Error(`Failed to store leads: ${error?.message || 'Unknown error'}`);
+    }
+
+    if (options.listId) {
+      await this.insertListMembers(options.listId, leads.map(lead => lead.id));
+    }
+
+    return {
+      created: rows.length - stored.size,
+      updated: stored.size,
+      leads: leads.map(lead => this.formatLead(lead)),
+    };
+  }
+
+  async listLeads(clientSlug: string, filters: LeadFilters = {}) {
+    const limit = Math.min(filters.limit || 50, 500);
+    const offset = filters.offset || 0;
+
+    let query = getSupabaseClient()
+      .from('leads')
+      .select(filters.listId ? '*, lead_list_members!inner(list_id)' : '*')
+      .eq('client_slug', clientSlug)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (filters.listId) {
+      query = query.eq('lead_list_members.list_id', filters.listId);
+    }
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+    if (filters.tag) {
+      query = query.contains('tags', [filters.tag]);
+    }
+    if (filters.ownerAccountId) {
+      query = query.eq('owner_account_id', filters.ownerAccountId);
+    }
+    if (filters.q) {
+      // Characters with a meaning in PostgREST filter strings are dropped
+      const term = filters.q.replace(/[,()*%\\]/g, ' ').trim();
+      if (term) {
+        query = query.or(['name', 'headline', 'company', 'profile_url'].map(column => `${column}.ilike.*${term}*`).join(','));
+      }
+    }
+
+    const { data: leads, error } = await query;
+    if (error) {
+      throw new Error(`Failed to list leads: ${error.message}`);
+    }
+
+    return (leads || []).map(lead => this.formatLead(lead));
+  }
+
+  async getLead(leadId: string, clientSlug: string) {
+    const { data: lead } = await getSupabaseClient()
+      .from('leads')
+      .select('*')
+      .eq('id', leadId)
+      .eq('client_slug', clientSlug)
+      .maybeSingle();
+
+    return lead ? this.formatLead(lead) : null;
+  }
+
+  /**
+   * Update a lead's fields. Tags are replaced; enrichment is merged.
+   */
+  async updateLead(leadId: string, clientSlug: string, input: Partial<LeadInput>) {
+    const { data: current } = await getSupabaseClient()
+      .from('leads')
+      .select('*')
+      .eq('id', leadId)
+      .eq('client_slug', clientSlug)
+      .maybeSingle();
+
+    if (!current) {
+      return null;
+    }
+    await this.assertOwnAccounts(clientSlug, [input]);
+
+    const { data: lead, error } = await getSupabaseClient()
+      .from('leads')
+      .update({ ...this.leadColumns(input, current, true), updated_at: new Date().toISOString() })
+      .eq('id', leadId)
+      .select('*')
+      .single();
+
+    if (error || !lead) {
+      throw new Error(`Failed to update lead: ${error?.message || 'Unknown error'}`);
+    }
+
+    return this.formatLead(lead);
+  }
+
+  async deleteLead(leadId: string, clientSlug: string) {
+    const { data: deleted, error } = await getSupabaseClient()
+      .from('leads')
+      .delete()
+      .eq('id', leadId)
+      .eq('client_slug', clientSlug)
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to delete lead: ${error.message}`);
+    }
+
+    return deleted ? { id: deleted.id, deleted: true } : null;
+  }
+
+  async createList(clientSlug: string, input: { name: string; description?: string | null }) {
+    const now = new Date().toISOString();
+    const { data: list, error } = await getSupabaseClient()
+      .from('lead_lists')
+      .insert({
+        client_slug: clientSlug,
+        name: input.name,
+        description: input.description,
+        created_at: now,
+        updated_at: now,
+      })
+      .select('*')
+      .single();
+
+    if (error || !list) {
+      throw new Error(`Failed to create lead list: ${error?.message || 'Unknown error'}`);
+    }
+
+    return { ...this.formatList(list), leadCount: 0 };
+  }
+
+  async listLists(clientSlug: string) {
+    const { data: lists, error } = await getSupabaseClient()
+      .from('lead_lists')
+      .select('*, lead_list_members(count)')
+      .eq('client_slug', clientSlug)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to list lead lists: ${error.message}`);
+    }
+
+    return (lists || []).map(list => this.formatList(list));
+  }
+
+  async getList(listId: string, clientSlug: string) {
+    const { data: list } = await getSupabaseClient()
+      .from('lead_lists')
+      .select('*, lead_list_members(count)')
+      .eq('id', listId)
+      .eq('client_slug', clientSlug)
+      .maybeSingle();
+
+    return list ? this.formatList(list) : null;
+  }
+
+  /**
+   * Delete a list. Its leads are kept.
+   */
+  async deleteList(listId: string, clientSlug: string) {
+    const { data: deleted, error } = await getSupabaseClient()
+      .from('lead_lists')
+      .delete()
+      .eq('id', listId)
+      .eq('client_slug', clientSlug)
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to delete lead list: ${error.message}`);
+    }
+
+    return deleted ? { id: deleted.id, deleted: true } : null;
+  }
+
+  /**
+   * Add existing leads by id, or profiles by URL (creating leads for unknown ones)
+   */
+  async addListMembers(listId: string, clientSlug: string, members: { leadIds?: string[]; profileUrls?: string[] }) {
+    const list = await this.findList(listId, clientSlug);
+    if (!list) {
+      return null;
+    }
+
+    const leadIds = new Set<string>();
+    let notFound: string[] = [];
+
+    if (members.leadIds?.length) {
+      const { data: leads, error } = await getSupabaseClient()
+        .from('leads')
+        .select('id')
+        .eq('client_slug', clientSlug)
+        .in('id', members.leadIds);
+
+      if (error) {
+        throw new Error(`Failed to load leads: ${error.message}`);
+      }
+
+      const found = new Set((leads || []).map(lead => lead.id));
+      found.forEach(id => leadIds.add(id));
+      notFound = members.leadIds.filter(id => !found.has(id));
+    }
+
+    if (members.profileUrls?.length) {
+      const imported = await this.importLeads(clientSlug, members.profileUrls.map(profileUrl => ({ profileUrl })));
+      imported?.leads.forEach(lead => leadIds.add(lead.id));
+    }
+
+    const added = await this.insertListMembers(listId, Array.from(leadIds));
+    await getSupabaseClient()
+      .from('lead_lists')
+      .update({ updated_at: new Date().toISOString() })
+      .eq('id', listId);
+
+    return {
+      listId,
+      added,
+      alreadyInList: leadIds.size - added,
+      notFound,
+    };
+  }
+
+  async removeListMember(listId: string, leadId: string, clientSlug: string) {
+    const list = await this.findList(listId, clientSlug);
+    if (!list) {
+      return null;
+    }
+
+    const { data: removed, error } = await getSupabaseClient()
+      .from('lead_list_members')
+      .delete()
+      .eq('list_id', listId)
+      .eq('lead_id', leadId)
+      .select('lead_id')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to remove lead from list: ${error.message}`);
+    }
+
+    return removed ? { listId, leadId, removed: true } : null;
+  }
+
+  /**
+   * Profile URLs of a list's leads for a bulk job request, optionally only
+   * leads in the given statuses. Returns null for an unknown list.
+   */
+  async getListProfileUrls(listId: string, clientSlug: string, statuses?: string[]) {
+    const list = await this.findList(listId, clientSlug);
+    if (!list) {
+      return null;
+    }
+
+    let query = getSupabaseClient()
+      .from('leads')
+      .select('profile_url, lead_list_members!inner(list_id)')
+      .eq('client_slug', clientSlug)
+      .eq('lead_list_members.list_id', listId)
+      .order('created_at', { ascending: true })
+      .limit(LEAD_DEFAULTS.MAX_LIST_JOBS + 1);
+
+    if (statuses?.length) {
+      query = query.in('status', statuses);
+    }
+
+    const { data: leads, error } = await query;
+    if (error) {
+      throw new Error(`Failed to load list leads: ${error.message}`);
+    }
+
+    const profileUrls = (leads || []).map(lead => lead.profile_url as string);
+    if (profileUrls.length > LEAD_DEFAULTS.MAX_LIST_JOBS) {
+      throw new LeadRequestError(`List has more than ${LEAD_DEFAULTS.MAX_LIST_JOBS} matching leads; narrow it down with leadStatus or split the list`);
+    }
+
+    return profileUrls;
+  }
+
+  private async insertListMembers(listId: string, leadIds: string[]): Promise<number> {
+    if (leadIds.length === 0) return 0;
+
+    const now = new Date().toISOString();
+    const { data: inserted, error } = await getSupabaseClient()
+      .from('lead_list_members')
+      .upsert(leadIds.map(leadId => ({ list_id: listId, lead_id: leadId, added_at: now })), {
+        onConflict: 'list_id,lead_id',
+        ignoreDuplicates: true,
+      })
+      .select('lead_id');
+
+    if (error) {
+      throw new Error(`Failed to add leads to list: ${error.message}`);
+    }
+
+    return inserted?.length || 0;
+  }
+}
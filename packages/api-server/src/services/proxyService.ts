@@ -0,0 +1,332 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import http from 'http';
+import https from 'https';
+import tls from 'tls';
+import { CONFIG } from '../config';
+import { ProxyServer, PROXY_STATUS, PROXY_DEFAULTS } from '@linkedin-bot-suite/shared';
+
+let supabase: SupabaseClient | null = null;
+
+function getSupabaseClient(): SupabaseClient {
+  if (!supabase) {
+    if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE ||
+        process.env.SUPABASE_URL === 'https://placeholder.supabase.co') {
+      throw new Error('Supabase credentials not configured. Please set SUPABASE_URL and SUPABASE_SERVICE_ROLE in Render dashboard.');
+    }
+    supabase = createClient(CONFIG.supabase.url, CONFIG.supabase.serviceRoleKey);
+  }
+  return supabase;
+}
+
+// Raised for assignments that cannot be made; routes answer 400
+export class ProxyRequestError extends Error {}
+
+export interface ProxyInput {
+  host?: string;
+  port?: number;
+  protocol?: 'http' | 'https';
+  username?: string | null;
+  password?: string | null;
+  region?: string | null;
+  status?: 'active' | 'disabled';
+}
+
+/**
+ * Open a tunnel to LinkedIn through the proxy the way Chrome does (CONNECT,
+ * then TLS). Resolves with the error message when the proxy is unusable.
+ */
+function checkProxyConnectivity(proxy: ProxyServer): Promise<string | null> {
+  return new Promise(resolve => {
+    const headers: Record<string, string> = { Host: 'www.linkedin.com:443' };
+    if (proxy.username) {
+      headers['Proxy-Authorization'] = `Basic ${Buffer.from(`${proxy.username}:${proxy.password ?? ''}`).toString('base64')}`;
+    }
+
+    const request = (proxy.protocol === 'https' ? https : http).request({
+      host: proxy.host,
+      port: proxy.port,
+      method: 'CONNECT',
+      path: 'www.linkedin.com:443',
+      headers,
+      timeout: PROXY_DEFAULTS.CHECK_TIMEOUT_MS,
+    });
+
+    request.on('connect', (response, socket) => {
+      if (response.statusCode !== 200) {
+        socket.destroy();
+        return resolve(`Proxy answered CONNECT with HTTP ${response.statusCode}`);
+      }
+
+      const secure = tls.connect({ socket, servername: 'www.linkedin.com' }, () => {
+        secure.destroy();
+        resolve(null);
+      });
+      secure.setTimeout(PROXY_DEFAULTS.CHECK_TIMEOUT_MS, () => {
+        secure.destroy();
+        resolve('TLS handshake with LinkedIn through the proxy timed out');
+      });
+      secure.on('error', error => resolve(`TLS handshake through the proxy failed: ${error.message}`));
+    });
+    request.on('timeout', () => {
+      request.destroy();
+      resolve('Proxy connection timed out');
+    });
+    request.on('error', error => resolve(`Proxy connection failed: ${error.message}`));
+    request.end();
+  });
+}
+
+export class ProxyService {
+  // Credentials are write-only; responses only say whether a proxy has them
+  private formatProxy(proxy: ProxyServer, accountCount?: number) {
+    return {
+      id: proxy.id,
+      host: proxy.host,
+      port: proxy.port,
+      protocol: proxy.protocol,
+      username: proxy.username ?? null,
+      hasPassword: Boolean(proxy.password),
+      region: proxy.region ?? null,
+      status: proxy.status,
+      consecutiveFailures: proxy.consecutive_failures,
+      lastCheckedAt: proxy.last_checked_at ?? null,
+      lastError: proxy.last_error ?? null,
+      accountCount,
+      createdAt: proxy.created_at,
+      updatedAt: proxy.updated_at,
+    };
+  }
+
+  private async countAccounts(clientSlug: string): Promise<Map<string, number>> {
+    const { data: accounts, error } = await getSupabaseClient()
+      .from('linkedin_accounts')
+      .select('proxy_id')
+      .eq('client_slug', clientSlug)
+      .not('proxy_id', 'is', null);
+
+    if (error) {
+      throw new Error(`Failed to count proxy assignments: ${error.message}`);
+    }
+
+    const counts = new Map<string, number>();
+    for (const account of accounts || []) {
+      counts.set(account.proxy_id, (counts.get(account.proxy_id) ?? 0) + 1);
+    }
+    return counts;
+  }
+
+  async listProxies(clientSlug: string, options: { status?: string; region?: string } = {}) {
+    let query = getSupabaseClient()
+      .from('proxies')
+      .select('*')
+      .eq('client_slug', clientSlug)
+      .order('created_at', { ascending: true });
+
+    if (options.status) {
+      query = query.eq('status', options.status);
+    }
+    if (options.region) {
+      query = query.eq('region', options.region);
+    }
+
+    const { data: proxies, error } = await query;
+    if (error) {
+      throw new Error(`Failed to list proxies: ${error.message}`);
+    }
+
+    const counts = await this.countAccounts(clientSlug);
+    return (proxies || []).map(proxy => this.formatProxy(proxy, counts.get(proxy.id) ?? 0));
+  }
+
+  async getProxy(proxyId: string, clientSlug: string) {
+    const proxy = await this.findProxy(proxyId, clientSlug);
+    if (!proxy) return null;
+
+    const counts = await this.countAccounts(clientSlug);
+    return this.formatProxy(proxy, counts.get(proxy.id) ?? 0);
+  }
+
+  async createProxy(clientSlug: string, input: ProxyInput) {
+    const now = new Date().toISOString();
+    const { data: proxy, error } = await getSupabaseClient()
+      .from('proxies')
+      .insert({
+        client_slug: clientSlug,
+        host: input.host,
+        port: input.port,
+        protocol: input.protocol,
+        username: input.username,
+        password: input.password,
+        region: input.region,
+        status: PROXY_STATUS.ACTIVE,
+        consecutive_failures: 0,
+        created_at: now,
+        updated_at: now,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create proxy: ${error.message}`);
+    }
+
+    return this.formatProxy(proxy, 0);
+  }
+
+  /**
+   * Update a proxy. Re-activating one resets its failure count; accounts
+   * stay assigned to a disabled proxy until their next job moves them.
+   */
+  async updateProxy(proxyId: string, clientSlug: string, input: ProxyInput) {
+    const update: Record<string, any> = { ...input, updated_at: new Date().toISOString() };
+    if (input.status === PROXY_STATUS.ACTIVE) {
+      update.consecutive_failures = 0;
+      update.last_error = null;
+    }
+
+    const { data: proxy, error } = await getSupabaseClient()
+      .from('proxies')
+      .update(update)
+      .eq('id', proxyId)
+      .eq('client_slug', clientSlug)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update proxy: ${error.message}`);
+    }
+
+    return proxy ? this.getProxy(proxy.id, clientSlug) : null;
+  }
+
+  /**
+   * Delete a proxy. Its accounts are unassigned (proxy_id is set null) and
+   * get another proxy of the client on their next job.
+   */
+  async deleteProxy(proxyId: string, clientSlug: string) {
+    const { data: proxy, error } = await getSupabaseClient()
+      .from('proxies')
+      .delete()
+      .eq('id', proxyId)
+      .eq('client_slug', clientSlug)
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to delete proxy: ${error.message}`);
+    }
+
+    return proxy ? { id: proxy.id, deleted: true } : null;
+  }
+
+  /**
+   * Check one proxy now and record the outcome
+   */
+  async checkProxy(proxyId: string, clientSlug: string) {
+    const proxy = await this.findProxy(proxyId, clientSlug);
+    if (!proxy) return null;
+
+    const checked = await this.runCheck(proxy);
+    const counts = await this.countAccounts(clientSlug);
+    return this.formatProxy(checked, counts.get(checked.id) ?? 0);
+  }
+
+  /**
+   * Periodic health check of every proxy that is not disabled. A proxy that
+   * fails FAILURES_BEFORE_REMOVAL checks in a row is taken out of rotation;
+   * a failed proxy that passes again is put back.
+   */
+  async checkAllProxies() {
+    const { data: proxies, error } = await getSupabaseClient()
+      .from('proxies')
+      .select('*')
+      .neq('status', PROXY_STATUS.DISABLED);
+
+    if (error) {
+      throw new Error(`Failed to load proxies: ${error.message}`);
+    }
+
+    let failed = 0;
+    for (const proxy of proxies || []) {
+      const checked = await this.runCheck(proxy);
+      if (checked.status === PROXY_STATUS.FAILED) {
+        failed++;
+      }
+    }
+
+    return { checked: (proxies || []).length, failed };
+  }
+
+  /**
+   * Pin an account to a proxy of its client, or unassign it (proxyId null) so
+   * its next job picks one
+   */
+  async assignAccountProxy(accountId: string, clientSlug: string, proxyId: string | null) {
+    if (proxyId) {
+      const proxy = await this.findProxy(proxyId, clientSlug);
+      if (!proxy) {
+        throw new ProxyRequestError('Proxy not found');
+      }
+      if (proxy.status === PROXY_STATUS.DISABLED) {
+        throw new ProxyRequestError('Proxy is disabled');
+      }
+    }
+
+    const { data: account, error } = await getSupabaseClient()
+      .from('linkedin_accounts')
+      .update({ proxy_id: proxyId, updated_at: new Date().toISOString() })
+      .eq('id', accountId)
+      .eq('client_slug', clientSlug)
+      .select('id, proxy_id')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to assign proxy: ${error.message}`);
+    }
+
+    return account ? { accountId: account.id, proxyId: account.proxy_id } : null;
+  }
+
+  private async findProxy(proxyId: string, clientSlug: string): Promise<ProxyServer | null> {
+    const { data: proxy } = await getSupabaseClient()
+      .from('proxies')
+      .select('*')
+      .eq('id', proxyId)
+      .eq('client_slug', clientSlug)
+      .maybeSingle();
+
+    return proxy as ProxyServer | null;
+  }
+
+  private async runCheck(proxy: ProxyServer): Promise<ProxyServer> {
+    const checkError = await checkProxyConnectivity(proxy);
+    const consecutiveFailures = checkError ? (proxy.consecutive_failures ?? 0) + 1 : 0;
+
+    let status = proxy.status;
+    if (status !== PROXY_STATUS.DISABLED) {
+      status = consecutiveFailures >= PROXY_DEFAULTS.FAILURES_BEFORE_REMOVAL ? PROXY_STATUS.FAILED : PROXY_STATUS.ACTIVE;
+    }
+    if (status !== proxy.status) {
+      console.log(`🔌 Proxy ${proxy.id} (${proxy.host}:${proxy.port}) is now ${status}${checkError ? `: ${checkError}` : ''}`);
+    }
+
+    const { data: updated, error } = await getSupabaseClient()
+      .from('proxies')
+      .update({
+        status,
+        consecutive_failures: consecutiveFailures,
+        last_checked_at: new Date().toISOString(),
+        last_error: checkError,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', proxy.id)
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to record proxy check: ${error.message}`);
+    }
+
+    return updated as ProxyServer;
+  }
+}
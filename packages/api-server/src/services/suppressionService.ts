@@ -0,0 +1,192 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { CONFIG } from '../config';
+import {
+  SuppressionEntry,
+  SuppressionType,
+  SUPPRESSION_DEFAULTS,
+  findSuppressionMatch,
+  parseSuppressionCsv,
+} from '@linkedin-bot-suite/shared';
+
+let supabase: SupabaseClient | null = null;
+
+function getSupabaseClient(): SupabaseClient {
+  if (!supabase) {
+    if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE ||
+        process.env.SUPABASE_URL === 'https://placeholder.supabase.co') {
+      throw new Error('Supabase credentials not configured. Please set SUPABASE_URL and SUPABASE_SERVICE_ROLE in Render dashboard.');
+    }
+    supabase = createClient(CONFIG.supabase.url, CONFIG.supabase.serviceRoleKey);
+  }
+  return supabase;
+}
+
+// Raised for uploads that cannot be imported; routes answer 400
+export class SuppressionRequestError extends Error {}
+
+// Raised when a job targets a profile on the client's do-not-contact list; routes answer 422
+export class SuppressedContactError extends Error {
+  constructor(message: string, public readonly entry: SuppressionEntry) {
+    super(message);
+  }
+}
+
+export interface SuppressionInput {
+  type: SuppressionType;
+  value: string; // already normalized by validation or the CSV parser
+  reason?: string;
+}
+
+export class SuppressionService {
+  private formatEntry(entry: any) {
+    return {
+      id: entry.id,
+      type: entry.type,
+      value: entry.value,
+      reason: entry.reason,
+      createdAt: entry.created_at,
+    };
+  }
+
+  async listEntries(clientSlug: string, options: { type?: string; limit?: number; offset?: number } = {}) {
+    const limit = Math.min(options.limit || 100, 1000);
+    const offset = options.offset || 0;
+
+    let query = getSupabaseClient()
+      .from('suppression_entries')
+      .select('*')
+      .eq('client_slug', clientSlug)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (options.type) {
+      query = query.eq('type', options.type);
+    }
+
+    const { data: entries, error } = await query;
+    if (error) {
+      throw new Error(`Failed to list suppression entries: ${error.message}`);
+    }
+
+    return (entries || []).map(entry => this.formatEntry(entry));
+  }
+
+  /**
+   * Add entries to the client's list. Entries that are already on it are
+   * counted as duplicates and left unchanged.
+   */
+  async addEntries(clientSlug: string, inputs: SuppressionInput[]) {
+    const unique = new Map<string, SuppressionInput>();
+    for (const input of inputs) {
+      unique.set(`${input.type}:${input.value}`, input);
+    }
+
+    const now = new Date().toISOString();
+    const rows = Array.from(unique.values()).map(input => ({
+      client_slug: clientSlug,
+      type: input.type,
+      value: input.value,
+      reason: input.reason,
+      created_at: now,
+    }));
+
+    const added = [];
+    for (let i = 0; i < rows.length; i += SUPPRESSION_DEFAULTS.MAX_ENTRIES_PER_REQUEST) {
+      const { data: inserted, error } = await getSupabaseClient()
+        .from('suppression_entries')
+        .upsert(rows.slice(i, i + SUPPRESSION_DEFAULTS.MAX_ENTRIES_PER_REQUEST), {
+          onConflict: 'client_slug,type,value',
+          ignoreDuplicates: true,
+        })
+        .select('*');
+
+      if (error) {
+        throw new Error(`Failed to add suppression entries: ${error.message}`);
+      }
+      added.push(...(inserted || []));
+    }
+
+    return {
+      added: added.length,
+      duplicates: inputs.length - added.length,
+      entries: added.map(entry => this.formatEntry(entry)),
+    };
+  }
+
+  /**
+   * Import a CSV with the columns type, value and reason. Valid rows are
+   * added even when others are rejected.
+   */
+  async importCsv(clientSlug: string, csv: string) {
+    const { rows, errors } = parseSuppressionCsv(csv);
+
+    if (rows.length + errors.length === 0) {
+      throw new SuppressionRequestError('CSV contains no rows');
+    }
+    if (rows.length + errors.length > SUPPRESSION_DEFAULTS.MAX_CSV_ROWS) {
+      throw new SuppressionRequestError(`CSV has more than ${SUPPRESSION_DEFAULTS.MAX_CSV_ROWS} rows`);
+    }
+
+    const result = await this.addEntries(clientSlug, rows);
+
+    return {
+      added: result.added,
+      duplicates: result.duplicates,
+      invalid: errors.length,
+      errors,
+    };
+  }
+
+  async deleteEntry(clientSlug: string, entryId: string) {
+    const { data: deleted, error } = await getSupabaseClient()
+      .from('suppression_entries')
+      .delete()
+      .eq('id', entryId)
+      .eq('client_slug', clientSlug)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to delete suppression entry: ${error.message}`);
+    }
+
+    return deleted ? this.formatEntry(deleted) : null;
+  }
+
+  /**
+   * Reject a job for a suppressed profile. Company and keyword entries are
+   * matched against the name and headline stored with the lead, if any; the
+   * worker checks them again against the profile page.
+   */
+  async assertNotSuppressed(clientSlug: string, profileUrl: string) {
+    const { data: entries, error } = await getSupabaseClient()
+      .from('suppression_entries')
+      .select('id, type, value, reason')
+      .eq('client_slug', clientSlug);
+
+    if (error) {
+      throw new Error(`Failed to check suppression list: ${error.message}`);
+    }
+    if (!entries || entries.length === 0) return;
+
+    const { data: lead } = await getSupabaseClient()
+      .from('leads')
+      .select('name, headline')
+      .eq('client_slug', clientSlug)
+      .eq('profile_url', profileUrl)
+      .maybeSingle();
+
+    const match = findSuppressionMatch(entries as SuppressionEntry[], {
+      profileUrls: [profileUrl],
+      name: lead?.name || undefined,
+      headline: lead?.headline || undefined,
+    });
+
+    if (match) {
+      throw new SuppressedContactError(
+        `${profileUrl} is on the do-not-contact list (${match.type} "${match.value}"${match.reason ? `: ${match.reason}` : ''})`,
+        match
+      );
+    }
+  }
+}
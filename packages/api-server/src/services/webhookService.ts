@@ -1,7 +1,7 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import fetch from 'node-fetch';
 import { CONFIG } from '../config';
-import { WebhookPayload, JOB_STATUS } from '@linkedin-bot-suite/shared';
+import { WebhookPayload, JOB_STATUS, COMPLETED_JOB_STATUSES, FAILED_JOB_STATUSES } from '@linkedin-bot-suite/shared';
 
 let supabase: SupabaseClient | null = null;
 
@@ -41,7 +41,22 @@ export class WebhookService {
     }
   }
 
-  async processJobCompletion(jobId: string, success: boolean, result: any, error?: string) {
+  /**
+   * Record a status update for one of the client's jobs. Returns false if the
+   * job does not exist or belongs to another client.
+   */
+  async processJobCompletion(jobId: string, clientSlug: string, success: boolean, result: any, error?: string): Promise<boolean> {
+    const { data: ownedJob } = await getSupabaseClient()
+      .from('job_history')
+      .select('id')
+      .eq('id', jobId)
+      .eq('client_slug', clientSlug)
+      .maybeSingle();
+
+    if (!ownedJob) {
+      return false;
+    }
+
     try {
       // Update job history
       const updateData: any = {
@@ -69,12 +84,12 @@ export class WebhookService {
 
       if (!jobHistory) {
         console.error('Job history not found for job:', jobId);
-        return;
+        return true;
       }
 
       // Update workflow run counters
       if (jobHistory.workflow_run_id) {
-        await this.updateWorkflowRunCounters(jobHistory.workflow_run_id);
+        await this.updateWorkflowRunCounters(jobHistory.workflow_run_id, clientSlug);
       }
 
       // Send webhook if URL is provided
@@ -100,23 +115,28 @@ export class WebhookService {
     } catch (error) {
       console.error('Error processing job completion:', error);
     }
+
+    return true;
   }
 
-  private async updateWorkflowRunCounters(workflowRunId: string) {
+  // Recount one of the client's workflow runs from its jobs
+  async updateWorkflowRunCounters(workflowRunId: string, clientSlug: string) {
     const { data: jobs } = await getSupabaseClient()
       .from('job_history')
       .select('status')
-      .eq('workflow_run_id', workflowRunId);
+      .eq('workflow_run_id', workflowRunId)
+      .eq('client_slug', clientSlug);
 
     if (!jobs) return;
 
-    const completedJobs = jobs.filter(j => j.status === JOB_STATUS.COMPLETED).length;
-    const failedJobs = jobs.filter(j => j.status === JOB_STATUS.FAILED).length;
+    const completedJobs = jobs.filter(j => COMPLETED_JOB_STATUSES.includes(j.status)).length;
+    const failedJobs = jobs.filter(j => FAILED_JOB_STATUSES.includes(j.status)).length;
+    const cancelledJobs = jobs.filter(j => j.status === JOB_STATUS.CANCELLED).length;
     const totalJobs = jobs.length;
 
     // Determine workflow status
     let workflowStatus = 'running';
-    if (completedJobs + failedJobs === totalJobs) {
+    if (completedJobs + failedJobs + cancelledJobs === totalJobs) {
       workflowStatus = failedJobs > 0 ? 'failed' : 'completed';
     }
 
@@ -128,11 +148,15 @@ export class WebhookService {
 
     if (workflowStatus === 'completed' || workflowStatus === 'failed') {
       updateData.completed_at = new Date().toISOString();
+    } else {
+      // A finished run is running again once failed jobs are retried
+      updateData.completed_at = null;
     }
 
     await getSupabaseClient()
       .from('workflow_runs')
       .update(updateData)
-      .eq('id', workflowRunId);
+      .eq('id', workflowRunId)
+      .eq('client_slug', clientSlug);
   }
 }
\ No newline at end of file
@@ -0,0 +1,241 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { createHash, randomUUID } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import { API_PERMISSIONS } from '@linkedin-bot-suite/shared';
+import { FakeSupabase } from './helpers/supabase';
+
+vi.hoisted(() => {
+  process.env.SUPABASE_URL = 'https://test.supabase.co';
+  process.env.SUPABASE_SERVICE_ROLE = 'test-service-role';
+});
+
+vi.mock('@supabase/supabase-js', async () => {
+  const { FakeSupabase } = await import('./helpers/supabase');
+  const client = new FakeSupabase();
+  return { createClient: () => client };
+});
+
+// One queue shared by every service, like the Redis behind it
+vi.mock('bullmq', () => {
+  const jobs = new Map<string, any>();
+  class Queue {
+    async add(name: string, data: any, options: { jobId?: string } = {}) {
+      const job = {
+        id: options.jobId,
+        name,
+        data,
+        progress: 0,
+        attemptsMade: 0,
+        getState: async () => 'waiting',
+        remove: async () => { jobs.delete(job.id!); },
+      };
+      jobs.set(job.id!, job);
+      return job;
+    }
+
+    async getJob(id: string) {
+      return jobs.get(id);
+    }
+  }
+  return { Queue, Job: class {} };
+});
+
+import webhooksRouter from '../src/routes/webhooks';
+import jobsRouter from '../src/routes/jobs';
+import leadsRouter from '../src/routes/leads';
+
+const supabase = createClient('', '') as unknown as FakeSupabase;
+
+const KEY_A = 'client-a-key';
+const KEY_B = 'client-b-key';
+const ACCOUNT_A = randomUUID();
+
+type Response = { status: number; body: any };
+
+describe('API keys of two clients', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  const call = async (apiKey: string, method: string, path: string, body?: unknown): Promise<Response> => {
+    const response = await fetch(baseUrl + path, {
+      method,
+      headers: { 'x-api-key': apiKey, 'content-type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const text = await response.text();
+    return { status: response.status, body: response.headers.get('content-type')?.includes('application/json') ? JSON.parse(text) : text };
+  };
+
+  const invite = (profile: string, extra: Record<string, unknown> = {}) => ({
+    type: 'invite',
+    profileUrl: `https://www.linkedin.com/in/${profile}`,
+    ...extra,
+  });
+
+  beforeAll(async () => {
+    const permissions = Object.values(API_PERMISSIONS);
+    supabase.seed('api_keys', [
+      { name: 'A', client_slug: 'client-a', key_hash: createHash('sha256').update(KEY_A).digest('hex'), permissions, is_active: true },
+      { name: 'B', client_slug: 'client-b', key_hash: createHash('sha256').update(KEY_B).digest('hex'), permissions, is_active: true },
+    ]);
+    supabase.seed('linkedin_accounts', [{ id: ACCOUNT_A, client_slug: 'client-a', cookies_url: 'https://example.com/a.json', is_active: true }]);
+
+    const app = express();
+    app.use(express.json());
+    app.use('/webhook', webhooksRouter);
+    app.use('/jobs', jobsRouter);
+    app.use('/leads', leadsRouter);
+
+    server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server?.close(resolve));
+  });
+
+  describe('workflow runs', () => {
+    const workflowId = randomUUID();
+
+    it('keeps the caller\'s workflowId as the run id and adds later jobs to it', async () => {
+      const first = await call(KEY_A, 'POST', '/webhook/linkedin/bulk', { jobs: [invite('run-one')], workflowId });
+      expect(first.status).toBe(201);
+      expect(first.body.data.workflowRunId).toBe(workflowId);
+
+      const second = await call(KEY_A, 'POST', '/webhook/linkedin/bulk', { jobs: [invite('run-two')], workflowId });
+      expect(second.body.data.workflowRunId).toBe(workflowId);
+
+      const single = await call(KEY_A, 'POST', '/webhook/linkedin/invite', invite('run-three', { workflowId }));
+      expect(single.status).toBe(201);
+
+      const status = await call(KEY_A, 'GET', `/jobs/workflow/${workflowId}/status`);
+      expect(status.status).toBe(200);
+      expect(status.body.data.jobs).toHaveLength(3);
+    });
+
+    it('keeps other workflowIds as the label of a new run', async () => {
+      const result = await call(KEY_A, 'POST', '/webhook/linkedin/bulk', { jobs: [invite('labelled')], workflowId: 'bulk-operation-123' });
+
+      expect(result.status).toBe(201);
+      expect(result.body.data.workflowRunId).not.toBe('bulk-operation-123');
+      expect(supabase.rows('workflow_runs').find(run => run.id === result.body.data.workflowRunId)?.workflow_id).toBe('bulk-operation-123');
+    });
+
+    it('does not let another client add jobs to the run or read it', async () => {
+      const bulk = await call(KEY_B, 'POST', '/webhook/linkedin/bulk', { jobs: [invite('intruder')], workflowId });
+      expect(bulk.status).toBe(400);
+
+      const single = await call(KEY_B, 'POST', '/webhook/linkedin/invite', invite('intruder', { workflowId }));
+      expect(single.status).toBe(400);
+      expect(single.body.error).toBe(`Unknown workflowId: ${workflowId}`);
+
+      expect((await call(KEY_B, 'GET', `/jobs/workflow/${workflowId}/status`)).status).toBe(404);
+      expect((await call(KEY_B, 'POST', `/jobs/workflow/${workflowId}/retry-failed`, {})).status).toBe(404);
+      expect((await call(KEY_B, 'POST', `/jobs/workflow/${workflowId}/cancel-pending`)).status).toBe(404);
+      expect(supabase.rows('job_history').filter(row => row.workflow_run_id === workflowId)).toHaveLength(3);
+    });
+
+    it('completes a run whose other jobs were skipped or suppressed', async () => {
+      const bulk = await call(KEY_A, 'POST', '/webhook/linkedin/bulk', { jobs: [invite('done'), invite('skipped'), invite('suppressed')] });
+      const [done, skipped, suppressed] = bulk.body.data.jobs.map((job: { jobId: string }) => job.jobId);
+      const history = supabase.rows('job_history');
+      history.find(row => row.id === skipped)!.status = 'skipped_duplicate';
+      history.find(row => row.id === suppressed)!.status = 'suppressed';
+
+      await call(KEY_A, 'POST', '/webhook/status', { jobId: done, success: true, result: {} });
+
+      const status = await call(KEY_A, 'GET', `/jobs/workflow/${bulk.body.data.workflowRunId}/status`);
+      expect(status.body.data).toMatchObject({ status: 'completed', completedJobs: 3, failedJobs: 0 });
+    });
+
+    it('rejects single jobs for runs that do not exist', async () => {
+      const result = await call(KEY_A, 'POST', '/webhook/linkedin/invite', invite('no-run', { workflowId: 'my-n8n-workflow' }));
+
+      expect(result.status).toBe(400);
+      expect(supabase.rows('job_history').some(row => row.job_data.profileUrl.endsWith('/no-run'))).toBe(false);
+    });
+  });
+
+  describe('jobs', () => {
+    let jobId: string;
+
+    beforeAll(async () => {
+      const created = await call(KEY_A, 'POST', '/webhook/linkedin/invite', invite('private-job'));
+      jobId = created.body.data.jobId;
+    });
+
+    it('hides one client\'s jobs from the other', async () => {
+      expect((await call(KEY_A, 'GET', `/jobs/${jobId}/status`)).status).toBe(200);
+      expect((await call(KEY_B, 'GET', `/jobs/${jobId}/status`)).status).toBe(404);
+
+      const batch = await call(KEY_B, 'POST', '/jobs/status', { jobIds: [jobId] });
+      expect(batch.body.data).toEqual({ jobs: [], notFound: [jobId] });
+
+      const list = await call(KEY_B, 'GET', '/jobs');
+      expect(list.body.data.jobs).toEqual([]);
+    });
+
+    it('exports only the caller\'s job history', async () => {
+      const own = await call(KEY_A, 'GET', '/jobs/export?format=ndjson');
+      expect(own.status).toBe(200);
+      expect(own.body.split('\n').filter(Boolean).map((line: string) => JSON.parse(line).job_id)).toContain(jobId);
+
+      const other = await call(KEY_B, 'GET', '/jobs/export?format=ndjson');
+      expect(other.status).toBe(200);
+      expect(other.body).toBe('');
+    });
+
+    it('does not let another client change the job', async () => {
+      expect((await call(KEY_B, 'POST', `/jobs/${jobId}/retry`, {})).status).toBe(404);
+      expect((await call(KEY_B, 'PATCH', `/jobs/${jobId}`, { priority: 1 })).status).toBe(404);
+      expect((await call(KEY_B, 'POST', `/jobs/${jobId}/cancel`)).status).toBe(404);
+      expect((await call(KEY_B, 'DELETE', `/jobs/${jobId}`)).status).toBe(404);
+    });
+
+    it('accepts status updates only from the job\'s client', async () => {
+      const other = await call(KEY_B, 'POST', '/webhook/status', { jobId, success: false, error: 'forged' });
+      expect(other.status).toBe(404);
+      expect(supabase.rows('job_history').find(row => row.id === jobId)?.status).toBe('pending');
+
+      const own = await call(KEY_A, 'POST', '/webhook/status', { jobId, success: true, result: { ok: true } });
+      expect(own.status).toBe(200);
+      expect(supabase.rows('job_history').find(row => row.id === jobId)?.status).toBe('completed');
+    });
+  });
+
+  describe('leads', () => {
+    let leadId: string;
+
+    beforeAll(async () => {
+      const created = await call(KEY_A, 'POST', '/leads', { profileUrl: 'https://www.linkedin.com/in/shared-lead', ownerAccountId: ACCOUNT_A });
+      expect(created.status).toBe(201);
+      leadId = created.body.data.id;
+    });
+
+    it('hides one client\'s leads from the other', async () => {
+      expect((await call(KEY_A, 'GET', `/leads/${leadId}`)).status).toBe(200);
+      expect((await call(KEY_B, 'GET', `/leads/${leadId}`)).status).toBe(404);
+      expect((await call(KEY_B, 'GET', '/leads')).body.data).toEqual([]);
+      expect((await call(KEY_B, 'PATCH', `/leads/${leadId}`, { status: 'replied' })).status).toBe(404);
+      expect((await call(KEY_B, 'DELETE', `/leads/${leadId}`)).status).toBe(404);
+    });
+
+    it('keeps a lead of the same profile per client', async () => {
+      const created = await call(KEY_B, 'POST', '/leads', { profileUrl: 'https://www.linkedin.com/in/shared-lead' });
+
+      expect(created.status).toBe(201);
+      expect(created.body.data.id).not.toBe(leadId);
+    });
+
+    it('does not let another client assign leads to the client\'s accounts', async () => {
+      const result = await call(KEY_B, 'POST', '/leads', { profileUrl: 'https://www.linkedin.com/in/other-lead', ownerAccountId: ACCOUNT_A });
+
+      expect(result.status).toBe(400);
+      expect(result.body.error).toBe(`Unknown ownerAccountId: ${ACCOUNT_A}`);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { randomUUID } from 'crypto';
+
+type Row = Record<string, any>;
+type Result = { data: any; error: { code?: string; message: string } | null };
+
+// Unique keys besides id, as in scripts/enhanced-schema.sql
+const UNIQUE_KEYS: Record<string, string[][]> = {
+  api_keys: [['key_hash']],
+  contact_registry: [['job_id']],
+  leads: [['client_slug', 'profile_url']],
+  idempotency_keys: [['api_key_id', 'key']],
+};
+
+/**
+ * In-memory stand-in for the Supabase client, covering the PostgREST
+ * builder calls the services make. Filters compare plain values;
+ * "column->>key" reads a key of a JSON column.
+ */
+export class FakeSupabase {
+  readonly tables = new Map<string, Row[]>();
+
+  from(table: string) {
+    return new FakeQuery(this.rows(table), table);
+  }
+
+  rows(table: string): Row[] {
+    if (!this.tables.has(table)) {
+      this.tables.set(table, []);
+    }
+    return this.tables.get(table)!;
+  }
+
+  seed(table: string, rows: Row[]) {
+    this.rows(table).push(...rows.map(row => withDefaults(row)));
+  }
+}
+
+const withDefaults = (row: Row): Row => ({ id: randomUUID(), created_at: new Date().toISOString(), ...row });
+
+const read = (row: Row, column: string) => {
+  const [base, key] = column.split('->>');
+  return key === undefined ? row[base] : row[base]?.[key];
+};
+
+const sameKey = (a: Row, b: Row, columns: string[]) => columns.every(column => a[column] === b[column]);
+
+class FakeQuery implements PromiseLike<Result> {
+  private action: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select';
+  private values: Row[] = [];
+  private changes: Row = {};
+  private conflictColumns: string[] | null = null;
+  private returning = false;
+  private filters: Array<(row: Row) => boolean> = [];
+  private orders: Array<{ column: string; ascending: boolean }> = [];
+  private window: { from: number; to: number } | null = null;
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(private readonly rows: Row[], private readonly table: string) {}
+
+  select(_columns?: string) {
+    if (this.action !== 'select') this.returning = true;
+    return this;
+  }
+
+  insert(values: Row | Row[]) {
+    this.action = 'insert';
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string } = {}) {
+    this.action = 'upsert';
+    this.values = Array.isArray(values) ? values : [values];
+    this.conflictColumns = (options.onConflict || 'id').split(',');
+    return this;
+  }
+
+  update(changes: Row) {
+    this.action = 'update';
+    this.changes = changes;
+    return this;
+  }
+
+  delete() {
+    this.action = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown) { return this.where(row => read(row, column) === value); }
+  neq(column: string, value: unknown) { return this.where(row => read(row, column) !== value); }
+  is(column: string, value: null) { return this.where(row => (read(row, column) ?? null) === value); }
+  in(column: string, values: unknown[]) { return this.where(row => values.includes(read(row, column))); }
+  lt(column: string, value: any) { return this.where(row => read(row, column) < value); }
+  lte(column: string, value: any) { return this.where(row => read(row, column) <= value); }
+  gt(column: string, value: any) { return this.where(row => read(row, column) > value); }
+  gte(column: string, value: any) { return this.where(row => read(row, column) >= value); }
+  contains(column: string, values: unknown[]) { return this.where(row => values.every(value => (read(row, column) || []).includes(value))); }
+  match(query: Row) { return this.where(row => Object.entries(query).every(([column, value]) => read(row, column) === value)); }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.orders.push({ column, ascending: options.ascending !== false });
+    return this;
+  }
+
+  limit(count: number) {
+    this.window = { from: 0, to: count - 1 };
+    return this;
+  }
+
+  range(from: number, to: number) {
+    this.window = { from, to };
+    return this;
+  }
+
+  single() {
+    this.mode = 'single';
+    return this;
+  }
+
+  maybeSingle() {
+    this.mode = 'maybeSingle';
+    return this;
+  }
+
+  then<T1 = Result, T2 = never>(onfulfilled?: ((value: Result) => T1 | PromiseLike<T1>) | null, onrejected?: ((reason: any) => T2 | PromiseLike<T2>) | null): PromiseLike<T1 | T2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private where(predicate: (row: Row) => boolean) {
+    this.filters.push(predicate);
+    return this;
+  }
+
+  private matching(): Row[] {
+    const rows = this.rows.filter(row => this.filters.every(filter => filter(row)));
+    for (const { column, ascending } of [...this.orders].reverse()) {
+      rows.sort((a, b) => (a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0) * (ascending ? 1 : -1));
+    }
+    return this.window ? rows.slice(this.window.from, this.window.to + 1) : rows;
+  }
+
+  private conflict(row: Row, keys: string[][]): Row | undefined {
+    return this.rows.find(existing => keys.some(columns => sameKey(existing, row, columns)));
+  }
+
+  private execute(): Result {
+    let affected: Row[];
+
+    switch (this.action) {
+      case 'select':
+        affected = this.matching();
+        break;
+      case 'insert': {
+        const keys = [['id'], ...(UNIQUE_KEYS[this.table] || [])];
+        const rows = this.values.map(withDefaults);
+        if (rows.some(row => this.conflict(row, keys))) {
+          return { data: null, error: { code: '23505', message: `duplicate key value violates unique constraint on ${this.table}` } };
+        }
+        this.rows.push(...rows);
+        affected = rows;
+        break;
+      }
+      case 'upsert':
+        affected = this.values.map(value => {
+          const existing = this.conflict(value, [this.conflictColumns!]);
+          if (existing) return Object.assign(existing, value);
+          const row = withDefaults(value);
+          this.rows.push(row);
+          return row;
+        });
+        break;
+      case 'update':
+        affected = this.matching();
+        affected.forEach(row => Object.assign(row, this.changes));
+        break;
+      case 'delete':
+        affected = this.matching();
+        affected.forEach(row => this.rows.splice(this.rows.indexOf(row), 1));
+        break;
+    }
+
+    const data = this.action === 'select' || this.returning ? affected.map(row => ({ ...row })) : null;
+    if (this.mode === 'many') {
+      return { data, error: null };
+    }
+    if (data && data.length > 1 || this.mode === 'single' && data?.length !== 1) {
+      return { data: null, error: { code: 'PGRST116', message: 'JSON object requested, multiple (or no) rows returned' } };
+    }
+    return { data: data?.[0] ?? null, error: null };
+  }
+}
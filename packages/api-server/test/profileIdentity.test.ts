@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { createHash } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import { API_PERMISSIONS } from '@linkedin-bot-suite/shared';
+import { FakeSupabase } from './helpers/supabase';
+
+vi.hoisted(() => {
+  process.env.SUPABASE_URL = 'https://test.supabase.co';
+  process.env.SUPABASE_SERVICE_ROLE = 'test-service-role';
+});
+
+vi.mock('@supabase/supabase-js', async () => {
+  const { FakeSupabase } = await import('./helpers/supabase');
+  const client = new FakeSupabase();
+  return { createClient: () => client };
+});
+
+vi.mock('bullmq', () => {
+  class Queue {
+    async add(name: string, data: any, options: { jobId?: string } = {}) {
+      return { id: options.jobId, name, data };
+    }
+
+    async getJob() {
+      return undefined;
+    }
+  }
+  return { Queue, Job: class {} };
+});
+
+import webhooksRouter from '../src/routes/webhooks';
+
+const supabase = createClient('', '') as unknown as FakeSupabase;
+
+const API_KEY = 'identity-client-key';
+const MEMBER_ID = 'ACoAABcdEfGh123';
+const VANITY_URL = 'https://www.linkedin.com/in/jane-doe/';
+const MEMBER_URL = `https://www.linkedin.com/in/${MEMBER_ID}`;
+
+describe('jobs for a profile known by vanity name and member id', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  const post = async (path: string, body: unknown) => {
+    const response = await fetch(baseUrl + path, {
+      method: 'POST',
+      headers: { 'x-api-key': API_KEY, 'content-type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  beforeAll(async () => {
+    supabase.seed('api_keys', [{
+      name: 'identity',
+      client_slug: 'identity-client',
+      key_hash: createHash('sha256').update(API_KEY).digest('hex'),
+      permissions: Object.values(API_PERMISSIONS),
+      is_active: true,
+    }]);
+    supabase.seed('profile_identities', [{ public_identifier: 'jane-doe', member_id: MEMBER_ID, sales_navigator_id: null }]);
+
+    const app = express();
+    app.use(express.json());
+    app.use('/webhook', webhooksRouter);
+
+    server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server?.close(resolve));
+  });
+
+  it('treats the member id URL as a duplicate of the vanity URL', async () => {
+    const first = await post('/webhook/linkedin/invite', { type: 'invite', profileUrl: 'https://linkedin.com/in/Jane-Doe' });
+    expect(first.status).toBe(201);
+    expect(first.body.data.profileUrl).toBe(VANITY_URL);
+
+    const second = await post('/webhook/linkedin/invite', { type: 'invite', profileUrl: MEMBER_URL, duplicatePolicy: 'fail' });
+    expect(second.status).toBe(409);
+    expect(second.body.error).toContain(first.body.data.jobId);
+  });
+
+  it('records the job under the vanity URL', async () => {
+    const created = await post('/webhook/linkedin/profile-view', { type: 'profile_view', profileUrl: MEMBER_URL });
+
+    expect(created.status).toBe(201);
+    expect(supabase.rows('job_history').find(row => row.id === created.body.data.jobId)?.job_data.profileUrl).toBe(VANITY_URL);
+  });
+
+  it('applies a suppressed vanity URL to jobs sent by member id', async () => {
+    supabase.seed('suppression_entries', [{ client_slug: 'identity-client', type: 'profile', value: VANITY_URL }]);
+
+    const result = await post('/webhook/linkedin/message', { type: 'message', profileUrl: MEMBER_URL, message: 'Hi' });
+
+    expect(result.status).toBe(422);
+  });
+});
@@ -0,0 +1,305 @@
+import { Browser, Page } from 'puppeteer';
+import { join } from 'path';
+import { initLinkedInContext, openLinkedInPage, closeLinkedInBrowser, checkBrowserHealth, cleanupUserDataDir, throwIfAborted, untilAborted, LinkedInContext, LinkedInContextOptions } from '@linkedin-bot-suite/linkedin';
+
+/**
+ * Safely close browser with timeout
+ */
+export async function safeBrowserClose(browser: Browser, timeoutMs: number = 5000): Promise<void> {
+  try {
+    await Promise.race([
+      closeLinkedInBrowser(browser),
+      new Promise<void>((_, reject) =>
+        setTimeout(() => reject(new Error('Browser close timeout')), timeoutMs)
+      )
+    ]);
+    console.log('Browser closed successfully');
+  } catch (error) {
+    console.error('Failed to close browser gracefully:', error);
+
+    // Force kill if still connected; a remote browser is only disconnected
+    if (browser.isConnected()) {
+      try {
+        const process = browser.process();
+        if (process) {
+          process.kill('SIGKILL');
+          console.log('Browser process killed');
+        } else {
+          await browser.disconnect();
+        }
+      } catch (killError) {
+        console.error('Failed to kill browser process:', killError);
+      }
+    }
+  }
+}
+
+/**
+ * initLinkedInContext with a time limit. A browser that only comes up after
+ * the limit is closed once it does, together with the temporary profile
+ * initLinkedInContext created for it, so no Chrome is left without a job.
+ */
+export async function initContextWithTimeout(proxy: string | undefined, options: LinkedInContextOptions, timeoutMs: number = 45000): Promise<LinkedInContext> {
+  const init = initLinkedInContext(proxy, options);
+  let timer!: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error('Browser initialization timeout')), timeoutMs);
+  });
+
+  try {
+    return await Promise.race([init, timeout]);
+  } catch (error) {
+    init.then(async context => {
+      console.log('Closing browser that started after the initialization timeout');
+      await safeBrowserClose(context.browser);
+      if (context.userDataDir && !options.userDataDir) {
+        await cleanupUserDataDir(context.userDataDir).catch(() => {});
+      }
+    }, () => {});
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Resident memory of Chrome and its renderers in MB. Puppeteer starts Chrome
+ * detached, so every Chrome process shares the browser's process group.
+ * Returns null where /proc is not available.
+ */
+export async function getBrowserMemoryMb(browser: Browser): Promise<number | null> {
+  const pid = browser.process()?.pid;
+  if (!pid) return null;
+
+  const { readdir, readFile } = await import('fs/promises');
+  let rssPages = 0;
+  try {
+    for (const entry of await readdir('/proc')) {
+      if (!/^\d+$/.test(entry)) continue;
+      try {
+        const stat = await readFile(`/proc/${entry}/stat`, 'utf8');
+        // Fields after the command name start at state (3); pgrp is 5, rss is 24
+        const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+        if (Number(fields[2]) === pid) {
+          rssPages += Number(fields[21]);
+        }
+      } catch {
+        // Process exited while reading
+      }
+    }
+  } catch {
+    return null;
+  }
+  return Math.round((rssPages * 4096) / 1024 / 1024);
+}
+
+export interface BrowserPoolOptions {
+  /** Jobs a browser serves before it is closed and relaunched */
+  maxJobsPerBrowser: number;
+  /** Chrome memory (all processes) above which a browser is relaunched */
+  maxBrowserMemoryMb: number;
+  /** Browsers unused for this long are closed */
+  idleTimeoutMs: number;
+  /** Parent directory of the per-account Chrome profiles */
+  profileRoot: string;
+}
+
+export interface PooledSession {
+  proxy?: string;
+  proxyCredentials?: LinkedInContextOptions['proxyCredentials'];
+  cookies?: any[];
+}
+
+export interface BrowserLease {
+  browser: Browser;
+  page: Page;
+  userDataDir: string | null;
+}
+
+interface PooledBrowser {
+  accountKey: string;
+  browser: Browser;
+  userDataDir: string | null; // null when connected to a remote browser
+  userAgent: string;
+  proxy?: string;
+  jobCount: number;
+  lastUsedAt: number;
+}
+
+/**
+ * Keeps one warm browser per account, launched with a persistent profile
+ * directory so LinkedIn sees the same session from job to job. An account's
+ * browser serves one job at a time; other jobs for the account wait for
+ * their turn. Browsers are relaunched after maxJobsPerBrowser jobs, above
+ * maxBrowserMemoryMb, or when they fail checkBrowserHealth before reuse.
+ */
+export class BrowserPool {
+  private browsers = new Map<string, PooledBrowser>();
+  // Tail of each account's lease queue; present while a job holds or waits for the browser
+  private queues = new Map<string, Promise<void>>();
+  private leases = new Map<Page, { pooled: PooledBrowser; tail: Promise<void>; done: () => void }>();
+  private idleSweep: NodeJS.Timeout;
+
+  constructor(private options: BrowserPoolOptions) {
+    this.idleSweep = setInterval(() => void this.closeIdleBrowsers(), 60000);
+    this.idleSweep.unref();
+  }
+
+  /**
+   * Lease the account's browser and a page set up with the session's
+   * cookies. Waits while another job holds the browser.
+   */
+  async acquire(accountKey: string, session: PooledSession, signal?: AbortSignal): Promise<BrowserLease> {
+    const previous = this.queues.get(accountKey) ?? Promise.resolve();
+    let done!: () => void;
+    const turn = new Promise<void>(resolve => { done = resolve; });
+    const tail = previous.then(() => turn);
+    this.queues.set(accountKey, tail);
+
+    try {
+      // An aborted job leaves the queue at once; the jobs behind it still wait for the holder
+      await untilAborted(previous, signal);
+      throwIfAborted(signal);
+      const { pooled, page } = await this.checkOut(accountKey, session);
+      this.leases.set(page, { pooled, tail, done });
+      return { browser: pooled.browser, page, userDataDir: pooled.userDataDir };
+    } catch (error) {
+      this.endTurn(accountKey, tail, done);
+      throw error;
+    }
+  }
+
+  /**
+   * Return a leased page. The browser is kept for the next job unless it is
+   * disconnected (e.g. closed by an aborted job), unhealthy, or due for
+   * recycling.
+   */
+  async release(lease: BrowserLease): Promise<void> {
+    const entry = this.leases.get(lease.page);
+    if (!entry) return;
+    this.leases.delete(lease.page);
+
+    const { pooled, tail, done } = entry;
+    pooled.jobCount++;
+    pooled.lastUsedAt = Date.now();
+
+    try {
+      const recycleReason = await this.getRecycleReason(pooled);
+      if (recycleReason) {
+        await this.retire(pooled, recycleReason);
+        return;
+      }
+
+      // Leave a single blank page so the next job starts from a clean tab
+      try {
+        const pages = await lease.page.browserContext().pages();
+        for (const page of pages) {
+          if (page !== lease.page) {
+            await page.close().catch(() => {});
+          }
+        }
+        await lease.page.goto('about:blank', { timeout: 10000 });
+      } catch (error) {
+        await this.retire(pooled, `failed to reset page: ${(error as Error).message}`);
+      }
+    } finally {
+      this.endTurn(pooled.accountKey, tail, done);
+    }
+  }
+
+  /**
+   * Close every pooled browser, e.g. on worker shutdown. Profiles are kept.
+   */
+  async closeAll(): Promise<void> {
+    clearInterval(this.idleSweep);
+    await Promise.all([...this.browsers.values()].map(pooled => this.retire(pooled, 'pool closing')));
+  }
+
+  private async checkOut(accountKey: string, session: PooledSession): Promise<{ pooled: PooledBrowser; page: Page }> {
+    let pooled = this.browsers.get(accountKey);
+
+    if (pooled && pooled.proxy !== session.proxy) {
+      await this.retire(pooled, 'account proxy changed');
+      pooled = undefined;
+    }
+    if (pooled && !(await checkBrowserHealth(pooled.browser))) {
+      await this.retire(pooled, 'failed health check');
+      pooled = undefined;
+    }
+
+    if (pooled) {
+      console.log(`Reusing pooled browser for ${accountKey} (${pooled.jobCount} jobs served)`);
+      return { pooled, page: await openLinkedInPage(pooled.browser, pooled.userAgent, { cookies: session.cookies, proxyCredentials: session.proxyCredentials }) };
+    }
+
+    const userDataDir = join(this.options.profileRoot, accountKey.replace(/[^\w-]/g, '_'));
+    await removeStaleProfileLock(userDataDir);
+
+    console.log(`Launching pooled browser for ${accountKey} with profile ${userDataDir}`);
+    const context = await initContextWithTimeout(session.proxy, { cookies: session.cookies, proxyCredentials: session.proxyCredentials, userDataDir });
+
+    pooled = {
+      accountKey,
+      browser: context.browser,
+      userDataDir: context.userDataDir,
+      userAgent: context.userAgent,
+      proxy: session.proxy,
+      jobCount: 0,
+      lastUsedAt: Date.now(),
+    };
+    this.browsers.set(accountKey, pooled);
+    return { pooled, page: context.page };
+  }
+
+  private async getRecycleReason(pooled: PooledBrowser): Promise<string | null> {
+    if (!(await checkBrowserHealth(pooled.browser))) {
+      return 'browser unhealthy after job';
+    }
+    if (pooled.jobCount >= this.options.maxJobsPerBrowser) {
+      return `served ${pooled.jobCount} jobs`;
+    }
+    const memoryMb = await getBrowserMemoryMb(pooled.browser);
+    if (memoryMb !== null && memoryMb > this.options.maxBrowserMemoryMb) {
+      return `using ${memoryMb}MB, over ${this.options.maxBrowserMemoryMb}MB`;
+    }
+    return null;
+  }
+
+  private async retire(pooled: PooledBrowser, reason: string): Promise<void> {
+    if (this.browsers.get(pooled.accountKey) === pooled) {
+      this.browsers.delete(pooled.accountKey);
+    }
+    console.log(`Closing pooled browser for ${pooled.accountKey}: ${reason}`);
+    if (pooled.browser.isConnected()) {
+      await safeBrowserClose(pooled.browser);
+    }
+  }
+
+  private endTurn(accountKey: string, tail: Promise<void>, done: () => void) {
+    done();
+    if (this.queues.get(accountKey) === tail) {
+      this.queues.delete(accountKey);
+    }
+  }
+
+  private async closeIdleBrowsers() {
+    const idleSince = Date.now() - this.options.idleTimeoutMs;
+    for (const pooled of [...this.browsers.values()]) {
+      if (!this.queues.has(pooled.accountKey) && pooled.lastUsedAt < idleSince) {
+        await this.retire(pooled, 'idle');
+      }
+    }
+  }
+}
+
+/**
+ * Chrome refuses a profile whose lock names a live process. A browser killed
+ * earlier can leave a lock behind whose pid now belongs to something else;
+ * the pool only ever runs one browser per profile, so the lock can go.
+ */
+async function removeStaleProfileLock(userDataDir: string): Promise<void> {
+  const { rm } = await import('fs/promises');
+  for (const name of ['SingletonLock', 'SingletonSocket', 'SingletonCookie']) {
+    await rm(join(userDataDir, name), { force: true }).catch(() => {});
+  }
+}
@@ -40,4 +40,4 @@ new QueueEvents(queueName, {
 });
 
 // Export the processor function
-export { processJob } from './processor';
+export { processJob, closeBrowserPool } from './processor';
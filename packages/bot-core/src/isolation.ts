@@ -0,0 +1,157 @@
+import { fork } from 'child_process';
+import { JobAbortedError, ErrorCategory, cleanupUserDataDir } from '@linkedin-bot-suite/linkedin';
+import { SuppressionEntry, RenderedTextTooLongError } from '@linkedin-bot-suite/shared';
+import { SuppressedContactError } from './services/suppressionService';
+import type { BrowserJobInput } from './processor';
+
+// Raised when a job's child process dies without reporting a result
+export class JobProcessCrashError extends Error {
+  readonly category: ErrorCategory = {
+    type: 'process_crash',
+    recoverable: true,
+    retryable: true,
+    description: 'Job child process exited unexpectedly',
+  };
+}
+
+export interface SerializedError {
+  message: string;
+  stack?: string;
+  abortReason?: JobAbortedError['reason'];
+  suppressionEntry?: SuppressionEntry;
+  renderedTextTooLong?: boolean;
+}
+
+export type ParentMessage = { type: 'run'; input: BrowserJobInput };
+
+export type ChildMessage =
+  | { type: 'browser'; pid?: number; userDataDir: string | null }
+  | { type: 'memory'; rssMb: number; browserMb: number | null }
+  | { type: 'result'; result: any }
+  | { type: 'error'; error: SerializedError };
+
+// Errors the processor handles by class keep their class across the IPC channel
+export const serializeError = (error: unknown): SerializedError => {
+  if (!(error instanceof Error)) {
+    return { message: String(error) };
+  }
+  return {
+    message: error.message,
+    stack: error.stack,
+    abortReason: error instanceof JobAbortedError ? error.reason : undefined,
+    suppressionEntry: error instanceof SuppressedContactError ? error.entry : undefined,
+    renderedTextTooLong: error instanceof RenderedTextTooLongError || undefined,
+  };
+};
+
+const deserializeError = (serialized: SerializedError): Error => {
+  const error = serialized.abortReason
+    ? new JobAbortedError(serialized.message, serialized.abortReason)
+    : serialized.suppressionEntry
+      ? new SuppressedContactError(serialized.message, serialized.suppressionEntry)
+      : serialized.renderedTextTooLong
+        ? new RenderedTextTooLongError(serialized.message)
+        : new Error(serialized.message);
+  error.stack = serialized.stack;
+  return error;
+};
+
+// V8 aborts on heap exhaustion; the kernel OOM killer sends SIGKILL
+const OOM_SIGNALS: NodeJS.Signals[] = ['SIGABRT', 'SIGKILL'];
+
+/**
+ * Run the browser part of a job in a child process with its own memory
+ * ceiling, shared with the job's Chrome. The child is killed when the job is aborted (timeout or cancel)
+ * or reports more memory than allowed; either way Chrome's process group
+ * and profile directory are removed here, whatever state the child was in.
+ */
+export function runIsolatedJob(input: BrowserJobInput, limits: { memoryLimitMb: number }, signal: AbortSignal): Promise<any> {
+  const { jobId } = input;
+  const child = fork(require.resolve('./jobChild'), [], {
+    execArgv: [`--max-old-space-size=${limits.memoryLimitMb}`],
+  });
+
+  let browserPid: number | undefined;
+  let userDataDir: string | undefined;
+  let settled = false;
+
+  return new Promise((resolve, reject) => {
+    const finish = async (error: Error | null, result?: any) => {
+      if (settled) return;
+      settled = true;
+      signal.removeEventListener('abort', onAbort);
+
+      if (child.exitCode === null && child.signalCode === null) {
+        child.kill('SIGKILL');
+      }
+
+      // Puppeteer starts Chrome detached, so its pid is also its process group
+      if (browserPid) {
+        try {
+          process.kill(-browserPid, 'SIGKILL');
+          console.log(`[bot-core] Killed Chrome process group ${browserPid} of job ${jobId}`);
+        } catch {
+          // Already gone - the child closed the browser itself
+        }
+      }
+      if (userDataDir) {
+        await cleanupUserDataDir(userDataDir).catch(cleanupError => {
+          console.error('Failed to cleanup user data directory:', cleanupError);
+        });
+      }
+
+      if (error) {
+        reject(error);
+      } else {
+        resolve(result);
+      }
+    };
+
+    const onAbort = () => {
+      console.error(`[bot-core] Killing child process of job ${jobId}: ${signal.reason?.message}`);
+      void finish(signal.reason);
+    };
+    if (signal.aborted) {
+      return onAbort();
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    child.on('message', (message: ChildMessage) => {
+      switch (message.type) {
+        case 'browser':
+          browserPid = message.pid;
+          userDataDir = message.userDataDir ?? undefined;
+          break;
+        case 'memory':
+          // Chrome runs in its own process group, outside the child's heap cap, so it counts here
+          const totalMb = message.rssMb + (message.browserMb ?? 0);
+          if (totalMb > limits.memoryLimitMb) {
+            void finish(new JobAbortedError(`Job process and Chrome used ${totalMb}MB RSS (${message.rssMb}MB + ${message.browserMb ?? 0}MB), over their ${limits.memoryLimitMb}MB limit`, 'memory_limit'));
+          }
+          break;
+        case 'result':
+          void finish(null, message.result);
+          break;
+        case 'error':
+          void finish(deserializeError(message.error));
+          break;
+      }
+    });
+
+    child.on('error', error => {
+      void finish(new JobProcessCrashError(`Job process failed: ${error.message}`));
+    });
+
+    child.on('exit', (code, exitSignal) => {
+      if (settled) return;
+      if (exitSignal && OOM_SIGNALS.includes(exitSignal)) {
+        void finish(new JobAbortedError(`Job process was killed by ${exitSignal}, out of memory (limit ${limits.memoryLimitMb}MB)`, 'memory_limit'));
+      } else {
+        void finish(new JobProcessCrashError(`Job process exited with ${exitSignal ?? `code ${code}`} before reporting a result`));
+      }
+    });
+
+    const message: ParentMessage = { type: 'run', input };
+    child.send(message);
+  });
+}
@@ -0,0 +1,33 @@
+import { Browser } from 'puppeteer';
+import { runBrowserJob } from './processor';
+import { getBrowserMemoryMb } from './browserPool';
+import { ParentMessage, ChildMessage, serializeError } from './isolation';
+
+// Entry point of a job child process, forked by runIsolatedJob
+
+const send = (message: ChildMessage): Promise<void> =>
+  new Promise(resolve => process.send!(message, undefined, {}, () => resolve()));
+
+process.once('message', async (message: ParentMessage) => {
+  const { input } = message;
+  let jobBrowser: Browser | null = null;
+  const memoryReport = setInterval(async () => {
+    const browserMb = jobBrowser ? await getBrowserMemoryMb(jobBrowser) : null;
+    void send({ type: 'memory', rssMb: Math.round(process.memoryUsage().rss / 1024 / 1024), browserMb });
+  }, 5000);
+
+  try {
+    const result = await runBrowserJob(input, {
+      onBrowserStarted: ({ browser, userDataDir }) => {
+        jobBrowser = browser;
+        void send({ type: 'browser', pid: browser.process()?.pid, userDataDir });
+      },
+    });
+    await send({ type: 'result', result });
+  } catch (error) {
+    await send({ type: 'error', error: serializeError(error) });
+  } finally {
+    clearInterval(memoryReport);
+    process.exit(0);
+  }
+});
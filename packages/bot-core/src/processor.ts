@@ -1,49 +1,573 @@
-import { Job } from 'bullmq';
-import { initLinkedInContext, sendInvitation, sendMessage, viewProfile, checkPageHealth, checkBrowserHealth, cleanupUserDataDir, categorizeError, sendHybridInvitation, researchLinkedInAPIs, sendInvitationWithAdvancedDiagnostics } from '@linkedin-bot-suite/linkedin';
-import { LinkedInJob, JOB_TYPES } from '@linkedin-bot-suite/shared';
+import { Job, DelayedError } from 'bullmq';
+import { sendInvitation, sendMessage, viewProfile, checkConnection, withdrawInvitation, withdrawStaleInvitations, syncInbox, replyInThread, scrapeSearchResults, checkPageHealth, checkBrowserHealth, cleanupUserDataDir, categorizeError, sendHybridInvitation, researchLinkedInAPIs, sendInvitationWithAdvancedDiagnostics, JobAbortedError, untilAborted } from '@linkedin-bot-suite/linkedin';
+import { LinkedInJob, CampaignStepJob, CheckConnectionJob, SyncInboxJob, InviteJob, MessageJob, ReplyInThreadJob, ProfileIdentity, JOB_TYPES, INVITE_NOTE_MAX_LENGTH, MESSAGE_MAX_LENGTH, hasTemplateVariables, renderTemplate, RenderedTextTooLongError, buildTemplateVariables, memberUrnFor, isContactJob, getDuplicatePolicy, SuppressionEntry, needsProfileData, suppressionTargetFromProfile, JOB_STATUS, LEAD_STATUS, leadStatusForJobResult, leadStatusForConnectionState, JOB_TIMEOUTS_MS, PROXY_DEFAULTS } from '@linkedin-bot-suite/shared';
 import { WebhookService } from './services/webhookService';
+import { AccountService, AccountSession } from './services/accountService';
+import { QuotaService } from './services/quotaService';
+import { CampaignService } from './services/campaignService';
+import { ConnectionService } from './services/connectionService';
+import { InboxService } from './services/inboxService';
+import { LeadService } from './services/leadService';
+import { IdentityService } from './services/identityService';
+import { ContactService, DuplicateContact } from './services/contactService';
+import { SuppressionService, SuppressedContactError } from './services/suppressionService';
+import { CancellationService } from './services/cancellationService';
+import { ProxyService, ProxyUnavailableError, isProxyError } from './services/proxyService';
+import { runIsolatedJob, JobProcessCrashError } from './isolation';
+import { BrowserPool, BrowserLease, safeBrowserClose, initContextWithTimeout } from './browserPool';
 import { Browser, Page } from 'puppeteer';
 
 const webhookService = new WebhookService();
+const accountService = new AccountService();
+const quotaService = new QuotaService();
+const campaignService = new CampaignService();
+const connectionService = new ConnectionService();
+const inboxService = new InboxService();
+const leadService = new LeadService();
+const identityService = new IdentityService();
+const contactService = new ContactService();
+const suppressionService = new SuppressionService();
+const cancellationService = new CancellationService();
+const proxyService = new ProxyService();
+
+type ActionJob = Exclude<LinkedInJob, CampaignStepJob>;
+
+// JOB_ISOLATION=process runs the browser part of every job in its own child process
+const isolateBrowserJobs = process.env.JOB_ISOLATION === 'process';
+
+// In-process jobs reuse a warm browser per account unless BROWSER_POOL=off
+const browserPool = !isolateBrowserJobs && process.env.BROWSER_POOL !== 'off'
+  ? new BrowserPool({
+      maxJobsPerBrowser: Number(process.env.BROWSER_POOL_MAX_JOBS) || 25,
+      maxBrowserMemoryMb: Number(process.env.BROWSER_POOL_MAX_MEMORY_MB) || 800,
+      idleTimeoutMs: Number(process.env.BROWSER_POOL_IDLE_TIMEOUT_MS) || 15 * 60 * 1000,
+      profileRoot: process.env.BROWSER_PROFILE_DIR || '/tmp/chrome-profiles',
+    })
+  : null;
+
+/**
+ * Close the pooled browsers, e.g. when the worker shuts down
+ */
+export async function closeBrowserPool(): Promise<void> {
+  await browserPool?.closeAll();
+}
+
+/**
+ * Time limit for one run of a job type. JOB_TIMEOUT_<TYPE>_MS (e.g.
+ * JOB_TIMEOUT_SEARCH_SCRAPE_MS) overrides the default.
+ */
+function getJobTimeoutMs(type: ActionJob['type']): number {
+  const override = Number(process.env[`JOB_TIMEOUT_${type.toUpperCase()}_MS`]);
+  return override > 0 ? override : JOB_TIMEOUTS_MS[type];
+}
+
+/**
+ * Memory a job may use before it is stopped: RSS growth of the worker, or
+ * the ceiling of the job's child process and its Chrome when jobs run isolated
+ */
+function getJobMemoryLimitMb(): number {
+  const limit = Number(process.env.JOB_MEMORY_LIMIT_MB);
+  return limit > 0 ? limit : 600;
+}
+
+type ViewedProfile = Awaited<ReturnType<typeof viewProfile>>;
+
+// Quota member of the profile view a contact job makes for its do-not-contact check
+const suppressionViewId = (jobId: string) => `${jobId}:suppression_check`;
+
+// Quota member of the profile view a contact job makes to render its template
+const templateViewId = (jobId: string) => `${jobId}:template_render`;
+
+// Quota member of the profile view a check_connection job makes for one of its profiles
+const connectionCheckViewId = (jobId: string, index: number) => `${jobId}:connection_check:${index}`;
+
+/**
+ * Quota member of the profile view a contact job makes before its action, if
+ * any. The do-not-contact check's view also serves the template.
+ */
+function getPreActionViewId(jobId: string, jobData: InviteJob | MessageJob, suppressions: SuppressionEntry[]): string | null {
+  if (needsProfileData(suppressions)) {
+    return suppressionViewId(jobId);
+  }
+  const template = jobData.type === JOB_TYPES.INVITE ? jobData.note : jobData.message;
+  return template && hasTemplateVariables(template) ? templateViewId(jobId) : null;
+}
+
+/**
+ * Render {{variable}} placeholders from the target's profile. Literal text is
+ * returned untouched without visiting the profile first; a profile viewed
+ * earlier in the job is reused.
+ */
+async function renderJobText(
+  page: Page,
+  profileUrl: string,
+  template: string,
+  maxLength: number,
+  label: string,
+  viewedProfile?: ViewedProfile,
+  signal?: AbortSignal
+): Promise<string> {
+  if (!hasTemplateVariables(template)) {
+    return template;
+  }
+
+  console.log(`Rendering ${label} template from profile data...`);
+  const profile = viewedProfile ?? await viewProfile(page, profileUrl, signal);
+  if (!viewedProfile) {
+    await identityService.rememberProfile(profile.profile);
+  }
+  const rendered = renderTemplate(template, buildTemplateVariables(profile.profileData || {}));
+
+  if (rendered.length > maxLength) {
+    throw new RenderedTextTooLongError(`Rendered ${label} is ${rendered.length} characters, exceeding the ${maxLength} character limit`);
+  }
+
+  return rendered;
+}
+
+/**
+ * Check every profile of a check_connection job, record the states and emit
+ * connection.accepted for profiles that became connections since the last check.
+ */
+async function runConnectionChecks(page: Page, jobId: string, jobData: CheckConnectionJob) {
+  const requestedUrls = jobData.profileUrls ?? [jobData.profileUrl!];
+  const identities = await identityService.resolveMany(requestedUrls);
+  const profileUrls = requestedUrls.map((url, i) => identities[i]?.profileUrl ?? url);
+  const connections = [];
+
+  for (const profileUrl of profileUrls) {
+    try {
+      const check = await checkConnection(page, profileUrl);
+      const previousState = await connectionService.recordState(jobData.clientSlug, jobData.accountId, profileUrl, check.connectionState);
+      await leadService.recordJobOutcome(jobData.clientSlug, profileUrl, {
+        jobId,
+        jobType: jobData.type,
+        jobStatus: JOB_STATUS.COMPLETED,
+        leadStatus: leadStatusForConnectionState(check.connectionState),
+      });
+      const accepted = check.connectionState === 'connected' && previousState !== null && previousState !== 'connected';
+
+      if (accepted && jobData.n8nWebhookUrl) {
+        await webhookService.sendEvent(jobData.n8nWebhookUrl, {
+          event: 'connection.accepted',
+          jobId,
+          profileUrl,
+          accountId: jobData.accountId,
+          previousState,
+          state: check.connectionState,
+          detectedAt: new Date().toISOString(),
+        });
+      }
+
+      connections.push({ profileUrl, state: check.connectionState, previousState, degree: check.degree, changed: previousState !== check.connectionState });
+    } catch (error) {
+      // Bad sessions fail the whole job; anything else only affects this profile
+      if (profileUrls.length === 1 || categorizeError(error instanceof Error ? error : new Error(String(error))).type === 'authentication_failed') {
+        throw error;
+      }
+      connections.push({ profileUrl, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  const checked = connections.filter(c => !('error' in c)).length;
+  return {
+    success: checked > 0,
+    message: `Checked ${checked} of ${profileUrls.length} profiles`,
+    connections,
+  };
+}
+
+/**
+ * Stop a thread reply to a participant on the do-not-contact list. Participants
+ * are matched on their known ids and stored lead data; while the list has
+ * entries, a thread whose participants cannot be read is not answered.
+ */
+async function assertReplyNotSuppressed(jobData: ReplyInThreadJob, participantProfileUrls: string[], suppressions: SuppressionEntry[]) {
+  if (suppressions.length === 0) return;
+  if (participantProfileUrls.length === 0) {
+    throw new Error(`Could not read the participants of ${jobData.threadUrn || jobData.threadUrl} to check them against the do-not-contact list`);
+  }
+
+  for (const identity of await identityService.resolveMany(participantProfileUrls)) {
+    if (identity) {
+      suppressionService.assertNotSuppressed(suppressions, await suppressionService.buildTarget(jobData.clientSlug, identity));
+    }
+  }
+}
+
+/**
+ * Store new inbox messages and emit message.received for inbound replies.
+ * The first sync of an account only records a baseline.
+ */
+async function runInboxSync(page: Page, jobId: string, jobData: SyncInboxJob) {
+  const lastSeen = await inboxService.getLastSeenMessages(jobData.clientSlug, jobData.accountId);
+  const sync = await syncInbox(page, {
+    maxThreads: jobData.maxThreads,
+    lastSeenMessageUrns: lastSeen ?? {},
+  });
+
+  // DOM links are usually /in/ACoAA… member-id URLs; store and match them as the canonical profile URLs leads use
+  const rawUrls = Array.from(new Set(sync.threads.flatMap(thread => [
+    ...thread.participants.map(p => p.profileUrl),
+    ...thread.messages.map(m => m.senderProfileUrl),
+  ]).filter((url): url is string => !!url)));
+  const identities = await identityService.resolveMany(rawUrls);
+  const canonicalUrls = new Map(rawUrls.map((url, i) => [url, identities[i]?.profileUrl ?? url]));
+  const threads = sync.threads.map(thread => ({
+    ...thread,
+    participants: thread.participants.map(p => ({ ...p, profileUrl: p.profileUrl && canonicalUrls.get(p.profileUrl) })),
+    messages: thread.messages.map(m => ({ ...m, senderProfileUrl: m.senderProfileUrl && canonicalUrls.get(m.senderProfileUrl) })),
+  }));
+
+  let received = 0;
+  for (const thread of threads) {
+    await inboxService.saveThread(jobData.clientSlug, jobData.accountId, thread);
+    if (!lastSeen) continue;
+
+    const profileUrl = inboxService.getLeadProfileUrl(thread);
+    for (const message of thread.messages.filter(m => m.isInbound)) {
+      received++;
+      if (profileUrl) {
+        await inboxService.markEnrollmentsReplied(jobData.clientSlug, profileUrl, message.sentAt ?? new Date().toISOString());
+        // Senders that are not leads yet stay out of the lead list
+        await leadService.recordJobOutcome(jobData.clientSlug, profileUrl, {
+          jobId,
+          jobType: jobData.type,
+          jobStatus: JOB_STATUS.COMPLETED,
+          leadStatus: LEAD_STATUS.REPLIED,
+        }, false);
+      }
+      if (jobData.n8nWebhookUrl) {
+        await webhookService.sendEvent(jobData.n8nWebhookUrl, {
+          event: 'message.received',
+          jobId,
+          accountId: jobData.accountId,
+          threadUrn: thread.threadUrn,
+          threadUrl: thread.threadUrl,
+          profileUrl,
+          participants: thread.participants,
+          message,
+          detectedAt: new Date().toISOString(),
+        });
+      }
+    }
+  }
+
+  return {
+    success: true,
+    message: lastSeen ? `${sync.message}, ${received} new replies` : `${sync.message} (initial sync, no events sent)`,
+    threads: threads.map(thread => ({ threadUrn: thread.threadUrn, newMessages: thread.messages.length })),
+    received,
+  };
+}
 
 /**
- * Safely close browser with timeout
+ * Finish a duplicate invite/message without opening LinkedIn: skipped by
+ * default, failed when the job asked for duplicatePolicy "fail".
  */
-async function safeBrowserClose(browser: Browser, timeoutMs: number = 5000): Promise<void> {
+async function handleDuplicateContact(jobId: string, jobData: InviteJob | MessageJob, duplicate: DuplicateContact) {
+  const reason = duplicate.status === 'contacted'
+    ? `already contacted by job ${duplicate.jobId}${duplicate.contactedAt ? ` at ${duplicate.contactedAt}` : ''}`
+    : `already being contacted by job ${duplicate.jobId}`;
+  const message = `${jobData.profileUrl} ${reason}`;
+  console.log(`[bot-core] Duplicate ${jobData.type} job ${jobId}: ${message}`);
+
+  await leadService.recordJobOutcome(jobData.clientSlug, jobData.profileUrl, {
+    jobId,
+    jobType: jobData.type,
+    jobStatus: getDuplicatePolicy(jobData) === 'fail' ? JOB_STATUS.FAILED : JOB_STATUS.SKIPPED_DUPLICATE,
+  });
+
+  if (getDuplicatePolicy(jobData) === 'fail') {
+    await contactService.markFailed(jobId);
+    await webhookService.processJobCompletion(jobId, false, null, `Duplicate contact: ${message}`, { errorCategory: 'duplicate_contact' });
+    if (jobData.campaign) {
+      await campaignService.onStepJobFinished(jobData.campaign, { success: false, error: `Duplicate contact: ${message}`, final: true });
+    }
+    return;
+  }
+
+  const result = {
+    success: true,
+    message: `Skipped: ${message}`,
+    profileUrl: jobData.profileUrl,
+    skipped: true,
+    duplicateOf: duplicate.jobId,
+  };
+
+  await contactService.markSkipped(jobId);
+  await webhookService.processJobCompletion(jobId, true, result, undefined, { skipStatus: JOB_STATUS.SKIPPED_DUPLICATE });
+  if (jobData.campaign) {
+    await campaignService.onStepJobFinished(jobData.campaign, { success: true, result, final: true });
+  }
+}
+
+/**
+ * Finish a contact job or thread reply whose target is on the client's
+ * do-not-contact list. Campaign enrollments of the lead are stopped.
+ */
+async function handleSuppressedContact(jobId: string, jobData: InviteJob | MessageJob | ReplyInThreadJob, error: SuppressedContactError) {
+  console.log(`[bot-core] Suppressed ${jobData.type} job ${jobId}: ${error.message}`);
+
+  if (isContactJob(jobData)) {
+    await contactService.markSkipped(jobId);
+    await leadService.recordJobOutcome(jobData.clientSlug, jobData.profileUrl, {
+      jobId,
+      jobType: jobData.type,
+      jobStatus: JOB_STATUS.SUPPRESSED,
+    });
+  }
+  await webhookService.processJobCompletion(jobId, false, null, `Suppressed: ${error.message}`, { skipStatus: JOB_STATUS.SUPPRESSED });
+  if (jobData.campaign) {
+    await campaignService.onStepJobFinished(jobData.campaign, {
+      success: false,
+      error: `Suppressed: ${error.message}`,
+      final: true,
+      stopReason: 'suppressed',
+    });
+  }
+}
+
+/**
+ * Finish a job the worker stopped: cancelled through the API, or over its
+ * time or memory limit. Aborted jobs are not retried by BullMQ.
+ */
+async function handleAbortedJob(jobId: string, jobData: ActionJob, error: JobAbortedError) {
+  const status = error.reason === 'cancelled' ? JOB_STATUS.CANCELLED : JOB_STATUS.TIMED_OUT;
+  console.error(`[bot-core] Job ${status}: ${jobId}, type: ${jobData.type}, reason: ${error.reason}, error: ${error.message}`);
+
+  if ('profileUrl' in jobData && jobData.profileUrl) {
+    await leadService.recordJobOutcome(jobData.clientSlug, jobData.profileUrl, {
+      jobId,
+      jobType: jobData.type,
+      jobStatus: status,
+    });
+  }
+
+  await webhookService.processJobCompletion(jobId, false, null, error.message, { abortStatus: status, errorCategory: error.reason });
+
+  if (jobData.campaign) {
+    await campaignService.onStepJobFinished(jobData.campaign, {
+      success: false,
+      error: error.message,
+      final: true,
+      stopReason: error.reason === 'cancelled' ? 'job_cancelled' : undefined,
+    });
+  }
+}
+
+/**
+ * Run the LinkedIn action of a job on a page that is already set up
+ */
+async function runJobAction(
+  page: Page,
+  jobId: string,
+  jobData: ActionJob,
+  context: { profileIdentity: ProfileIdentity | null; profileUrn?: string; targetProfile?: ViewedProfile; suppressions: SuppressionEntry[]; signal?: AbortSignal }
+): Promise<any> {
+  const { profileIdentity, profileUrn, targetProfile, suppressions, signal } = context;
+  let result: any;
+
+  switch (jobData.type) {
+    case JOB_TYPES.INVITE:
+      const note = jobData.note
+        ? await renderJobText(page, jobData.profileUrl, jobData.note, INVITE_NOTE_MAX_LENGTH, 'note', targetProfile, signal)
+        : undefined;
+      
+      // Use hybrid invitation system (GraphQL + DOM fallback)
+      const enableAdvancedDiagnostics = process.env.LINKEDIN_ADVANCED_DIAGNOSTICS === 'true';
+      
+      if (enableAdvancedDiagnostics) {
+        console.log('🔬 Using advanced diagnostics mode for invitation');
+        result = await sendInvitationWithAdvancedDiagnostics(page, jobData.profileUrl, note, profileUrn);
+      } else {
+        console.log('🚀 Using hybrid invitation system (GraphQL + DOM fallback)');
+        result = await sendHybridInvitation(page, jobData.profileUrl, note, profileUrn, signal);
+      }
+      result = { ...result, renderedNote: note };
+      break;
+    
+    case JOB_TYPES.MESSAGE:
+      const message = await renderJobText(page, jobData.profileUrl, jobData.message, MESSAGE_MAX_LENGTH, 'message', targetProfile, signal);
+      result = await sendMessage(page, jobData.profileUrl, message, signal);
+      result = { ...result, renderedMessage: message };
+      break;
+    
+    case JOB_TYPES.PROFILE_VIEW:
+      result = await viewProfile(page, jobData.profileUrl, signal);
+      await identityService.rememberProfile(result.profile, profileIdentity);
+      break;
+    
+    case JOB_TYPES.CHECK_CONNECTION:
+      result = await runConnectionChecks(page, jobId, jobData);
+      break;
+    
+    case JOB_TYPES.WITHDRAW_INVITATION:
+      if (jobData.profileUrl) {
+        result = await withdrawInvitation(page, jobData.profileUrl);
+        if (result.withdrawn) {
+          await connectionService.recordState(jobData.clientSlug, jobData.accountId, jobData.profileUrl, 'not_connected');
+        }
+      } else {
+        result = await withdrawStaleInvitations(page, jobData.olderThanDays!, jobData.maxWithdrawals);
+        for (const invitation of result.withdrawn) {
+          if (invitation.profileUrl) {
+            await connectionService.recordState(jobData.clientSlug, jobData.accountId, invitation.profileUrl, 'not_connected');
+          }
+        }
+      }
+      break;
+    
+    case JOB_TYPES.SYNC_INBOX:
+      result = await runInboxSync(page, jobId, jobData);
+      break;
+    
+    case JOB_TYPES.REPLY_IN_THREAD:
+      result = await replyInThread(page, jobData.threadUrn || jobData.threadUrl!, jobData.message, {
+        beforeSend: participantProfileUrls => assertReplyNotSuppressed(jobData, participantProfileUrls, suppressions),
+      });
+      break;
+    
+    case JOB_TYPES.SEARCH_SCRAPE:
+      const search = await scrapeSearchResults(page, jobData.searchUrl, jobData.maxResults);
+      const leadIdentities = await identityService.resolveMany(search.leads.map(lead => lead.profileUrl));
+      const resolvedLeads = search.leads.map((lead, i) => ({ ...lead, profileUrl: leadIdentities[i]?.profileUrl ?? lead.profileUrl }));
+      const leads = await leadService.saveSearchResults(jobData.clientSlug, jobId, jobData.searchUrl, resolvedLeads);
+      const newLeadCount = leads.filter(lead => lead.isNew).length;
+      result = {
+        ...search,
+        message: `${search.message}, ${newLeadCount} new leads`,
+        leads,
+        newLeads: newLeadCount,
+      };
+      break;
+    
+    case JOB_TYPES.API_RESEARCH:
+      console.log('🔬 Starting LinkedIn API research mode');
+      const researchActions = (jobData as any).actions || ['invite', 'message'];
+      result = await researchLinkedInAPIs(page, jobData.profileUrl);
+      console.log('📊 API research completed');
+      break;
+    
+    default:
+      throw new Error(`Unknown job type: ${(jobData as any).type}`);
+  }
+
+  return result;
+}
+
+export interface BrowserJobInput {
+  jobId: string;
+  jobData: ActionJob;
+  session: AccountSession;
+  profileIdentity: ProfileIdentity | null;
+  profileUrn?: string;
+  suppressions: SuppressionEntry[];
+}
+
+/**
+ * The browser part of a job: get a browser for the job's session (a pooled
+ * one when a pool is passed, otherwise a fresh Chrome), run the action, and
+ * close or return the browser. Runs inside the worker or in a job child
+ * process (see jobChild.ts).
+ */
+export async function runBrowserJob(
+  input: BrowserJobInput,
+  options: { signal?: AbortSignal; pool?: BrowserPool | null; onBrowserStarted?: (started: { browser: Browser; page: Page; userDataDir: string | null }) => void } = {}
+): Promise<any> {
+  const { jobId, jobData, session, profileIdentity, profileUrn, suppressions } = input;
+  const { signal, pool } = options;
+  let browser: Browser | null = null;
+  let page: Page | null = null;
+  let userDataDir: string | null = null;
+  let lease: BrowserLease | null = null;
+
   try {
-    await Promise.race([
-      browser.close(),
-      new Promise<void>((_, reject) => 
-        setTimeout(() => reject(new Error('Browser close timeout')), timeoutMs)
-      )
-    ]);
-    console.log('Browser closed successfully');
-  } catch (error) {
-    console.error('Failed to close browser gracefully:', error);
-    
-    // Force kill if still connected
-    if (browser.isConnected()) {
-      try {
-        const process = browser.process();
-        if (process) {
-          process.kill('SIGKILL');
-          console.log('Browser process killed');
+    if (pool) {
+      lease = await pool.acquire(session.account?.id ?? 'default', session, signal);
+      browser = lease.browser;
+      page = lease.page;
+      options.onBrowserStarted?.({ browser, page, userDataDir: lease.userDataDir });
+    } else {
+      // Initialize browser context with timeout
+      console.log(`Initializing browser context${session.account ? ` for account ${session.account.id}` : ''}...`);
+      const initResult = await initContextWithTimeout(session.proxy, { cookies: session.cookies, proxyCredentials: session.proxyCredentials });
+      
+      browser = initResult.browser;
+      page = initResult.page;
+      userDataDir = initResult.userDataDir;
+      options.onBrowserStarted?.({ browser, page, userDataDir });
+    }
+
+    // Verify browser and page are healthy
+    const browserHealthy = await checkBrowserHealth(browser);
+    const pageHealth = await checkPageHealth(page);
+    
+    if (!browserHealthy || !pageHealth.isHealthy) {
+      throw new Error(`Browser/page health check failed: ${pageHealth.error || 'Browser unhealthy'}`);
+    }
+
+    // Company and keyword entries can only be matched against the profile page. A profile that
+    // could not be read is never contacted, since it might belong to a suppressed company.
+    let targetProfile: ViewedProfile | undefined;
+    if (isContactJob(jobData) && needsProfileData(suppressions)) {
+      targetProfile = await viewProfile(page, jobData.profileUrl, signal);
+      await identityService.rememberProfile(targetProfile.profile, profileIdentity);
+      const target = targetProfile.profile && suppressionTargetFromProfile(targetProfile.profile, [jobData.profileUrl]);
+      if (!target || (!target.name && !target.headline && !target.companies?.length)) {
+        throw new Error(`Could not read ${jobData.profileUrl} to check it against the do-not-contact list`);
+      }
+      suppressionService.assertNotSuppressed(suppressions, target);
+    }
+
+    console.log(`Processing ${jobData.type} job for ${('profileUrl' in jobData && jobData.profileUrl) || 'multiple profiles'}`);
+    
+    return await runJobAction(page, jobId, jobData, { profileIdentity, profileUrn, targetProfile, suppressions, signal });
+  } finally {
+    // Pooled browsers stay open for the account's next job
+    if (lease) {
+      await pool!.release(lease);
+    } else {
+      // Clean up resources with proper error handling
+      if (page && !page.isClosed()) {
+        try {
+          await page.close();
+          console.log('Page closed successfully');
+        } catch (error) {
+          console.error('Failed to close page:', error);
+        }
+      }
+      
+      if (browser) {
+        await safeBrowserClose(browser);
+      }
+      
+      // Clean up user data directory
+      if (userDataDir) {
+        try {
+          await cleanupUserDataDir(userDataDir);
+        } catch (error) {
+          console.error('Failed to cleanup user data directory:', error);
         }
-      } catch (killError) {
-        console.error('Failed to kill browser process:', killError);
       }
     }
   }
 }
 
-export async function processJob(job: Job<LinkedInJob>): Promise<void> {
+export async function processJob(job: Job<LinkedInJob>, token?: string): Promise<void> {
   const jobData = job.data;
   const jobId = job.id!;
+  let quotaReservedFor: string | null = null;
+  let preActionViewId: string | null = null;
+  let contactClaimed = false;
+  let proxyId: string | undefined;
   let browser: Browser | null = null;
-  let page: Page | null = null;
-  let userDataDir: string | null = null;
+  let jobPage: Page | null = null;
   let heartbeat: NodeJS.Timeout | null = null;
   let jobTimeout: NodeJS.Timeout | null = null;
+  let delayed = false;
+  const abortController = new AbortController();
+  const { signal } = abortController;
   
   // Memory monitoring
   const startMemory = process.memoryUsage();
@@ -51,111 +575,193 @@ export async function processJob(job: Job<LinkedInJob>): Promise<void> {
   
   console.log(`[bot-core] Processing job started: ${jobId}, type: ${jobData.type}, memory: ${Math.round(startMemory.rss / 1024 / 1024)}MB RSS`);
 
+  // Campaign steps only decide what happens next - LinkedIn actions run as their own jobs
+  if (jobData.type === JOB_TYPES.CAMPAIGN_STEP) {
+    const recheckAt = await campaignService.runStep(jobData);
+    if (recheckAt) {
+      await job.moveToDelayed(recheckAt, token);
+      throw new DelayedError();
+    }
+    return;
+  }
+
+  // A cancel requested while the job was being set up stops it instead of parking it in the delayed set
+  const delayJob = async (retryAt: number): Promise<never> => {
+    if (await cancellationService.isCancelRequested(jobId)) {
+      throw new JobAbortedError(`Job ${jobId} was cancelled`, 'cancelled');
+    }
+    await job.moveToDelayed(retryAt, token);
+    throw new DelayedError();
+  };
+
   try {
-    // Update job status to processing
-    await webhookService.updateJobStatus(jobId, 'processing');
+    // Key history, dedup and connection states on the canonical profile, whatever form the job used
+    let profileIdentity: ProfileIdentity | null = null;
+    if ('profileUrl' in jobData && jobData.profileUrl) {
+      profileIdentity = await identityService.resolve(jobData.profileUrl);
+      jobData.profileUrl = profileIdentity.profileUrl;
+    }
+    const profileUrn = profileIdentity?.memberId ? memberUrnFor(profileIdentity.memberId) : undefined;
 
-    // Set job timeout (5 minutes max per job) - increased from 2 minutes for better button detection
-    const jobTimeoutMs = 5 * 60 * 1000; // 5 minutes
-    jobTimeout = setTimeout(() => {
-      const error = new Error(`Job ${jobId} timed out after ${jobTimeoutMs/1000} seconds`);
-      console.error(`[bot-core] Job timeout: ${jobId}, timeout: ${jobTimeoutMs}ms`);
+    // Checked again here because the do-not-contact list can change while the job waits
+    let suppressions: SuppressionEntry[] = [];
+    if (isContactJob(jobData) && profileIdentity) {
+      suppressions = await suppressionService.listEntries(jobData.clientSlug);
+      suppressionService.assertNotSuppressed(suppressions, await suppressionService.buildTarget(jobData.clientSlug, profileIdentity));
+    } else if (jobData.type === JOB_TYPES.REPLY_IN_THREAD) {
+      // Replies are checked once the thread shows who its participants are
+      suppressions = await suppressionService.listEntries(jobData.clientSlug);
+    }
+
+    // Never contact a profile twice from the same account unless the job allows it
+    if (isContactJob(jobData) && getDuplicatePolicy(jobData) !== 'allow') {
+      const duplicate = await contactService.findDuplicate(jobData.clientSlug, jobData.accountId, jobData.profileUrl, jobData.type, jobId);
+      if (duplicate) {
+        await handleDuplicateContact(jobId, jobData, duplicate);
+        return;
+      }
+    }
+
+    // Resolve the session (cookies + proxy) for the job's account
+    let session: AccountSession;
+    try {
+      session = await accountService.loadSession(jobData.accountId, jobData.clientSlug);
+    } catch (error) {
+      // Never run an account's job without its proxy - wait for the proxy to come back
+      if (error instanceof ProxyUnavailableError) {
+        console.log(`[bot-core] Job ${jobId} delayed until ${new Date(error.retryAt).toISOString()}: ${error.message}`);
+        await delayJob(error.retryAt);
+      }
       throw error;
-    }, jobTimeoutMs);
+    }
+    proxyId = session.proxyId;
 
-    // Add heartbeat interval to prevent job stalling with enhanced memory monitoring
-    heartbeat = setInterval(async () => {
-      const currentMemory = process.memoryUsage();
-      const memoryIncrease = {
-        rss: Math.round((currentMemory.rss - startMemory.rss) / 1024 / 1024),
-        heapUsed: Math.round((currentMemory.heapUsed - startMemory.heapUsed) / 1024 / 1024)
-      };
-      
-      job.updateProgress(50); // Keep job alive
-      console.log(`Heartbeat for job ${jobId} - Memory delta: RSS +${memoryIncrease.rss}MB, Heap +${memoryIncrease.heapUsed}MB`);
-      
-      // Force GC if memory is high
-      if (memoryIncrease.rss > 400 && global.gc) {
-        console.log('Force garbage collection');
-        global.gc();
+    // Enforce per-account quotas before touching LinkedIn; over-quota jobs wait for the window to reopen
+    if (session.account) {
+      const reservation = await quotaService.reserve(session.account, jobData.type, jobId);
+      if (!reservation.allowed) {
+        console.log(`[bot-core] Job ${jobId} over ${reservation.quota} quota for account ${session.account.id}, delaying until ${new Date(reservation.retryAt).toISOString()}`);
+        await delayJob(reservation.retryAt);
       }
-      
-      // Close extra pages to prevent memory leaks
-      if (browser?.isConnected()) {
-        const pages = await browser.pages();
-        if (pages.length > 1) {
-          for (let i = 1; i < pages.length; i++) {
-            try {
-              await pages[i].close();
-            } catch {}
+      quotaReservedFor = session.account.id;
+
+      // Matching company and keyword entries or rendering a template means visiting the profile first,
+      // which is a profile view of its own
+      preActionViewId = isContactJob(jobData) ? getPreActionViewId(jobId, jobData, suppressions) : null;
+      if (preActionViewId) {
+        const viewReservation = await quotaService.reserve(session.account, JOB_TYPES.PROFILE_VIEW, preActionViewId);
+        if (!viewReservation.allowed) {
+          await quotaService.release(session.account.id, jobData.type, jobId);
+          quotaReservedFor = null;
+          console.log(`[bot-core] Job ${jobId} over ${viewReservation.quota} quota for its profile visit before the action on account ${session.account.id}, delaying until ${new Date(viewReservation.retryAt).toISOString()}`);
+          await delayJob(viewReservation.retryAt);
+        }
+      }
+
+      // Every profile a connection check visits is a profile view; the job waits until all of them fit
+      if (jobData.type === JOB_TYPES.CHECK_CONNECTION) {
+        const viewIds = (jobData.profileUrls ?? [jobData.profileUrl!]).map((_, index) => connectionCheckViewId(jobId, index));
+        for (const viewId of viewIds) {
+          const viewReservation = await quotaService.reserve(session.account, JOB_TYPES.PROFILE_VIEW, viewId);
+          if (!viewReservation.allowed) {
+            for (const reservedId of viewIds) {
+              await quotaService.release(session.account.id, JOB_TYPES.PROFILE_VIEW, reservedId);
+            }
+            quotaReservedFor = null;
+            console.log(`[bot-core] Job ${jobId} over ${viewReservation.quota} quota for its ${viewIds.length} connection checks on account ${session.account.id}, delaying until ${new Date(viewReservation.retryAt).toISOString()}`);
+            await delayJob(viewReservation.retryAt);
           }
         }
       }
-      
-      // Stricter memory leak detection and prevention
-      if (memoryIncrease.rss > 600) { // Increased from 150MB for 2GB container
-        console.error(`⚠️ CRITICAL: Job ${jobId} using excessive memory: +${memoryIncrease.rss}MB RSS - force terminating job`);
-        throw new Error(`Job terminated due to excessive memory usage: +${memoryIncrease.rss}MB RSS`);
+    }
+
+    if (isContactJob(jobData)) {
+      if (getDuplicatePolicy(jobData) === 'allow') {
+        await contactService.markInProgress(jobData.clientSlug, jobData.accountId, jobData.profileUrl, jobData.type, jobId);
+      } else {
+        // Jobs that passed findDuplicate at the same time are settled by the claim
+        const duplicate = await contactService.claim(jobData.clientSlug, jobData.accountId, jobData.profileUrl, jobData.type, jobId);
+        if (duplicate) {
+          if (quotaReservedFor) {
+            await quotaService.release(quotaReservedFor, jobData.type, jobId);
+            if (preActionViewId) {
+              await quotaService.release(quotaReservedFor, JOB_TYPES.PROFILE_VIEW, preActionViewId);
+            }
+          }
+          await handleDuplicateContact(jobId, jobData, duplicate);
+          return;
+        }
       }
-    }, 5000); // Every 5 seconds instead of 10
+      contactClaimed = true;
+    }
 
-    // Initialize browser context with timeout
-    console.log('Initializing browser context...');
-    const initResult = await Promise.race([
-      initLinkedInContext(process.env.PROXY_URL ?? ''),
-      new Promise<never>((_, reject) => 
-        setTimeout(() => reject(new Error('Browser initialization timeout')), 45000)  // Reduced from 60s to 45s
-      )
-    ]);
-    
-    browser = initResult.browser;
-    page = initResult.page;
-    userDataDir = initResult.userDataDir;
+    // Update job status to processing
+    await webhookService.markJobStarted(jobId);
 
-    // Verify browser and page are healthy
-    const browserHealthy = await checkBrowserHealth(browser);
-    const pageHealth = await checkPageHealth(page);
-    
-    if (!browserHealthy || !pageHealth.isHealthy) {
-      throw new Error(`Browser/page health check failed: ${pageHealth.error || 'Browser unhealthy'}`);
-    }
+    // Aborting rejects whatever the job waits on and closes the browser so in-flight page calls fail fast;
+    // a pooled browser closed this way is dropped from the pool when it is released
+    const abortJob = (error: JobAbortedError) => {
+      if (signal.aborted) return;
+      console.error(`[bot-core] Aborting job ${jobId}: ${error.message}`);
+      abortController.abort(error);
+      if (browser) {
+        void safeBrowserClose(browser);
+      }
+    };
 
-    console.log(`Processing ${jobData.type} job for ${jobData.profileUrl}`);
-    
-    let result: any;
+    const jobTimeoutMs = getJobTimeoutMs(jobData.type);
+    jobTimeout = setTimeout(() => {
+      abortJob(new JobAbortedError(`Job ${jobId} timed out after ${jobTimeoutMs / 1000} seconds`, 'timeout'));
+    }, jobTimeoutMs);
 
-    switch (jobData.type) {
-      case JOB_TYPES.INVITE:
-        // Use hybrid invitation system (GraphQL + DOM fallback)
-        const enableAdvancedDiagnostics = process.env.LINKEDIN_ADVANCED_DIAGNOSTICS === 'true';
-        
-        if (enableAdvancedDiagnostics) {
-          console.log('🔬 Using advanced diagnostics mode for invitation');
-          result = await sendInvitationWithAdvancedDiagnostics(page, jobData.profileUrl, jobData.note);
-        } else {
-          console.log('🚀 Using hybrid invitation system (GraphQL + DOM fallback)');
-          result = await sendHybridInvitation(page, jobData.profileUrl, jobData.note);
-        }
-        break;
+    // Add heartbeat interval to prevent job stalling with enhanced memory monitoring
+    heartbeat = setInterval(async () => {
+      // A failed tick (e.g. Redis or Supabase briefly unreachable) must not become an unhandled rejection
+      try {
+        const currentMemory = process.memoryUsage();
+        const memoryIncrease = {
+          rss: Math.round((currentMemory.rss - startMemory.rss) / 1024 / 1024),
+          heapUsed: Math.round((currentMemory.heapUsed - startMemory.heapUsed) / 1024 / 1024)
+        };
       
-      case JOB_TYPES.MESSAGE:
-        result = await sendMessage(page, jobData.profileUrl, jobData.message);
-        break;
+        // Stricter memory leak detection and prevention; checked before the calls below can fail
+        if (memoryIncrease.rss > getJobMemoryLimitMb()) { // 600MB by default, increased from 150MB for 2GB container
+          console.error(`⚠️ CRITICAL: Job ${jobId} using excessive memory: +${memoryIncrease.rss}MB RSS - force terminating job`);
+          abortJob(new JobAbortedError(`Job terminated due to excessive memory usage: +${memoryIncrease.rss}MB RSS`, 'memory_limit'));
+        }
+
+        await job.updateProgress(50); // Keep job alive
+        console.log(`Heartbeat for job ${jobId} - Memory delta: RSS +${memoryIncrease.rss}MB, Heap +${memoryIncrease.heapUsed}MB`);
       
-      case JOB_TYPES.PROFILE_VIEW:
-        result = await viewProfile(page, jobData.profileUrl);
-        break;
+        // Force GC if memory is high
+        if (memoryIncrease.rss > 400 && global.gc) {
+          console.log('Force garbage collection');
+          global.gc();
+        }
       
-      case JOB_TYPES.API_RESEARCH:
-        console.log('🔬 Starting LinkedIn API research mode');
-        const researchActions = (jobData as any).actions || ['invite', 'message'];
-        result = await researchLinkedInAPIs(page, jobData.profileUrl);
-        console.log('📊 API research completed');
-        break;
+        // Close extra pages to prevent memory leaks; only the job's own context, a remote Chrome is shared
+        if (browser?.isConnected() && jobPage) {
+          for (const extraPage of await jobPage.browserContext().pages()) {
+            if (extraPage !== jobPage) {
+              try {
+                await extraPage.close();
+              } catch {}
+            }
+          }
+        }
       
-      default:
-        throw new Error(`Unknown job type: ${(jobData as any).type}`);
-    }
+        if (await cancellationService.isCancelRequested(jobId)) {
+          abortJob(new JobAbortedError(`Job ${jobId} was cancelled`, 'cancelled'));
+        }
+      } catch (error) {
+        console.error(`[bot-core] Heartbeat for job ${jobId} failed:`, error);
+      }
+    }, 5000); // Every 5 seconds instead of 10
+
+    const browserJob: BrowserJobInput = { jobId, jobData, session, profileIdentity, profileUrn, suppressions };
+    const result = isolateBrowserJobs
+      ? await runIsolatedJob(browserJob, { memoryLimitMb: getJobMemoryLimitMb() }, signal)
+      : await untilAborted(runBrowserJob(browserJob, { signal, pool: browserPool, onBrowserStarted: started => { browser = started.browser; jobPage = started.page; } }), signal);
 
     // Clear timers before completion
     if (heartbeat) {
@@ -180,6 +786,47 @@ export async function processJob(job: Job<LinkedInJob>): Promise<void> {
 
     // Process job completion
     await webhookService.processJobCompletion(jobId, true, result);
+
+    // Connection checks record each profile's outcome themselves
+    if ('profileUrl' in jobData && jobData.profileUrl && jobData.type !== JOB_TYPES.CHECK_CONNECTION) {
+      const succeeded = result?.success !== false;
+      await leadService.recordJobOutcome(jobData.clientSlug, jobData.profileUrl, {
+        jobId,
+        jobType: jobData.type,
+        jobStatus: succeeded ? JOB_STATUS.COMPLETED : JOB_STATUS.FAILED,
+        leadStatus: succeeded ? leadStatusForJobResult(jobData.type, result) : undefined,
+      });
+    }
+
+    // Remember the invite so the check_connection that sees it accepted emits connection.accepted
+    if (jobData.type === JOB_TYPES.INVITE && result?.success !== false && result?.actionTaken === 'invited') {
+      await connectionService.recordState(jobData.clientSlug, jobData.accountId, jobData.profileUrl, 'pending');
+    }
+
+    if (contactClaimed) {
+      if (result && result.success === false) {
+        await contactService.markFailed(jobId);
+      } else {
+        await contactService.markContacted(jobId);
+      }
+    }
+
+    if (quotaReservedFor) {
+      // Actions can report failure without throwing (e.g. hybrid invite fallback)
+      if (result && result.success === false) {
+        await quotaService.release(quotaReservedFor, jobData.type, jobId);
+      }
+      await quotaService.syncAccountCounters(quotaReservedFor);
+    }
+
+    if (jobData.campaign) {
+      await campaignService.onStepJobFinished(jobData.campaign, {
+        success: result?.success !== false,
+        result,
+        error: result?.message,
+        final: true,
+      });
+    }
     
   } catch (err) {
     // Clear timers on error
@@ -192,29 +839,101 @@ export async function processJob(job: Job<LinkedInJob>): Promise<void> {
       jobTimeout = null;
     }
     
+    // Job was rescheduled by the quota check - not a failure
+    if (err instanceof DelayedError) {
+      delayed = true;
+      throw err;
+    }
+    
+    // The action did not happen, so it must not count against the account's quota.
+    // A profile view before the action stays counted; it may have happened before the error.
+    if (quotaReservedFor) {
+      await quotaService.release(quotaReservedFor, jobData.type, jobId);
+    }
+
+    // Errors after an abort are side effects of the teardown; the abort reason is what stopped the job.
+    // Isolated jobs also report aborts of their own, e.g. a child over its memory limit.
+    const abortError = signal.aborted ? signal.reason : err instanceof JobAbortedError ? err : null;
+    if (abortError) {
+      if (contactClaimed) {
+        await contactService.markFailed(jobId);
+      }
+      await handleAbortedJob(jobId, jobData, abortError);
+      return;
+    }
+
+    if (err instanceof SuppressedContactError && (isContactJob(jobData) || jobData.type === JOB_TYPES.REPLY_IN_THREAD)) {
+      await handleSuppressedContact(jobId, jobData, err);
+      return;
+    }
+
+    if (contactClaimed) {
+      await contactService.markFailed(jobId);
+    }
+    
     const error = err instanceof Error ? err : new Error('Unknown error');
-    const errorCategory = categorizeError(error);
+
+    // A proxy the browser could not get through counts like a failed health check. Like a proxy
+    // that is already down, it does not use up an attempt: the job waits and runs again, on
+    // another proxy if the account was moved off this one.
+    if (proxyId && isProxyError(error)) {
+      await proxyService.recordFailure(proxyId, error.message);
+      const retryAt = Date.now() + PROXY_DEFAULTS.UNAVAILABLE_RETRY_MS;
+      console.log(`[bot-core] Job ${jobId} delayed until ${new Date(retryAt).toISOString()} after proxy error: ${error.message}`);
+      await webhookService.updateJobStatus(jobId, JOB_STATUS.PENDING);
+      try {
+        await delayJob(retryAt);
+      } catch (delayError) {
+        if (delayError instanceof JobAbortedError) {
+          await handleAbortedJob(jobId, jobData, delayError);
+          return;
+        }
+        delayed = delayError instanceof DelayedError;
+        throw delayError;
+      }
+    }
+    const errorCategory = err instanceof JobProcessCrashError ? err.category : categorizeError(error);
     
     console.error(`[bot-core] Job failed: ${jobId}, type: ${jobData.type}, errorType: ${errorCategory.type}, error: ${error.message}, description: ${errorCategory.description}`);
+
+    const finalAttempt = !errorCategory.retryable || job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+
+    if (finalAttempt && 'profileUrl' in jobData && jobData.profileUrl) {
+      await leadService.recordJobOutcome(jobData.clientSlug, jobData.profileUrl, {
+        jobId,
+        jobType: jobData.type,
+        jobStatus: JOB_STATUS.FAILED,
+      });
+    }
+
+    if (jobData.campaign) {
+      await campaignService.onStepJobFinished(jobData.campaign, {
+        success: false,
+        error: error.message,
+        final: finalAttempt,
+      });
+    }
     
     // Handle different error types
     switch (errorCategory.type) {
       case 'authentication_failed':
-        await webhookService.processJobCompletion(jobId, false, null, 'Authentication failed - please update LinkedIn cookies');
+        await webhookService.processJobCompletion(jobId, false, null, jobData.accountId
+          ? `Authentication failed for account ${jobData.accountId} - please update its LinkedIn cookies`
+          : 'Authentication failed - please update LinkedIn cookies', { errorCategory: errorCategory.type });
         return; // Don't re-throw, no point retrying with bad cookies
         
       case 'browser_crash':
       case 'frame_detached':
       case 'connection_lost':
-        await webhookService.processJobCompletion(jobId, false, null, `Browser error (${errorCategory.type}): ${error.message}`);
+        await webhookService.processJobCompletion(jobId, false, null, `Browser error (${errorCategory.type}): ${error.message}`, { errorCategory: errorCategory.type });
         break;
         
       case 'navigation_failed':
-        await webhookService.processJobCompletion(jobId, false, null, `Navigation error: ${error.message}`);
+        await webhookService.processJobCompletion(jobId, false, null, `Navigation error: ${error.message}`, { errorCategory: errorCategory.type });
         break;
         
       default:
-        await webhookService.processJobCompletion(jobId, false, null, error.message);
+        await webhookService.processJobCompletion(jobId, false, null, error.message, { errorCategory: errorCategory.type });
     }
     
     // Only re-throw if error is retryable (let BullMQ handle retries)
@@ -223,27 +942,9 @@ export async function processJob(job: Job<LinkedInJob>): Promise<void> {
     }
     
   } finally {
-    // Clean up resources with proper error handling
-    if (page && !page.isClosed()) {
-      try {
-        await page.close();
-        console.log('Page closed successfully');
-      } catch (error) {
-        console.error('Failed to close page:', error);
-      }
-    }
-    
-    if (browser) {
-      await safeBrowserClose(browser);
-    }
-    
-    // Clean up user data directory
-    if (userDataDir) {
-      try {
-        await cleanupUserDataDir(userDataDir);
-      } catch (error) {
-        console.error('Failed to cleanup user data directory:', error);
-      }
+    // A delayed job runs again, so a cancel request that raced the delay must still reach that run
+    if (!delayed) {
+      await cancellationService.clear(jobId);
     }
   }
 }
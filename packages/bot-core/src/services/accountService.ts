@@ -0,0 +1,143 @@
+import { createClient } from '@supabase/supabase-js';
+import { LinkedInAccount, ProxyCredentials, parseProxyUrl } from '@linkedin-bot-suite/shared';
+import { ProxyService } from './proxyService';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE!
+);
+
+// How long a successful session check is trusted before hitting LinkedIn again
+const SESSION_VALIDATION_TTL_MS = 10 * 60 * 1000;
+
+export interface AccountSession {
+  account: LinkedInAccount | null;
+  cookies?: any[];
+  proxy: string;
+  proxyCredentials?: ProxyCredentials;
+  proxyId?: string; // set when the proxy comes from the registry
+}
+
+export class AccountService {
+  private validatedSessions = new Map<string, number>();
+  private proxyService = new ProxyService();
+
+  async getAccount(accountId: string): Promise<LinkedInAccount> {
+    const { data: account, error } = await supabase
+      .from('linkedin_accounts')
+      .select('*')
+      .eq('id', accountId)
+      .single();
+
+    if (error || !account) {
+      throw new Error(`LinkedIn account ${accountId} not found`);
+    }
+
+    if (account.is_active === false) {
+      throw new Error(`LinkedIn account ${accountId} is inactive`);
+    }
+
+    return account as LinkedInAccount;
+  }
+
+  /**
+   * Resolve cookies and proxy for a job. Jobs without an accountId keep using
+   * the global LINKEDIN_COOKIES_JSON / PROXY_URL configuration. Throws
+   * ProxyUnavailableError when the account's proxy is down.
+   */
+  async loadSession(accountId?: string, clientSlug?: string): Promise<AccountSession> {
+    if (!accountId) {
+      const proxy = process.env.PROXY_URL ? parseProxyUrl(process.env.PROXY_URL) : null;
+      return {
+        account: null,
+        proxy: proxy?.server ?? '',
+        proxyCredentials: proxy?.credentials,
+      };
+    }
+
+    const account = await this.getAccount(accountId);
+
+    if (clientSlug && account.client_slug !== clientSlug) {
+      throw new Error(`LinkedIn account ${accountId} does not belong to client ${clientSlug}`);
+    }
+
+    const proxy = await this.proxyService.resolveForAccount(account);
+    const cookies = await this.fetchCookies(account);
+    // The direct check would show LinkedIn the account from the worker's own IP;
+    // behind a proxy the browser finds out instead
+    if (!proxy) {
+      await this.validateSession(account.id, cookies);
+    }
+
+    console.log(`[bot-core] Loaded session for account ${account.id} (${cookies.length} cookies, proxy: ${proxy ? proxy.proxyId ?? 'custom' : 'no'})`);
+
+    return {
+      account,
+      cookies,
+      proxy: proxy?.server ?? '',
+      proxyCredentials: proxy?.credentials,
+      proxyId: proxy?.proxyId,
+    };
+  }
+
+  private async fetchCookies(account: LinkedInAccount): Promise<any[]> {
+    if (!account.cookies_url) {
+      throw new Error(`LinkedIn account ${account.id} has no cookies configured`);
+    }
+
+    let body: any;
+    try {
+      const response = await fetch(account.cookies_url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+      body = await response.json();
+    } catch (error) {
+      throw new Error(`Failed to load cookies for account ${account.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    // Accept both a bare cookie array and { cookies: [...] } exports
+    const cookies = Array.isArray(body) ? body : body?.cookies;
+    if (!Array.isArray(cookies)) {
+      throw new Error(`Invalid cookies format for account ${account.id}: expected an array of cookie objects`);
+    }
+
+    return cookies;
+  }
+
+  /**
+   * Check that the li_at session is still accepted by LinkedIn.
+   * Throws an authentication error so only the current job fails.
+   */
+  private async validateSession(accountId: string, cookies: any[]): Promise<void> {
+    const validatedAt = this.validatedSessions.get(accountId);
+    if (validatedAt && Date.now() - validatedAt < SESSION_VALIDATION_TTL_MS) {
+      return;
+    }
+
+    const liAt = cookies.find((c: any) => c.name === 'li_at')?.value;
+    if (!liAt) {
+      throw new Error(`Authentication failed for account ${accountId}: li_at cookie missing`);
+    }
+
+    let status: number;
+    try {
+      const resp = await fetch('https://www.linkedin.com/feed', {
+        headers: { cookie: `li_at=${liAt}` },
+        redirect: 'manual', // don't follow 302 to the login page
+      });
+      status = resp.status;
+    } catch (error) {
+      // Network trouble is not proof of a bad session - let the browser decide
+      console.warn(`[bot-core] Session check for account ${accountId} skipped:`, error instanceof Error ? error.message : error);
+      return;
+    }
+
+    if (status !== 200) {
+      this.validatedSessions.delete(accountId);
+      throw new Error(`Authentication failed for account ${accountId}: LinkedIn cookies rejected (HTTP ${status})`);
+    }
+
+    this.validatedSessions.set(accountId, Date.now());
+  }
+}
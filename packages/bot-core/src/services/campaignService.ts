@@ -0,0 +1,337 @@
+import { Queue } from 'bullmq';
+import { randomUUID } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import {
+  Campaign,
+  CampaignEnrollment,
+  CampaignJobContext,
+  CampaignStep,
+  CampaignStepJob,
+  CAMPAIGN_STATUS,
+  ENROLLMENT_STATUS,
+  CAMPAIGN_DEFAULTS,
+  CAMPAIGN_ACTION_STEP_JOB_TYPES,
+  DEFAULT_JOB_OPTIONS,
+  JOB_STATUS,
+  JOB_TYPES,
+  getCampaignStepDelayMs,
+  campaignStepJobId,
+  isContactJob,
+} from '@linkedin-bot-suite/shared';
+import { ContactService } from './contactService';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE!
+);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StepJobOutcome {
+  success: boolean;
+  result?: any;
+  error?: string;
+  final: boolean; // false while BullMQ will still retry the action job
+  stopReason?: string; // ends the sequence as stopped instead of failed
+}
+
+export class CampaignService {
+  private queue: Queue | null = null;
+  private contactService = new ContactService();
+
+  private getQueue(): Queue {
+    if (!this.queue) {
+      this.queue = new Queue(process.env.QUEUE_NAME || 'linkedin-jobs', {
+        connection: { url: process.env.REDIS_URL! },
+        prefix: process.env.BULLMQ_PREFIX || 'bull',
+      });
+    }
+    return this.queue;
+  }
+
+  private async loadState(campaignId: string, enrollmentId: string): Promise<{ campaign: Campaign; enrollment: CampaignEnrollment } | null> {
+    const [{ data: campaign }, { data: enrollment }] = await Promise.all([
+      supabase.from('campaigns').select('*').eq('id', campaignId).single(),
+      supabase.from('campaign_enrollments').select('*').eq('id', enrollmentId).single(),
+    ]);
+
+    if (!campaign || !enrollment) {
+      console.warn(`[bot-core] Campaign ${campaignId} or enrollment ${enrollmentId} no longer exists`);
+      return null;
+    }
+
+    return { campaign: campaign as Campaign, enrollment: enrollment as CampaignEnrollment };
+  }
+
+  private async updateEnrollment(enrollmentId: string, updateData: Record<string, any>): Promise<void> {
+    const { error } = await supabase
+      .from('campaign_enrollments')
+      .update({ ...updateData, updated_at: new Date().toISOString() })
+      .eq('id', enrollmentId);
+
+    if (error) {
+      throw new Error(`Failed to update enrollment ${enrollmentId}: ${error.message}`);
+    }
+  }
+
+  private async stopEnrollment(enrollmentId: string, reason: string): Promise<void> {
+    console.log(`[bot-core] Stopping enrollment ${enrollmentId}: ${reason}`);
+    await this.updateEnrollment(enrollmentId, {
+      status: ENROLLMENT_STATUS.STOPPED,
+      stop_reason: reason,
+      waiting_until: null,
+      completed_at: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Queue the campaign_step job for a step, or complete the enrollment when
+   * there are no steps left.
+   */
+  async scheduleStep(campaign: Campaign, enrollment: CampaignEnrollment, stepIndex: number, delayMs?: number): Promise<void> {
+    if (stepIndex >= campaign.steps.length) {
+      await this.updateEnrollment(enrollment.id, {
+        status: ENROLLMENT_STATUS.COMPLETED,
+        current_step: stepIndex,
+        waiting_until: null,
+        completed_at: new Date().toISOString(),
+      });
+      console.log(`[bot-core] Enrollment ${enrollment.id} completed campaign ${campaign.id}`);
+      return;
+    }
+
+    const step = campaign.steps[stepIndex];
+    const stepJob: CampaignStepJob = {
+      type: 'campaign_step',
+      campaignId: campaign.id,
+      enrollmentId: enrollment.id,
+      stepIndex,
+      profileUrl: enrollment.profile_url,
+      accountId: campaign.account_id,
+      clientSlug: campaign.client_slug,
+    };
+
+    await this.updateEnrollment(enrollment.id, {
+      status: ENROLLMENT_STATUS.ACTIVE,
+      current_step: stepIndex,
+      waiting_until: null,
+    });
+
+    await this.getQueue().add(JOB_TYPES.CAMPAIGN_STEP, stepJob, {
+      ...DEFAULT_JOB_OPTIONS,
+      delay: delayMs ?? getCampaignStepDelayMs(step),
+      jobId: campaignStepJobId(enrollment.id, stepIndex),
+    });
+  }
+
+  /**
+   * Evaluate one step for one enrollment. Returns a timestamp when the step
+   * has to be re-checked later (paused campaign, waiting for acceptance).
+   */
+  async runStep(job: CampaignStepJob): Promise<number | null> {
+    const state = await this.loadState(job.campaignId, job.enrollmentId);
+    if (!state) return null;
+
+    const { campaign, enrollment } = state;
+
+    if (enrollment.status !== ENROLLMENT_STATUS.ACTIVE && enrollment.status !== ENROLLMENT_STATUS.WAITING) {
+      console.log(`[bot-core] Enrollment ${enrollment.id} is ${enrollment.status}, dropping step ${job.stepIndex}`);
+      return null;
+    }
+
+    if (enrollment.current_step !== job.stepIndex) {
+      console.log(`[bot-core] Stale step ${job.stepIndex} for enrollment ${enrollment.id} (current step ${enrollment.current_step})`);
+      return null;
+    }
+
+    if (campaign.status === CAMPAIGN_STATUS.ARCHIVED) {
+      await this.stopEnrollment(enrollment.id, 'campaign_archived');
+      return null;
+    }
+
+    if (campaign.status === CAMPAIGN_STATUS.PAUSED) {
+      return Date.now() + CAMPAIGN_DEFAULTS.PAUSED_RECHECK_MS;
+    }
+
+    const step = campaign.steps[job.stepIndex];
+    if (!step) {
+      await this.scheduleStep(campaign, enrollment, job.stepIndex, 0);
+      return null;
+    }
+
+    const conditions = step.conditions || [];
+
+    if (conditions.includes('stop_if_replied') && enrollment.replied_at) {
+      await this.stopEnrollment(enrollment.id, 'replied');
+      return null;
+    }
+
+    if (conditions.includes('skip_if_connected') && enrollment.connection_status === 'connected') {
+      console.log(`[bot-core] Skipping ${step.type} step ${job.stepIndex} for enrollment ${enrollment.id}: already connected`);
+      await this.scheduleNextStep(campaign, enrollment, job.stepIndex);
+      return null;
+    }
+
+    if (step.type === 'wait_for_acceptance') {
+      return this.waitForAcceptance(campaign, enrollment, step, job.stepIndex);
+    }
+
+    await this.enqueueAction(campaign, enrollment, step, job.stepIndex);
+    return null;
+  }
+
+  private async waitForAcceptance(campaign: Campaign, enrollment: CampaignEnrollment, step: CampaignStep, stepIndex: number): Promise<number | null> {
+    if (enrollment.connection_status === 'connected') {
+      await this.scheduleNextStep(campaign, enrollment, stepIndex);
+      return null;
+    }
+
+    const now = Date.now();
+    let waitingUntil = enrollment.waiting_until ? new Date(enrollment.waiting_until).getTime() : 0;
+
+    if (!waitingUntil) {
+      waitingUntil = now + (step.timeoutDays ?? CAMPAIGN_DEFAULTS.ACCEPTANCE_TIMEOUT_DAYS) * DAY_MS;
+      await this.updateEnrollment(enrollment.id, {
+        status: ENROLLMENT_STATUS.WAITING,
+        waiting_until: new Date(waitingUntil).toISOString(),
+      });
+    } else if (now < waitingUntil) {
+      // Look at the profile; an accepted invite marks the enrollment connected before the next poll
+      await this.addJob({
+        type: JOB_TYPES.CHECK_CONNECTION,
+        profileUrl: enrollment.profile_url,
+        accountId: campaign.account_id,
+        n8nWebhookUrl: campaign.n8n_webhook_url,
+        clientSlug: campaign.client_slug,
+      });
+    }
+
+    if (now >= waitingUntil) {
+      await this.stopEnrollment(enrollment.id, 'not_accepted');
+      return null;
+    }
+
+    return Math.min(now + CAMPAIGN_DEFAULTS.ACCEPTANCE_POLL_MS, waitingUntil);
+  }
+
+  /**
+   * Create the LinkedIn action job for a step. It goes through job_history and
+   * the n8n webhook like any API-created job.
+   */
+  private async enqueueAction(campaign: Campaign, enrollment: CampaignEnrollment, step: CampaignStep, stepIndex: number): Promise<void> {
+    const jobType = CAMPAIGN_ACTION_STEP_JOB_TYPES[step.type];
+    if (!jobType) {
+      throw new Error(`Campaign step type ${step.type} has no LinkedIn action`);
+    }
+
+    const jobData: any = {
+      type: jobType,
+      profileUrl: enrollment.profile_url,
+      accountId: campaign.account_id,
+      n8nWebhookUrl: campaign.n8n_webhook_url,
+      clientSlug: campaign.client_slug,
+      campaign: {
+        campaignId: campaign.id,
+        enrollmentId: enrollment.id,
+        stepIndex,
+      } as CampaignJobContext,
+    };
+
+    if (jobType === 'invite' && step.note) {
+      jobData.note = step.note;
+    }
+    if (jobType === 'message') {
+      jobData.message = step.message;
+    }
+    // Follow-ups message the lead again on purpose
+    if (step.type === 'follow_up') {
+      jobData.duplicatePolicy = 'allow';
+    }
+
+    const jobId = await this.addJob(jobData);
+    await this.updateEnrollment(enrollment.id, { last_job_id: jobId });
+
+    console.log(`[bot-core] Enrollment ${enrollment.id} step ${stepIndex} (${step.type}) queued as job ${jobId}`);
+  }
+
+  /**
+   * Record a job in job_history and queue it, like the API does for its jobs
+   */
+  private async addJob(jobData: any): Promise<string> {
+    const jobId = randomUUID();
+    const data = { ...jobData, id: jobId };
+
+    const { error } = await supabase.from('job_history').insert({
+      id: jobId,
+      client_slug: data.clientSlug,
+      job_type: data.type,
+      job_data: data,
+      status: JOB_STATUS.PENDING,
+      attempts: 0,
+      created_at: new Date().toISOString(),
+    });
+
+    if (error) {
+      throw new Error(`Failed to record ${data.type} job for ${data.profileUrl}: ${error.message}`);
+    }
+
+    // Registered like API jobs, so campaign and ad-hoc contact jobs are deduplicated against each other
+    if (isContactJob(data)) {
+      await this.contactService.registerQueued(data.clientSlug, data.accountId, data.profileUrl, data.type, jobId);
+    }
+
+    await this.getQueue().add(data.type, data, {
+      ...DEFAULT_JOB_OPTIONS,
+      jobId,
+    });
+
+    return jobId;
+  }
+
+  private async scheduleNextStep(campaign: Campaign, enrollment: CampaignEnrollment, stepIndex: number): Promise<void> {
+    await this.scheduleStep(campaign, enrollment, stepIndex + 1);
+  }
+
+  /**
+   * Advance (or fail) the enrollment once the action job for a step is done
+   */
+  async onStepJobFinished(context: CampaignJobContext, outcome: StepJobOutcome): Promise<void> {
+    try {
+      const state = await this.loadState(context.campaignId, context.enrollmentId);
+      if (!state) return;
+
+      const { campaign, enrollment } = state;
+      if (enrollment.current_step !== context.stepIndex || enrollment.status !== ENROLLMENT_STATUS.ACTIVE) {
+        return;
+      }
+
+      if (outcome.stopReason) {
+        await this.stopEnrollment(enrollment.id, outcome.stopReason);
+        return;
+      }
+
+      if (!outcome.success) {
+        if (outcome.final) {
+          await this.updateEnrollment(enrollment.id, {
+            status: ENROLLMENT_STATUS.FAILED,
+            error_message: outcome.error || 'Campaign step failed',
+            completed_at: new Date().toISOString(),
+          });
+        }
+        return;
+      }
+
+      const step = campaign.steps[context.stepIndex];
+      if (step?.type === 'invite') {
+        // A "messaged" invite means the lead was already a connection
+        const connectionStatus = outcome.result?.actionTaken === 'messaged' ? 'connected' : 'pending';
+        await this.updateEnrollment(enrollment.id, { connection_status: connectionStatus });
+        enrollment.connection_status = connectionStatus;
+      }
+
+      await this.scheduleNextStep(campaign, enrollment, context.stepIndex);
+    } catch (error) {
+      console.error(`Error advancing enrollment ${context.enrollmentId}:`, error);
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import Redis from 'ioredis';
+import { JOB_CANCEL_KEY_PREFIX } from '@linkedin-bot-suite/shared';
+
+let redis: Redis | null = null;
+
+function getRedisClient(): Redis {
+  if (!redis) {
+    redis = new Redis(process.env.REDIS_URL!, { maxRetriesPerRequest: 2 });
+  }
+  return redis;
+}
+
+export class CancellationService {
+  /**
+   * Whether the API asked to stop the job. Redis errors count as no request,
+   * the next heartbeat checks again.
+   */
+  async isCancelRequested(jobId: string): Promise<boolean> {
+    try {
+      return (await getRedisClient().exists(`${JOB_CANCEL_KEY_PREFIX}${jobId}`)) === 1;
+    } catch (error) {
+      console.error('Error checking job cancel request:', error);
+      return false;
+    }
+  }
+
+  async clear(jobId: string) {
+    try {
+      await getRedisClient().del(`${JOB_CANCEL_KEY_PREFIX}${jobId}`);
+    } catch (error) {
+      console.error('Error clearing job cancel request:', error);
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { createClient } from '@supabase/supabase-js';
+import { ConnectionState } from '@linkedin-bot-suite/shared';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE!
+);
+
+// Jobs without an accountId run on the global session
+const GLOBAL_ACCOUNT_KEY = '';
+
+export class ConnectionService {
+  /**
+   * Store the latest observed state for a profile and return the previously
+   * recorded one (null on the first check).
+   */
+  async recordState(clientSlug: string | undefined, accountId: string | undefined, profileUrl: string, state: ConnectionState): Promise<ConnectionState | null> {
+    const slug = clientSlug || '';
+    const accountKey = accountId || GLOBAL_ACCOUNT_KEY;
+
+    const { data: existing } = await supabase
+      .from('connection_states')
+      .select('state')
+      .eq('client_slug', slug)
+      .eq('account_id', accountKey)
+      .eq('profile_url', profileUrl)
+      .maybeSingle();
+
+    const previousState = (existing?.state as ConnectionState | undefined) ?? null;
+    const now = new Date().toISOString();
+
+    const updateData: any = {
+      client_slug: slug,
+      account_id: accountKey,
+      profile_url: profileUrl,
+      state,
+      checked_at: now,
+    };
+    if (previousState !== state) {
+      updateData.changed_at = now;
+    }
+
+    const { error } = await supabase
+      .from('connection_states')
+      .upsert(updateData, { onConflict: 'client_slug,account_id,profile_url' });
+
+    if (error) {
+      console.error('Error recording connection state:', error);
+    }
+
+    if (state === 'connected' && previousState !== 'connected') {
+      await this.markEnrollmentsConnected(slug, accountId, profileUrl);
+    }
+
+    return previousState;
+  }
+
+  /**
+   * Let campaigns waiting on this lead move on at their next check. Only
+   * campaigns running on the account that saw the connection are affected.
+   */
+  private async markEnrollmentsConnected(clientSlug: string, accountId: string | undefined, profileUrl: string): Promise<void> {
+    try {
+      let query = supabase
+        .from('campaigns')
+        .select('id')
+        .eq('client_slug', clientSlug);
+      query = accountId ? query.eq('account_id', accountId) : query.is('account_id', null);
+
+      const { data: campaigns } = await query;
+
+      const campaignIds = (campaigns || []).map(c => c.id);
+      if (campaignIds.length === 0) return;
+
+      await supabase
+        .from('campaign_enrollments')
+        .update({ connection_status: 'connected', updated_at: new Date().toISOString() })
+        .in('campaign_id', campaignIds)
+        .eq('profile_url', profileUrl)
+        .neq('connection_status', 'connected');
+    } catch (error) {
+      console.error('Error updating campaign enrollments for accepted connection:', error);
+    }
+  }
+}
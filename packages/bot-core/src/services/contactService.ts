@@ -0,0 +1,190 @@
+import { createClient } from '@supabase/supabase-js';
+import { CONTACT_STATUS } from '@linkedin-bot-suite/shared';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE!
+);
+
+// Jobs without an accountId run on the global session
+const GLOBAL_ACCOUNT_KEY = '';
+
+// An in-progress entry older than this belongs to a worker that died mid-job
+const IN_PROGRESS_STALE_MS = 15 * 60 * 1000;
+
+const UNIQUE_VIOLATION = '23505';
+
+export interface DuplicateContact {
+  jobId: string;
+  status: string;
+  contactedAt?: string;
+}
+
+export class ContactService {
+  /**
+   * Find another job of the same account that contacted the profile, is
+   * contacting it right now, or was queued for it before this job.
+   */
+  async findDuplicate(clientSlug: string | undefined, accountId: string | undefined, profileUrl: string, action: string, jobId: string): Promise<DuplicateContact | null> {
+    const { data: entries, error } = await supabase
+      .from('contact_registry')
+      .select('job_id, status, created_at, updated_at, contacted_at')
+      .eq('client_slug', clientSlug || '')
+      .eq('account_id', accountId || GLOBAL_ACCOUNT_KEY)
+      .eq('profile_url', profileUrl)
+      .eq('action', action)
+      .in('status', [CONTACT_STATUS.QUEUED, CONTACT_STATUS.IN_PROGRESS, CONTACT_STATUS.CONTACTED]);
+
+    if (error) {
+      throw new Error(`Failed to check contact registry: ${error.message}`);
+    }
+
+    const own = (entries || []).find(entry => entry.job_id === jobId);
+    const queuedBefore = own ? new Date(own.created_at).getTime() : Date.now();
+    const staleBefore = Date.now() - IN_PROGRESS_STALE_MS;
+
+    const duplicate = (entries || []).find(entry => {
+      if (entry.job_id === jobId) return false;
+      if (entry.status === CONTACT_STATUS.CONTACTED) return true;
+      if (entry.status === CONTACT_STATUS.IN_PROGRESS) return new Date(entry.updated_at).getTime() > staleBefore;
+      // The earliest queued job wins, so two queued duplicates never skip each other
+      return new Date(entry.created_at).getTime() < queuedBefore;
+    });
+
+    return duplicate
+      ? { jobId: duplicate.job_id, status: duplicate.status, contactedAt: duplicate.contacted_at || undefined }
+      : null;
+  }
+
+  /**
+   * Claim the profile for this job before it is contacted. A unique index
+   * lets only one job per account, profile and action be in progress, so of
+   * two jobs that passed findDuplicate together one loses the claim. Returns
+   * the job that holds or already finished the contact, or null when the
+   * claim is this job's.
+   */
+  async claim(clientSlug: string | undefined, accountId: string | undefined, profileUrl: string, action: string, jobId: string): Promise<DuplicateContact | null> {
+    const key = this.entryKey(clientSlug, accountId, profileUrl, action);
+    const now = new Date().toISOString();
+
+    // A worker that died mid-job must not hold the profile forever
+    await supabase
+      .from('contact_registry')
+      .update({ status: CONTACT_STATUS.FAILED, updated_at: now })
+      .match(key)
+      .eq('status', CONTACT_STATUS.IN_PROGRESS)
+      .neq('job_id', jobId)
+      .lt('updated_at', new Date(Date.now() - IN_PROGRESS_STALE_MS).toISOString());
+
+    const { error } = await supabase
+      .from('contact_registry')
+      .upsert({ ...key, job_id: jobId, status: CONTACT_STATUS.IN_PROGRESS, updated_at: now }, { onConflict: 'job_id' });
+
+    if (error) {
+      if (error.code !== UNIQUE_VIOLATION) {
+        throw new Error(`Failed to claim contact: ${error.message}`);
+      }
+      return (await this.findOther(key, CONTACT_STATUS.IN_PROGRESS, jobId)) ??
+        { jobId: 'unknown', status: CONTACT_STATUS.IN_PROGRESS };
+    }
+
+    // A job that finished contacting the profile between findDuplicate and the claim
+    return this.findOther(key, CONTACT_STATUS.CONTACTED, jobId);
+  }
+
+  /**
+   * Record that a job allowed to contact the profile again is about to. It
+   * does not compete for the claim; while another job holds it the entry
+   * stays queued. Jobs created by the API already have a queued entry;
+   * others get theirs here.
+   */
+  async markInProgress(clientSlug: string | undefined, accountId: string | undefined, profileUrl: string, action: string, jobId: string): Promise<void> {
+    const key = this.entryKey(clientSlug, accountId, profileUrl, action);
+    const now = new Date().toISOString();
+    let { error } = await supabase
+      .from('contact_registry')
+      .upsert({ ...key, job_id: jobId, status: CONTACT_STATUS.IN_PROGRESS, updated_at: now }, { onConflict: 'job_id' });
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      ({ error } = await supabase
+        .from('contact_registry')
+        .upsert({ ...key, job_id: jobId, status: CONTACT_STATUS.QUEUED, updated_at: now }, { onConflict: 'job_id' }));
+    }
+
+    if (error) {
+      throw new Error(`Failed to update contact registry: ${error.message}`);
+    }
+  }
+
+  /**
+   * Record a contact job queued by the worker (campaign steps), like the API
+   * does for the jobs it creates
+   */
+  async registerQueued(clientSlug: string | undefined, accountId: string | undefined, profileUrl: string, action: string, jobId: string): Promise<void> {
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from('contact_registry')
+      .insert({
+        ...this.entryKey(clientSlug, accountId, profileUrl, action),
+        job_id: jobId,
+        status: CONTACT_STATUS.QUEUED,
+        created_at: now,
+        updated_at: now,
+      });
+
+    if (error) {
+      throw new Error(`Failed to register contact: ${error.message}`);
+    }
+  }
+
+  async markContacted(jobId: string): Promise<void> {
+    const now = new Date().toISOString();
+    await this.setStatus(jobId, { status: CONTACT_STATUS.CONTACTED, contacted_at: now, updated_at: now });
+  }
+
+  async markSkipped(jobId: string): Promise<void> {
+    await this.setStatus(jobId, { status: CONTACT_STATUS.SKIPPED, updated_at: new Date().toISOString() });
+  }
+
+  /**
+   * A failed attempt frees the profile for other jobs; a retry claims it again
+   */
+  async markFailed(jobId: string): Promise<void> {
+    await this.setStatus(jobId, { status: CONTACT_STATUS.FAILED, updated_at: new Date().toISOString() });
+  }
+
+  private entryKey(clientSlug: string | undefined, accountId: string | undefined, profileUrl: string, action: string) {
+    return {
+      client_slug: clientSlug || '',
+      account_id: accountId || GLOBAL_ACCOUNT_KEY,
+      profile_url: profileUrl,
+      action,
+    };
+  }
+
+  private async findOther(key: Record<string, string>, status: string, jobId: string): Promise<DuplicateContact | null> {
+    const { data: entry } = await supabase
+      .from('contact_registry')
+      .select('job_id, status, contacted_at')
+      .match(key)
+      .eq('status', status)
+      .neq('job_id', jobId)
+      .limit(1)
+      .maybeSingle();
+
+    return entry
+      ? { jobId: entry.job_id, status: entry.status, contactedAt: entry.contacted_at || undefined }
+      : null;
+  }
+
+  private async setStatus(jobId: string, updateData: Record<string, any>): Promise<void> {
+    const { error } = await supabase
+      .from('contact_registry')
+      .update(updateData)
+      .eq('job_id', jobId);
+
+    if (error) {
+      console.error(`Error updating contact registry for job ${jobId}:`, error);
+    }
+  }
+}
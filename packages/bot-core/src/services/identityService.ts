@@ -0,0 +1,50 @@
+import { createClient } from '@supabase/supabase-js';
+import { ProfileIdentity, LinkedInProfile, ProfileIdentityResolver, profileUrlFor } from '@linkedin-bot-suite/shared';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE!
+);
+
+// The worker also learns new mappings from the profiles it views
+export class IdentityService extends ProfileIdentityResolver {
+  constructor() {
+    super(() => supabase);
+  }
+
+  /**
+   * Store the ids learned from a viewed profile (vanity name and member URN)
+   * together with the reference the job was given
+   */
+  async rememberProfile(profile: LinkedInProfile | undefined, requested?: ProfileIdentity | null): Promise<void> {
+    const publicIdentifier = profile?.publicIdentifier?.value;
+    const memberId = profile?.profileUrn?.value.split(':').pop();
+    if (!publicIdentifier || !memberId) return;
+
+    const identity: ProfileIdentity = {
+      profileUrl: profileUrlFor(publicIdentifier),
+      publicIdentifier,
+      memberId,
+      salesNavigatorId: requested?.salesNavigatorId,
+    };
+    this.cacheIdentity(identity);
+
+    const row: Record<string, any> = {
+      public_identifier: publicIdentifier,
+      member_id: memberId,
+      resolved_at: new Date().toISOString(),
+    };
+    if (identity.salesNavigatorId) {
+      row.sales_navigator_id = identity.salesNavigatorId;
+    }
+
+    // Keyed on the member id: vanity names can be changed by the member
+    const { error } = await supabase
+      .from('profile_identities')
+      .upsert(row, { onConflict: 'member_id' });
+
+    if (error) {
+      console.error('Error storing profile identity:', error);
+    }
+  }
+}
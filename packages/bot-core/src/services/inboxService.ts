@@ -0,0 +1,122 @@
+import { createClient } from '@supabase/supabase-js';
+import { InboxThread } from '@linkedin-bot-suite/shared';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE!
+);
+
+// Jobs without an accountId run on the global session
+const GLOBAL_ACCOUNT_KEY = '';
+
+export class InboxService {
+  /**
+   * Newest stored message per thread, or null when the account has never
+   * been synced (the first sync only records a baseline).
+   */
+  async getLastSeenMessages(clientSlug: string | undefined, accountId: string | undefined): Promise<Record<string, string> | null> {
+    const { data: threads, error } = await supabase
+      .from('inbox_threads')
+      .select('thread_urn, last_message_urn')
+      .eq('client_slug', clientSlug || '')
+      .eq('account_id', accountId || GLOBAL_ACCOUNT_KEY);
+
+    if (error) {
+      throw new Error(`Failed to load inbox state: ${error.message}`);
+    }
+
+    if (!threads || threads.length === 0) {
+      return null;
+    }
+
+    const lastSeen: Record<string, string> = {};
+    for (const thread of threads) {
+      if (thread.last_message_urn) {
+        lastSeen[thread.thread_urn] = thread.last_message_urn;
+      }
+    }
+    return lastSeen;
+  }
+
+  /**
+   * Store a synced thread and its new messages
+   */
+  async saveThread(clientSlug: string | undefined, accountId: string | undefined, thread: InboxThread): Promise<void> {
+    const newest = thread.messages[thread.messages.length - 1];
+    const now = new Date().toISOString();
+
+    const { data: stored, error } = await supabase
+      .from('inbox_threads')
+      .upsert({
+        client_slug: clientSlug || '',
+        account_id: accountId || GLOBAL_ACCOUNT_KEY,
+        thread_urn: thread.threadUrn,
+        thread_url: thread.threadUrl,
+        participants: thread.participants,
+        profile_url: this.getLeadProfileUrl(thread),
+        last_message_urn: newest?.messageUrn,
+        last_message_at: newest?.sentAt ?? now,
+        updated_at: now,
+      }, { onConflict: 'client_slug,account_id,thread_urn' })
+      .select('id')
+      .single();
+
+    if (error || !stored) {
+      throw new Error(`Failed to store inbox thread ${thread.threadUrn}: ${error?.message || 'Unknown error'}`);
+    }
+
+    if (thread.messages.length === 0) return;
+
+    const { error: messageError } = await supabase
+      .from('inbox_messages')
+      .upsert(thread.messages.map(message => ({
+        thread_id: stored.id,
+        message_urn: message.messageUrn,
+        sender_name: message.senderName,
+        sender_profile_url: message.senderProfileUrl,
+        is_inbound: message.isInbound,
+        sent_at: message.sentAt ?? now,
+        text: message.text,
+        created_at: now,
+      })), { onConflict: 'thread_id,message_urn', ignoreDuplicates: true });
+
+    if (messageError) {
+      throw new Error(`Failed to store messages for thread ${thread.threadUrn}: ${messageError.message}`);
+    }
+  }
+
+  /**
+   * The lead of a thread is the other participant; group threads have no single lead
+   */
+  getLeadProfileUrl(thread: InboxThread): string | undefined {
+    const withProfile = thread.participants.filter(p => p.profileUrl);
+    if (withProfile.length === 1) {
+      return withProfile[0].profileUrl;
+    }
+    return thread.messages.find(m => m.isInbound && m.senderProfileUrl)?.senderProfileUrl;
+  }
+
+  /**
+   * Record a reply on the lead's campaign enrollments so stop_if_replied steps end the sequence
+   */
+  async markEnrollmentsReplied(clientSlug: string | undefined, profileUrl: string, repliedAt: string): Promise<void> {
+    try {
+      const { data: campaigns } = await supabase
+        .from('campaigns')
+        .select('id')
+        .eq('client_slug', clientSlug || '');
+
+      const campaignIds = (campaigns || []).map(c => c.id);
+      if (campaignIds.length === 0) return;
+
+      await supabase
+        .from('campaign_enrollments')
+        .update({ replied_at: repliedAt, updated_at: new Date().toISOString() })
+        .in('campaign_id', campaignIds)
+        .eq('profile_url', profileUrl)
+        .is('replied_at', null);
+    } catch (error) {
+      console.error('Error marking campaign enrollments as replied:', error);
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import { createClient } from '@supabase/supabase-js';
+import { SearchResultLead, LeadStatus, LEAD_STATUS, advanceLeadStatus } from '@linkedin-bot-suite/shared';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE!
+);
+
+export class LeadService {
+  /**
+   * Store scraped leads for a client. Profiles that are already known keep
+   * their stored row and come back with isNew: false.
+   */
+  async saveSearchResults(clientSlug: string | undefined, jobId: string, searchUrl: string, leads: SearchResultLead[]): Promise<SearchResultLead[]> {
+    if (leads.length === 0) return [];
+
+    const slug = clientSlug || '';
+
+    const { data: existing, error } = await supabase
+      .from('leads')
+      .select('profile_url')
+      .eq('client_slug', slug)
+      .in('profile_url', leads.map(lead => lead.profileUrl));
+
+    if (error) {
+      throw new Error(`Failed to load known leads: ${error.message}`);
+    }
+
+    const known = new Set((existing || []).map(row => row.profile_url));
+    const newLeads = leads.filter(lead => !known.has(lead.profileUrl));
+
+    if (newLeads.length > 0) {
+      const now = new Date().toISOString();
+      const { error: insertError } = await supabase
+        .from('leads')
+        .upsert(newLeads.map(lead => ({
+          client_slug: slug,
+          profile_url: lead.profileUrl,
+          name: lead.name,
+          headline: lead.headline,
+          location: lead.location,
+          degree: lead.degree,
+          source: 'search_scrape',
+          source_job_id: jobId,
+          source_url: searchUrl,
+          created_at: now,
+          updated_at: now,
+        })), { onConflict: 'client_slug,profile_url', ignoreDuplicates: true });
+
+      if (insertError) {
+        throw new Error(`Failed to store leads: ${insertError.message}`);
+      }
+    }
+
+    return leads.map(lead => ({ ...lead, isNew: !known.has(lead.profileUrl) }));
+  }
+
+  /**
+   * Record a job's outcome on the lead of its profile. The status only moves
+   * forward; profiles without a lead get one unless createMissing is false.
+   */
+  async recordJobOutcome(
+    clientSlug: string | undefined,
+    profileUrl: string,
+    outcome: { jobId: string; jobType: string; jobStatus: string; leadStatus?: LeadStatus },
+    createMissing: boolean = true
+  ): Promise<void> {
+    try {
+      const slug = clientSlug || '';
+      const { data: lead } = await supabase
+        .from('leads')
+        .select('id, status')
+        .eq('client_slug', slug)
+        .eq('profile_url', profileUrl)
+        .maybeSingle();
+
+      if (!lead && !createMissing) return;
+
+      const now = new Date().toISOString();
+      const updateData: Record<string, any> = {
+        last_job_id: outcome.jobId,
+        last_job_type: outcome.jobType,
+        last_job_status: outcome.jobStatus,
+        last_activity_at: now,
+        updated_at: now,
+      };
+      if (outcome.leadStatus) {
+        updateData.status = advanceLeadStatus(lead?.status, outcome.leadStatus);
+      }
+
+      if (lead) {
+        await supabase.from('leads').update(updateData).eq('id', lead.id);
+        return;
+      }
+
+      await supabase.from('leads').upsert({
+        client_slug: slug,
+        profile_url: profileUrl,
+        status: LEAD_STATUS.NEW,
+        source: 'job',
+        source_job_id: outcome.jobId,
+        created_at: now,
+        ...updateData,
+      }, { onConflict: 'client_slug,profile_url', ignoreDuplicates: true });
+    } catch (error) {
+      console.error(`Error recording job outcome on lead ${profileUrl}:`, error);
+    }
+  }
+}
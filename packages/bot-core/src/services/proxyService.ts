@@ -0,0 +1,151 @@
+import { createClient } from '@supabase/supabase-js';
+import { LinkedInAccount, ProxyServer, ProxySettings, PROXY_STATUS, PROXY_DEFAULTS, parseProxyUrl, proxySettingsFor } from '@linkedin-bot-suite/shared';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE!
+);
+
+// Raised when an account's proxy is down; the job waits instead of going out without it
+export class ProxyUnavailableError extends Error {
+  constructor(message: string, public readonly retryAt: number) {
+    super(message);
+  }
+}
+
+// Chrome network errors that point at the proxy rather than LinkedIn
+const PROXY_ERROR_PATTERN = /ERR_PROXY_|ERR_TUNNEL_CONNECTION_FAILED|ERR_NO_SUPPORTED_PROXIES|ERR_SOCKS_/;
+
+export const isProxyError = (error: Error) => PROXY_ERROR_PATTERN.test(error.message);
+
+export interface AccountProxy extends ProxySettings {
+  proxyId?: string;
+}
+
+export class ProxyService {
+  /**
+   * Proxy for an account's jobs. Accounts keep their registry proxy while it
+   * is active; accounts without one, or whose proxy failed or was disabled,
+   * move to the active proxy of their client with the fewest accounts and
+   * wait only when the client has none. Accounts with a hand-set proxy URL
+   * keep using it, and null means the client has no proxies at all.
+   */
+  async resolveForAccount(account: LinkedInAccount): Promise<AccountProxy | null> {
+    if (account.proxy_id) {
+      const proxy = await this.getProxy(account.proxy_id);
+      if (proxy?.status === PROXY_STATUS.ACTIVE) {
+        return { ...proxySettingsFor(proxy), proxyId: proxy.id };
+      }
+      if (proxy?.status === PROXY_STATUS.FAILED) {
+        console.warn(`[bot-core] Proxy ${proxy.id} of account ${account.id} is failing health checks, reassigning`);
+      }
+    } else if (account.proxy) {
+      return parseProxyUrl(account.proxy);
+    }
+
+    return this.assignProxy(account);
+  }
+
+  /**
+   * Count a proxy error seen by the browser like a failed health check
+   */
+  async recordFailure(proxyId: string, message: string) {
+    const proxy = await this.getProxy(proxyId);
+    if (!proxy || proxy.status === PROXY_STATUS.DISABLED) return;
+
+    const consecutiveFailures = (proxy.consecutive_failures ?? 0) + 1;
+    const failed = consecutiveFailures >= PROXY_DEFAULTS.FAILURES_BEFORE_REMOVAL;
+
+    const { error } = await supabase
+      .from('proxies')
+      .update({
+        consecutive_failures: consecutiveFailures,
+        status: failed ? PROXY_STATUS.FAILED : proxy.status,
+        last_error: message,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', proxyId);
+
+    if (error) {
+      console.error('Error recording proxy failure:', error);
+    } else if (failed) {
+      console.warn(`[bot-core] Proxy ${proxyId} taken out of rotation after ${consecutiveFailures} failures: ${message}`);
+    }
+  }
+
+  private async getProxy(proxyId: string): Promise<ProxyServer | null> {
+    const { data: proxy } = await supabase
+      .from('proxies')
+      .select('*')
+      .eq('id', proxyId)
+      .maybeSingle();
+
+    return proxy as ProxyServer | null;
+  }
+
+  private async assignProxy(account: LinkedInAccount): Promise<AccountProxy | null> {
+    const { data: proxies, error } = await supabase
+      .from('proxies')
+      .select('*')
+      .eq('client_slug', account.client_slug)
+      .neq('status', PROXY_STATUS.DISABLED);
+
+    if (error) {
+      throw new Error(`Failed to load proxies: ${error.message}`);
+    }
+
+    const candidates = (proxies || []) as ProxyServer[];
+    const active = candidates.filter(proxy => proxy.status === PROXY_STATUS.ACTIVE);
+    if (active.length === 0) {
+      if (candidates.length > 0) {
+        throw this.unavailable(`No active proxy for account ${account.id}: all ${candidates.length} proxies of client ${account.client_slug} are failing`);
+      }
+      if (account.proxy_id) {
+        throw this.unavailable(`Proxy of account ${account.id} is disabled and client ${account.client_slug} has no other proxy`);
+      }
+      return null;
+    }
+
+    const { data: assigned } = await supabase
+      .from('linkedin_accounts')
+      .select('proxy_id')
+      .in('proxy_id', active.map(proxy => proxy.id));
+
+    const load = new Map<string, number>();
+    for (const row of assigned || []) {
+      load.set(row.proxy_id, (load.get(row.proxy_id) ?? 0) + 1);
+    }
+    const proxy = active.reduce((best, candidate) =>
+      (load.get(candidate.id) ?? 0) < (load.get(best.id) ?? 0) ? candidate : best
+    );
+
+    // Only replace what this worker saw, so concurrent jobs of the account agree on one proxy
+    let update = supabase
+      .from('linkedin_accounts')
+      .update({ proxy_id: proxy.id, updated_at: new Date().toISOString() })
+      .eq('id', account.id);
+    update = account.proxy_id ? update.eq('proxy_id', account.proxy_id) : update.is('proxy_id', null);
+
+    const { data: updated, error: updateError } = await update.select('proxy_id');
+    if (updateError) {
+      throw new Error(`Failed to assign proxy to account ${account.id}: ${updateError.message}`);
+    }
+
+    if (!updated || updated.length === 0) {
+      // Another job assigned one first - use theirs
+      const { data: current } = await supabase
+        .from('linkedin_accounts')
+        .select('*')
+        .eq('id', account.id)
+        .single();
+      return this.resolveForAccount(current as LinkedInAccount);
+    }
+
+    console.log(`[bot-core] Assigned proxy ${proxy.id} (${proxy.region ?? 'no region'}) to account ${account.id}`);
+    return { ...proxySettingsFor(proxy), proxyId: proxy.id };
+  }
+
+  private unavailable(message: string) {
+    return new ProxyUnavailableError(message, Date.now() + PROXY_DEFAULTS.UNAVAILABLE_RETRY_MS);
+  }
+}
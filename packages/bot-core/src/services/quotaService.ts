@@ -0,0 +1,158 @@
+import Redis from 'ioredis';
+import { createClient } from '@supabase/supabase-js';
+import { LinkedInAccount, ACCOUNT_QUOTAS, getQuotasForJobType, getQuotaLimit, getQuotaRedisKey } from '@linkedin-bot-suite/shared';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE!
+);
+
+const prefix = process.env.BULLMQ_PREFIX || 'bull';
+
+/**
+ * Atomically trims every quota window and, if all of them have room, reserves
+ * a slot for the job in each. Returns {1} on success or {0, retryAt, index}
+ * with the earliest time the blocking window reopens.
+ *
+ * KEYS: one sorted set per quota
+ * ARGV: now, member, then windowMs/limit pairs in KEYS order
+ */
+const RESERVE_SCRIPT = `
+local now = tonumber(ARGV[1])
+local member = ARGV[2]
+local retryAt = 0
+local blocked = 0
+
+for i, key in ipairs(KEYS) do
+  local windowMs = tonumber(ARGV[1 + i * 2])
+  local limit = tonumber(ARGV[2 + i * 2])
+  redis.call('ZREMRANGEBYSCORE', key, '-inf', now - windowMs)
+
+  if not redis.call('ZSCORE', key, member) then
+    local count = redis.call('ZCARD', key)
+    if count >= limit then
+      local reopenAt = now + windowMs
+      if limit > 0 then
+        local oldest = redis.call('ZRANGE', key, count - limit, count - limit, 'WITHSCORES')
+        reopenAt = tonumber(oldest[2]) + windowMs
+      end
+      if reopenAt > retryAt then
+        retryAt = reopenAt
+        blocked = i
+      end
+    end
+  end
+end
+
+if blocked > 0 then
+  return {0, retryAt, blocked}
+end
+
+for i, key in ipairs(KEYS) do
+  local windowMs = tonumber(ARGV[1 + i * 2])
+  redis.call('ZADD', key, 'NX', now, member)
+  redis.call('PEXPIRE', key, windowMs)
+end
+
+return {1}
+`;
+
+export type QuotaReservation =
+  | { allowed: true }
+  | { allowed: false; quota: string; retryAt: number };
+
+export class QuotaService {
+  private redis: Redis | null = null;
+
+  private getRedis(): Redis {
+    if (!this.redis) {
+      this.redis = new Redis(process.env.REDIS_URL!, { maxRetriesPerRequest: 3 });
+    }
+    return this.redis;
+  }
+
+  private quotaKey(accountId: string, quotaKey: string): string {
+    return getQuotaRedisKey(prefix, accountId, quotaKey);
+  }
+
+  /**
+   * Reserve quota for a job before it touches LinkedIn. Safe across worker
+   * instances; a retried job reuses its existing reservation.
+   */
+  async reserve(account: LinkedInAccount, jobType: string, jobId: string): Promise<QuotaReservation> {
+    const quotas = getQuotasForJobType(jobType);
+    if (quotas.length === 0) {
+      return { allowed: true };
+    }
+
+    const keys = quotas.map(quota => this.quotaKey(account.id, quota.key));
+    const args: (string | number)[] = [Date.now(), jobId];
+    for (const quota of quotas) {
+      args.push(quota.windowMs, getQuotaLimit(account, quota));
+    }
+
+    const result = await this.getRedis().eval(RESERVE_SCRIPT, keys.length, ...keys, ...args) as number[];
+
+    if (result[0] === 1) {
+      return { allowed: true };
+    }
+
+    return {
+      allowed: false,
+      quota: quotas[result[2] - 1].key,
+      retryAt: Number(result[1]),
+    };
+  }
+
+  /**
+   * Give back a reservation when the action did not happen
+   */
+  async release(accountId: string, jobType: string, jobId: string): Promise<void> {
+    const quotas = getQuotasForJobType(jobType);
+    if (quotas.length === 0) return;
+
+    try {
+      const pipeline = this.getRedis().pipeline();
+      for (const quota of quotas) {
+        pipeline.zrem(this.quotaKey(accountId, quota.key), jobId);
+      }
+      await pipeline.exec();
+    } catch (error) {
+      console.error('Error releasing quota reservation:', error);
+    }
+  }
+
+  /**
+   * Write current window counts back to linkedin_accounts so the API can report remaining capacity
+   */
+  async syncAccountCounters(accountId: string): Promise<void> {
+    try {
+      const now = Date.now();
+      const pipeline = this.getRedis().pipeline();
+      const quotas = Object.values(ACCOUNT_QUOTAS);
+
+      for (const quota of quotas) {
+        pipeline.zcount(this.quotaKey(accountId, quota.key), now - quota.windowMs, '+inf');
+      }
+
+      const results = await pipeline.exec();
+      const updateData: any = {
+        last_activity_at: new Date(now).toISOString(),
+      };
+
+      quotas.forEach((quota, index) => {
+        const [error, count] = results?.[index] ?? [];
+        if (!error) {
+          updateData[quota.counterColumn] = Number(count) || 0;
+        }
+      });
+
+      await supabase
+        .from('linkedin_accounts')
+        .update(updateData)
+        .eq('id', accountId);
+    } catch (error) {
+      console.error('Error syncing account counters:', error);
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { createClient } from '@supabase/supabase-js';
+import { SuppressionEntry, SuppressionTarget, ProfileIdentity, profileUrlFor, findSuppressionMatch } from '@linkedin-bot-suite/shared';
+
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE!
+);
+
+// Thrown when a contact job targets a suppressed profile; the job ends as "suppressed"
+export class SuppressedContactError extends Error {
+  constructor(message: string, public readonly entry: SuppressionEntry) {
+    super(message);
+  }
+}
+
+export class SuppressionService {
+  /**
+   * The client's do-not-contact entries. Read for every job because the list
+   * can change while a job waits in the queue.
+   */
+  async listEntries(clientSlug: string | undefined): Promise<SuppressionEntry[]> {
+    const { data: entries, error } = await supabase
+      .from('suppression_entries')
+      .select('id, type, value, reason')
+      .eq('client_slug', clientSlug || '');
+
+    if (error) {
+      throw new Error(`Failed to load suppression list: ${error.message}`);
+    }
+
+    return (entries || []) as SuppressionEntry[];
+  }
+
+  /**
+   * Target built from the profile's known ids and, when it came from a
+   * search, the name and headline stored with the lead
+   */
+  async buildTarget(clientSlug: string | undefined, identity: ProfileIdentity): Promise<SuppressionTarget> {
+    const profileUrls = [identity.profileUrl, identity.publicIdentifier, identity.memberId, identity.salesNavigatorId]
+      .filter((id): id is string => !!id)
+      .map(id => id.startsWith('http') ? id : profileUrlFor(id));
+
+    const { data: lead } = await supabase
+      .from('leads')
+      .select('name, headline')
+      .eq('client_slug', clientSlug || '')
+      .eq('profile_url', identity.profileUrl)
+      .maybeSingle();
+
+    return {
+      profileUrls,
+      name: lead?.name || undefined,
+      headline: lead?.headline || undefined,
+    };
+  }
+
+  /**
+   * Throw SuppressedContactError when an entry matches the target
+   */
+  assertNotSuppressed(entries: SuppressionEntry[], target: SuppressionTarget): void {
+    const match = findSuppressionMatch(entries, target);
+    if (match) {
+      const profileUrl = target.profileUrls[0];
+      throw new SuppressedContactError(
+        `${profileUrl} is on the do-not-contact list (${match.type} "${match.value}"${match.reason ? `: ${match.reason}` : ''})`,
+        match
+      );
+    }
+  }
+}
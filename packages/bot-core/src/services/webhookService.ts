@@ -1,5 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
-import { WebhookPayload, JOB_STATUS } from '@linkedin-bot-suite/shared';
+import { WebhookPayload, ConnectionEventPayload, MessageReceivedEventPayload, JOB_STATUS, COMPLETED_JOB_STATUSES, FAILED_JOB_STATUSES } from '@linkedin-bot-suite/shared';
 
 const supabase = createClient(
   process.env.SUPABASE_URL!,
@@ -26,11 +26,49 @@ export class WebhookService {
     }
   }
 
-  async processJobCompletion(jobId: string, success: boolean, result: any, error?: string) {
+  /**
+   * Record that a job started running. attempts counts every run of the job,
+   * including runs after it was retried through the API.
+   */
+  async markJobStarted(jobId: string) {
     try {
+      const { data: jobHistory } = await supabase
+        .from('job_history')
+        .select('attempts')
+        .eq('id', jobId)
+        .maybeSingle();
+
+      await supabase
+        .from('job_history')
+        .update({
+          status: JOB_STATUS.PROCESSING,
+          started_at: new Date().toISOString(),
+          attempts: (jobHistory?.attempts || 0) + 1,
+        })
+        .eq('id', jobId);
+    } catch (error) {
+      console.error('Error marking job as started:', error);
+    }
+  }
+
+  async processJobCompletion(
+    jobId: string,
+    success: boolean,
+    result: any,
+    error?: string,
+    options: {
+      skipStatus?: typeof JOB_STATUS.SKIPPED_DUPLICATE | typeof JOB_STATUS.SUPPRESSED;
+      abortStatus?: typeof JOB_STATUS.CANCELLED | typeof JOB_STATUS.TIMED_OUT; // Job stopped by the worker
+      errorCategory?: string; // Lets the API refuse retries that cannot succeed
+    } = {}
+  ) {
+    const { skipStatus, abortStatus, errorCategory } = options;
+    try {
+      const status = skipStatus || abortStatus || (success ? JOB_STATUS.COMPLETED : JOB_STATUS.FAILED);
+
       // Update job history
       const updateData: any = {
-        status: success ? JOB_STATUS.COMPLETED : JOB_STATUS.FAILED,
+        status,
         completed_at: new Date().toISOString(),
       };
 
@@ -42,6 +80,10 @@ export class WebhookService {
         updateData.error_message = error;
       }
 
+      if (errorCategory) {
+        updateData.error_category = errorCategory;
+      }
+
       await supabase
         .from('job_history')
         .update(updateData)
@@ -61,7 +103,7 @@ export class WebhookService {
 
       // Update workflow run counters
       if (jobHistory.workflow_run_id) {
-        await this.updateWorkflowRunCounters(jobHistory.workflow_run_id);
+        await this.updateWorkflowRunCounters(jobHistory.workflow_run_id, jobHistory.client_slug);
       }
 
       // Send webhook if URL is provided
@@ -70,13 +112,13 @@ export class WebhookService {
         const webhookPayload: WebhookPayload = {
           jobId,
           workflowId: jobHistory.workflow_run_id,
-          status: success ? 'completed' : 'failed',
+          status,
           result: {
             success,
             jobId,
             profileUrl: jobHistory.job_data?.profileUrl,
             action: jobHistory.job_type,
-            message: success ? 'Job completed successfully' : error,
+            message: skipStatus && success ? result?.message : success ? 'Job completed successfully' : error,
             error: success ? undefined : error,
             timestamp: new Date(),
           },
@@ -89,7 +131,11 @@ export class WebhookService {
     }
   }
 
-  private async sendWebhook(url: string, payload: WebhookPayload) {
+  async sendEvent(webhookUrl: string, payload: ConnectionEventPayload | MessageReceivedEventPayload) {
+    await this.sendWebhook(webhookUrl, payload);
+  }
+
+  private async sendWebhook(url: string, payload: WebhookPayload | ConnectionEventPayload | MessageReceivedEventPayload) {
     try {
       const response = await fetch(url, {
         method: 'POST',
@@ -109,22 +155,24 @@ export class WebhookService {
     }
   }
 
-  private async updateWorkflowRunCounters(workflowRunId: string) {
+  private async updateWorkflowRunCounters(workflowRunId: string, clientSlug: string) {
     try {
       const { data: jobs } = await supabase
         .from('job_history')
         .select('status')
-        .eq('workflow_run_id', workflowRunId);
+        .eq('workflow_run_id', workflowRunId)
+        .eq('client_slug', clientSlug);
 
       if (!jobs) return;
 
-      const completedJobs = jobs.filter(j => j.status === JOB_STATUS.COMPLETED).length;
-      const failedJobs = jobs.filter(j => j.status === JOB_STATUS.FAILED).length;
+      const completedJobs = jobs.filter(j => COMPLETED_JOB_STATUSES.includes(j.status)).length;
+      const failedJobs = jobs.filter(j => FAILED_JOB_STATUSES.includes(j.status)).length;
+      const cancelledJobs = jobs.filter(j => j.status === JOB_STATUS.CANCELLED).length;
       const totalJobs = jobs.length;
 
       // Determine workflow status
       let workflowStatus = 'running';
-      if (completedJobs + failedJobs === totalJobs) {
+      if (completedJobs + failedJobs + cancelledJobs === totalJobs) {
         workflowStatus = failedJobs > 0 ? 'failed' : 'completed';
       }
 
@@ -141,7 +189,8 @@ export class WebhookService {
       await supabase
         .from('workflow_runs')
         .update(updateData)
-        .eq('id', workflowRunId);
+        .eq('id', workflowRunId)
+        .eq('client_slug', clientSlug);
     } catch (error) {
       console.error('Error updating workflow counters:', error);
     }
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { randomUUID } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import type { Job } from 'bullmq';
+import type { LinkedInJob } from '@linkedin-bot-suite/shared';
+import type { FakeSupabase } from '../../api-server/test/helpers/supabase';
+
+vi.hoisted(() => {
+  process.env.SUPABASE_URL = 'https://test.supabase.co';
+  process.env.SUPABASE_SERVICE_ROLE = 'test-service-role';
+  process.env.BROWSER_POOL = 'off';
+});
+
+vi.mock('@supabase/supabase-js', async () => {
+  const { FakeSupabase } = await import('../../api-server/test/helpers/supabase');
+  const client = new FakeSupabase();
+  return { createClient: () => client };
+});
+
+// No cancel requests or quota windows without an account
+vi.mock('ioredis', () => ({
+  default: class {
+    async exists() { return 0; }
+    async del() { return 0; }
+  },
+}));
+
+// The thread page shows one participant, by member id as LinkedIn links it
+const sentReplies: string[] = [];
+const threadParticipants: string[] = [];
+
+vi.mock('@linkedin-bot-suite/linkedin', async importOriginal => {
+  const page = { isClosed: () => true };
+  const browser = { isConnected: () => true, process: () => null };
+  return {
+    ...await importOriginal<typeof import('@linkedin-bot-suite/linkedin')>(),
+    initLinkedInContext: async () => ({ browser, page, userDataDir: null }),
+    closeLinkedInBrowser: async () => {},
+    checkBrowserHealth: async () => true,
+    checkPageHealth: async () => ({ isHealthy: true }),
+    replyInThread: async (_page: unknown, thread: string, message: string, options: { beforeSend?: (urls: string[]) => Promise<void> } = {}) => {
+      await options.beforeSend?.([...threadParticipants]);
+      sentReplies.push(message);
+      return { success: true, message: 'Reply sent successfully', threadUrn: thread, threadUrl: thread, sentAt: new Date().toISOString() };
+    },
+  };
+});
+
+import { processJob } from '../src/processor';
+
+const supabase = createClient('', '') as unknown as FakeSupabase;
+
+const MEMBER_ID = 'ACoAAReplyTarget1';
+
+const runReply = async (message: string) => {
+  const jobId = randomUUID();
+  const data: LinkedInJob = { type: 'reply_in_thread', threadUrn: 'urn:li:messagingThread:2-abc', message, clientSlug: 'reply-client' } as LinkedInJob;
+  supabase.seed('job_history', [{ id: jobId, client_slug: 'reply-client', job_type: data.type, job_data: data, status: 'pending' }]);
+
+  const job = { id: jobId, data, attemptsMade: 0, opts: { attempts: 3 }, updateProgress: async () => {} } as unknown as Job<LinkedInJob>;
+  await processJob(job);
+  return supabase.rows('job_history').find(row => row.id === jobId)!;
+};
+
+describe('reply_in_thread and the do-not-contact list', () => {
+  beforeAll(() => {
+    supabase.seed('profile_identities', [{ public_identifier: 'blocked-person', member_id: MEMBER_ID, sales_navigator_id: null }]);
+    supabase.seed('suppression_entries', [{ client_slug: 'reply-client', type: 'profile', value: 'https://www.linkedin.com/in/blocked-person/' }]);
+  });
+
+  it('does not message a suppressed participant', async () => {
+    threadParticipants.splice(0, threadParticipants.length, `https://www.linkedin.com/in/${MEMBER_ID}`);
+
+    const history = await runReply('Following up');
+
+    expect(sentReplies).not.toContain('Following up');
+    expect(history.status).toBe('suppressed');
+  });
+
+  it('replies to participants that are not on the list', async () => {
+    threadParticipants.splice(0, threadParticipants.length, 'https://www.linkedin.com/in/someone-else');
+
+    const history = await runReply('Thanks for getting back');
+
+    expect(sentReplies).toContain('Thanks for getting back');
+    expect(history.status).toBe('completed');
+  });
+});
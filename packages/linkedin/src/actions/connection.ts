@@ -0,0 +1,82 @@
+import { Page } from 'puppeteer';
+import { ConnectionState, canonicalProfileUrl } from '@linkedin-bot-suite/shared';
+import { enforceRequestSpacing, smartHumanDelay, waitForLinkedInPageLoad, analyzeLinkedInButtonStructure, findLinkedInButton, safeEvaluate } from '../utils/browserHealth';
+
+// Button labels that mark an outstanding invitation (English / German)
+const PENDING_LABELS = ['pending', 'ausstehend', 'withdraw invitation', 'einladung zurückziehen'];
+const FOLLOW_LABELS = ['follow', 'folgen'];
+
+export async function checkConnection(
+  page: Page,
+  profileUrl: string
+): Promise<{ success: boolean; message: string; profileUrl: string; connectionState: ConnectionState; degree?: string }> {
+  const canonicalUrl = canonicalProfileUrl(profileUrl);
+  if (!canonicalUrl) {
+    throw new Error(`Invalid LinkedIn profile URL: ${profileUrl}`);
+  }
+  profileUrl = canonicalUrl;
+
+  console.log(`Checking connection state: ${profileUrl}`);
+
+  await enforceRequestSpacing();
+  await new Promise(resolve => setTimeout(resolve, smartHumanDelay(800, 'fast')));
+
+  await page.goto(profileUrl, {
+    waitUntil: 'domcontentloaded',
+    timeout: 20000
+  });
+
+  const currentUrl = page.url();
+  if (currentUrl.includes('/login') || currentUrl.includes('/authwall')) {
+    throw new Error(`Redirected to login: ${currentUrl}`);
+  }
+
+  const pageReady = await waitForLinkedInPageLoad(page, 'profile', 6000);
+  if (!pageReady) {
+    console.warn('Page validation failed but proceeding');
+  }
+
+  // Distance badge next to the name ("1st" / "1." for connections)
+  const degree = await safeEvaluate(page, () => {
+    const badge = document.querySelector('.pv-top-card .dist-value, .distance-badge .dist-value, .pvs-header .dist-value');
+    return badge?.textContent?.trim() || '';
+  }, 3000);
+
+  const analysis = await analyzeLinkedInButtonStructure(page);
+  const visibleLabels = analysis.buttons
+    .filter(btn => btn.isVisible)
+    .map(btn => `${btn.text} ${btn.ariaLabel}`.toLowerCase());
+
+  const hasLabel = (labels: string[]) =>
+    visibleLabels.some(label => labels.some(candidate => label.includes(candidate)));
+
+  let connectionState: ConnectionState;
+
+  if (hasLabel(PENDING_LABELS)) {
+    connectionState = 'pending';
+  } else if (typeof degree === 'string' && /^1/.test(degree)) {
+    connectionState = 'connected';
+  } else {
+    const connectButton = await findLinkedInButton(page, 'connect', 8000);
+    if (connectButton) {
+      connectionState = 'not_connected';
+    } else if (await findLinkedInButton(page, 'message', 3000)) {
+      // A message button without a connect option means the member is a connection
+      connectionState = 'connected';
+    } else if (hasLabel(FOLLOW_LABELS)) {
+      connectionState = 'follow_only';
+    } else {
+      throw new Error(`Could not determine connection state for ${profileUrl}: ${analysis.suggestions.join(', ')}`);
+    }
+  }
+
+  console.log(`🔗 Connection state for ${profileUrl}: ${connectionState}${degree ? ` (${degree})` : ''}`);
+
+  return {
+    success: true,
+    message: `Connection state: ${connectionState}`,
+    profileUrl,
+    connectionState,
+    degree: typeof degree === 'string' && degree ? degree : undefined,
+  };
+}
@@ -2,7 +2,7 @@ import { Page } from 'puppeteer';
 import { createLinkedInGraphQLClient } from '../graphql/graphql-client';
 import { researchLinkedInGraphQL } from '../graphql/graphql-research';
 import { sendInvitation as domSendInvitation } from './invite';
-import { enforceRequestSpacing } from '../utils/browserHealth';
+import { enforceRequestSpacing, abortableDelay, throwIfAborted } from '../utils/browserHealth';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -12,7 +12,9 @@ import * as path from 'path';
 export async function sendHybridInvitation(
   page: Page,
   profileUrl: string,
-  note?: string
+  note?: string,
+  profileUrn?: string,
+  signal?: AbortSignal
 ): Promise<{ success: boolean; message: string; profileUrl: string; actionTaken: 'invited' | 'messaged'; method: 'graphql' | 'dom' }> {
   
   console.log('🚀 Starting hybrid invitation system...');
@@ -20,7 +22,7 @@ export async function sendHybridInvitation(
   console.log(`📊 Advanced diagnostics: ${process.env.LINKEDIN_ADVANCED_DIAGNOSTICS === 'true' ? 'ENABLED' : 'DISABLED'}`);
   
   // Enforce request spacing
-  await enforceRequestSpacing();
+  await enforceRequestSpacing(signal);
   
   // Phase 1: Try GraphQL API approach
   try {
@@ -30,11 +32,12 @@ export async function sendHybridInvitation(
     console.log('🔗 Navigating to profile for GraphQL setup...');
     await page.goto(profileUrl, {
       waitUntil: 'domcontentloaded',
-      timeout: 30000
+      timeout: 30000,
+      signal
     });
     
     // Wait for page to load
-    await new Promise(resolve => setTimeout(resolve, 3000));
+    await abortableDelay(3000, signal);
     
     // Check if we need to research the GraphQL APIs first
     const shouldResearch = process.env.LINKEDIN_DIAGNOSTICS === '1';
@@ -86,12 +89,13 @@ export async function sendHybridInvitation(
         console.log(`🔍 GraphQL connection test: ${connectionTest.message}`);
         
         if (connectionTest.success) {
-          // Extract profile URN from URL
-          const profileUrn = graphqlClient.extractProfileUrn(profileUrl);
-          console.log(`📝 Profile URN: ${profileUrn}`);
+          // Resolve the member URN (cached or looked up by vanity name)
+          const memberUrn = await graphqlClient.resolveProfileUrn(profileUrl, profileUrn);
+          console.log(`📝 Profile URN: ${memberUrn}`);
           
           // Send invitation via GraphQL
-          const result = await graphqlClient.sendInvitation(profileUrn, note);
+          throwIfAborted(signal);
+          const result = await graphqlClient.sendInvitation(memberUrn, note);
           
           if (result.success) {
             console.log('✅ GraphQL invitation sent successfully!');
@@ -118,12 +122,15 @@ export async function sendHybridInvitation(
     console.warn('⚠️ Phase 1 (GraphQL) failed:', (error as Error).message);
   }
   
+  // Phase 1 swallows its errors, including an abort
+  throwIfAborted(signal);
+
   // Phase 2: Fall back to DOM manipulation
   console.log('🔄 Phase 2: Falling back to DOM manipulation...');
   
   try {
     // Use the existing DOM-based invitation system
-    const domResult = await domSendInvitation(page, profileUrl, note);
+    const domResult = await domSendInvitation(page, profileUrl, note, signal);
     
     return {
       success: domResult.success,
@@ -134,6 +141,7 @@ export async function sendHybridInvitation(
     };
     
   } catch (domError) {
+    throwIfAborted(signal);
     console.error('❌ Phase 2 (DOM) also failed:', (domError as Error).message);
     
     // Ultimate fallback: return detailed error
@@ -201,7 +209,8 @@ export async function researchLinkedInAPIs(
 export async function sendInvitationWithAdvancedDiagnostics(
   page: Page,
   profileUrl: string,
-  note?: string
+  note?: string,
+  profileUrn?: string
 ): Promise<{ success: boolean; message: string; profileUrl: string; actionTaken: 'invited' | 'messaged'; diagnostics: any }> {
   
   const diagnostics = {
@@ -236,8 +245,8 @@ export async function sendInvitationWithAdvancedDiagnostics(
         
         try {
           const graphqlClient = await createLinkedInGraphQLClient(page);
-          const profileUrn = graphqlClient.extractProfileUrn(profileUrl);
-          const result = await graphqlClient.sendInvitation(profileUrn, note);
+          const memberUrn = await graphqlClient.resolveProfileUrn(profileUrl, profileUrn);
+          const result = await graphqlClient.sendInvitation(memberUrn, note);
           
           if (result.success) {
             diagnostics.method = 'graphql';
@@ -0,0 +1,193 @@
+import { Page } from 'puppeteer';
+import { LINKEDIN_SELECTORS, MESSAGING_URL, INBOX_SYNC_DEFAULTS, InboxThread, threadUrnFromUrl } from '@linkedin-bot-suite/shared';
+import { enforceRequestSpacing, humanDelay, smartHumanDelay, safeEvaluate } from '../utils/browserHealth';
+
+export interface SyncInboxOptions {
+  maxThreads?: number;
+  // Newest stored message URN per thread URN; reading stops when it is reached
+  lastSeenMessageUrns?: Record<string, string>;
+}
+
+const WEEKDAYS = [
+  ['sunday', 'sonntag'],
+  ['monday', 'montag'],
+  ['tuesday', 'dienstag'],
+  ['wednesday', 'mittwoch'],
+  ['thursday', 'donnerstag'],
+  ['friday', 'freitag'],
+  ['saturday', 'samstag'],
+];
+
+/**
+ * Best-effort conversion of LinkedIn's day heading ("Today", "Monday", "Mar 4")
+ * and message time ("10:32 AM") into an ISO timestamp.
+ */
+export function parseMessageTimestamp(dayHeading: string, timeText: string, now: Date = new Date()): string | undefined {
+  const heading = dayHeading.trim().toLowerCase();
+  let day: Date | null = null;
+
+  if (!heading || /today|heute/.test(heading)) {
+    day = new Date(now);
+  } else if (/yesterday|gestern/.test(heading)) {
+    day = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+  } else {
+    const weekday = WEEKDAYS.findIndex(names => names.some(name => heading.startsWith(name)));
+    if (weekday >= 0) {
+      const diff = (now.getDay() - weekday + 7) % 7 || 7;
+      day = new Date(now.getTime() - diff * 24 * 60 * 60 * 1000);
+    } else {
+      const parsed = Date.parse(/\d{4}/.test(heading) ? heading : `${heading} ${now.getFullYear()}`);
+      if (!isNaN(parsed)) {
+        day = new Date(parsed);
+      }
+    }
+  }
+
+  if (!day) return undefined;
+
+  const time = timeText.trim().match(/(\d{1,2}):(\d{2})\s*(am|pm)?/i);
+  if (time) {
+    let hours = parseInt(time[1], 10);
+    const meridiem = time[3]?.toLowerCase();
+    if (meridiem === 'pm' && hours < 12) hours += 12;
+    if (meridiem === 'am' && hours === 12) hours = 0;
+    day.setHours(hours, parseInt(time[2], 10), 0, 0);
+  }
+
+  return day.toISOString();
+}
+
+/**
+ * Read the newest inbox threads. Threads are listed by last activity, so the
+ * sync stops at the first thread whose newest message was already synced.
+ */
+export async function syncInbox(
+  page: Page,
+  options: SyncInboxOptions = {}
+): Promise<{ success: boolean; message: string; threads: InboxThread[] }> {
+  const maxThreads = options.maxThreads ?? INBOX_SYNC_DEFAULTS.MAX_THREADS;
+  const lastSeen = options.lastSeenMessageUrns ?? {};
+
+  console.log(`Syncing inbox (max ${maxThreads} threads)`);
+
+  await enforceRequestSpacing();
+  await page.goto(MESSAGING_URL, {
+    waitUntil: 'domcontentloaded',
+    timeout: 30000
+  });
+
+  const currentUrl = page.url();
+  if (currentUrl.includes('/login') || currentUrl.includes('/authwall')) {
+    throw new Error(`Redirected to login: ${currentUrl}`);
+  }
+
+  await page.waitForSelector(LINKEDIN_SELECTORS.INBOX_THREAD_ITEM, { timeout: 20000 }).catch(() => {
+    console.warn('No conversations rendered in the inbox');
+  });
+
+  const threadUrls = await page.$$eval(
+    LINKEDIN_SELECTORS.INBOX_THREAD_LINK,
+    links => Array.from(new Set(links.map(link => (link as HTMLAnchorElement).href.split('?')[0])))
+  ).catch(() => [] as string[]);
+
+  const ownName = await safeEvaluate(page, () => {
+    const photo = document.querySelector('img.global-nav__me-photo') as HTMLImageElement | null;
+    return photo?.alt?.trim() || '';
+  }, 3000);
+
+  const threads: InboxThread[] = [];
+
+  for (const threadUrl of threadUrls.slice(0, maxThreads)) {
+    const threadUrn = threadUrnFromUrl(threadUrl);
+    if (!threadUrn) continue;
+
+    await new Promise(resolve => setTimeout(resolve, smartHumanDelay(1500, 'normal')));
+    await page.goto(threadUrl, { waitUntil: 'domcontentloaded', timeout: 30000 });
+    await page.waitForSelector(LINKEDIN_SELECTORS.INBOX_MESSAGE_EVENT, { timeout: 15000 }).catch(() => {
+      console.warn(`No messages rendered for thread ${threadUrn}`);
+    });
+    await new Promise(resolve => setTimeout(resolve, humanDelay(800, 40)));
+
+    const raw = await page.evaluate((eventSelector: string) => {
+      const participants = Array.from(document.querySelectorAll('.msg-thread__link-to-profile, .msg-entity-lockup__entity-title a, a.msg-thread__link-to-profile'))
+        .map(el => {
+          const link = (el.closest('a') || el) as HTMLAnchorElement;
+          return {
+            name: el.textContent?.trim() || '',
+            profileUrl: link.href?.includes('/in/') ? link.href.split('?')[0] : undefined,
+          };
+        })
+        .filter(p => p.name);
+
+      let dayHeading = '';
+      let senderName = '';
+      let senderProfileUrl: string | undefined;
+      let timeText = '';
+
+      const messages = Array.from(document.querySelectorAll(eventSelector)).map(event => {
+        const heading = event.querySelector('time.msg-s-message-list__time-heading');
+        if (heading) dayHeading = heading.textContent?.trim() || dayHeading;
+
+        // Consecutive messages from one sender share the group header
+        const groupName = event.querySelector('.msg-s-message-group__name');
+        if (groupName) {
+          senderName = groupName.textContent?.trim() || senderName;
+          const profileLink = event.querySelector('a.msg-s-message-group__profile-link') as HTMLAnchorElement | null;
+          senderProfileUrl = profileLink?.href?.split('?')[0];
+        }
+        const time = event.querySelector('time.msg-s-message-group__timestamp');
+        if (time) timeText = time.textContent?.trim() || timeText;
+
+        const item = event.querySelector('[data-event-urn]') || event;
+        return {
+          messageUrn: item.getAttribute('data-event-urn') || '',
+          senderName,
+          senderProfileUrl,
+          isOther: !!event.querySelector('.msg-s-event-listitem--other'),
+          dayHeading,
+          timeText,
+          text: event.querySelector('.msg-s-event-listitem__body')?.textContent?.trim() || '',
+        };
+      }).filter(m => m.messageUrn && m.text);
+
+      return { participants, messages };
+    }, LINKEDIN_SELECTORS.INBOX_MESSAGE_EVENT);
+
+    if (raw.messages.length === 0) continue;
+
+    const newest = raw.messages[raw.messages.length - 1];
+    const seenUrn = lastSeen[threadUrn];
+    if (seenUrn && newest.messageUrn === seenUrn) {
+      console.log(`📭 Thread ${threadUrn} has no new messages - inbox is up to date`);
+      break;
+    }
+
+    const seenIndex = seenUrn ? raw.messages.findIndex(m => m.messageUrn === seenUrn) : -1;
+    const newMessages = seenIndex >= 0
+      ? raw.messages.slice(seenIndex + 1)
+      : raw.messages.slice(-INBOX_SYNC_DEFAULTS.MAX_MESSAGES_PER_THREAD);
+
+    threads.push({
+      threadUrn,
+      threadUrl,
+      participants: raw.participants,
+      messages: newMessages.map(m => ({
+        messageUrn: m.messageUrn,
+        senderName: m.senderName,
+        senderProfileUrl: m.senderProfileUrl,
+        isInbound: m.isOther || (typeof ownName === 'string' && !!ownName && m.senderName !== ownName),
+        sentAt: parseMessageTimestamp(m.dayHeading, m.timeText),
+        text: m.text,
+      })),
+    });
+  }
+
+  const messageCount = threads.reduce((sum, thread) => sum + thread.messages.length, 0);
+  console.log(`📬 Inbox sync found ${messageCount} new messages in ${threads.length} threads`);
+
+  return {
+    success: true,
+    message: `Synced ${messageCount} new messages in ${threads.length} threads`,
+    threads,
+  };
+}
@@ -1,5 +1,11 @@
 export { sendInvitation } from './invite';
 export { sendMessage } from './message';
 export { viewProfile } from './profile';
+export { checkConnection } from './connection';
+export { withdrawInvitation, withdrawStaleInvitations } from './withdraw';
+export { syncInbox, SyncInboxOptions } from './inbox';
+export { replyInThread } from './reply';
+export { scrapeSearchResults } from './search';
 export { sendHybridInvitation, researchLinkedInAPIs, sendInvitationWithAdvancedDiagnostics } from './hybrid-invite';
-export { checkPageHealth, checkBrowserHealth, waitForPageHealth, safeNavigate, cleanupUserDataDir, safeEvaluate, categorizeError } from '../utils/browserHealth';
\ No newline at end of file
+export { extractLinkedInProfile } from '../utils/profileExtractor';
+export { checkPageHealth, checkBrowserHealth, waitForPageHealth, safeNavigate, cleanupUserDataDir, safeEvaluate, categorizeError, ErrorCategory, JobAbortedError, throwIfAborted, abortableDelay, untilAborted } from '../utils/browserHealth';
\ No newline at end of file
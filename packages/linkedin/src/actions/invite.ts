@@ -1,44 +1,50 @@
 import { Page } from 'puppeteer';
-import { LINKEDIN_SELECTORS } from '@linkedin-bot-suite/shared';
-import { safeElementInteraction, verifyPageStability, humanDelay, simulateHumanBehavior, enforceRequestSpacing, waitForButtonWithMultipleSelectors, waitForLinkedInPageReady, linkedInTyping, getActivityPattern, resetSessionState, waitForLinkedInPageLoad, waitForProfilePageReady, analyzePageStructure, validateProfilePage, waitForPageStability, monitorPageStability, optimizeMemoryUsage, smartHumanDelay, recoverFromBigpipeStuck, safeEvaluate, withContextRecovery, analyzeLinkedInButtonStructure, findLinkedInButton } from '../utils/browserHealth';
+import { LINKEDIN_SELECTORS, canonicalProfileUrl } from '@linkedin-bot-suite/shared';
+import { safeElementInteraction, verifyPageStability, humanDelay, simulateHumanBehavior, enforceRequestSpacing, waitForButtonWithMultipleSelectors, waitForLinkedInPageReady, linkedInTyping, getActivityPattern, resetSessionState, waitForLinkedInPageLoad, waitForProfilePageReady, analyzePageStructure, validateProfilePage, waitForPageStability, monitorPageStability, optimizeMemoryUsage, smartHumanDelay, recoverFromBigpipeStuck, safeEvaluate, withContextRecovery, analyzeLinkedInButtonStructure, findLinkedInButton, abortableDelay, throwIfAborted } from '../utils/browserHealth';
 import { sendMessage } from './message';
 
 export async function sendInvitation(
   page: Page,
   profileUrl: string,
-  note?: string
+  note?: string,
+  signal?: AbortSignal
 ): Promise<{ success: boolean; message: string; profileUrl: string; actionTaken: 'invited' | 'messaged' }> {
   // Check activity patterns and respect business hours
   const activityPattern = getActivityPattern();
   console.log(`Activity pattern: ${activityPattern.isActiveHour ? 'Active' : 'Inactive'} hour (${activityPattern.activityMultiplier}x speed)`);
   
   // Validate profile URL before navigation
-  if (!profileUrl || !profileUrl.includes('linkedin.com/in/')) {
+  const canonicalUrl = canonicalProfileUrl(profileUrl);
+  if (!canonicalUrl) {
     throw new Error(`Invalid LinkedIn profile URL: ${profileUrl}`);
   }
+  profileUrl = canonicalUrl;
 
   console.log(`Navigating to profile: ${profileUrl}`);
   
   // Enforce request spacing to prevent rate limiting
-  await enforceRequestSpacing();
+  await enforceRequestSpacing(signal);
   
   // Smart navigation delay with exponential bias toward speed
   const navigationDelay = smartHumanDelay(800, 'fast'); // Exponentially biased toward faster execution
-  await new Promise(resolve => setTimeout(resolve, navigationDelay));
+  await abortableDelay(navigationDelay, signal);
   
   // Single navigation attempt with best strategy
   try {
     console.log('Navigating to profile page...');
     await page.goto(profileUrl, {
       waitUntil: 'domcontentloaded',
-      timeout: 20000 // Reduced from 30s
+      timeout: 20000, // Reduced from 30s
+      signal
     });
   } catch (navError) {
+    throwIfAborted(signal);
     console.warn('First navigation attempt failed, trying with networkidle...');
     // Try once more with networkidle
     await page.goto(profileUrl, {
       waitUntil: 'networkidle2',
-      timeout: 25000
+      timeout: 25000,
+      signal
     });
   }
 
@@ -51,9 +57,9 @@ export async function sendInvitation(
   try {
     // Simplified page validation - just wait a bit and check basics
     console.log('Validating LinkedIn page loading...');
-    await new Promise(resolve => setTimeout(resolve, 2000));
+    await abortableDelay(2000, signal);
     
-    const pageReady = await waitForLinkedInPageLoad(page, 'profile', 6000);
+    const pageReady = await waitForLinkedInPageLoad(page, 'profile', 6000, signal);
     if (!pageReady) {
       // Don't retry, just proceed
       console.warn('Page validation failed but proceeding');
@@ -77,14 +83,14 @@ export async function sendInvitation(
 
     // Quick check for connection state using progressive detection
     console.log('Checking connection state...');
-    const messageButton = await findLinkedInButton(page, 'message', 3000);
+    const messageButton = await findLinkedInButton(page, 'message', 3000, signal);
     const isConnected = messageButton !== null;
     
     if (isConnected) {
       console.log('✅ User is already connected');
       if (note) {
         console.log('🔄 Auto-fallback: Sending message to already connected user...');
-        const messageResult = await sendMessage(page, profileUrl, note);
+        const messageResult = await sendMessage(page, profileUrl, note, signal);
         return {
           success: messageResult.success,
           message: messageResult.message,
@@ -98,16 +104,16 @@ export async function sendInvitation(
 
     // Progressive button detection for Connect button with enhanced stability
     console.log('🔍 Looking for Connect button with progressive detection...');
-    const connectButtonResult = await findLinkedInButton(page, 'connect', 20000); // Increased from 15s to 20s for stability
+    const connectButtonResult = await findLinkedInButton(page, 'connect', 20000, signal); // Increased from 15s to 20s for stability
     
     if (!connectButtonResult) {
       // Try fallback to message if connect not available
       console.log('❌ Connect button not found, trying message fallback...');
-      const messageButtonFallback = await findLinkedInButton(page, 'message', 8000); // Increased from 5s to 8s for stability
+      const messageButtonFallback = await findLinkedInButton(page, 'message', 8000, signal); // Increased from 5s to 8s for stability
       
       if (messageButtonFallback && note) {
         console.log('🔄 Connect button not found, falling back to message...');
-        const messageResult = await sendMessage(page, profileUrl, note);
+        const messageResult = await sendMessage(page, profileUrl, note, signal);
         return {
           success: messageResult.success,
           message: messageResult.message,
@@ -126,12 +132,12 @@ export async function sendInvitation(
       // Final recovery attempt: try page reload and retry
       console.log('🔄 Attempting page reload as last resort...');
       try {
-        await page.reload({ waitUntil: 'domcontentloaded', timeout: 15000 });
-        await new Promise(resolve => setTimeout(resolve, 3000));
+        await page.reload({ waitUntil: 'domcontentloaded', timeout: 15000, signal });
+        await abortableDelay(3000, signal);
         
         // Quick retry for connect button after reload
         console.log('🔍 Retrying Connect button detection after reload...');
-        const retryConnectButton = await findLinkedInButton(page, 'connect', 10000);
+        const retryConnectButton = await findLinkedInButton(page, 'connect', 10000, signal);
         
         if (retryConnectButton) {
           console.log('✅ Found Connect button after page reload!');
@@ -142,9 +148,10 @@ export async function sendInvitation(
           
           // Skip note addition on retry for simplicity
           console.log('🔍 Looking for Send button after reload...');
-          const retrySendButton = await findLinkedInButton(page, 'send', 8000);
+          const retrySendButton = await findLinkedInButton(page, 'send', 8000, signal);
           
           if (retrySendButton) {
+            throwIfAborted(signal);
             await retrySendButton.element.click();
             await new Promise(resolve => setTimeout(resolve, 3000));
             
@@ -158,6 +165,7 @@ export async function sendInvitation(
           }
         }
       } catch (recoveryError) {
+        throwIfAborted(signal);
         console.warn('⚠️ Page reload recovery failed:', recoveryError);
       }
       
@@ -183,7 +191,7 @@ export async function sendInvitation(
       console.warn('⚠️ Connect button click failed, attempting recovery:', clickError);
       
       // Recovery: Try to find and click the button again
-      const retryConnectButton = await findLinkedInButton(page, 'connect', 5000);
+      const retryConnectButton = await findLinkedInButton(page, 'connect', 5000, signal);
       if (retryConnectButton) {
         console.log('🔄 Retrying Connect button click...');
         await retryConnectButton.element.click();
@@ -197,7 +205,7 @@ export async function sendInvitation(
     if (note) {
       try {
         console.log('🔍 Looking for Add Note button with progressive detection...');
-        const noteButtonResult = await findLinkedInButton(page, 'note', 8000); // Increased from 5s to 8s for stability
+        const noteButtonResult = await findLinkedInButton(page, 'note', 8000, signal); // Increased from 5s to 8s for stability
         
         if (!noteButtonResult) {
           console.warn('Note button not found, sending invitation without note');
@@ -237,13 +245,14 @@ export async function sendInvitation(
           console.log('✅ Note added successfully');
         }
       } catch (noteError) {
+        throwIfAborted(signal);
         console.warn('Could not add note:', (noteError as Error).message);
       }
     }
 
     // Send invitation using progressive detection
     console.log('🔍 Looking for Send button with progressive detection...');
-    const sendButtonResult = await findLinkedInButton(page, 'send', 10000); // Increased from 8s to 10s for stability
+    const sendButtonResult = await findLinkedInButton(page, 'send', 10000, signal); // Increased from 8s to 10s for stability
     
     if (!sendButtonResult) {
       // Enhanced error with debugging context
@@ -257,6 +266,7 @@ export async function sendInvitation(
     console.log(`✅ Send button found using ${sendButtonResult.strategy} (confidence: ${sendButtonResult.confidence})`);
     console.log(`   Selector: ${sendButtonResult.selector}`);
     
+    throwIfAborted(signal);
     await sendButtonResult.element.click();
     
     await new Promise(resolve => setTimeout(resolve, 3000)); // Increased from 2s to 3s for stability
@@ -269,6 +279,7 @@ export async function sendInvitation(
       actionTaken: 'invited'
     };
   } catch (error) {
+    throwIfAborted(signal);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     console.error(`Failed to send invitation to ${profileUrl}:`, errorMessage);
     
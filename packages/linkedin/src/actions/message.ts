@@ -1,20 +1,23 @@
 import { Page } from 'puppeteer';
-import { LINKEDIN_SELECTORS } from '@linkedin-bot-suite/shared';
-import { safeElementInteraction, verifyPageStability, enforceRequestSpacing, waitForButtonWithMultipleSelectors, waitForLinkedInPageReady, linkedInTyping, getActivityPattern, humanDelay, simulateHumanBehavior } from '../utils/browserHealth';
+import { LINKEDIN_SELECTORS, canonicalProfileUrl } from '@linkedin-bot-suite/shared';
+import { safeElementInteraction, verifyPageStability, enforceRequestSpacing, waitForButtonWithMultipleSelectors, waitForLinkedInPageReady, linkedInTyping, getActivityPattern, humanDelay, simulateHumanBehavior, abortableDelay, throwIfAborted } from '../utils/browserHealth';
 
 export async function sendMessage(
   page: Page,
   profileUrl: string,
-  message: string
+  message: string,
+  signal?: AbortSignal
 ): Promise<{ success: boolean; message: string; profileUrl: string }> {
   // Check activity patterns and respect business hours
   const activityPattern = getActivityPattern();
   console.log(`Activity pattern: ${activityPattern.isActiveHour ? 'Active' : 'Inactive'} hour (${activityPattern.activityMultiplier}x speed)`);
   
   // Validate inputs
-  if (!profileUrl || !profileUrl.includes('linkedin.com/in/')) {
+  const canonicalUrl = canonicalProfileUrl(profileUrl);
+  if (!canonicalUrl) {
     throw new Error(`Invalid LinkedIn profile URL: ${profileUrl}`);
   }
+  profileUrl = canonicalUrl;
   
   if (!message || message.trim().length === 0) {
     throw new Error('Message content cannot be empty');
@@ -23,16 +26,17 @@ export async function sendMessage(
   console.log(`Navigating to profile for messaging: ${profileUrl}`);
   
   // Enforce request spacing to prevent rate limiting
-  await enforceRequestSpacing();
+  await enforceRequestSpacing(signal);
   
   // Add random delay and use flexible navigation
   const randomDelay = Math.floor(Math.random() * 2000) + 1000;
-  await new Promise(resolve => setTimeout(resolve, randomDelay));
+  await abortableDelay(randomDelay, signal);
   
   try {
     const response = await page.goto(profileUrl, { 
       waitUntil: 'domcontentloaded', 
-      timeout: 30000 
+      timeout: 30000,
+      signal
     });
     
     if (!response || response.status() >= 400) {
@@ -45,13 +49,14 @@ export async function sendMessage(
       throw new Error(`Navigation redirected to unexpected page: ${currentUrl}`);
     }
   } catch (error) {
+    throwIfAborted(signal);
     throw new Error(`Failed to navigate to profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 
   try {
     // Verify page stability before attempting DOM interactions
     console.log('Waiting for page elements to stabilize...');
-    const isStable = await verifyPageStability(page, 2000);
+    const isStable = await verifyPageStability(page, 2000, signal);
     if (!isStable) {
       console.warn('Page stability check failed, but proceeding with caution');
     }
@@ -87,12 +92,14 @@ export async function sendMessage(
       LINKEDIN_SELECTORS.MESSAGE_BUTTON,
       async (messageButton) => {
         await messageButton.click();
-        await new Promise(resolve => setTimeout(resolve, 2000)); // Wait for message window to open
+        await abortableDelay(2000, signal); // Wait for message window to open
         return true;
       },
       { timeout: 10000, retries: 3 }
     );
 
+    throwIfAborted(signal);
+
     // Use enhanced LinkedIn-specific typing for message input
     await safeElementInteraction(
       page,
@@ -121,6 +128,9 @@ export async function sendMessage(
       { timeout: 15000, retries: 3 } // Increased timeout for longer typing simulation
     );
 
+    // Last point at which a stopped job has not sent anything
+    throwIfAborted(signal);
+
     // Use safe element interaction for send button
     await safeElementInteraction(
       page,
@@ -139,6 +149,7 @@ export async function sendMessage(
       profileUrl,
     };
   } catch (error) {
+    throwIfAborted(signal);
     throw new Error(`Failed to send message: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
\ No newline at end of file
@@ -1,24 +1,31 @@
 import { Page } from 'puppeteer';
+import { LinkedInProfile, canonicalProfileUrl } from '@linkedin-bot-suite/shared';
+import { extractLinkedInProfile } from '../utils/profileExtractor';
+import { abortableDelay, throwIfAborted } from '../utils/browserHealth';
 
 export async function viewProfile(
   page: Page,
-  profileUrl: string
-): Promise<{ success: boolean; message: string; profileUrl: string; profileData?: any }> {
+  profileUrl: string,
+  signal?: AbortSignal
+): Promise<{ success: boolean; message: string; profileUrl: string; profileData?: any; profile?: LinkedInProfile }> {
   // Validate profile URL
-  if (!profileUrl || !profileUrl.includes('linkedin.com/in/')) {
+  const canonicalUrl = canonicalProfileUrl(profileUrl);
+  if (!canonicalUrl) {
     throw new Error(`Invalid LinkedIn profile URL: ${profileUrl}`);
   }
+  profileUrl = canonicalUrl;
   
   console.log(`Viewing profile: ${profileUrl}`);
   
   // Add random delay to simulate human behavior
   const randomDelay = Math.floor(Math.random() * 2000) + 1000;
-  await new Promise(resolve => setTimeout(resolve, randomDelay));
+  await abortableDelay(randomDelay, signal);
   
   try {
     const response = await page.goto(profileUrl, { 
       waitUntil: 'domcontentloaded', 
-      timeout: 30000 
+      timeout: 30000,
+      signal
     });
     
     if (!response || response.status() >= 400) {
@@ -31,75 +38,45 @@ export async function viewProfile(
       throw new Error(`Navigation redirected to unexpected page: ${currentUrl}`);
     }
   } catch (error) {
+    throwIfAborted(signal);
     throw new Error(`Failed to navigate to profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 
   try {
     // Wait for the profile to load
-    await new Promise(resolve => setTimeout(resolve, 2000));
+    await abortableDelay(2000, signal);
 
-    // Extract basic profile information
-    const profileData = await page.evaluate(() => {
-      const getName = () => {
-        const nameElement = document.querySelector('h1.text-heading-xlarge, h1.break-words');
-        return nameElement?.textContent?.trim() || '';
-      };
+    const profile = await extractLinkedInProfile(page, profileUrl);
+    const currentPosition = profile.currentPositions?.value[0];
 
-      const getHeadline = () => {
-        const headlineElement = document.querySelector('.text-body-medium.break-words');
-        return headlineElement?.textContent?.trim() || '';
-      };
-
-      const getLocation = () => {
-        const locationElement = document.querySelector('.text-body-small.inline.t-black--light.break-words');
-        return locationElement?.textContent?.trim() || '';
-      };
-
-      const getConnectionCount = () => {
-        const connectionElement = document.querySelector('.t-black--light.t-normal');
-        return connectionElement?.textContent?.trim() || '';
-      };
-
-      const getAbout = () => {
-        const aboutElement = document.querySelector('.display-flex.ph5.pv3 .full-width .break-words');
-        return aboutElement?.textContent?.trim() || '';
-      };
-
-      return {
-        name: getName(),
-        headline: getHeadline(),
-        location: getLocation(),
-        connectionCount: getConnectionCount(),
-        about: getAbout(),
-        url: window.location.href,
-        viewedAt: new Date().toISOString(),
-      };
-    });
-
-    // Scroll down to simulate viewing the profile
-    await page.evaluate(() => {
-      window.scrollTo(0, document.body.scrollHeight / 2);
-    });
-    await new Promise(resolve => setTimeout(resolve, 1000));
-
-    await page.evaluate(() => {
-      window.scrollTo(0, document.body.scrollHeight);
-    });
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    // Flat summary kept for template variables and existing consumers
+    const profileData = {
+      name: profile.name?.value || '',
+      headline: profile.headline?.value || '',
+      location: profile.location?.value || '',
+      company: currentPosition?.company,
+      position: currentPosition?.title,
+      connectionCount: profile.connectionCount ? String(profile.connectionCount.value) : '',
+      about: profile.about?.value || '',
+      url: page.url(),
+      viewedAt: profile.extractedAt,
+    };
 
     // Scroll back to top
     await page.evaluate(() => {
       window.scrollTo(0, 0);
     });
-    await new Promise(resolve => setTimeout(resolve, 500));
+    await abortableDelay(500, signal);
 
     return {
       success: true,
       message: 'Profile viewed successfully',
       profileUrl,
       profileData,
+      profile,
     };
   } catch (error) {
+    throwIfAborted(signal);
     throw new Error(`Failed to view profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
\ No newline at end of file
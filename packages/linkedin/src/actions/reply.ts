@@ -0,0 +1,114 @@
+import { Page } from 'puppeteer';
+import { LINKEDIN_SELECTORS, threadUrlFromUrn, threadUrnFromUrl } from '@linkedin-bot-suite/shared';
+import { safeElementInteraction, enforceRequestSpacing, linkedInTyping, humanDelay, smartHumanDelay } from '../utils/browserHealth';
+
+/**
+ * Open an existing conversation directly and send a reply. Accepts either a
+ * thread URN (urn:li:messagingThread:...) or a /messaging/thread/ URL.
+ * beforeSend gets the profile URLs of the thread's participants once the
+ * thread is open and can throw to stop the reply.
+ */
+export async function replyInThread(
+  page: Page,
+  thread: string,
+  message: string,
+  options: { beforeSend?: (participantProfileUrls: string[]) => Promise<void> } = {}
+): Promise<{ success: boolean; message: string; threadUrn: string; threadUrl: string; messageUrn?: string; sentAt: string }> {
+  if (!message || message.trim().length === 0) {
+    throw new Error('Message content cannot be empty');
+  }
+
+  const threadUrl = thread.startsWith('urn:') ? threadUrlFromUrn(thread) : thread.split('?')[0];
+  const threadUrn = threadUrnFromUrl(threadUrl);
+  if (!threadUrn) {
+    throw new Error(`Invalid LinkedIn conversation: ${thread}`);
+  }
+
+  console.log(`Replying in thread: ${threadUrn}`);
+
+  await enforceRequestSpacing();
+  await new Promise(resolve => setTimeout(resolve, smartHumanDelay(1000, 'normal')));
+
+  await page.goto(threadUrl, {
+    waitUntil: 'domcontentloaded',
+    timeout: 30000
+  });
+
+  const currentUrl = page.url();
+  if (currentUrl.includes('/login') || currentUrl.includes('/authwall')) {
+    throw new Error(`Redirected to login: ${currentUrl}`);
+  }
+  if (!currentUrl.includes('/messaging/thread/')) {
+    throw new Error(`Conversation not found, redirected to: ${currentUrl}`);
+  }
+
+  const latestEventUrn = () => page.$$eval(
+    '[data-event-urn]',
+    events => events[events.length - 1]?.getAttribute('data-event-urn') || ''
+  ).catch(() => '');
+
+  await page.waitForSelector(LINKEDIN_SELECTORS.INBOX_MESSAGE_EVENT, { timeout: 15000 }).catch(() => {
+    console.warn(`No messages rendered for thread ${threadUrn}`);
+  });
+  const previousEventUrn = await latestEventUrn();
+
+  if (options.beforeSend) {
+    const participantProfileUrls = await page.$$eval(
+      '.msg-thread__link-to-profile, .msg-entity-lockup__entity-title a, a.msg-thread__link-to-profile',
+      links => Array.from(new Set(links
+        .map(el => ((el.closest('a') || el) as HTMLAnchorElement).href || '')
+        .filter(href => href.includes('/in/'))
+        .map(href => href.split('?')[0])))
+    ).catch(() => [] as string[]);
+    await options.beforeSend(participantProfileUrls);
+  }
+
+  try {
+    await safeElementInteraction(
+      page,
+      LINKEDIN_SELECTORS.MESSAGE_TEXTAREA,
+      async (messageInput) => {
+        await messageInput.click();
+        await new Promise(resolve => setTimeout(resolve, humanDelay(300, 50)));
+
+        await linkedInTyping(page, message, 'message', {
+          element: messageInput
+        });
+
+        console.log('Reply typed with human-like patterns');
+        return true;
+      },
+      { timeout: 15000, retries: 3 }
+    );
+
+    await safeElementInteraction(
+      page,
+      LINKEDIN_SELECTORS.SEND_MESSAGE_BUTTON,
+      async (sendBtn) => {
+        await sendBtn.click();
+        await new Promise(resolve => setTimeout(resolve, 2000)); // Wait for message to be sent
+        return true;
+      },
+      { timeout: 5000, retries: 3 }
+    );
+  } catch (error) {
+    throw new Error(`Failed to reply in thread: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const sentAt = new Date().toISOString();
+
+  // The sent message shows up as the newest event in the thread
+  const newestEventUrn = await latestEventUrn();
+  const messageUrn = newestEventUrn && newestEventUrn !== previousEventUrn ? newestEventUrn : undefined;
+
+  console.log(`✅ Reply sent in thread ${threadUrn}`);
+
+  return {
+    success: true,
+    message: 'Reply sent successfully',
+    threadUrn,
+    threadUrl,
+    messageUrn,
+    sentAt,
+  };
+}
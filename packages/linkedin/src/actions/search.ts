@@ -0,0 +1,107 @@
+import { Page } from 'puppeteer';
+import { LINKEDIN_SELECTORS, SEARCH_SCRAPE_DEFAULTS, SearchResultLead, canonicalProfileUrl } from '@linkedin-bot-suite/shared';
+import { enforceRequestSpacing, smartHumanDelay, humanDelay, waitForLinkedInPageLoad, safeEvaluate } from '../utils/browserHealth';
+
+/**
+ * Page through a LinkedIn people search (keywords and filters come from the
+ * URL) and collect up to maxResults people. Results without a profile link
+ * ("LinkedIn Member") are skipped.
+ */
+export async function scrapeSearchResults(
+  page: Page,
+  searchUrl: string,
+  maxResults: number = SEARCH_SCRAPE_DEFAULTS.MAX_RESULTS
+): Promise<{ success: boolean; message: string; searchUrl: string; leads: SearchResultLead[]; pagesScraped: number }> {
+  if (!searchUrl || !searchUrl.includes('linkedin.com/search/results/people')) {
+    throw new Error(`Invalid LinkedIn people search URL: ${searchUrl}`);
+  }
+
+  const limit = Math.min(maxResults, SEARCH_SCRAPE_DEFAULTS.MAX_RESULTS_LIMIT);
+  const maxPages = Math.ceil(limit / SEARCH_SCRAPE_DEFAULTS.RESULTS_PER_PAGE);
+  const startPage = parseInt(new URL(searchUrl).searchParams.get('page') || '1', 10) || 1;
+
+  console.log(`Scraping people search (max ${limit} results): ${searchUrl}`);
+
+  const leads: SearchResultLead[] = [];
+  const seen = new Set<string>();
+  let pagesScraped = 0;
+
+  for (let pageNumber = startPage; pageNumber < startPage + maxPages && leads.length < limit; pageNumber++) {
+    const pageUrl = new URL(searchUrl);
+    pageUrl.searchParams.set('page', String(pageNumber));
+
+    await enforceRequestSpacing();
+    await new Promise(resolve => setTimeout(resolve, smartHumanDelay(pageNumber === startPage ? 800 : 2500, 'normal')));
+
+    await page.goto(pageUrl.toString(), {
+      waitUntil: 'domcontentloaded',
+      timeout: 30000
+    });
+
+    const currentUrl = page.url();
+    if (currentUrl.includes('/login') || currentUrl.includes('/authwall')) {
+      throw new Error(`Redirected to login: ${currentUrl}`);
+    }
+
+    const pageReady = await waitForLinkedInPageLoad(page, 'search', 8000);
+    if (!pageReady) {
+      console.warn('Page validation failed but proceeding');
+    }
+
+    // Results below the fold render lazily
+    await safeEvaluate(page, () => window.scrollTo(0, document.body.scrollHeight), 3000);
+    await new Promise(resolve => setTimeout(resolve, humanDelay(1200, 40)));
+
+    const results = await page.$$eval(LINKEDIN_SELECTORS.SEARCH_RESULT_ITEM, items => items.map(item => {
+      const link = item.querySelector('a[href*="/in/"]') as HTMLAnchorElement | null;
+      const text = (selector: string) =>
+        item.querySelector(selector)?.textContent?.replace(/\s+/g, ' ').trim() || '';
+
+      return {
+        href: link?.href || '',
+        name: text('.entity-result__title-text a span[aria-hidden="true"]') || text('a[href*="/in/"] span[aria-hidden="true"]'),
+        headline: text('.entity-result__primary-subtitle'),
+        location: text('.entity-result__secondary-subtitle'),
+        degree: text('.entity-result__badge-text span[aria-hidden="true"]') || text('.entity-result__badge-text'),
+      };
+    })).catch(() => []);
+
+    pagesScraped++;
+
+    if (results.length === 0) {
+      console.log(`📭 No results on page ${pageNumber} - end of search`);
+      break;
+    }
+
+    let added = 0;
+    for (const result of results) {
+      const profileUrl = canonicalProfileUrl(result.href);
+      if (!profileUrl || seen.has(profileUrl) || !result.name) continue;
+
+      seen.add(profileUrl);
+      leads.push({
+        profileUrl,
+        name: result.name,
+        headline: result.headline || undefined,
+        location: result.location || undefined,
+        degree: result.degree.replace(/^[•·\s]+/, '').match(/^\S+/)?.[0] || undefined,
+      });
+      added++;
+
+      if (leads.length >= limit) break;
+    }
+
+    console.log(`🔎 Page ${pageNumber}: ${added} people (${leads.length} total)`);
+
+    // LinkedIn repeats the last page when paging past the end
+    if (added === 0) break;
+  }
+
+  return {
+    success: true,
+    message: `Scraped ${leads.length} people from ${pagesScraped} search pages`,
+    searchUrl,
+    leads,
+    pagesScraped,
+  };
+}
@@ -0,0 +1,173 @@
+import { Page } from 'puppeteer';
+import { LINKEDIN_SELECTORS, SENT_INVITATIONS_URL, MAX_WITHDRAWALS_PER_JOB, canonicalProfileUrl } from '@linkedin-bot-suite/shared';
+import { enforceRequestSpacing, smartHumanDelay, humanDelay, waitForLinkedInPageLoad, waitForButtonWithMultipleSelectors, safeEvaluate } from '../utils/browserHealth';
+
+/**
+ * Convert the "Sent 3 weeks ago" / "Gesendet vor 3 Wochen" badge of a sent
+ * invitation into days. Returns null when the text cannot be read.
+ */
+export function parseInvitationAgeDays(text: string): number | null {
+  const value = text.toLowerCase();
+
+  if (/today|heute|hour|stunde|minute/.test(value)) return 0;
+  if (/yesterday|gestern/.test(value)) return 1;
+
+  const match = value.match(/(\d+)\s*(day|tag|week|woche|month|monat|year|jahr)/);
+  if (!match) return null;
+
+  const amount = parseInt(match[1], 10);
+  const unit = match[2];
+  if (unit === 'day' || unit === 'tag') return amount;
+  if (unit === 'week' || unit === 'woche') return amount * 7;
+  if (unit === 'month' || unit === 'monat') return amount * 30;
+  return amount * 365;
+}
+
+async function confirmWithdrawal(page: Page): Promise<void> {
+  const confirmButton = await waitForButtonWithMultipleSelectors(page, LINKEDIN_SELECTORS.WITHDRAW_CONFIRM_BUTTON, { timeout: 8000 });
+  await new Promise(resolve => setTimeout(resolve, humanDelay(400, 40)));
+  await confirmButton.click();
+  await new Promise(resolve => setTimeout(resolve, humanDelay(1500, 30)));
+}
+
+export async function withdrawInvitation(
+  page: Page,
+  profileUrl: string
+): Promise<{ success: boolean; message: string; profileUrl: string; withdrawn: boolean }> {
+  const canonicalUrl = canonicalProfileUrl(profileUrl);
+  if (!canonicalUrl) {
+    throw new Error(`Invalid LinkedIn profile URL: ${profileUrl}`);
+  }
+  profileUrl = canonicalUrl;
+
+  console.log(`Withdrawing invitation: ${profileUrl}`);
+
+  await enforceRequestSpacing();
+  await new Promise(resolve => setTimeout(resolve, smartHumanDelay(800, 'fast')));
+
+  await page.goto(profileUrl, {
+    waitUntil: 'domcontentloaded',
+    timeout: 20000
+  });
+
+  const currentUrl = page.url();
+  if (currentUrl.includes('/login') || currentUrl.includes('/authwall')) {
+    throw new Error(`Redirected to login: ${currentUrl}`);
+  }
+
+  const pageReady = await waitForLinkedInPageLoad(page, 'profile', 6000);
+  if (!pageReady) {
+    console.warn('Page validation failed but proceeding');
+  }
+
+  let pendingButton;
+  try {
+    pendingButton = await waitForButtonWithMultipleSelectors(page, LINKEDIN_SELECTORS.PENDING_BUTTON, { timeout: 8000 });
+  } catch {
+    console.log(`No pending invitation found for ${profileUrl}`);
+    return {
+      success: true,
+      message: 'No pending invitation to withdraw',
+      profileUrl,
+      withdrawn: false,
+    };
+  }
+
+  await new Promise(resolve => setTimeout(resolve, humanDelay(600, 40)));
+  await pendingButton.click();
+  await confirmWithdrawal(page);
+
+  console.log(`✅ Invitation withdrawn for ${profileUrl}`);
+
+  return {
+    success: true,
+    message: 'Invitation withdrawn successfully',
+    profileUrl,
+    withdrawn: true,
+  };
+}
+
+/**
+ * Withdraw every invitation on the account's sent-invitations page that is
+ * at least olderThanDays old. LinkedIn lists newest first, so the page is
+ * scrolled until older cards load.
+ */
+export async function withdrawStaleInvitations(
+  page: Page,
+  olderThanDays: number,
+  maxWithdrawals: number = MAX_WITHDRAWALS_PER_JOB
+): Promise<{ success: boolean; message: string; withdrawn: Array<{ profileUrl: string; name: string; ageDays: number }>; failed: number }> {
+  console.log(`Withdrawing invitations older than ${olderThanDays} days (max ${maxWithdrawals})`);
+
+  await enforceRequestSpacing();
+  await page.goto(SENT_INVITATIONS_URL, {
+    waitUntil: 'domcontentloaded',
+    timeout: 30000
+  });
+
+  const currentUrl = page.url();
+  if (currentUrl.includes('/login') || currentUrl.includes('/authwall')) {
+    throw new Error(`Redirected to login: ${currentUrl}`);
+  }
+
+  await page.waitForSelector(LINKEDIN_SELECTORS.SENT_INVITATION_CARD, { timeout: 15000 }).catch(() => {
+    console.warn('No sent invitation cards rendered');
+  });
+
+  // Load older invitations
+  for (let i = 0; i < 5; i++) {
+    await safeEvaluate(page, () => window.scrollTo(0, document.body.scrollHeight), 3000);
+    await new Promise(resolve => setTimeout(resolve, humanDelay(1200, 40)));
+  }
+
+  const withdrawn: Array<{ profileUrl: string; name: string; ageDays: number }> = [];
+  let failed = 0;
+
+  const cards = await page.$$(LINKEDIN_SELECTORS.SENT_INVITATION_CARD);
+  console.log(`📨 Found ${cards.length} sent invitations`);
+
+  // Oldest cards are at the bottom
+  for (const card of cards.reverse()) {
+    if (withdrawn.length >= maxWithdrawals) break;
+
+    const info = await card.evaluate((el: Element) => {
+      const link = el.querySelector('a[href*="/in/"]') as HTMLAnchorElement | null;
+      const time = el.querySelector('time, .time-badge, .invitation-card__time-badge');
+      const name = el.querySelector('.invitation-card__title, .invitation-card__name, strong');
+      return {
+        profileUrl: link?.href?.split('?')[0] || '',
+        name: name?.textContent?.trim() || '',
+        sentText: time?.textContent?.trim() || el.textContent || '',
+      };
+    }).catch(() => null);
+
+    if (!info) continue;
+
+    const ageDays = parseInvitationAgeDays(info.sentText);
+    if (ageDays === null || ageDays < olderThanDays) continue;
+
+    try {
+      const withdrawButton = await card.$(LINKEDIN_SELECTORS.SENT_INVITATION_WITHDRAW_BUTTON);
+      if (!withdrawButton) {
+        throw new Error('Withdraw button not found');
+      }
+
+      await withdrawButton.click();
+      await confirmWithdrawal(page);
+      withdrawn.push({ profileUrl: info.profileUrl, name: info.name, ageDays });
+      console.log(`✅ Withdrew invitation to ${info.name || info.profileUrl} (${ageDays} days old)`);
+
+      await new Promise(resolve => setTimeout(resolve, smartHumanDelay(2500, 'normal')));
+    } catch (error) {
+      failed++;
+      console.warn(`⚠️ Failed to withdraw invitation to ${info.name || info.profileUrl}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return {
+    success: failed === 0 || withdrawn.length > 0,
+    message: `Withdrew ${withdrawn.length} invitations older than ${olderThanDays} days${failed ? `, ${failed} failed` : ''}`,
+    withdrawn,
+    failed,
+  };
+}
@@ -1,4 +1,4 @@
-import { Browser, Page } from 'puppeteer';
+import { Browser, BrowserContext, Page } from 'puppeteer';
 import Puppeteer from 'puppeteer';
 import { addExtra } from 'puppeteer-extra';
 import StealthPlugin from 'puppeteer-extra-plugin-stealth';
@@ -43,35 +43,237 @@ async function checkNetworkConnectivity(): Promise<void> {
   }
 }
 
-export async function initLinkedInContext(
-  proxy?: string
-): Promise<{ browser: Browser; page: Page; userDataDir: string }> {
-  // Perform network connectivity check first
+export interface LinkedInContextOptions {
+  /** Session cookies for the account; falls back to LINKEDIN_COOKIES_JSON when omitted */
+  cookies?: any[];
+  /** Persistent profile directory for a local launch; its storage is kept and it is not removed when the launch fails */
+  userDataDir?: string;
+  /** DevTools endpoint of a running Chrome to use instead of launching one; defaults to BROWSER_WS_ENDPOINT */
+  browserWSEndpoint?: string;
+  /** Credentials for the proxy passed to --proxy-server */
+  proxyCredentials?: { username: string; password: string };
+}
+
+export interface LinkedInContext {
+  browser: Browser;
+  page: Page;
+  userDataDir: string | null; // null for a remote browser
+  userAgent: string;
+}
+
+/**
+ * Resolve the cookie set for this context, preferring per-account cookies over the global env
+ */
+function resolveSessionCookies(cookies?: any[]): any[] {
+  if (cookies) {
+    if (!Array.isArray(cookies)) {
+      throw new Error('Account cookies must be an array of cookie objects');
+    }
+    return cookies;
+  }
+
+  let parsed;
   try {
-    await checkNetworkConnectivity();
-  } catch (connectivityError) {
-    console.error('❌ Network connectivity check failed:', connectivityError);
-    throw new Error(`Network connectivity issue detected: ${connectivityError}`);
+    parsed = JSON.parse(process.env.LINKEDIN_COOKIES_JSON!);
+  } catch (parseError) {
+    throw new Error(`Invalid LINKEDIN_COOKIES_JSON format: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
+  }
+  
+  if (!Array.isArray(parsed)) {
+    throw new Error('LINKEDIN_COOKIES_JSON must be an array of cookie objects');
   }
+  
+  return parsed;
+}
 
-  const pptr = addExtra(Puppeteer);
-  pptr.use(StealthPlugin());
+/**
+ * Configure a fresh page for LinkedIn: proxy credentials, user agent,
+ * timeouts, headers and the session cookies
+ */
+async function prepareLinkedInPage(
+  page: Page,
+  userAgent: string,
+  options: LinkedInContextOptions & { clearStorage: boolean }
+): Promise<void> {
+  // Proxy credentials are answered per page, before the first request goes out
+  if (options.proxyCredentials) {
+    await page.authenticate(options.proxyCredentials);
+  }
 
-  // Enhanced session variation with more randomness
-  const sessionId = `${Date.now()}-${Math.random().toString(36).substr(2, 12)}-${Math.floor(Math.random() * 10000)}`;
-  const userDataDir = `/tmp/chrome-user-data-${sessionId}`;
+  // Set random user agent for anti-detection with error handling
+  try {
+    await page.setUserAgent(userAgent);
+    console.log('✅ User agent configured successfully');
+  } catch (userAgentError) {
+    console.warn('⚠️ User agent configuration failed, using browser default:', (userAgentError as Error).message);
+  }
   
-  // Updated user agent rotation with current Chrome versions (Jan 2025)
-  const userAgents = [
-    'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/137.0.0.0 Safari/537.36', // Your exact user agent
-    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/137.0.0.0 Safari/537.36',
-    'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/137.0.0.0 Safari/537.36',
-    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/137.0.0.0 Safari/537.36',
-    'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/137.0.0.0 Safari/537.36'
-  ];
-  const randomUserAgent = userAgents[Math.floor(Math.random() * userAgents.length)];
-  console.log('Using user agent:', randomUserAgent);
+  // Set aggressive timeouts for fast execution
+  page.setDefaultNavigationTimeout(20000); // Reduced from 25s to 20s for speed
+  page.setDefaultTimeout(20000);           // Reduced from 25s to 20s for speed
+  
+  // REMOVED: Viewport configuration completely to prevent Chrome session closure
+  // Chrome will use default viewport settings
+  console.log('✅ Using default Chrome viewport (no custom configuration)');
   
+  // Clear cache and storage before navigation to prevent redirect loops
+  // Use data URL instead of about:blank for better security context
+  try {
+    await page.goto('data:text/html,<html><head><title>Initializing</title></head><body></body></html>', {
+      waitUntil: 'domcontentloaded',
+      timeout: 15000 // Reduced from 30s to 15s
+    });
+  } catch (initError) {
+    console.warn('Initial navigation failed, continuing without pre-navigation:', (initError as Error).message);
+  }
+
+  // Clear storage safely - persistent profiles keep theirs
+  if (options.clearStorage) {
+    try {
+      await safeClearStorage(page);
+    } catch (storageError) {
+      console.warn('Unexpected error during storage clearing:', (storageError as Error).message);
+    }
+  }
+
+  // Set extra HTTP headers with error handling
+  try {
+    await page.setExtraHTTPHeaders({
+      'Accept-Language': 'en-US,en;q=0.9,de;q=0.8',
+      'Accept-Encoding': 'gzip, deflate, br',
+      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
+      'Upgrade-Insecure-Requests': '1',
+      'Sec-Fetch-Site': 'none',
+      'Sec-Fetch-Mode': 'navigate',
+      'Sec-Fetch-User': '?1',
+      'Cache-Control': 'no-cache',
+      'DNT': '1'
+    });
+    console.log('✅ HTTP headers configured successfully');
+  } catch (headersError) {
+    console.warn('⚠️ HTTP headers configuration failed, using browser defaults:', (headersError as Error).message);
+  }
+  
+  // REMOVED: Complex anti-detection script that causes Chrome session closure
+  // Relying on puppeteer-extra-plugin-stealth for basic anti-detection
+  console.log('✅ Using basic stealth plugin protection (complex script removed to prevent Chrome crashes)');
+  
+  // Parse and validate cookies
+  const cookies = resolveSessionCookies(options.cookies);
+  
+  console.log(`Setting ${cookies.length} cookies...`);
+  
+  // Validate essential cookies with expiration check
+  const essentialCookies = ['li_at', 'JSESSIONID'];
+  const currentTime = Date.now() / 1000;
+  
+  for (const cookieName of essentialCookies) {
+    const cookie = cookies.find((c: any) => c.name === cookieName);
+    if (!cookie) {
+      throw new Error(`Missing essential cookie: ${cookieName}`);
+    }
+    
+    // Check if essential cookie is expired
+    if (cookie.expires && cookie.expires < currentTime) {
+      throw new Error(`Essential cookie ${cookieName} has expired (expires: ${new Date(cookie.expires * 1000).toISOString()})`);
+    }
+  }
+  
+  // Set cookies one by one to handle errors
+  let successCount = 0;
+  for (const cookie of cookies) {
+    try {
+      await page.setCookie(cookie);
+      successCount++;
+    } catch (cookieError) {
+      console.warn(`Failed to set cookie ${cookie.name}:`, (cookieError as Error).message);
+    }
+  }
+  
+  console.log(`✅ Successfully set ${successCount}/${cookies.length} cookies`);
+  
+  if (successCount === 0) {
+    throw new Error('Failed to set any cookies - authentication will not work');
+  }
+}
+
+// puppeteer-extra with the stealth plugin, for launched and connected browsers alike
+export function createPuppeteer() {
+  const pptr = addExtra(Puppeteer);
+  pptr.use(StealthPlugin());
+  return pptr;
+}
+
+type StealthPuppeteer = ReturnType<typeof createPuppeteer>;
+
+// Browsers reached over a DevTools endpoint, mapped to the context their job works in
+const remoteContexts = new WeakMap<Browser, BrowserContext>();
+
+/**
+ * Connect to a running Chrome, e.g. a browser container next to the worker.
+ * The job gets its own browser context, so it starts with empty storage and
+ * can use its own proxy while other jobs share the same Chrome.
+ */
+export async function connectRemoteBrowser(pptr: StealthPuppeteer, browserWSEndpoint: string, proxy?: string, timeoutMs: number = 15000): Promise<Browser> {
+  // The endpoint may carry an access token, so only its host is logged
+  let endpointHost = 'remote browser';
+  try {
+    endpointHost = new URL(browserWSEndpoint).host;
+  } catch {}
+  console.log(`Connecting to remote browser at ${endpointHost}...`);
+
+  const connecting = pptr.connect({ browserWSEndpoint, protocolTimeout: 180000 });
+  let timer!: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Connecting to ${endpointHost} timed out`)), timeoutMs);
+  });
+
+  let browser: Browser;
+  try {
+    browser = await Promise.race([connecting, timeout]);
+  } catch (error) {
+    // A connection that is only made after the timeout is dropped again
+    connecting.then(late => late.disconnect(), () => {});
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+
+  try {
+    const context = await browser.createBrowserContext(proxy ? { proxyServer: proxy } : {});
+    remoteContexts.set(browser, context);
+    console.log(`✅ Connected to remote browser at ${endpointHost}`);
+    return browser;
+  } catch (error) {
+    await browser.disconnect().catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Close a browser from initLinkedInContext. A connected browser only loses
+ * the job's context and the connection; the remote Chrome keeps running.
+ */
+export async function closeLinkedInBrowser(browser: Browser): Promise<void> {
+  const context = remoteContexts.get(browser);
+  if (!context) {
+    await browser.close();
+    return;
+  }
+
+  remoteContexts.delete(browser);
+  try {
+    await context.close();
+  } finally {
+    await browser.disconnect();
+  }
+}
+
+/**
+ * Launch Chrome on this machine, falling back to more conservative
+ * configurations when a launch fails
+ */
+async function launchLocalChrome(pptr: StealthPuppeteer, proxy: string | undefined, userDataDir: string): Promise<Browser> {
   // Progressive fallback launch configurations
   const launchConfigs = [
     {
@@ -161,7 +363,6 @@ export async function initLinkedInContext(
   console.log('🎲 Using progressive fallback Chrome launch strategy');
 
   let browser: Browser | null = null;
-  let page: Page | null = null;
 
   // Verify Chrome binary exists and is executable
   try {
@@ -225,127 +426,81 @@ export async function initLinkedInContext(
   if (!browser) {
     throw new Error('All Chrome launch attempts failed');
   }
-    
+
+  return browser;
+}
+
+export async function initLinkedInContext(
+  proxy?: string,
+  options: LinkedInContextOptions = {}
+): Promise<LinkedInContext> {
+  // Perform network connectivity check first
   try {
-    // Check browser health before proceeding
-    const browserHealthy = await checkBrowserHealth(browser);
-    if (!browserHealthy) {
-      throw new Error('Browser failed initial health check');
-    }
-    
-    // Get existing pages and close extras
-    const pages = await browser.pages();
-    for (let i = 1; i < pages.length; i++) {
-      await pages[i].close();
-    }
-    
-    page = pages[0] || await browser.newPage();
-    console.log('Page created successfully');
-    
-    // Set random user agent for anti-detection with error handling
-    try {
-      await page.setUserAgent(randomUserAgent);
-      console.log('✅ User agent configured successfully');
-    } catch (userAgentError) {
-      console.warn('⚠️ User agent configuration failed, using browser default:', (userAgentError as Error).message);
-    }
-    
-    // Set aggressive timeouts for fast execution
-    page.setDefaultNavigationTimeout(20000); // Reduced from 25s to 20s for speed
-    page.setDefaultTimeout(20000);           // Reduced from 25s to 20s for speed
-    
-    // REMOVED: Viewport configuration completely to prevent Chrome session closure
-    // Chrome will use default viewport settings
-    console.log('✅ Using default Chrome viewport (no custom configuration)');
-    
-    // Clear cache and storage before navigation to prevent redirect loops
-    // Use data URL instead of about:blank for better security context
-    try {
-      await page.goto('data:text/html,<html><head><title>Initializing</title></head><body></body></html>', {
-        waitUntil: 'domcontentloaded',
-        timeout: 15000 // Reduced from 30s to 15s
-      });
-    } catch (initError) {
-      console.warn('Initial navigation failed, continuing without pre-navigation:', (initError as Error).message);
-    }
+    await checkNetworkConnectivity();
+  } catch (connectivityError) {
+    console.error('❌ Network connectivity check failed:', connectivityError);
+    throw new Error(`Network connectivity issue detected: ${connectivityError}`);
+  }
 
-    // Clear storage safely
-    try {
-      await safeClearStorage(page);
-    } catch (storageError) {
-      console.warn('Unexpected error during storage clearing:', (storageError as Error).message);
-    }
+  const pptr = createPuppeteer();
 
-    // Set extra HTTP headers with error handling
-    try {
-      await page.setExtraHTTPHeaders({
-        'Accept-Language': 'en-US,en;q=0.9,de;q=0.8',
-        'Accept-Encoding': 'gzip, deflate, br',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
-        'Upgrade-Insecure-Requests': '1',
-        'Sec-Fetch-Site': 'none',
-        'Sec-Fetch-Mode': 'navigate',
-        'Sec-Fetch-User': '?1',
-        'Cache-Control': 'no-cache',
-        'DNT': '1'
-      });
-      console.log('✅ HTTP headers configured successfully');
-    } catch (headersError) {
-      console.warn('⚠️ HTTP headers configuration failed, using browser defaults:', (headersError as Error).message);
-    }
-    
-    // REMOVED: Complex anti-detection script that causes Chrome session closure
-    // Relying on puppeteer-extra-plugin-stealth for basic anti-detection
-    console.log('✅ Using basic stealth plugin protection (complex script removed to prevent Chrome crashes)');
-    
-    // Parse and validate cookies
-    let cookies;
+  // Enhanced session variation with more randomness
+  const sessionId = `${Date.now()}-${Math.random().toString(36).substr(2, 12)}-${Math.floor(Math.random() * 10000)}`;
+  
+  // Updated user agent rotation with current Chrome versions (Jan 2025)
+  const userAgents = [
+    'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/137.0.0.0 Safari/537.36', // Your exact user agent
+    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/137.0.0.0 Safari/537.36',
+    'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/137.0.0.0 Safari/537.36',
+    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/137.0.0.0 Safari/537.36',
+    'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/137.0.0.0 Safari/537.36'
+  ];
+  const randomUserAgent = userAgents[Math.floor(Math.random() * userAgents.length)];
+  console.log('Using user agent:', randomUserAgent);
+  
+  let browser: Browser | null = null;
+  let page: Page | null = null;
+  let userDataDir: string | null = null;
+
+  // A remote browser saves launching Chrome here; local launch is the fallback
+  const browserWSEndpoint = options.browserWSEndpoint ?? process.env.BROWSER_WS_ENDPOINT;
+  if (browserWSEndpoint) {
     try {
-      cookies = JSON.parse(process.env.LINKEDIN_COOKIES_JSON!);
-    } catch (parseError) {
-      throw new Error(`Invalid LINKEDIN_COOKIES_JSON format: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
+      browser = await connectRemoteBrowser(pptr, browserWSEndpoint, proxy);
+    } catch (connectError) {
+      console.warn(`⚠️ Remote browser unavailable, launching Chrome locally: ${(connectError as Error).message}`);
     }
+  }
+
+  if (!browser) {
+    userDataDir = options.userDataDir ?? `/tmp/chrome-user-data-${sessionId}`;
+    browser = await launchLocalChrome(pptr, proxy, userDataDir);
+  }
     
-    if (!Array.isArray(cookies)) {
-      throw new Error('LINKEDIN_COOKIES_JSON must be an array of cookie objects');
-    }
-    
-    console.log(`Setting ${cookies.length} cookies...`);
-    
-    // Validate essential cookies with expiration check
-    const essentialCookies = ['li_at', 'JSESSIONID'];
-    const currentTime = Date.now() / 1000;
-    
-    for (const cookieName of essentialCookies) {
-      const cookie = cookies.find((c: any) => c.name === cookieName);
-      if (!cookie) {
-        throw new Error(`Missing essential cookie: ${cookieName}`);
+  try {
+    const remoteContext = remoteContexts.get(browser);
+    if (remoteContext) {
+      page = await remoteContext.newPage();
+    } else {
+      // Get existing pages and close extras
+      const pages = await browser.pages();
+      for (let i = 1; i < pages.length; i++) {
+        await pages[i].close();
       }
       
-      // Check if essential cookie is expired
-      if (cookie.expires && cookie.expires < currentTime) {
-        throw new Error(`Essential cookie ${cookieName} has expired (expires: ${new Date(cookie.expires * 1000).toISOString()})`);
-      }
+      page = pages[0] || await browser.newPage();
     }
-    
-    // Set cookies one by one to handle errors
-    let successCount = 0;
-    for (const cookie of cookies) {
-      try {
-        await page.setCookie(cookie);
-        successCount++;
-      } catch (cookieError) {
-        console.warn(`Failed to set cookie ${cookie.name}:`, (cookieError as Error).message);
-      }
+    console.log('Page created successfully');
+
+    // Check browser health before proceeding
+    const browserHealthy = await checkBrowserHealth(browser);
+    if (!browserHealthy) {
+      throw new Error('Browser failed initial health check');
     }
     
-    console.log(`✅ Successfully set ${successCount}/${cookies.length} cookies`);
-    
-    if (successCount === 0) {
-      throw new Error('Failed to set any cookies - authentication will not work');
-    }
+    await prepareLinkedInPage(page, randomUserAgent, { ...options, clearStorage: !options.userDataDir });
     
-    return { browser, page, userDataDir };
+    return { browser, page, userDataDir, userAgent: randomUserAgent };
     
   } catch (error) {
     console.error('Failed to launch browser:', error);
@@ -361,15 +516,39 @@ export async function initLinkedInContext(
     
     if (browser) {
       try {
-        await browser.close();
+        await closeLinkedInBrowser(browser);
       } catch (browserCloseError) {
         console.warn('Failed to close browser safely:', (browserCloseError as Error).message);
       }
     }
     
     // Clean up user data directory
-    await cleanupUserDataDir(userDataDir);
+    if (userDataDir && !options.userDataDir) {
+      await cleanupUserDataDir(userDataDir);
+    }
     
     throw new Error(`Browser launch failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Set up a page on a running LinkedIn browser for the next job, like
+ * initLinkedInContext does but keeping the profile's storage. Reuses the
+ * first page of the job's context when it has one.
+ */
+export async function openLinkedInPage(
+  browser: Browser,
+  userAgent: string,
+  options: LinkedInContextOptions = {}
+): Promise<Page> {
+  const context = remoteContexts.get(browser) ?? browser.defaultBrowserContext();
+  const [existing] = await context.pages();
+  const page = existing ?? await context.newPage();
+  try {
+    await prepareLinkedInPage(page, userAgent, { ...options, clearStorage: false });
+    return page;
+  } catch (error) {
+    await page.close().catch(() => {});
+    throw error;
+  }
+}
@@ -1,4 +1,5 @@
 import { Page } from 'puppeteer';
+import { parseProfileIdentity, memberUrnFor } from '@linkedin-bot-suite/shared';
 
 /**
  * LinkedIn GraphQL API Client
@@ -33,6 +34,9 @@ interface LinkedInAuthContext {
   headers: { [key: string]: string };
 }
 
+// Vanity name -> member URN, shared by all clients of this process
+const resolvedProfileUrns = new Map<string, string>();
+
 export class LinkedInGraphQLClient {
   private authContext: LinkedInAuthContext | null = null;
   private baseUrl = 'https://www.linkedin.com';
@@ -303,20 +307,54 @@ export class LinkedInGraphQLClient {
   }
 
   /**
-   * Extract profile URN from LinkedIn profile URL
+   * Resolve a profile reference (any URL or URN form) to the member URN.
+   * Member id URLs and URNs resolve locally; vanity names are looked up once
+   * per process. Pass knownUrn when the URN is already cached elsewhere.
    */
-  extractProfileUrn(profileUrl: string): string {
-    // Extract public identifier from URL
-    const match = profileUrl.match(/linkedin\.com\/in\/([^/?]+)/);
-    if (!match) {
-      throw new Error('Invalid LinkedIn profile URL');
+  async resolveProfileUrn(profileUrl: string, knownUrn?: string): Promise<string> {
+    if (knownUrn) {
+      return knownUrn;
     }
-    
-    const publicIdentifier = match[1];
-    
-    // Convert to URN format (this is a simplified approach)
-    // In reality, we'd need to resolve the public identifier to the actual URN
-    return `urn:li:fsd_profile:${publicIdentifier}`;
+
+    const identity = parseProfileIdentity(profileUrl);
+    if (!identity) {
+      throw new Error(`Invalid LinkedIn profile URL: ${profileUrl}`);
+    }
+
+    if (identity.memberId) {
+      return memberUrnFor(identity.memberId);
+    }
+
+    // Sales Navigator ids cannot be converted without opening the profile
+    if (!identity.publicIdentifier) {
+      throw new Error(`Cannot resolve member URN for ${profileUrl}`);
+    }
+
+    const cached = resolvedProfileUrns.get(identity.publicIdentifier);
+    if (cached) {
+      return cached;
+    }
+
+    if (!this.authContext) {
+      throw new Error('Authentication context not initialized');
+    }
+
+    const response = await fetch(
+      `${this.baseUrl}/voyager/api/identity/dash/profiles?q=memberIdentity&memberIdentity=${encodeURIComponent(identity.publicIdentifier)}`,
+      { headers: this.authContext.headers }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Profile URN lookup failed: ${response.status} ${response.statusText}`);
+    }
+
+    const urn = JSON.stringify(await response.json()).match(/urn:li:fsd_profile:[A-Za-z0-9_-]+/)?.[0];
+    if (!urn) {
+      throw new Error(`No member URN found for ${identity.publicIdentifier}`);
+    }
+
+    resolvedProfileUrns.set(identity.publicIdentifier, urn);
+    return urn;
   }
 
   /**
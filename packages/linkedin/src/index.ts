@@ -1,2 +1,2 @@
-export { initLinkedInContext } from './auth';
-export { sendInvitation, sendMessage, viewProfile, sendHybridInvitation, researchLinkedInAPIs, sendInvitationWithAdvancedDiagnostics, checkPageHealth, checkBrowserHealth, cleanupUserDataDir, safeEvaluate, categorizeError } from './actions';
\ No newline at end of file
+export { initLinkedInContext, openLinkedInPage, closeLinkedInBrowser, LinkedInContextOptions, LinkedInContext } from './auth';
+export { sendInvitation, sendMessage, viewProfile, checkConnection, withdrawInvitation, withdrawStaleInvitations, syncInbox, SyncInboxOptions, replyInThread, scrapeSearchResults, extractLinkedInProfile, sendHybridInvitation, researchLinkedInAPIs, sendInvitationWithAdvancedDiagnostics, checkPageHealth, checkBrowserHealth, cleanupUserDataDir, safeEvaluate, categorizeError, ErrorCategory, JobAbortedError, throwIfAborted, untilAborted } from './actions';
\ No newline at end of file
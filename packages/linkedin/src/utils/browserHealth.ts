@@ -1,13 +1,77 @@
 import { Page, Browser } from 'puppeteer';
+import { RenderedTextTooLongError } from '@linkedin-bot-suite/shared';
 
 // Global session timing to prevent rate limiting
 let lastLinkedInRequest = 0;
 const MIN_REQUEST_SPACING = 15000; // Minimum 15 seconds between LinkedIn requests (increased from 8s)
 
+/**
+ * Raised once a job's abort signal fires. The reason tells the worker whether
+ * the job was cancelled or stopped by one of its limits.
+ */
+export class JobAbortedError extends Error {
+  constructor(message: string, public readonly reason: 'cancelled' | 'timeout' | 'memory_limit') {
+    super(message);
+    this.name = 'JobAbortedError';
+  }
+}
+
+function abortReason(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new JobAbortedError('Job aborted', 'cancelled');
+}
+
+/**
+ * Throw the abort reason if the job has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw abortReason(signal);
+  }
+}
+
+/**
+ * Delay that rejects as soon as the signal aborts
+ */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(abortReason(signal));
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Settle with the work, or reject with the abort reason as soon as the signal
+ * aborts, whatever the work is still waiting on
+ */
+export function untilAborted<T>(work: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return work;
+  }
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      return reject(abortReason(signal));
+    }
+    const onAbort = () => reject(abortReason(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    work.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
 /**
  * Enforces minimum spacing between LinkedIn requests to avoid rate limiting
  */
-export async function enforceRequestSpacing(): Promise<void> {
+export async function enforceRequestSpacing(signal?: AbortSignal): Promise<void> {
   const now = Date.now();
   const timeSinceLastRequest = now - lastLinkedInRequest;
   
@@ -15,7 +79,7 @@ export async function enforceRequestSpacing(): Promise<void> {
     const waitTime = MIN_REQUEST_SPACING - timeSinceLastRequest;
     const jitteredWait = waitTime + (Math.random() * 5000); // Add 0-5s jitter (increased from 2s)
     console.log(`Enforcing request spacing: waiting ${Math.round(jitteredWait/1000)}s to avoid rate limiting...`);
-    await new Promise(resolve => setTimeout(resolve, jitteredWait));
+    await abortableDelay(jitteredWait, signal);
   }
   
   lastLinkedInRequest = Date.now();
@@ -475,9 +539,11 @@ export async function checkBrowserHealth(browser: Browser): Promise<boolean> {
 export async function waitForPageHealth(
   page: Page, 
   maxRetries: number = 3,
-  delayMs: number = 2000
+  delayMs: number = 2000,
+  signal?: AbortSignal
 ): Promise<boolean> {
   for (let i = 0; i < maxRetries; i++) {
+    throwIfAborted(signal);
     const health = await checkPageHealth(page);
     
     if (health.isHealthy) {
@@ -487,7 +553,7 @@ export async function waitForPageHealth(
     console.log(`Page health check ${i + 1}/${maxRetries} failed: ${health.error}`);
     
     if (i < maxRetries - 1) {
-      await new Promise(resolve => setTimeout(resolve, delayMs));
+      await abortableDelay(delayMs, signal);
     }
   }
   
@@ -545,7 +611,7 @@ export async function safeNavigate(
  * Error categorization for better recovery strategies
  */
 export interface ErrorCategory {
-  type: 'browser_crash' | 'frame_detached' | 'connection_lost' | 'navigation_failed' | 'authentication_failed' | 'dom_protocol_error' | 'unknown';
+  type: 'browser_crash' | 'frame_detached' | 'connection_lost' | 'navigation_failed' | 'authentication_failed' | 'dom_protocol_error' | 'aborted' | 'process_crash' | 'invalid_content' | 'unknown';
   recoverable: boolean;
   retryable: boolean;
   description: string;
@@ -554,6 +620,25 @@ export interface ErrorCategory {
 export function categorizeError(error: Error): ErrorCategory {
   const message = error.message.toLowerCase();
   
+  // Jobs stopped by the worker are finished by it, never retried
+  if (error instanceof JobAbortedError) {
+    return {
+      type: 'aborted',
+      recoverable: false,
+      retryable: false,
+      description: 'Job was cancelled or stopped by its time or memory limit'
+    };
+  }
+  
+  if (error instanceof RenderedTextTooLongError) {
+    return {
+      type: 'invalid_content',
+      recoverable: false,
+      retryable: false,
+      description: 'Rendered note or message is longer than LinkedIn allows'
+    };
+  }
+  
   // Browser process crashes
   if (message.includes('session closed') || 
       message.includes('connection closed') ||
@@ -711,7 +796,8 @@ export async function safeElementInteraction<T>(
  */
 export async function verifyPageStability(
   page: Page,
-  stabilityTimeMs: number = 2000
+  stabilityTimeMs: number = 2000,
+  signal?: AbortSignal
 ): Promise<boolean> {
   try {
     if (page.isClosed() || !page.browser().isConnected()) {
@@ -720,7 +806,7 @@ export async function verifyPageStability(
     
     // Check that URL is stable
     const initialUrl = page.url();
-    await new Promise(resolve => setTimeout(resolve, stabilityTimeMs));
+    await abortableDelay(stabilityTimeMs, signal);
     const finalUrl = page.url();
     
     if (initialUrl !== finalUrl) {
@@ -738,6 +824,7 @@ export async function verifyPageStability(
     return (pageStructure as any).hasBody && (pageStructure as any).readyState === 'complete';
     
   } catch (error) {
+    throwIfAborted(signal);
     console.warn('Page stability check failed:', error);
     return false;
   }
@@ -1178,7 +1265,7 @@ export async function linkedInTyping(page: Page, text: string, context: 'message
 /**
  * Wait for page DOM to stabilize using safer polling approach
  */
-export async function waitForPageStability(page: Page, stabilityPeriod: number = 1000, timeout: number = 10000): Promise<boolean> {
+export async function waitForPageStability(page: Page, stabilityPeriod: number = 1000, timeout: number = 10000, signal?: AbortSignal): Promise<boolean> {
   console.log(`Checking page stability with ${stabilityPeriod}ms checks over ${timeout}ms...`);
   
   const startTime = Date.now();
@@ -1189,6 +1276,8 @@ export async function waitForPageStability(page: Page, stabilityPeriod: number =
   
   try {
     while (Date.now() - startTime < timeout) {
+      throwIfAborted(signal);
+
       // Quick, safe evaluation with timeout protection
       const currentState = await Promise.race([
         safeEvaluate(page, () => {
@@ -1254,13 +1343,14 @@ export async function waitForPageStability(page: Page, stabilityPeriod: number =
       lastButtonCount = currentState.buttonCount;
       
       // Wait before next check
-      await new Promise(resolve => setTimeout(resolve, 500));
+      await abortableDelay(500, signal);
     }
     
     console.warn('⚠️ Page stability timeout - DOM may still be changing');
     return false;
     
   } catch (error) {
+    throwIfAborted(signal);
     console.warn('Page stability check failed:', (error as Error).message);
     return false;
   }
@@ -1269,7 +1359,7 @@ export async function waitForPageStability(page: Page, stabilityPeriod: number =
 /**
  * Simplified LinkedIn page loading validation - faster and more reliable
  */
-export async function waitForLinkedInPageLoad(page: Page, expectedPageType: 'profile' | 'feed' | 'search' = 'profile', timeout: number = 10000): Promise<boolean> {
+export async function waitForLinkedInPageLoad(page: Page, expectedPageType: 'profile' | 'feed' | 'search' = 'profile', timeout: number = 10000, signal?: AbortSignal): Promise<boolean> {
   const startTime = Date.now();
   console.log(`Waiting for LinkedIn ${expectedPageType} page to load...`);
   
@@ -1288,13 +1378,13 @@ export async function waitForLinkedInPageLoad(page: Page, expectedPageType: 'pro
   // Enhanced wait strategy with proper LinkedIn readiness detection
   try {
     // Wait for body element
-    await page.waitForSelector('body', { timeout: 5000 });
+    await page.waitForSelector('body', { timeout: 5000, signal });
     
     // Wait for initial page structure
     await page.waitForFunction(() => {
       return document.readyState === 'complete' && 
              document.querySelectorAll('*').length > 100;
-    }, { timeout: 5000 });
+    }, { timeout: 5000, signal });
     
     // Wait for LinkedIn-specific elements to be ready
     await page.waitForFunction(() => {
@@ -1311,7 +1401,7 @@ export async function waitForLinkedInPageLoad(page: Page, expectedPageType: 'pro
       const bigpipeComplete = !document.body?.className?.includes('render-mode-BIGPIPE');
       
       return hasGlobalNav && hasMainContent && hasButtons && bigpipeComplete;
-    }, { timeout: 8000 });
+    }, { timeout: 8000, signal });
     
     // Profile-specific readiness checks
     if (expectedPageType === 'profile') {
@@ -1324,7 +1414,17 @@ export async function waitForLinkedInPageLoad(page: Page, expectedPageType: 'pro
         const hasProfileHeader = !!document.querySelector('.pv-top-card, .pvs-header, .profile-header');
         
         return hasProfileActions || hasProfileContent || hasProfileHeader;
-      }, { timeout: 5000 });
+      }, { timeout: 5000, signal });
+    }
+
+    // Search-specific readiness checks
+    if (expectedPageType === 'search') {
+      await page.waitForFunction(() => {
+        const hasResults = !!document.querySelector('.search-results-container, .reusable-search__entity-result-list, [data-chameleon-result-urn]');
+        const hasEmptyState = !!document.querySelector('.search-reusable-search-no-results, .artdeco-empty-state');
+        
+        return hasResults || hasEmptyState;
+      }, { timeout: 5000, signal });
     }
     
     // Quick validation of current URL
@@ -1350,6 +1450,7 @@ export async function waitForLinkedInPageLoad(page: Page, expectedPageType: 'pro
     return true;
     
   } catch (error) {
+    throwIfAborted(signal);
     const elapsed = Date.now() - startTime;
     console.warn(`Page load timeout after ${elapsed}ms - checking if page is usable`);
     
@@ -1426,12 +1527,12 @@ export async function validateProfilePage(page: Page): Promise<{ isValid: boolea
 /**
  * Enhanced profile page readiness detection with German language support
  */
-export async function waitForProfilePageReady(page: Page, timeout: number = 25000): Promise<boolean> {
+export async function waitForProfilePageReady(page: Page, timeout: number = 25000, signal?: AbortSignal): Promise<boolean> {
   console.log('Waiting for LinkedIn profile page to be fully ready...');
   
   try {
     // First ensure basic page loading
-    const pageLoaded = await waitForLinkedInPageLoad(page, 'profile', timeout);
+    const pageLoaded = await waitForLinkedInPageLoad(page, 'profile', timeout, signal);
     if (!pageLoaded) {
       return false;
     }
@@ -1467,6 +1568,7 @@ export async function waitForProfilePageReady(page: Page, timeout: number = 2500
     }
     
   } catch (error) {
+    throwIfAborted(signal);
     console.error('Profile page readiness check failed:', (error as Error).message);
     return false;
   }
@@ -1692,13 +1794,15 @@ export async function waitForButtonWithMultipleSelectors(
     pollInterval?: number;
     visible?: boolean;
     enabled?: boolean;
+    signal?: AbortSignal;
   } = {}
 ): Promise<any> {
   const {
     timeout = 15000,
     pollInterval = 500,
     visible = true,
-    enabled = true
+    enabled = true,
+    signal
   } = options;
 
   const selectorArray = Array.isArray(selectors) ? selectors : [selectors];
@@ -1707,6 +1811,8 @@ export async function waitForButtonWithMultipleSelectors(
   console.log(`Waiting for button with ${selectorArray.length} selector patterns...`);
 
   while (Date.now() - startTime < timeout) {
+    throwIfAborted(signal);
+
     try {
       // Check page health before each attempt
       if (page.isClosed() || !page.browser().isConnected()) {
@@ -1765,14 +1871,14 @@ export async function waitForButtonWithMultipleSelectors(
       }
 
       // Wait before next poll
-      await new Promise(resolve => setTimeout(resolve, pollInterval));
+      await abortableDelay(pollInterval, signal);
 
     } catch (error: any) {
-      if (error.message.includes('detached') || error.message.includes('closed')) {
+      if (error instanceof JobAbortedError || error.message.includes('detached') || error.message.includes('closed')) {
         throw error;
       }
       // Continue polling for other errors
-      await new Promise(resolve => setTimeout(resolve, pollInterval));
+      await abortableDelay(pollInterval, signal);
     }
   }
 
@@ -1785,13 +1891,16 @@ export async function waitForButtonWithMultipleSelectors(
 export async function waitForLinkedInPageReady(
   page: Page,
   pageType: 'profile' | 'feed' | 'general' = 'general',
-  timeout: number = 20000
+  timeout: number = 20000,
+  signal?: AbortSignal
 ): Promise<boolean> {
   console.log(`Waiting for LinkedIn ${pageType} page to be ready...`);
   
   const startTime = Date.now();
   
   while (Date.now() - startTime < timeout) {
+    throwIfAborted(signal);
+
     try {
       const readiness = await safeEvaluate(page, () => {
         // Basic readiness checks
@@ -1833,13 +1942,13 @@ export async function waitForLinkedInPageReady(
         return true;
       }
 
-      await new Promise(resolve => setTimeout(resolve, 500));
+      await abortableDelay(500, signal);
       
     } catch (error: any) {
-      if (error.message.includes('detached') || error.message.includes('closed')) {
+      if (error instanceof JobAbortedError || error.message.includes('detached') || error.message.includes('closed')) {
         throw error;
       }
-      await new Promise(resolve => setTimeout(resolve, 500));
+      await abortableDelay(500, signal);
     }
   }
 
@@ -2039,7 +2148,8 @@ export async function analyzeLinkedInButtonStructure(page: Page): Promise<{
 export async function findLinkedInButton(
   page: Page, 
   buttonType: 'connect' | 'message' | 'send' | 'note',
-  timeout: number = 15000
+  timeout: number = 15000,
+  signal?: AbortSignal
 ): Promise<{
   element: any;
   strategy: string;
@@ -2051,7 +2161,7 @@ export async function findLinkedInButton(
   console.log(`🔍 Progressive search for ${buttonType} button (timeout: ${timeout}ms)`);
   
   // First, wait for page stability before button detection
-  const pageStable = await waitForPageStability(page, 1000, 8000);
+  const pageStable = await waitForPageStability(page, 1000, 8000, signal);
   if (!pageStable) {
     console.warn('⚠️ Page stability timeout, proceeding with caution');
   }
@@ -2063,10 +2173,12 @@ export async function findLinkedInButton(
     const profileSelectors = getProfileActionSelectors(buttonType);
     
     for (const selector of profileSelectors) {
+      throwIfAborted(signal);
       try {
         const element = await page.waitForSelector(selector, { 
           timeout: 2000,
-          visible: true 
+          visible: true,
+          signal
         });
         
         if (element) {
@@ -2134,7 +2246,7 @@ export async function findLinkedInButton(
       }
       
       console.log(`⏳ Page still loading (attempt ${retryCount + 1}/${maxRetries}), waiting 2s...`);
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      await abortableDelay(2000, signal);
       retryCount++;
     }
     
@@ -2142,6 +2254,7 @@ export async function findLinkedInButton(
       console.warn('⚠️ LinkedIn page load timeout, proceeding anyway');
     }
   } catch (loadError) {
+    throwIfAborted(signal);
     console.warn('⚠️ Page load check failed:', loadError);
   }
   
@@ -2191,6 +2304,7 @@ export async function findLinkedInButton(
   ];
   
   for (const strategy of strategies) {
+    throwIfAborted(signal);
     if (Date.now() - startTime > timeout) {
       console.log(`⏰ Timeout reached for ${buttonType} button search`);
       break;
@@ -2239,7 +2353,8 @@ export async function findLinkedInButton(
             // Handle CSS selectors
             element = await page.waitForSelector(selector, { 
               timeout: 1500, // Increased slightly for stability
-              visible: true 
+              visible: true,
+              signal
             });
           }
           
@@ -2266,7 +2381,7 @@ export async function findLinkedInButton(
       }
       
       // Add small delay between strategies with DOM stability check
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      await abortableDelay(1000, signal);
       
     } catch (error) {
       console.warn(`Strategy ${strategy.name} failed:`, error);
@@ -2274,6 +2389,8 @@ export async function findLinkedInButton(
     }
   }
   
+  throwIfAborted(signal);
+
   // Phase 2: Text-based fallback - iterate over all elements for text matching
   console.log(`🔍 Trying text-based fallback for ${buttonType} button...`);
   try {
@@ -2291,6 +2408,8 @@ export async function findLinkedInButton(
     console.warn(`⚠️ Text-based fallback failed:`, textError);
   }
   
+  throwIfAborted(signal);
+
   // Phase 2: LinkedIn overflow menu detection - click "More" actions
   console.log(`🔍 Trying LinkedIn overflow menu for ${buttonType} button...`);
   try {
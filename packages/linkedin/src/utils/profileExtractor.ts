@@ -0,0 +1,330 @@
+import { Page } from 'puppeteer';
+import { LinkedInProfile, ProfileField, ProfileFieldSource, ProfileFieldConfidence, ProfilePosition, ProfileEducation, ProfileLanguage, ConnectionDegree, parseProfileIdentity, companyUrnFromReference } from '@linkedin-bot-suite/shared';
+import { humanDelay, safeEvaluate } from './browserHealth';
+
+// Visible texts of one list entry; grouped roles at one company come as subItems
+interface RawSectionItem {
+  texts: string[];
+  subItems: string[][];
+  companyUrl?: string;
+}
+
+interface RawProfile {
+  url: string;
+  name: string;
+  headline: string;
+  location: string;
+  about: string;
+  degreeText: string;
+  connectionsText: string;
+  followersText: string;
+  openToWorkFrame: boolean;
+  openToWorkText: boolean;
+  profileUrn: string;
+  sections: Record<'experience' | 'education' | 'skills' | 'languages', RawSectionItem[]>;
+}
+
+// Date ranges end in "Present" / "Heute" while the position is held
+const CURRENT_PATTERN = /present|heute|aktuell/i;
+
+const field = <T>(value: T, source: ProfileFieldSource, confidence: ProfileFieldConfidence): ProfileField<T> => ({
+  value,
+  source,
+  confidence,
+});
+
+/**
+ * "1,234 followers", "1.234 Follower", "500+ connections", "12K followers"
+ */
+export function parseProfileCount(text: string): { value: number; isLowerBound: boolean } | null {
+  const match = text.replace(/\s/g, '').match(/(\d[\d.,]*)(k|m|tsd\.?|mio\.?)?(\+)?/i);
+  if (!match) return null;
+
+  const suffix = match[2]?.toLowerCase();
+  let value: number;
+  if (suffix) {
+    // Abbreviated counts may use a decimal comma ("1,2K") or point ("1.2K")
+    value = parseFloat(match[1].replace(',', '.'));
+    value *= suffix.startsWith('m') ? 1000000 : 1000;
+  } else {
+    value = parseInt(match[1].replace(/[.,]/g, ''), 10);
+  }
+
+  return isNaN(value) ? null : { value: Math.round(value), isLowerBound: !!match[3] };
+}
+
+/**
+ * "1st" / "1." / "· 2nd" / "3rd+" / "3.+"
+ */
+export function parseConnectionDegree(text: string): ConnectionDegree | null {
+  const digit = text.match(/([123])\s*(?:st|nd|rd|\.)/i)?.[1];
+  if (digit === '1') return '1st';
+  if (digit === '2') return '2nd';
+  if (digit === '3') return '3rd+';
+  return null;
+}
+
+/**
+ * Split "Jan 2020 - Present · 4 yrs 2 mos" into its start and end
+ */
+export function parseDateRange(text: string): { dateRange: string; startDate?: string; endDate?: string; isCurrent: boolean } {
+  const dateRange = text.split('·')[0].trim();
+  const [start, end] = dateRange.split(/\s+[-–]\s+/);
+  const isCurrent = !!end && CURRENT_PATTERN.test(end);
+
+  return {
+    dateRange,
+    startDate: start?.trim() || undefined,
+    endDate: end && !isCurrent ? end.trim() : undefined,
+    isCurrent,
+  };
+}
+
+const looksLikeDateRange = (text: string) => /\d{4}/.test(text) || CURRENT_PATTERN.test(text);
+
+/**
+ * An experience entry is either one role ([title, "Company · Full-time", dates, location])
+ * or a company header with grouped roles ([company, total duration] + subItems).
+ */
+export function parsePositions(items: RawSectionItem[]): ProfilePosition[] {
+  const positions: ProfilePosition[] = [];
+
+  for (const item of items) {
+    const companyUrn = item.companyUrl ? companyUrnFromReference(item.companyUrl) || undefined : undefined;
+
+    if (item.subItems.length > 0) {
+      const company = item.texts[0];
+      for (const [title, ...rest] of item.subItems) {
+        if (!title) continue;
+        const datesIndex = rest.findIndex(looksLikeDateRange);
+        positions.push({
+          title,
+          company,
+          companyUrn,
+          employmentType: datesIndex > 0 ? rest[0] : undefined,
+          ...(datesIndex >= 0 ? parseDateRange(rest[datesIndex]) : { isCurrent: false }),
+          location: datesIndex >= 0 ? rest[datesIndex + 1] : undefined,
+        });
+      }
+      continue;
+    }
+
+    const [title, companyLine, ...rest] = item.texts;
+    if (!title) continue;
+    const [company, employmentType] = (companyLine || '').split('·').map(part => part.trim());
+    const datesIndex = rest.findIndex(looksLikeDateRange);
+
+    positions.push({
+      title,
+      company: company || undefined,
+      companyUrn,
+      employmentType: employmentType || undefined,
+      ...(datesIndex >= 0 ? parseDateRange(rest[datesIndex]) : { isCurrent: false }),
+      location: datesIndex >= 0 ? rest[datesIndex + 1] : undefined,
+    });
+  }
+
+  return positions;
+}
+
+export function parseEducation(items: RawSectionItem[]): ProfileEducation[] {
+  return items
+    .filter(item => item.texts[0])
+    .map(item => {
+      const [school, degreeLine, ...rest] = item.texts;
+      const hasDegree = degreeLine && !looksLikeDateRange(degreeLine);
+      const [degree, ...fields] = hasDegree ? degreeLine.split(',').map(part => part.trim()) : [];
+      const dates = [degreeLine, ...rest].find(text => text && looksLikeDateRange(text));
+      return {
+        school,
+        degree: degree || undefined,
+        fieldOfStudy: fields.join(', ') || undefined,
+        dateRange: dates ? parseDateRange(dates).dateRange : undefined,
+      };
+    });
+}
+
+export function parseLanguages(items: RawSectionItem[]): ProfileLanguage[] {
+  return items
+    .filter(item => item.texts[0])
+    .map(item => ({ name: item.texts[0], proficiency: item.texts[1] || undefined }));
+}
+
+/**
+ * Expand truncated "…see more" / "…mehr anzeigen" texts so about and
+ * position descriptions are read in full
+ */
+async function expandSeeMore(page: Page): Promise<void> {
+  const expanded = await safeEvaluate(page, () => {
+    const buttons = Array.from(document.querySelectorAll('main button')).filter(button => {
+      const label = `${button.getAttribute('aria-label') || ''} ${button.textContent || ''}`.toLowerCase();
+      return button.getAttribute('aria-expanded') !== 'true' &&
+        (button.classList.contains('inline-show-more-text__button') || /see more|mehr anzeigen/.test(label));
+    });
+    buttons.forEach(button => (button as HTMLButtonElement).click());
+    return buttons.length;
+  }, 5000);
+
+  if (typeof expanded === 'number' && expanded > 0) {
+    console.log(`Expanded ${expanded} "see more" sections`);
+    await new Promise(resolve => setTimeout(resolve, humanDelay(600, 40)));
+  }
+}
+
+/**
+ * Extract a structured profile from an opened profile page (English and German layouts)
+ */
+export async function extractLinkedInProfile(page: Page, profileUrl: string): Promise<LinkedInProfile> {
+  // Lower sections render lazily while scrolling
+  for (const fraction of [0.33, 0.66, 1]) {
+    await page.evaluate((f: number) => window.scrollTo(0, document.body.scrollHeight * f), fraction).catch(() => undefined);
+    await new Promise(resolve => setTimeout(resolve, humanDelay(800, 40)));
+  }
+  await expandSeeMore(page);
+
+  const raw = await page.evaluate((): RawProfile => {
+    const text = (el: Element | null | undefined) => el?.textContent?.replace(/\s+/g, ' ').trim() || '';
+    const first = (selectors: string[]) => {
+      for (const selector of selectors) {
+        const value = text(document.querySelector(selector));
+        if (value) return value;
+      }
+      return '';
+    };
+
+    // Visible text lines of an element, skipping nested lists and screen-reader duplicates
+    const visibleTexts = (el: Element, skip?: Element | null) => {
+      const texts: string[] = [];
+      el.querySelectorAll('span[aria-hidden="true"]').forEach(span => {
+        if (skip && skip.contains(span)) return;
+        const value = text(span);
+        if (value && texts[texts.length - 1] !== value) texts.push(value);
+      });
+      return texts;
+    };
+
+    const sectionItems = (anchorId: string) => {
+      const section = document.getElementById(anchorId)?.closest('section');
+      if (!section) return [];
+      const list = section.querySelector('ul');
+      if (!list) return [];
+
+      return Array.from(list.children)
+        .filter(li => li.tagName === 'LI')
+        .map(li => {
+          const nested = li.querySelector('.pvs-entity__sub-components ul, .pvs-list__outer-container ul');
+          const subItems = nested
+            ? Array.from(nested.children)
+              .filter(sub => sub.tagName === 'LI' && /\d{4}/.test(sub.textContent || ''))
+              .map(sub => visibleTexts(sub))
+            : [];
+          const companyLink = li.querySelector('a[href*="/company/"]') as HTMLAnchorElement | null;
+          return {
+            texts: visibleTexts(li, subItems.length > 0 ? nested : null),
+            subItems,
+            companyUrl: companyLink?.href,
+          };
+        })
+        .filter(item => item.texts.length > 0);
+    };
+
+    const topCard = document.querySelector('.pv-top-card, .pvs-header, section.artdeco-card') || document.body;
+    const topCardLines = Array.from(topCard.querySelectorAll('li, span'))
+      .map(el => text(el))
+      .filter(Boolean);
+
+    // The profile's own entity URN sits next to its publicIdentifier in the embedded page data
+    const slug = window.location.pathname.match(/\/in\/([^/]+)/)?.[1] || '';
+    let profileUrn = '';
+    for (const code of Array.from(document.querySelectorAll('code'))) {
+      const data = code.textContent || '';
+      const index = slug ? data.indexOf(`"publicIdentifier":"${decodeURIComponent(slug)}"`) : -1;
+      if (index < 0) continue;
+      const nearby = data.slice(Math.max(0, index - 2000), index + 2000);
+      const urn = nearby.match(/urn:li:fsd_profile:[A-Za-z0-9_-]+/)?.[0];
+      if (urn) {
+        profileUrn = urn;
+        break;
+      }
+    }
+
+    const photo = document.querySelector('.pv-top-card-profile-picture__image, .pv-top-card__photo img, img.profile-photo-edit__preview') as HTMLImageElement | null;
+
+    return {
+      url: window.location.href,
+      name: first(['h1.text-heading-xlarge', 'h1.break-words', '.pv-top-card h1', 'main h1']),
+      headline: first(['.pv-text-details__left-panel .text-body-medium', '.text-body-medium.break-words']),
+      location: first(['.pv-text-details__left-panel .text-body-small.inline', '.text-body-small.inline.t-black--light.break-words']),
+      about: (() => {
+        const section = document.getElementById('about')?.closest('section');
+        return section ? visibleTexts(section).slice(1).join('\n') : '';
+      })(),
+      degreeText: first(['.pv-top-card .dist-value', '.distance-badge .dist-value', '.pvs-header .dist-value']),
+      // The number has to lead the label; the degree badge reads "2nd degree connection" / "Kontakt 2. Grades"
+      connectionsText: topCardLines.find(line => /\d[\d.,]*\+?\s*(?:connections?|kontakte)/i.test(line)) || '',
+      followersText: topCardLines.find(line => /\d[\d.,]*\s*(?:k|m|tsd\.?|mio\.?)?\s*followers?/i.test(line)) || '',
+      openToWorkFrame: !!photo && /open_to_work|#opentowork/i.test(photo.alt || ''),
+      openToWorkText: !!document.querySelector('#open-to-work, [data-view-name="profile-open-to-work"]') ||
+        /open to work|offen für (?:jobangebote|neue stellen)/i.test(text(topCard)),
+      profileUrn,
+      sections: {
+        experience: sectionItems('experience'),
+        education: sectionItems('education'),
+        skills: sectionItems('skills'),
+        languages: sectionItems('languages'),
+      },
+    };
+  });
+
+  const profile: LinkedInProfile = {
+    profileUrl,
+    extractedAt: new Date().toISOString(),
+  };
+
+  // Member id URLs redirect to the vanity URL, so the final URL carries the public identifier
+  const publicIdentifier = parseProfileIdentity(raw.url)?.publicIdentifier || parseProfileIdentity(profileUrl)?.publicIdentifier;
+  if (publicIdentifier) profile.publicIdentifier = field(publicIdentifier, 'url', 'high');
+  if (raw.profileUrn) profile.profileUrn = field(raw.profileUrn, 'embedded_data', 'medium');
+
+  if (raw.name) profile.name = field(raw.name, 'dom', 'high');
+  if (raw.headline) profile.headline = field(raw.headline, 'dom', 'high');
+  if (raw.location) profile.location = field(raw.location, 'dom', 'medium');
+  if (raw.about) profile.about = field(raw.about, 'dom', 'high');
+
+  const degree = parseConnectionDegree(raw.degreeText);
+  if (degree) profile.connectionDegree = field(degree, 'dom', 'high');
+
+  const connections = parseProfileCount(raw.connectionsText);
+  if (connections) profile.connectionCount = field(connections.value, 'dom', connections.isLowerBound ? 'medium' : 'high');
+
+  const followers = parseProfileCount(raw.followersText);
+  if (followers) profile.followerCount = field(followers.value, 'dom', 'high');
+
+  if (raw.openToWorkFrame || raw.openToWorkText) {
+    profile.openToWork = field(true, 'dom', raw.openToWorkFrame ? 'high' : 'medium');
+  } else {
+    // Absence of the badge is only a weak signal; recruiter-only visibility hides it
+    profile.openToWork = field(false, 'dom', 'low');
+  }
+
+  if (raw.sections.experience.length > 0) {
+    const positions = parsePositions(raw.sections.experience);
+    profile.currentPositions = field(positions.filter(p => p.isCurrent), 'dom', 'medium');
+    profile.pastPositions = field(positions.filter(p => !p.isCurrent), 'dom', 'medium');
+  }
+
+  if (raw.sections.education.length > 0) {
+    profile.education = field(parseEducation(raw.sections.education), 'dom', 'medium');
+  }
+
+  if (raw.sections.skills.length > 0) {
+    // The profile page lists only the top skills; the rest are on /details/skills/
+    profile.skills = field(raw.sections.skills.map(item => item.texts[0]), 'dom', 'medium');
+  }
+
+  if (raw.sections.languages.length > 0) {
+    profile.languages = field(parseLanguages(raw.sections.languages), 'dom', 'high');
+  }
+
+  return profile;
+}
@@ -0,0 +1,36 @@
+import puppeteer, { Browser, Page } from 'puppeteer';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * Chrome for the browser tests: PUPPETEER_EXECUTABLE_PATH when set,
+ * otherwise the one puppeteer downloaded
+ */
+export function launchTestBrowser(): Promise<Browser> {
+  return puppeteer.launch({
+    headless: true,
+    executablePath: process.env.PUPPETEER_EXECUTABLE_PATH || undefined,
+    args: ['--no-sandbox', '--disable-gpu', '--disable-dev-shm-usage'],
+  });
+}
+
+/**
+ * Open a saved page from test/fixtures under its LinkedIn URL. Requests are
+ * answered locally, so nothing goes out to LinkedIn.
+ */
+export async function openFixture(page: Page, url: string, fixture: string): Promise<void> {
+  const html = readFileSync(join(__dirname, '..', 'fixtures', fixture), 'utf8');
+
+  await page.setRequestInterception(true);
+  page.on('request', request => {
+    if (request.url().startsWith('data:')) {
+      void request.continue();
+    } else if (request.url() === url) {
+      void request.respond({ status: 200, contentType: 'text/html; charset=utf-8', body: html });
+    } else {
+      void request.respond({ status: 404, body: '' });
+    }
+  });
+
+  await page.goto(url, { waitUntil: 'domcontentloaded' });
+}
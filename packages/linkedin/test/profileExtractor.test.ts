@@ -0,0 +1,261 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { Browser, Page } from 'puppeteer';
+import { extractLinkedInProfile, parseDateRange, parseEducation, parsePositions } from '../src/utils/profileExtractor';
+import { launchTestBrowser, openFixture } from './helpers/browser';
+
+describe('parseDateRange', () => {
+  it('splits an English range and drops the duration', () => {
+    expect(parseDateRange('Apr 2019 - Dec 2021 · 2 yrs 9 mos')).toEqual({
+      dateRange: 'Apr 2019 - Dec 2021',
+      startDate: 'Apr 2019',
+      endDate: 'Dec 2021',
+      isCurrent: false,
+    });
+  });
+
+  it('marks "Present" and "Heute" ranges as current without an end date', () => {
+    expect(parseDateRange('Jan 2022 - Present · 2 yrs 6 mos')).toEqual({
+      dateRange: 'Jan 2022 - Present',
+      startDate: 'Jan 2022',
+      endDate: undefined,
+      isCurrent: true,
+    });
+    expect(parseDateRange('Jan. 2021 – Heute · 3 J. 7 Mon.')).toEqual({
+      dateRange: 'Jan. 2021 – Heute',
+      startDate: 'Jan. 2021',
+      endDate: undefined,
+      isCurrent: true,
+    });
+  });
+
+  it('keeps a range without an end as not current', () => {
+    expect(parseDateRange('2019')).toEqual({ dateRange: '2019', startDate: '2019', endDate: undefined, isCurrent: false });
+  });
+});
+
+describe('parsePositions', () => {
+  it('reads a single role with company and employment type', () => {
+    const positions = parsePositions([{
+      texts: ['Account Executive', 'Globex · Full-time', 'Mar 2015 - Dec 2018 · 3 yrs 10 mos', 'Munich, Bavaria, Germany'],
+      subItems: [],
+      companyUrl: 'https://www.linkedin.com/company/2041/',
+    }]);
+
+    expect(positions).toEqual([{
+      title: 'Account Executive',
+      company: 'Globex',
+      companyUrn: 'urn:li:company:2041',
+      employmentType: 'Full-time',
+      dateRange: 'Mar 2015 - Dec 2018',
+      startDate: 'Mar 2015',
+      endDate: 'Dec 2018',
+      isCurrent: false,
+      location: 'Munich, Bavaria, Germany',
+    }]);
+  });
+
+  it('reads grouped roles under their company header', () => {
+    const positions = parsePositions([{
+      texts: ['Umbrella AG', '6 J. 5 Mon.'],
+      subItems: [
+        ['Teamleiterin Vertrieb', 'Vollzeit', 'Juli 2017 – Dez. 2020 · 3 J. 6 Mon.', 'Frankfurt am Main'],
+        ['Vertriebsmitarbeiterin', 'Aug. 2014 – Juni 2017 · 2 J. 11 Mon.'],
+      ],
+      companyUrl: 'https://www.linkedin.com/company/umbrella-ag/',
+    }]);
+
+    expect(positions).toEqual([
+      {
+        title: 'Teamleiterin Vertrieb',
+        company: 'Umbrella AG',
+        companyUrn: undefined,
+        employmentType: 'Vollzeit',
+        dateRange: 'Juli 2017 – Dez. 2020',
+        startDate: 'Juli 2017',
+        endDate: 'Dez. 2020',
+        isCurrent: false,
+        location: 'Frankfurt am Main',
+      },
+      {
+        title: 'Vertriebsmitarbeiterin',
+        company: 'Umbrella AG',
+        companyUrn: undefined,
+        employmentType: undefined,
+        dateRange: 'Aug. 2014 – Juni 2017',
+        startDate: 'Aug. 2014',
+        endDate: 'Juni 2017',
+        isCurrent: false,
+        location: undefined,
+      },
+    ]);
+  });
+});
+
+describe('parseEducation', () => {
+  it('splits the degree line into degree and field of study', () => {
+    expect(parseEducation([
+      { texts: ['Technical University of Munich', 'Master of Science - MS, Computer Science', '2010 - 2014'], subItems: [] },
+    ])).toEqual([{
+      school: 'Technical University of Munich',
+      degree: 'Master of Science - MS',
+      fieldOfStudy: 'Computer Science',
+      dateRange: '2010 - 2014',
+    }]);
+  });
+
+  it('does not take the dates for a degree when there is none', () => {
+    expect(parseEducation([
+      { texts: ['Gymnasium Tegernsee', '2001 – 2010'], subItems: [] },
+    ])).toEqual([{
+      school: 'Gymnasium Tegernsee',
+      degree: undefined,
+      fieldOfStudy: undefined,
+      dateRange: '2001 – 2010',
+    }]);
+  });
+});
+
+describe('extractLinkedInProfile', () => {
+  let browser: Browser;
+  let page: Page;
+
+  beforeAll(async () => {
+    browser = await launchTestBrowser();
+  });
+
+  afterAll(async () => {
+    await browser?.close();
+  });
+
+  beforeEach(async () => {
+    page = await browser.newPage();
+  });
+
+  afterEach(async () => {
+    await page?.close();
+  });
+
+  it('parses the English layout', async () => {
+    const url = 'https://www.linkedin.com/in/jane-doe-123/';
+    await openFixture(page, url, 'profile-en.html');
+
+    const profile = await extractLinkedInProfile(page, url);
+
+    expect(profile.publicIdentifier).toEqual({ value: 'jane-doe-123', source: 'url', confidence: 'high' });
+    expect(profile.profileUrn).toEqual({ value: 'urn:li:fsd_profile:ACoAABcD1234EfGh5678', source: 'embedded_data', confidence: 'medium' });
+    expect(profile.name?.value).toBe('Jane Doe');
+    expect(profile.headline?.value).toBe('Head of Sales at Acme Corp | B2B SaaS');
+    expect(profile.location?.value).toBe('Berlin, Germany');
+    // Only the expanded "see more" text has the end of the about section
+    expect(profile.about?.value).toBe('I build and coach B2B sales teams. Ten years of SaaS sales across DACH and the Nordics, from first hire to a team of forty.');
+    expect(profile.connectionDegree?.value).toBe('2nd');
+    expect(profile.connectionCount).toEqual({ value: 500, source: 'dom', confidence: 'medium' });
+    expect(profile.followerCount?.value).toBe(2345);
+    expect(profile.openToWork).toEqual({ value: true, source: 'dom', confidence: 'high' });
+
+    expect(profile.currentPositions?.value).toEqual([{
+      title: 'Head of Sales',
+      company: 'Acme Corp',
+      companyUrn: 'urn:li:company:1035',
+      employmentType: undefined,
+      dateRange: 'Jan 2022 - Present',
+      startDate: 'Jan 2022',
+      endDate: undefined,
+      isCurrent: true,
+      location: 'Berlin, Germany',
+    }]);
+    expect(profile.pastPositions?.value.map(p => [p.title, p.company, p.startDate, p.endDate])).toEqual([
+      ['Sales Manager', 'Acme Corp', 'Apr 2019', 'Dec 2021'],
+      ['Account Executive', 'Globex', 'Mar 2015', 'Dec 2018'],
+    ]);
+    expect(profile.pastPositions?.value[1].companyUrn).toBe('urn:li:company:2041');
+
+    expect(profile.education?.value).toEqual([{
+      school: 'Technical University of Munich',
+      degree: 'Master of Science - MS',
+      fieldOfStudy: 'Computer Science',
+      dateRange: '2010 - 2014',
+    }]);
+    expect(profile.skills?.value).toEqual(['Sales Management', 'SaaS']);
+    expect(profile.languages?.value).toEqual([
+      { name: 'English', proficiency: 'Native or bilingual proficiency' },
+      { name: 'German', proficiency: 'Full professional proficiency' },
+    ]);
+  });
+
+  it('parses the German layout', async () => {
+    const url = 'https://www.linkedin.com/in/erika-mustermann/';
+    await openFixture(page, url, 'profile-de.html');
+
+    const profile = await extractLinkedInProfile(page, url);
+
+    expect(profile.publicIdentifier?.value).toBe('erika-mustermann');
+    expect(profile.profileUrn?.value).toBe('urn:li:fsd_profile:ACoAAEmK4321QwEr8765');
+    expect(profile.name?.value).toBe('Erika Mustermann');
+    expect(profile.headline?.value).toBe('Vertriebsleiterin DACH bei Initech GmbH');
+    expect(profile.location?.value).toBe('München, Bayern, Deutschland');
+    // Expanded through its "…mehr anzeigen" label alone
+    expect(profile.about?.value).toBe('Ich baue Vertriebsteams für Software im Mittelstand auf. Schwerpunkte: Neukundengewinnung, Partnervertrieb und Coaching.');
+    expect(profile.connectionDegree?.value).toBe('3rd+');
+    expect(profile.connectionCount).toEqual({ value: 500, source: 'dom', confidence: 'medium' });
+    expect(profile.followerCount?.value).toBe(1234);
+    // "Offen für neue Stellen" without the photo frame
+    expect(profile.openToWork).toEqual({ value: true, source: 'dom', confidence: 'medium' });
+
+    expect(profile.currentPositions?.value).toEqual([{
+      title: 'Vertriebsleiterin DACH',
+      company: 'Initech GmbH',
+      companyUrn: 'urn:li:company:48213',
+      employmentType: 'Vollzeit',
+      dateRange: 'Jan. 2021 – Heute',
+      startDate: 'Jan. 2021',
+      endDate: undefined,
+      isCurrent: true,
+      location: 'München, Bayern, Deutschland',
+    }]);
+    expect(profile.pastPositions?.value).toEqual([
+      {
+        title: 'Teamleiterin Vertrieb',
+        company: 'Umbrella AG',
+        companyUrn: undefined,
+        employmentType: 'Vollzeit',
+        dateRange: 'Juli 2017 – Dez. 2020',
+        startDate: 'Juli 2017',
+        endDate: 'Dez. 2020',
+        isCurrent: false,
+        location: 'Frankfurt am Main, Hessen, Deutschland',
+      },
+      {
+        title: 'Vertriebsmitarbeiterin',
+        company: 'Umbrella AG',
+        companyUrn: undefined,
+        employmentType: undefined,
+        dateRange: 'Aug. 2014 – Juni 2017',
+        startDate: 'Aug. 2014',
+        endDate: 'Juni 2017',
+        isCurrent: false,
+        location: undefined,
+      },
+    ]);
+
+    expect(profile.education?.value).toEqual([
+      {
+        school: 'Ludwig-Maximilians-Universität München',
+        degree: 'Bachelor of Arts',
+        fieldOfStudy: 'Betriebswirtschaftslehre, Marketing',
+        dateRange: '2010 – 2014',
+      },
+      {
+        school: 'Gymnasium Tegernsee',
+        degree: undefined,
+        fieldOfStudy: undefined,
+        dateRange: '2001 – 2010',
+      },
+    ]);
+    expect(profile.skills?.value).toEqual(['Vertriebsleitung', 'Neukundengewinnung']);
+    expect(profile.languages?.value).toEqual([
+      { name: 'Deutsch', proficiency: 'Muttersprache oder zweisprachig' },
+      { name: 'Englisch', proficiency: 'Verhandlungssicher' },
+    ]);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Browser } from 'puppeteer';
+import { createServer, connect, Socket, AddressInfo } from 'net';
+import { connectRemoteBrowser, createPuppeteer, openLinkedInPage, closeLinkedInBrowser } from '../src/auth';
+import { launchTestBrowser } from './helpers/browser';
+
+const COOKIES = [
+  { name: 'li_at', value: 'test-session', domain: '.linkedin.com', path: '/' },
+  { name: 'JSESSIONID', value: 'ajax:123', domain: '.linkedin.com', path: '/' },
+];
+
+/**
+ * Forwards connections to Chrome's DevTools port after a delay, to stand in
+ * for a remote browser that answers slowly
+ */
+function startDelayingProxy(target: URL, delayMs: number) {
+  const upstreams: Socket[] = [];
+  const server = createServer(client => {
+    // The client's handshake waits in the socket until it is piped
+    setTimeout(() => {
+      const upstream = connect(Number(target.port), target.hostname);
+      upstreams.push(upstream);
+      client.pipe(upstream).pipe(client);
+      client.on('error', () => upstream.destroy());
+      upstream.on('error', () => client.destroy());
+    }, delayMs);
+  });
+  return { server, upstreams };
+}
+
+describe('connectRemoteBrowser', () => {
+  let chrome: Browser;
+  let endpoint: string;
+
+  beforeAll(async () => {
+    chrome = await launchTestBrowser();
+    endpoint = chrome.wsEndpoint();
+  });
+
+  afterAll(async () => {
+    await chrome?.close();
+  });
+
+  // Contexts as Chrome reports them, whichever connection created them
+  const contextIds = async () => {
+    const session = await chrome.target().createCDPSession();
+    try {
+      return (await session.send('Target.getBrowserContexts')).browserContextIds;
+    } finally {
+      await session.detach();
+    }
+  };
+
+  it('gives the job its own context and leaves the remote Chrome running when closed', async () => {
+    const contextsBefore = await contextIds();
+
+    const browser = await connectRemoteBrowser(createPuppeteer(), endpoint);
+    const page = await openLinkedInPage(browser, 'test-agent', { cookies: COOKIES });
+
+    expect(await contextIds()).toHaveLength(contextsBefore.length + 1);
+    expect(page.browserContext()).not.toBe(browser.defaultBrowserContext());
+    expect(await page.cookies('https://www.linkedin.com')).toEqual(
+      expect.arrayContaining([expect.objectContaining({ name: 'li_at', value: 'test-session' })])
+    );
+    // Nothing of the job's session reaches Chrome's default context
+    expect(await chrome.defaultBrowserContext().cookies()).toEqual([]);
+
+    await closeLinkedInBrowser(browser);
+
+    expect(browser.isConnected()).toBe(false);
+    expect(chrome.isConnected()).toBe(true);
+    expect(await contextIds()).toEqual(contextsBefore);
+  });
+
+  it('drops a connection that is only made after the timeout', async () => {
+    const { server, upstreams } = startDelayingProxy(new URL(endpoint), 1000);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const slowEndpoint = endpoint.replace(/\/\/[^/]+/, `//127.0.0.1:${(server.address() as AddressInfo).port}`);
+
+    try {
+      await expect(connectRemoteBrowser(createPuppeteer(), slowEndpoint, undefined, 200)).rejects.toThrow(/timed out/);
+
+      // The late connection reaches Chrome and is closed again
+      await expect.poll(() => upstreams.length, { timeout: 5000 }).toBe(1);
+      await expect.poll(() => upstreams[0].destroyed, { timeout: 5000 }).toBe(true);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
@@ -1,4 +1,18 @@
 export * from './types/common';
 export * from './types/database';
+export * from './types/profile';
 export * from './utils/validation';
-export * from './utils/constants';
\ No newline at end of file
+export * from './utils/constants';
+export * from './utils/quota';
+export * from './utils/template';
+export * from './utils/campaign';
+export * from './utils/messaging';
+export * from './utils/profileIdentity';
+export * from './utils/identityResolver';
+export * from './utils/contact';
+export * from './utils/csv';
+export * from './utils/suppression';
+export * from './utils/lead';
+export * from './utils/csvImport';
+export * from './utils/jobExport';
+export * from './utils/proxy';
@@ -9,12 +9,40 @@ export interface BaseJob {
   };
   removeOnComplete?: number;
   removeOnFail?: number;
+  clientSlug?: string; // Set by the API server when the job is enqueued
+  idempotencyKey?: string; // Repeating a job with the same key (per API key) returns the original job
+  tags?: string[]; // Free-form labels for finding the job in listings
+  campaign?: CampaignJobContext; // Set when the job was created by a campaign step
 }
 
+export type CampaignStepType = 'profile_view' | 'invite' | 'wait_for_acceptance' | 'message' | 'follow_up';
+
+export type CampaignStepCondition = 'stop_if_replied' | 'skip_if_connected';
+
+export interface CampaignStep {
+  type: CampaignStepType;
+  delayMs?: number;
+  delayDays?: number;
+  note?: string;
+  message?: string;
+  conditions?: CampaignStepCondition[];
+  timeoutDays?: number; // wait_for_acceptance: give up after this many days
+}
+
+export interface CampaignJobContext {
+  campaignId: string;
+  enrollmentId: string;
+  stepIndex: number;
+}
+
+// What to do when the account already contacted the profile (or another job for it is queued)
+export type DuplicatePolicy = 'skip' | 'allow' | 'fail';
+
 export interface InviteJob extends BaseJob {
   type: 'invite';
   profileUrl: string;
   note?: string;
+  duplicatePolicy?: DuplicatePolicy;
   accountId?: string;
   workflowId?: string;
   n8nWebhookUrl?: string;
@@ -24,6 +52,7 @@ export interface MessageJob extends BaseJob {
   type: 'message';
   profileUrl: string;
   message: string;
+  duplicatePolicy?: DuplicatePolicy;
   accountId?: string;
   workflowId?: string;
   n8nWebhookUrl?: string;
@@ -46,7 +75,72 @@ export interface ApiResearchJob extends BaseJob {
   n8nWebhookUrl?: string;
 }
 
-export type LinkedInJob = InviteJob | MessageJob | ProfileViewJob | ApiResearchJob;
+export type ConnectionState = 'connected' | 'pending' | 'not_connected' | 'follow_only';
+
+// Checks one profile (profileUrl) or a batch (profileUrls)
+export interface CheckConnectionJob extends BaseJob {
+  type: 'check_connection';
+  profileUrl?: string;
+  profileUrls?: string[];
+  accountId?: string;
+  workflowId?: string;
+  n8nWebhookUrl?: string;
+}
+
+// Withdraws the pending invite for profileUrl, or every invite older than olderThanDays
+export interface WithdrawInvitationJob extends BaseJob {
+  type: 'withdraw_invitation';
+  profileUrl?: string;
+  olderThanDays?: number;
+  maxWithdrawals?: number;
+  accountId?: string;
+  workflowId?: string;
+  n8nWebhookUrl?: string;
+}
+
+// Reads the account's messaging inbox, newest threads first, until it reaches stored messages
+export interface SyncInboxJob extends BaseJob {
+  type: 'sync_inbox';
+  maxThreads?: number;
+  accountId?: string;
+  workflowId?: string;
+  n8nWebhookUrl?: string;
+}
+
+// Replies in an existing conversation, identified by threadUrn or threadUrl
+export interface ReplyInThreadJob extends BaseJob {
+  type: 'reply_in_thread';
+  threadUrn?: string;
+  threadUrl?: string;
+  message: string;
+  accountId?: string;
+  workflowId?: string;
+  n8nWebhookUrl?: string;
+}
+
+// Pages through a LinkedIn people search and stores the results as leads
+export interface SearchScrapeJob extends BaseJob {
+  type: 'search_scrape';
+  searchUrl: string;
+  maxResults?: number;
+  accountId?: string;
+  workflowId?: string;
+  n8nWebhookUrl?: string;
+}
+
+// Internal job that evaluates one campaign step for one enrolled lead
+export interface CampaignStepJob extends BaseJob {
+  type: 'campaign_step';
+  campaignId: string;
+  enrollmentId: string;
+  stepIndex: number;
+  profileUrl: string;
+  accountId?: string;
+  workflowId?: string;
+  n8nWebhookUrl?: string;
+}
+
+export type LinkedInJob = InviteJob | MessageJob | ProfileViewJob | ApiResearchJob | CheckConnectionJob | WithdrawInvitationJob | SyncInboxJob | ReplyInThreadJob | SearchScrapeJob | CampaignStepJob;
 
 export interface JobResult {
   success: boolean;
@@ -61,6 +155,75 @@ export interface JobResult {
 export interface WebhookPayload {
   jobId: string;
   workflowId?: string;
-  status: 'completed' | 'failed' | 'retry';
+  status: 'completed' | 'failed' | 'retry' | 'skipped_duplicate' | 'suppressed' | 'cancelled' | 'timed_out';
   result: JobResult;
-}
\ No newline at end of file
+}
+
+// Sent to the job's n8nWebhookUrl when a check finds a changed relationship
+export interface ConnectionEventPayload {
+  event: 'connection.accepted';
+  jobId: string;
+  profileUrl: string;
+  accountId?: string;
+  previousState: ConnectionState | null;
+  state: ConnectionState;
+  detectedAt: string;
+}
+
+export interface InboxParticipant {
+  name: string;
+  profileUrl?: string;
+}
+
+export interface InboxMessage {
+  messageUrn: string;
+  senderName: string;
+  senderProfileUrl?: string;
+  isInbound: boolean;
+  sentAt?: string;
+  text: string;
+}
+
+export interface InboxThread {
+  threadUrn: string;
+  threadUrl: string;
+  participants: InboxParticipant[];
+  messages: InboxMessage[]; // oldest first, only messages newer than the last synced one
+}
+
+// Sent to the job's n8nWebhookUrl for every new inbound message found by sync_inbox
+export interface MessageReceivedEventPayload {
+  event: 'message.received';
+  jobId: string;
+  accountId?: string;
+  threadUrn: string;
+  threadUrl: string;
+  profileUrl?: string;
+  participants: InboxParticipant[];
+  message: InboxMessage;
+  detectedAt: string;
+}
+
+// One person from a LinkedIn people search
+export interface SearchResultLead {
+  profileUrl: string;
+  name: string;
+  headline?: string;
+  location?: string;
+  degree?: string; // "1st", "2nd", "3rd+"
+  isNew?: boolean; // false when the profile was already in the client's leads
+}
+
+export type SuppressionType = 'profile' | 'company' | 'keyword';
+
+// A do-not-contact rule of a client. Values are stored normalized: canonical
+// profile URL, company URN or lowercased company name, lowercased keyword.
+export interface SuppressionEntry {
+  id: string;
+  type: SuppressionType;
+  value: string;
+  reason?: string;
+  createdAt?: string;
+}
+
+export type LeadStatus = 'new' | 'viewed' | 'invited' | 'connected' | 'messaged' | 'replied';
@@ -1,13 +1,42 @@
+import { CampaignStep } from './common';
+
 export interface LinkedInAccount {
   id: string;
   client_slug: string;
   cookies_url: string;
-  proxy?: string;
+  proxy?: string; // proxy URL set by hand; accounts with proxy_id use the registry instead
+  proxy_id?: string | null;
   daily_limit: number;
+  weekly_invite_limit?: number;
+  daily_message_limit?: number;
+  daily_profile_view_limit?: number;
   invites_sent: number;
+  invites_sent_week?: number;
+  messages_sent: number;
+  profile_views: number;
+  last_activity_at?: Date;
+  is_active: boolean;
+  created_at: Date;
   updated_at: Date;
 }
 
+export interface ProxyServer {
+  id: string;
+  client_slug: string;
+  host: string;
+  port: number;
+  protocol: 'http' | 'https';
+  username?: string | null;
+  password?: string | null;
+  region?: string | null;
+  status: 'active' | 'failed' | 'disabled';
+  consecutive_failures: number;
+  last_checked_at?: string | null;
+  last_error?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface OutreachLog {
   id: number;
   account_id: string;
@@ -55,4 +84,33 @@ export interface ApiKey {
   created_at: Date;
   last_used_at?: Date;
   is_active: boolean;
-}
\ No newline at end of file
+}
+
+export interface Campaign {
+  id: string;
+  client_slug: string;
+  name: string;
+  account_id?: string;
+  status: 'active' | 'paused' | 'archived';
+  steps: CampaignStep[];
+  n8n_webhook_url?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CampaignEnrollment {
+  id: string;
+  campaign_id: string;
+  profile_url: string;
+  status: 'active' | 'waiting' | 'completed' | 'stopped' | 'failed';
+  current_step: number;
+  connection_status: 'unknown' | 'pending' | 'connected';
+  replied_at?: Date;
+  waiting_until?: Date;
+  last_job_id?: string;
+  stop_reason?: string;
+  error_message?: string;
+  enrolled_at: Date;
+  updated_at: Date;
+  completed_at?: Date;
+}
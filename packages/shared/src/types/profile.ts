@@ -0,0 +1,58 @@
+// Where an extracted profile field was read from
+export type ProfileFieldSource = 'dom' | 'embedded_data' | 'url';
+
+// high: read from a dedicated element; medium: partial or inferred from text; low: heuristic fallback
+export type ProfileFieldConfidence = 'high' | 'medium' | 'low';
+
+export interface ProfileField<T> {
+  value: T;
+  source: ProfileFieldSource;
+  confidence: ProfileFieldConfidence;
+}
+
+export type ConnectionDegree = '1st' | '2nd' | '3rd+';
+
+export interface ProfilePosition {
+  title: string;
+  company?: string;
+  companyUrn?: string; // urn:li:company:<id> when the entry links to the company page
+  employmentType?: string; // "Full-time" / "Vollzeit"
+  dateRange?: string; // as shown, e.g. "Jan 2020 - Present"
+  startDate?: string;
+  endDate?: string; // unset for current positions
+  location?: string;
+  isCurrent: boolean;
+}
+
+export interface ProfileEducation {
+  school: string;
+  degree?: string;
+  fieldOfStudy?: string;
+  dateRange?: string;
+}
+
+export interface ProfileLanguage {
+  name: string;
+  proficiency?: string;
+}
+
+// Structured profile extracted by viewProfile. Fields that could not be read are left unset.
+export interface LinkedInProfile {
+  profileUrl: string;
+  publicIdentifier?: ProfileField<string>;
+  profileUrn?: ProfileField<string>;
+  name?: ProfileField<string>;
+  headline?: ProfileField<string>;
+  location?: ProfileField<string>;
+  about?: ProfileField<string>;
+  connectionDegree?: ProfileField<ConnectionDegree>;
+  connectionCount?: ProfileField<number>; // 500 for "500+"
+  followerCount?: ProfileField<number>;
+  openToWork?: ProfileField<boolean>;
+  currentPositions?: ProfileField<ProfilePosition[]>;
+  pastPositions?: ProfileField<ProfilePosition[]>;
+  education?: ProfileField<ProfileEducation[]>;
+  skills?: ProfileField<string[]>;
+  languages?: ProfileField<ProfileLanguage[]>;
+  extractedAt: string;
+}
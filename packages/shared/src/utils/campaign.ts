@@ -0,0 +1,31 @@
+import { CampaignStep, CampaignStepType } from '../types/common';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Campaign steps that run a LinkedIn action, mapped to the job type they enqueue
+export const CAMPAIGN_ACTION_STEP_JOB_TYPES: Partial<Record<CampaignStepType, 'profile_view' | 'invite' | 'message'>> = {
+  profile_view: 'profile_view',
+  invite: 'invite',
+  message: 'message',
+  follow_up: 'message',
+};
+
+/**
+ * Delay before a step runs, measured from the completion of the previous step
+ */
+export const getCampaignStepDelayMs = (step: CampaignStep): number => {
+  if (typeof step.delayMs === 'number') {
+    return step.delayMs;
+  }
+  if (typeof step.delayDays === 'number') {
+    return Math.round(step.delayDays * DAY_MS);
+  }
+  return 0;
+};
+
+/**
+ * BullMQ job id for a campaign step. Deterministic so a step is only queued
+ * once per enrollment, and so the API can promote a step that is waiting.
+ */
+export const campaignStepJobId = (enrollmentId: string, stepIndex: number): string =>
+  `campaign-${enrollmentId}-${stepIndex}`;
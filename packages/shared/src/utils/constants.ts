@@ -1,8 +1,16 @@
+import type { LinkedInAccount } from '../types/database';
+
 export const JOB_TYPES = {
   INVITE: 'invite',
   MESSAGE: 'message',
   PROFILE_VIEW: 'profile_view',
   API_RESEARCH: 'api_research',
+  CHECK_CONNECTION: 'check_connection',
+  WITHDRAW_INVITATION: 'withdraw_invitation',
+  SYNC_INBOX: 'sync_inbox',
+  REPLY_IN_THREAD: 'reply_in_thread',
+  SEARCH_SCRAPE: 'search_scrape',
+  CAMPAIGN_STEP: 'campaign_step',
 } as const;
 
 export const JOB_STATUS = {
@@ -11,8 +19,20 @@ export const JOB_STATUS = {
   COMPLETED: 'completed',
   FAILED: 'failed',
   RETRY: 'retry',
+  SKIPPED_DUPLICATE: 'skipped_duplicate',
+  SUPPRESSED: 'suppressed',
+  CANCELLED: 'cancelled',
+  TIMED_OUT: 'timed_out',
 } as const;
 
+// Statuses a workflow run counts as completed or failed. Skipped duplicates and
+// suppressed contacts finished as intended; cancelled jobs count as neither.
+export const COMPLETED_JOB_STATUSES: string[] = [JOB_STATUS.COMPLETED, JOB_STATUS.SKIPPED_DUPLICATE, JOB_STATUS.SUPPRESSED];
+export const FAILED_JOB_STATUSES: string[] = [JOB_STATUS.FAILED, JOB_STATUS.TIMED_OUT];
+
+// Failures a retry cannot fix (e.g. until the account's cookies are renewed); retried only when forced
+export const NON_RETRYABLE_ERROR_CATEGORIES = ['authentication_failed', 'duplicate_contact', 'invalid_content'];
+
 export const WORKFLOW_STATUS = {
   PENDING: 'pending',
   RUNNING: 'running',
@@ -27,6 +47,151 @@ export const API_PERMISSIONS = {
   WEBHOOKS_RECEIVE: 'webhooks:receive',
   ACCOUNTS_READ: 'accounts:read',
   ACCOUNTS_MANAGE: 'accounts:manage',
+  CAMPAIGNS_READ: 'campaigns:read',
+  CAMPAIGNS_MANAGE: 'campaigns:manage',
+  SUPPRESSIONS_READ: 'suppressions:read',
+  SUPPRESSIONS_MANAGE: 'suppressions:manage',
+  LEADS_READ: 'leads:read',
+  LEADS_MANAGE: 'leads:manage',
+} as const;
+
+// Job types that act on a single profileUrl, e.g. for every lead of a list or row of a CSV
+export const PROFILE_JOB_TYPES = ['invite', 'message', 'profile_view', 'check_connection', 'withdraw_invitation'] as const;
+
+// Job types recorded in the per-account contact registry
+export const CONTACT_JOB_TYPES = ['invite', 'message'] as const;
+
+export const DEFAULT_DUPLICATE_POLICY = 'skip';
+
+export const CONTACT_STATUS = {
+  QUEUED: 'queued',
+  IN_PROGRESS: 'in_progress',
+  CONTACTED: 'contacted',
+  SKIPPED: 'skipped',
+  FAILED: 'failed',
+} as const;
+
+// Ordered by progress; job outcomes only ever move a lead forward
+export const LEAD_STATUS = {
+  NEW: 'new',
+  VIEWED: 'viewed',
+  INVITED: 'invited',
+  CONNECTED: 'connected',
+  MESSAGED: 'messaged',
+  REPLIED: 'replied',
+} as const;
+
+export const LEAD_DEFAULTS = {
+  MAX_LEADS_PER_REQUEST: 1000,
+  MAX_LIST_JOBS: 500, // jobs created by one bulk request that targets a list
+  MAX_TAGS: 50,
+} as const;
+
+export const CAMPAIGN_STATUS = {
+  ACTIVE: 'active',
+  PAUSED: 'paused',
+  ARCHIVED: 'archived',
+} as const;
+
+export const ENROLLMENT_STATUS = {
+  ACTIVE: 'active',
+  WAITING: 'waiting',
+  COMPLETED: 'completed',
+  STOPPED: 'stopped',
+  FAILED: 'failed',
+} as const;
+
+export const CAMPAIGN_DEFAULTS = {
+  PAUSED_RECHECK_MS: 15 * 60 * 1000, // paused campaigns re-check every 15 minutes
+  ACCEPTANCE_POLL_MS: 6 * 60 * 60 * 1000, // wait_for_acceptance re-checks every 6 hours
+  ACCEPTANCE_TIMEOUT_DAYS: 14,
+  MAX_ENROLLMENTS_PER_REQUEST: 1000,
+} as const;
+
+// Profiles visited by a single check_connection job
+export const MAX_CONNECTION_CHECKS_PER_JOB = 25;
+
+// Bulk withdraw_invitation jobs stop after this many withdrawals
+export const MAX_WITHDRAWALS_PER_JOB = 50;
+
+export const SENT_INVITATIONS_URL = 'https://www.linkedin.com/mynetwork/invitation-manager/sent/';
+
+export const MESSAGING_URL = 'https://www.linkedin.com/messaging/';
+
+export const INBOX_SYNC_DEFAULTS = {
+  MAX_THREADS: 20, // threads opened per sync_inbox job
+  MAX_MESSAGES_PER_THREAD: 50, // messages kept from a thread seen for the first time
+} as const;
+
+export const SEARCH_SCRAPE_DEFAULTS = {
+  MAX_RESULTS: 100, // when the job sets no maxResults
+  MAX_RESULTS_LIMIT: 250, // 25 pages, keeps a scrape inside the 5 minute job timeout
+  RESULTS_PER_PAGE: 10,
+} as const;
+
+export const CSV_IMPORT_DEFAULTS = {
+  MAX_FILE_BYTES: 5 * 1024 * 1024,
+  MAX_ROWS: 5000,
+  ENQUEUE_CHUNK_SIZE: 50, // jobs created concurrently per chunk
+} as const;
+
+export const IDEMPOTENCY_HEADER = 'idempotency-key';
+
+export const IDEMPOTENCY_DEFAULTS = {
+  MAX_KEY_LENGTH: 255,
+  PROCESSING_TIMEOUT_MS: 5 * 60 * 1000, // claims older than this are treated as abandoned
+} as const;
+
+export const JOB_LIST_DEFAULTS = {
+  DEFAULT_LIMIT: 50,
+  MAX_LIMIT: 100,
+  MAX_STATUS_BATCH: 100, // job ids per batch status request
+  MAX_TAGS: 20, // tags per job
+} as const;
+
+// Hard limit on one run of a job; the worker's JOB_TIMEOUT_<TYPE>_MS overrides it per type
+export const JOB_TIMEOUTS_MS = {
+  invite: 5 * 60 * 1000,
+  message: 5 * 60 * 1000,
+  profile_view: 3 * 60 * 1000,
+  check_connection: 10 * 60 * 1000, // up to MAX_CONNECTION_CHECKS_PER_JOB profiles
+  withdraw_invitation: 10 * 60 * 1000,
+  sync_inbox: 10 * 60 * 1000,
+  reply_in_thread: 5 * 60 * 1000,
+  search_scrape: 5 * 60 * 1000,
+  api_research: 10 * 60 * 1000,
+} as const;
+
+// Redis key the API sets to ask the worker to stop a running job
+export const JOB_CANCEL_KEY_PREFIX = 'job-cancel:';
+export const JOB_CANCEL_REQUEST_TTL_MS = 60 * 60 * 1000; // outlives the longest job run
+
+export const JOB_EXPORT_FORMATS = ['csv', 'ndjson'] as const;
+
+export const JOB_EXPORT_DEFAULTS = {
+  PAGE_SIZE: 500, // job_history rows fetched per query while streaming
+} as const;
+
+export const SUPPRESSION_TYPES = ['profile', 'company', 'keyword'] as const;
+
+export const PROXY_STATUS = {
+  ACTIVE: 'active',
+  FAILED: 'failed', // taken out of rotation by the health check, back once it passes again
+  DISABLED: 'disabled', // taken out by hand, never checked or assigned
+} as const;
+
+export const PROXY_PROTOCOLS = ['http', 'https'] as const;
+
+export const PROXY_DEFAULTS = {
+  CHECK_TIMEOUT_MS: 15000,
+  FAILURES_BEFORE_REMOVAL: 2, // consecutive failed checks before a proxy is marked failed
+  UNAVAILABLE_RETRY_MS: 10 * 60 * 1000, // jobs whose proxy is down are delayed this long
+} as const;
+
+export const SUPPRESSION_DEFAULTS = {
+  MAX_ENTRIES_PER_REQUEST: 1000, // JSON entries per POST /suppressions
+  MAX_CSV_ROWS: 10000,
+  MAX_VALUE_LENGTH: 500,
 } as const;
 
 export const RATE_LIMITS = {
@@ -54,6 +219,63 @@ export const DEFAULT_JOB_OPTIONS = {
   removeOnFail: 50,
 } as const;
 
+// LinkedIn's limits for invitation notes and messages, checked again after template rendering
+export const INVITE_NOTE_MAX_LENGTH = 300;
+export const MESSAGE_MAX_LENGTH = 8000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Numeric linkedin_accounts columns, where quota limits and synced counters live
+type AccountCountColumn = {
+  [K in keyof LinkedInAccount]-?: NonNullable<LinkedInAccount[K]> extends number ? K : never
+}[keyof LinkedInAccount];
+
+interface AccountQuotaDefinition {
+  key: string;
+  jobType: string;
+  windowMs: number;
+  limitColumn: AccountCountColumn;
+  counterColumn: AccountCountColumn;
+  defaultLimit: number;
+}
+
+// Per-account action quotas. Windows are rolling, limits come from the
+// linkedin_accounts column named by limitColumn (defaultLimit when unset).
+export const ACCOUNT_QUOTAS = {
+  INVITES_PER_DAY: {
+    key: 'invites_day',
+    jobType: 'invite',
+    windowMs: DAY_MS,
+    limitColumn: 'daily_limit',
+    counterColumn: 'invites_sent',
+    defaultLimit: 50,
+  },
+  INVITES_PER_WEEK: {
+    key: 'invites_week',
+    jobType: 'invite',
+    windowMs: 7 * DAY_MS,
+    limitColumn: 'weekly_invite_limit',
+    counterColumn: 'invites_sent_week',
+    defaultLimit: 100,
+  },
+  MESSAGES_PER_DAY: {
+    key: 'messages_day',
+    jobType: 'message',
+    windowMs: DAY_MS,
+    limitColumn: 'daily_message_limit',
+    counterColumn: 'messages_sent',
+    defaultLimit: 100,
+  },
+  PROFILE_VIEWS_PER_DAY: {
+    key: 'profile_views_day',
+    jobType: 'profile_view',
+    windowMs: DAY_MS,
+    limitColumn: 'daily_profile_view_limit',
+    counterColumn: 'profile_views',
+    defaultLimit: 80,
+  },
+} as const satisfies Record<string, AccountQuotaDefinition>;
+
 export const LINKEDIN_SELECTORS = {
   // Comprehensive Connect Button selectors with enhanced 2025 patterns
   CONNECT_BUTTON: [
@@ -154,5 +376,68 @@ export const LINKEDIN_SELECTORS = {
     'button:has-text("Send"), button:has-text("Senden")'
   ].join(', '),
   
+  // Pending invitation button on a profile (replaces Connect once an invite is sent)
+  PENDING_BUTTON: [
+    'button[aria-label*="Pending"], button[aria-label*="Ausstehend"]',
+    'button[aria-label*="Withdraw invitation"], button[aria-label*="Einladung zurückziehen"]',
+    '.pv-s-profile-actions button[aria-label*="Pending"], .pv-s-profile-actions button[aria-label*="Ausstehend"]',
+    '.pvs-profile-actions button[aria-label*="Pending"], .pvs-profile-actions button[aria-label*="Ausstehend"]',
+    '[data-view-name="profile-actions"] button[aria-label*="Pending"]',
+    '[data-view-name="profile-actions"] button[aria-label*="Ausstehend"]',
+    'button[data-control-name="withdraw_invitation"]'
+  ].join(', '),
+
+  // Confirm button of the "Withdraw invitation" dialog
+  WITHDRAW_CONFIRM_BUTTON: [
+    '.artdeco-modal button[aria-label*="Withdraw"], .artdeco-modal button[aria-label*="Zurückziehen"]',
+    'div[role="alertdialog"] button[aria-label*="Withdraw"], div[role="alertdialog"] button[aria-label*="Zurückziehen"]',
+    'div[role="alertdialog"] button.artdeco-modal__confirm-dialog-btn.artdeco-button--primary',
+    '.artdeco-modal__actionbar button.artdeco-button--primary',
+    'button[data-test-dialog-primary-btn]'
+  ].join(', '),
+
+  // Cards on the sent invitations page
+  SENT_INVITATION_CARD: [
+    'li.invitation-card',
+    '.mn-invitation-list li',
+    '[data-view-name="sent-invitation-card"]',
+    '.invitation-card'
+  ].join(', '),
+
+  // Withdraw button inside a sent invitation card
+  SENT_INVITATION_WITHDRAW_BUTTON: [
+    'button[aria-label*="Withdraw"], button[aria-label*="withdraw"]',
+    'button[aria-label*="Zurückziehen"], button[aria-label*="zurückziehen"]',
+    'button[data-control-name="withdraw_single"]',
+    'button.invitation-card__action-btn'
+  ].join(', '),
+  
+  // Conversation list entries in the messaging inbox
+  INBOX_THREAD_ITEM: [
+    'li.msg-conversation-listitem',
+    '.msg-conversations-container__conversations-list li',
+    '[data-view-name="message-list-item"]'
+  ].join(', '),
+
+  // Link inside a conversation list entry that opens the thread
+  INBOX_THREAD_LINK: [
+    'a.msg-conversation-listitem__link',
+    'a[href*="/messaging/thread/"]'
+  ].join(', '),
+
+  // Message events inside an open thread
+  INBOX_MESSAGE_EVENT: [
+    'li.msg-s-message-list__event',
+    '.msg-s-message-list-content li[data-event-urn]'
+  ].join(', '),
+  
+  // Result cards on a people search page
+  SEARCH_RESULT_ITEM: [
+    'li.reusable-search__result-container',
+    '.search-results-container ul > li',
+    '[data-view-name="search-entity-result-universal-template"]',
+    '[data-chameleon-result-urn]'
+  ].join(', '),
+
   PROFILE_PHOTO: 'img.global-nav__me-photo',
 } as const;
\ No newline at end of file
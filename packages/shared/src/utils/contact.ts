@@ -0,0 +1,13 @@
+import { LinkedInJob, InviteJob, MessageJob, DuplicatePolicy } from '../types/common';
+import { CONTACT_JOB_TYPES, DEFAULT_DUPLICATE_POLICY } from './constants';
+
+/**
+ * Jobs that contact a profile and go through the duplicate check
+ */
+export const isContactJob = (job: LinkedInJob): job is InviteJob | MessageJob => {
+  return (CONTACT_JOB_TYPES as readonly string[]).includes(job.type);
+};
+
+export const getDuplicatePolicy = (job: InviteJob | MessageJob): DuplicatePolicy => {
+  return job.duplicatePolicy || DEFAULT_DUPLICATE_POLICY;
+};
@@ -0,0 +1,65 @@
+/**
+ * Split CSV text into rows of cells. Handles quoted cells with commas, line
+ * breaks and doubled quotes; blank lines are dropped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell.trim());
+    if (row.some(value => value !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+
+  // Excel prefixes UTF-8 exports with a byte order mark
+  const input = text.replace(/^﻿/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  endRow();
+  return rows;
+};
+
+/**
+ * Format one CSV line (without line break). Cells starting with a formula
+ * character are prefixed with a quote so spreadsheets show them as text.
+ */
+export const formatCsvRow = (values: unknown[]): string => {
+  return values.map(value => {
+    if (value === null || value === undefined) return '';
+    let cell = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    if (/^[=+\-@\t\r]/.test(cell) && typeof value !== 'number') {
+      cell = `'${cell}`;
+    }
+    return /[",\n\r]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  }).join(',');
+};
@@ -0,0 +1,100 @@
+import { LinkedInJob } from '../types/common';
+import { CSV_IMPORT_DEFAULTS } from './constants';
+import { parseCsv } from './csv';
+import { fillTemplateVariables } from './template';
+import { validateJobData } from './validation';
+
+// Which CSV column (by header) feeds which job field
+export interface CsvColumnMapping {
+  profileUrl: string;
+  note?: string;
+  message?: string;
+  accountId?: string;
+  variables?: Record<string, string>; // template variable -> column
+}
+
+// The validated form fields of a CSV import request
+export interface CsvImportRequest {
+  type: LinkedInJob['type'];
+  mapping: CsvColumnMapping;
+  note?: string;
+  message?: string;
+  accountId?: string;
+  duplicatePolicy?: 'skip' | 'allow' | 'fail';
+  priority?: number;
+  workflowId?: string;
+  n8nWebhookUrl?: string;
+}
+
+export interface CsvImportRow {
+  line: number;
+  job: LinkedInJob;
+}
+
+/**
+ * Turn every data row of a CSV (header row required) into a validated job.
+ * Mapped variables are filled into the note/message per row; profile
+ * variables without a column are left for the worker. Rows that fail
+ * validation are reported by line instead of failing the import. Throws
+ * when the file itself cannot be imported.
+ */
+export const buildJobsFromCsv = (text: string, request: CsvImportRequest): { rows: CsvImportRow[]; errors: Array<{ line: number; error: string }> } => {
+  const records = parseCsv(text);
+  const header = records.shift();
+  if (!header) {
+    throw new Error('CSV file is empty');
+  }
+  if (records.length > CSV_IMPORT_DEFAULTS.MAX_ROWS) {
+    throw new Error(`CSV file has ${records.length} rows (max ${CSV_IMPORT_DEFAULTS.MAX_ROWS})`);
+  }
+
+  const headers = header.map(cell => cell.toLowerCase());
+  const columnIndex = (column: string): number => {
+    const index = headers.indexOf(column.trim().toLowerCase());
+    if (index < 0) {
+      throw new Error(`Mapped column "${column}" is not in the CSV header`);
+    }
+    return index;
+  };
+
+  const { mapping } = request;
+  const columns = {
+    profileUrl: columnIndex(mapping.profileUrl),
+    note: mapping.note ? columnIndex(mapping.note) : -1,
+    message: mapping.message ? columnIndex(mapping.message) : -1,
+    accountId: mapping.accountId ? columnIndex(mapping.accountId) : -1,
+  };
+  const variableColumns = Object.entries(mapping.variables || {}).map(([name, column]) => [name, columnIndex(column)] as const);
+
+  const rows: CsvImportRow[] = [];
+  const errors: Array<{ line: number; error: string }> = [];
+
+  records.forEach((record, index) => {
+    const line = index + 2;
+    const cell = (column: number) => (column >= 0 && record[column]) || undefined;
+
+    try {
+      const variables = Object.fromEntries(variableColumns.map(([name, column]) => [name, record[column] || '']));
+      const note = cell(columns.note) ?? request.note;
+      const message = cell(columns.message) ?? request.message;
+
+      const fields: Record<string, unknown> = {
+        type: request.type,
+        profileUrl: cell(columns.profileUrl),
+        note: note !== undefined ? fillTemplateVariables(note, variables) : undefined,
+        message: message !== undefined ? fillTemplateVariables(message, variables) : undefined,
+        accountId: cell(columns.accountId) ?? request.accountId,
+        duplicatePolicy: request.duplicatePolicy,
+        priority: request.priority,
+        n8nWebhookUrl: request.n8nWebhookUrl,
+      };
+      // Job schemas only allow the fields of their type, so unset fields are left out
+      const job = validateJobData(Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)));
+      rows.push({ line, job });
+    } catch (error) {
+      errors.push({ line, error: error instanceof Error ? error.message : 'Invalid row' });
+    }
+  });
+
+  return { rows, errors };
+};
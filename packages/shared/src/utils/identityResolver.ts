@@ -0,0 +1,110 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ProfileIdentity, parseProfileIdentity, profileUrlFor } from './profileIdentity';
+
+const MAX_CACHED_IDENTITIES = 10000;
+
+interface IdentityRow {
+  public_identifier: string | null;
+  member_id: string | null;
+  sales_navigator_id: string | null;
+}
+
+const identityKeys = (identity: Omit<ProfileIdentity, 'profileUrl'>): string[] => [
+  identity.publicIdentifier && `in:${identity.publicIdentifier}`,
+  identity.memberId && `member:${identity.memberId}`,
+  identity.salesNavigatorId && `sales:${identity.salesNavigatorId}`,
+].filter((key): key is string => !!key);
+
+const toIdentity = (row: IdentityRow): ProfileIdentity => {
+  const publicIdentifier = row.public_identifier || undefined;
+  const memberId = row.member_id || undefined;
+  const salesNavigatorId = row.sales_navigator_id || undefined;
+  return {
+    profileUrl: profileUrlFor((publicIdentifier || memberId || salesNavigatorId)!),
+    publicIdentifier,
+    memberId,
+    salesNavigatorId,
+  };
+};
+
+/**
+ * Resolves profile references to their canonical identity through the
+ * profile_identities table, so the API and the worker key contacts, leads
+ * and connection states the same way whatever URL form a job used.
+ */
+export class ProfileIdentityResolver {
+  // Identities resolved by this process, under every id they are known by
+  private cache = new Map<string, ProfileIdentity>();
+
+  constructor(private readonly getClient: () => SupabaseClient) {}
+
+  /**
+   * Resolve a profile reference to its canonical identity. Member id and Sales
+   * Navigator URLs map to the vanity URL once the mapping has been learned.
+   */
+  async resolve(profileUrl: string): Promise<ProfileIdentity> {
+    const [identity] = await this.resolveMany([profileUrl]);
+    if (!identity) {
+      throw new Error(`Invalid LinkedIn profile URL: ${profileUrl}`);
+    }
+    return identity;
+  }
+
+  /**
+   * Batch version of resolve; unparseable references come back as null
+   */
+  async resolveMany(profileUrls: string[]): Promise<Array<ProfileIdentity | null>> {
+    const parsed = profileUrls.map(url => parseProfileIdentity(url));
+    const unresolved = parsed.filter((identity): identity is ProfileIdentity =>
+      !!identity && !identityKeys(identity).some(key => this.cache.has(key))
+    );
+
+    if (unresolved.length > 0) {
+      await this.loadIdentities(unresolved);
+    }
+
+    return parsed.map(identity => {
+      if (!identity) return null;
+      for (const key of identityKeys(identity)) {
+        const known = this.cache.get(key);
+        if (known) return known;
+      }
+      return identity;
+    });
+  }
+
+  protected cacheIdentity(identity: ProfileIdentity): void {
+    if (this.cache.size > MAX_CACHED_IDENTITIES) {
+      this.cache.clear();
+    }
+    for (const key of identityKeys(identity)) {
+      this.cache.set(key, identity);
+    }
+  }
+
+  private async loadIdentities(identities: ProfileIdentity[]): Promise<void> {
+    const lookups: Array<[keyof IdentityRow, string[]]> = [
+      ['public_identifier', identities.map(i => i.publicIdentifier).filter((id): id is string => !!id)],
+      ['member_id', identities.map(i => i.memberId).filter((id): id is string => !!id)],
+      ['sales_navigator_id', identities.map(i => i.salesNavigatorId).filter((id): id is string => !!id)],
+    ];
+
+    const results = await Promise.all(lookups
+      .filter(([, ids]) => ids.length > 0)
+      .map(([column, ids]) => this.getClient()
+        .from('profile_identities')
+        .select('public_identifier, member_id, sales_navigator_id')
+        .in(column, ids)));
+
+    for (const { data, error } of results) {
+      // Resolution is best-effort; unresolved references keep their parsed form
+      if (error) {
+        console.error('Error loading profile identities:', error);
+        continue;
+      }
+      for (const row of (data || []) as IdentityRow[]) {
+        this.cacheIdentity(toIdentity(row));
+      }
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import { LinkedInProfile } from '../types/profile';
+
+// Column order of job history exports; NDJSON lines use the same keys
+export const JOB_EXPORT_COLUMNS = [
+  'job_id',
+  'workflow_run_id',
+  'job_type',
+  'status',
+  'attempts',
+  'created_at',
+  'started_at',
+  'completed_at',
+  'error_message',
+  'error_category',
+  'account_id',
+  'profile_url',
+  'profile_urls',
+  'note',
+  'message',
+  'thread_urn',
+  'search_url',
+  'campaign_id',
+  'campaign_enrollment_id',
+  'campaign_step_index',
+  'result_success',
+  'result_message',
+  'profile_name',
+  'profile_headline',
+  'profile_location',
+  'profile_public_identifier',
+  'profile_urn',
+  'profile_connection_degree',
+  'profile_connection_count',
+  'profile_follower_count',
+  'profile_open_to_work',
+  'profile_current_title',
+  'profile_current_company',
+  'profile_skills',
+  'result_data',
+] as const;
+
+export type JobExportColumn = typeof JOB_EXPORT_COLUMNS[number];
+
+export type JobExportRecord = Record<JobExportColumn, string | number | boolean | null>;
+
+// Result keys that get their own columns; everything else goes to result_data
+const FLATTENED_RESULT_KEYS = ['success', 'message', 'profileUrl', 'profile', 'profileData'];
+
+/**
+ * Flatten a job_history row (job_data, result and the viewed profile) into
+ * one export record. Nested results without a column, e.g. check_connection
+ * results or scraped search hits, are kept as JSON in result_data.
+ */
+export const flattenJobHistoryRow = (row: Record<string, any>): JobExportRecord => {
+  const job = row.job_data || {};
+  const result = row.result || {};
+  const profile: LinkedInProfile | undefined = result.profile;
+  const currentPosition = profile?.currentPositions?.value[0];
+
+  const resultData = Object.fromEntries(
+    Object.entries(result).filter(([key]) => !FLATTENED_RESULT_KEYS.includes(key))
+  );
+
+  return {
+    job_id: row.id,
+    workflow_run_id: row.workflow_run_id ?? null,
+    job_type: row.job_type,
+    status: row.status,
+    attempts: row.attempts ?? 0,
+    created_at: row.created_at ?? null,
+    started_at: row.started_at ?? null,
+    completed_at: row.completed_at ?? null,
+    error_message: row.error_message ?? null,
+    error_category: row.error_category ?? null,
+    account_id: job.accountId ?? null,
+    profile_url: job.profileUrl ?? result.profileUrl ?? null,
+    profile_urls: Array.isArray(job.profileUrls) ? job.profileUrls.join(';') : null,
+    note: job.note ?? null,
+    message: job.message ?? null,
+    thread_urn: job.threadUrn ?? job.threadUrl ?? null,
+    search_url: job.searchUrl ?? null,
+    campaign_id: job.campaign?.campaignId ?? null,
+    campaign_enrollment_id: job.campaign?.enrollmentId ?? null,
+    campaign_step_index: job.campaign?.stepIndex ?? null,
+    result_success: typeof result.success === 'boolean' ? result.success : null,
+    result_message: result.message ?? null,
+    profile_name: profile?.name?.value ?? null,
+    profile_headline: profile?.headline?.value ?? null,
+    profile_location: profile?.location?.value ?? null,
+    profile_public_identifier: profile?.publicIdentifier?.value ?? null,
+    profile_urn: profile?.profileUrn?.value ?? null,
+    profile_connection_degree: profile?.connectionDegree?.value ?? null,
+    profile_connection_count: profile?.connectionCount?.value ?? null,
+    profile_follower_count: profile?.followerCount?.value ?? null,
+    profile_open_to_work: profile?.openToWork?.value ?? null,
+    profile_current_title: currentPosition?.title ?? null,
+    profile_current_company: currentPosition?.company ?? null,
+    profile_skills: profile?.skills?.value.join(';') ?? null,
+    result_data: Object.keys(resultData).length > 0 ? JSON.stringify(resultData) : null,
+  };
+};
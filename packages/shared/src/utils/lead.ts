@@ -0,0 +1,35 @@
+import { LeadStatus, ConnectionState } from '../types/common';
+import { LEAD_STATUS, JOB_TYPES } from './constants';
+
+const LEAD_STATUS_ORDER = Object.values(LEAD_STATUS) as LeadStatus[];
+
+/**
+ * The further along of two statuses, so a late profile view does not undo an invite
+ */
+export const advanceLeadStatus = (current: LeadStatus | null | undefined, next: LeadStatus): LeadStatus => {
+  if (!current) return next;
+  return LEAD_STATUS_ORDER.indexOf(next) > LEAD_STATUS_ORDER.indexOf(current) ? next : current;
+};
+
+/**
+ * Lead status reached by a successful job, or undefined when the job type says nothing about it
+ */
+export const leadStatusForJobResult = (jobType: string, result: any): LeadStatus | undefined => {
+  switch (jobType) {
+    case JOB_TYPES.PROFILE_VIEW:
+      return LEAD_STATUS.VIEWED;
+    case JOB_TYPES.INVITE:
+      // Already connected profiles get a message instead of an invite
+      return result?.actionTaken === 'messaged' ? LEAD_STATUS.MESSAGED : LEAD_STATUS.INVITED;
+    case JOB_TYPES.MESSAGE:
+      return LEAD_STATUS.MESSAGED;
+    default:
+      return undefined;
+  }
+};
+
+export const leadStatusForConnectionState = (state: ConnectionState): LeadStatus | undefined => {
+  if (state === 'connected') return LEAD_STATUS.CONNECTED;
+  if (state === 'pending') return LEAD_STATUS.INVITED;
+  return undefined;
+};
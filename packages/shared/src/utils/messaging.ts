@@ -0,0 +1,14 @@
+const THREAD_URN_PREFIX = 'urn:li:messagingThread:';
+
+/**
+ * Thread URN for a /messaging/thread/<id>/ URL, e.g. urn:li:messagingThread:2-abc123
+ */
+export const threadUrnFromUrl = (threadUrl: string): string | null => {
+  const threadId = threadUrl.match(/\/messaging\/thread\/([^/?#]+)/)?.[1];
+  return threadId ? `${THREAD_URN_PREFIX}${decodeURIComponent(threadId)}` : null;
+};
+
+export const threadUrlFromUrn = (threadUrn: string): string => {
+  const threadId = threadUrn.startsWith(THREAD_URN_PREFIX) ? threadUrn.slice(THREAD_URN_PREFIX.length) : threadUrn;
+  return `https://www.linkedin.com/messaging/thread/${encodeURIComponent(threadId)}/`;
+};
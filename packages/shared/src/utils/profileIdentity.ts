@@ -0,0 +1,85 @@
+// www, mobile (m.) and locale subdomains (de., uk., ...) all serve the same profiles
+const LINKEDIN_HOST_PATTERN = /^(?:[a-z]{1,3}\.)?linkedin\.com$/i;
+
+const MEMBER_URN_PREFIX = 'urn:li:fsd_profile:';
+
+/**
+ * One LinkedIn member as far as it is known from a URL or URN. profileUrl is
+ * the canonical key: the vanity URL when the public identifier is known,
+ * otherwise the member id URL (LinkedIn redirects both to the profile).
+ */
+export interface ProfileIdentity {
+  profileUrl: string;
+  publicIdentifier?: string; // vanity name, lowercased
+  memberId?: string; // ACoAA... id of urn:li:fsd_profile
+  salesNavigatorId?: string; // ACwAA... id of Sales Navigator lead URLs
+}
+
+export const profileUrlFor = (id: string): string => `https://www.linkedin.com/in/${encodeURIComponent(id)}/`;
+
+export const memberUrnFor = (memberId: string): string => `${MEMBER_URN_PREFIX}${memberId}`;
+
+const identityFromId = (rawId: string): ProfileIdentity | null => {
+  const id = rawId.trim();
+  if (!id) return null;
+
+  // urn:li:fsd_profile:ACoAA..., urn:li:fs_miniProfile:ACoAA..., urn:li:fs_salesProfile:(ACwAA...,NAME_SEARCH,x)
+  const urn = id.match(/^urn:li:[A-Za-z_]*[pP]rofile:\(?([A-Za-z0-9_-]+)/);
+  if (urn) return identityFromId(urn[1]);
+
+  // Member ids are case-sensitive; vanity names are not
+  if (/^ACoAA/.test(id)) return { profileUrl: profileUrlFor(id), memberId: id };
+  if (/^ACwAA/.test(id)) return { profileUrl: profileUrlFor(id), salesNavigatorId: id };
+  if (/^urn:/.test(id) || /\s/.test(id)) return null;
+
+  const publicIdentifier = id.toLowerCase();
+  return { profileUrl: profileUrlFor(publicIdentifier), publicIdentifier };
+};
+
+/**
+ * Parse any form a profile reference comes in: profile URLs (with or without
+ * scheme, mobile, locale subdomain, query string, /details/ subpages), Sales
+ * Navigator lead URLs and member URNs. Returns null for anything else.
+ */
+export const parseProfileIdentity = (input: string): ProfileIdentity | null => {
+  const value = input?.trim();
+  if (!value) return null;
+
+  if (/^urn:li:/i.test(value)) {
+    return identityFromId(value);
+  }
+
+  let url: URL;
+  try {
+    url = new URL(/^https?:\/\//i.test(value) ? value : `https://${value.replace(/^\/+/, '')}`);
+  } catch {
+    return null;
+  }
+
+  if (!LINKEDIN_HOST_PATTERN.test(url.hostname.replace(/^www\./i, ''))) return null;
+
+  let path: string;
+  try {
+    path = decodeURIComponent(url.pathname);
+  } catch {
+    return null;
+  }
+
+  const profile = path.match(/^\/(?:mwlite\/)?in\/([^/]+)/i);
+  if (profile) return identityFromId(profile[1]);
+
+  const salesLead = path.match(/^\/sales\/(?:lead|people)\/([^,/]+)/i);
+  if (salesLead) return identityFromId(salesLead[1]);
+
+  const legacyId = /^\/profile\/view\/?$/i.test(path) ? url.searchParams.get('id') : null;
+  if (legacyId) return identityFromId(legacyId);
+
+  return null;
+};
+
+/**
+ * Canonical profile URL for any supported input, or null when it is not a profile reference
+ */
+export const canonicalProfileUrl = (input: string): string | null => {
+  return parseProfileIdentity(input)?.profileUrl ?? null;
+};
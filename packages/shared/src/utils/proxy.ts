@@ -0,0 +1,41 @@
+import { ProxyServer } from '../types/database';
+
+export interface ProxyCredentials {
+  username: string;
+  password: string;
+}
+
+// What Chrome needs for one proxy: the --proxy-server value and the credentials for page.authenticate
+export interface ProxySettings {
+  server: string;
+  credentials?: ProxyCredentials;
+}
+
+export const proxySettingsFor = (proxy: ProxyServer): ProxySettings => ({
+  server: `${proxy.protocol}://${proxy.host}:${proxy.port}`,
+  credentials: proxy.username ? { username: proxy.username, password: proxy.password ?? '' } : undefined,
+});
+
+/**
+ * Split a proxy URL such as PROXY_URL or linkedin_accounts.proxy into its
+ * server and credentials. Chrome ignores credentials in --proxy-server, so
+ * they have to go through page.authenticate.
+ */
+export const parseProxyUrl = (value: string): ProxySettings => {
+  const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `http://${value}`;
+
+  let url: URL;
+  try {
+    url = new URL(withScheme);
+  } catch {
+    // Not a URL - hand it to Chrome unchanged, as before
+    return { server: value };
+  }
+
+  return {
+    server: `${url.protocol}//${url.host}`,
+    credentials: url.username
+      ? { username: decodeURIComponent(url.username), password: decodeURIComponent(url.password) }
+      : undefined,
+  };
+};
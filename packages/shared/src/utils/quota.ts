@@ -0,0 +1,59 @@
+import { ACCOUNT_QUOTAS } from './constants';
+import { LinkedInAccount } from '../types/database';
+
+export type AccountQuota = typeof ACCOUNT_QUOTAS[keyof typeof ACCOUNT_QUOTAS];
+
+export interface QuotaUsage {
+  key: string;
+  jobType: string;
+  windowMs: number;
+  limit: number;
+  used: number;
+  remaining: number;
+}
+
+// Job types that spend another type's quota
+const QUOTA_JOB_TYPE_ALIASES: Record<string, string> = {
+  reply_in_thread: 'message',
+};
+
+/**
+ * Quotas that apply to a job type (an invite counts against both the daily and weekly window)
+ */
+export const getQuotasForJobType = (jobType: string): AccountQuota[] => {
+  const quotaJobType = QUOTA_JOB_TYPE_ALIASES[jobType] ?? jobType;
+  return Object.values(ACCOUNT_QUOTAS).filter(quota => quota.jobType === quotaJobType);
+};
+
+export const getQuotaLimit = (account: Partial<LinkedInAccount>, quota: AccountQuota): number => {
+  const value = account[quota.limitColumn];
+  return typeof value === 'number' && value >= 0 ? value : quota.defaultLimit;
+};
+
+/**
+ * Redis sorted set holding an account's reservations for one quota window
+ */
+export const getQuotaRedisKey = (prefix: string, accountId: string, quotaKey: string): string =>
+  `${prefix}:quota:${accountId}:${quotaKey}`;
+
+/**
+ * Remaining capacity per quota. Live window counts by quota key take precedence
+ * over the counters the worker writes back, which go stale while an account is idle.
+ */
+export const getAccountQuotaUsage = (
+  account: Partial<LinkedInAccount>,
+  windowCounts: Record<string, number> = {}
+): QuotaUsage[] => {
+  return Object.values(ACCOUNT_QUOTAS).map(quota => {
+    const limit = getQuotaLimit(account, quota);
+    const used = windowCounts[quota.key] ?? (Number(account[quota.counterColumn]) || 0);
+    return {
+      key: quota.key,
+      jobType: quota.jobType,
+      windowMs: quota.windowMs,
+      limit,
+      used,
+      remaining: Math.max(0, limit - used),
+    };
+  });
+};
@@ -0,0 +1,145 @@
+import { SuppressionEntry, SuppressionType } from '../types/common';
+import { LinkedInProfile } from '../types/profile';
+import { canonicalProfileUrl } from './profileIdentity';
+import { parseCsv } from './csv';
+import { SUPPRESSION_TYPES, SUPPRESSION_DEFAULTS } from './constants';
+
+// What is known about a profile when it is checked against a suppression list
+export interface SuppressionTarget {
+  profileUrls: string[]; // every known reference of the profile (vanity, member id, Sales Navigator)
+  name?: string;
+  headline?: string;
+  companies?: string[]; // names and URNs of the current employers
+  titles?: string[];
+}
+
+export interface SuppressionCsvRow {
+  line: number;
+  type: SuppressionType;
+  value: string;
+  reason?: string;
+}
+
+const COMPANY_ID_PATTERNS = [
+  /^urn:li:(?:fsd_company|company|organization):(\d+)$/i,
+  /linkedin\.com\/company\/(\d+)(?:[/?#]|$)/i,
+];
+
+const normalizeText = (value: string): string =>
+  value.toLowerCase().replace(/[.,;:!?()"]/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * urn:li:company:<id> for a company URN in any namespace or a numeric /company/<id>/ URL
+ */
+export const companyUrnFromReference = (reference: string): string | null => {
+  const trimmed = reference.trim();
+  for (const pattern of COMPANY_ID_PATTERNS) {
+    const id = trimmed.match(pattern)?.[1];
+    if (id) return `urn:li:company:${id}`;
+  }
+  return null;
+};
+
+/**
+ * Stored form of a suppression value, or null when it cannot be used
+ */
+export const normalizeSuppressionValue = (type: SuppressionType, value: string): string | null => {
+  switch (type) {
+    case 'profile':
+      return canonicalProfileUrl(value);
+    case 'company':
+      return companyUrnFromReference(value) || normalizeText(value) || null;
+    case 'keyword':
+      return normalizeText(value) || null;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Company and keyword entries need the profile's name, headline and positions;
+ * profile entries are matched on the reference alone.
+ */
+export const needsProfileData = (entries: SuppressionEntry[]): boolean =>
+  entries.some(entry => entry.type !== 'profile');
+
+export const suppressionTargetFromProfile = (profile: LinkedInProfile, profileUrls: string[]): SuppressionTarget => {
+  const positions = profile.currentPositions?.value || [];
+  return {
+    profileUrls,
+    name: profile.name?.value,
+    headline: profile.headline?.value,
+    companies: positions.flatMap(position => [position.company, position.companyUrn].filter((c): c is string => !!c)),
+    titles: positions.map(position => position.title),
+  };
+};
+
+/**
+ * First entry that matches the target. Company names also match as whole
+ * words in the headline ("CEO at Acme"); keywords match anywhere in the
+ * name, headline, current titles and employers.
+ */
+export const findSuppressionMatch = (entries: SuppressionEntry[], target: SuppressionTarget): SuppressionEntry | null => {
+  const profileUrls = new Set(target.profileUrls.map(url => canonicalProfileUrl(url)).filter(Boolean));
+  const companies = new Set((target.companies || []).map(company => companyUrnFromReference(company) || normalizeText(company)));
+  const headline = ` ${normalizeText(target.headline || '')} `;
+  const texts = [target.name, target.headline, ...(target.companies || []), ...(target.titles || [])]
+    .filter((text): text is string => !!text)
+    .map(normalizeText);
+
+  for (const entry of entries) {
+    switch (entry.type) {
+      case 'profile':
+        if (profileUrls.has(entry.value)) return entry;
+        break;
+      case 'company':
+        if (companies.has(entry.value) || headline.includes(` ${entry.value} `)) return entry;
+        break;
+      case 'keyword':
+        if (texts.some(text => text.includes(entry.value))) return entry;
+        break;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Read a suppression CSV with the columns type, value and an optional reason.
+ * A header row is optional; records that cannot be used are returned as
+ * errors with their 1-based record number (blank lines are not counted).
+ */
+export const parseSuppressionCsv = (text: string): { rows: SuppressionCsvRow[]; errors: Array<{ line: number; error: string }> } => {
+  const records = parseCsv(text);
+  const rows: SuppressionCsvRow[] = [];
+  const errors: Array<{ line: number; error: string }> = [];
+
+  let columns = { type: 0, value: 1, reason: 2 };
+  const header = records[0]?.map(cell => cell.toLowerCase());
+  const hasHeader = !!header && header.includes('type') && header.includes('value');
+  if (hasHeader) {
+    columns = { type: header.indexOf('type'), value: header.indexOf('value'), reason: header.indexOf('reason') };
+    records.shift();
+  }
+
+  records.forEach((record, index) => {
+    const line = index + (hasHeader ? 2 : 1);
+    const type = record[columns.type]?.toLowerCase() as SuppressionType;
+    const raw = record[columns.value] || '';
+
+    if (!(SUPPRESSION_TYPES as readonly string[]).includes(type)) {
+      errors.push({ line, error: `Unknown type "${record[columns.type] || ''}" (expected ${SUPPRESSION_TYPES.join(', ')})` });
+      return;
+    }
+
+    const value = raw.length <= SUPPRESSION_DEFAULTS.MAX_VALUE_LENGTH ? normalizeSuppressionValue(type, raw) : null;
+    if (!value) {
+      errors.push({ line, error: `Invalid ${type} value "${raw.slice(0, 100)}"` });
+      return;
+    }
+
+    rows.push({ line, type, value, reason: (columns.reason >= 0 && record[columns.reason]) || undefined });
+  });
+
+  return { rows, errors };
+};
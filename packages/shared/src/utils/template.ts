@@ -0,0 +1,118 @@
+// Variables that can be used in invitation notes and messages, e.g. "Hi {{firstName}}"
+// or "{{company|your team}}" to fall back when the profile has no value.
+export const TEMPLATE_VARIABLES = [
+  'firstName',
+  'lastName',
+  'fullName',
+  'headline',
+  'company',
+  'position',
+  'location',
+] as const;
+
+export type TemplateVariable = typeof TEMPLATE_VARIABLES[number];
+
+export type TemplateVariables = Partial<Record<TemplateVariable, string>>;
+
+const TEMPLATE_PATTERN = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*(?:\|([^}]*))?\}\}/g;
+
+export const hasTemplateVariables = (template: string): boolean => {
+  return new RegExp(TEMPLATE_PATTERN.source).test(template);
+};
+
+export const extractTemplateVariables = (template: string): string[] => {
+  const names = new Set<string>();
+  for (const match of template.matchAll(TEMPLATE_PATTERN)) {
+    names.add(match[1]);
+  }
+  return Array.from(names);
+};
+
+export const findUnknownTemplateVariables = (template: string): string[] => {
+  return extractTemplateVariables(template)
+    .filter(name => !(TEMPLATE_VARIABLES as readonly string[]).includes(name));
+};
+
+/**
+ * Raised when a rendered note or message is over LinkedIn's length limit.
+ * Retrying renders the same text, so the job fails right away.
+ */
+export class RenderedTextTooLongError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RenderedTextTooLongError';
+  }
+}
+
+/**
+ * Replace every {{variable}} / {{variable|fallback}} with its value.
+ * Throws when a variable has neither a value nor a fallback, so a message
+ * is never sent with a hole in it.
+ */
+export const renderTemplate = (template: string, variables: TemplateVariables): string => {
+  return template.replace(TEMPLATE_PATTERN, (_match, name: string, fallback?: string) => {
+    const value = variables[name as TemplateVariable]?.trim();
+    if (value) {
+      return value;
+    }
+    if (fallback !== undefined) {
+      return fallback.trim();
+    }
+    throw new Error(`Template variable "${name}" has no value for this profile and no fallback`);
+  });
+};
+
+/**
+ * Replace only the variables given (e.g. columns of an imported CSV row) and
+ * leave the rest for renderTemplate. An empty value uses the fallback; without
+ * one, profile variables stay in place to be read from the profile and any
+ * other variable is an error.
+ */
+export const fillTemplateVariables = (template: string, variables: Record<string, string>): string => {
+  return template.replace(TEMPLATE_PATTERN, (match, name: string, fallback?: string) => {
+    if (!(name in variables)) {
+      return match;
+    }
+    const value = variables[name]?.trim();
+    if (value) {
+      return value;
+    }
+    if (fallback !== undefined) {
+      return fallback.trim();
+    }
+    if ((TEMPLATE_VARIABLES as readonly string[]).includes(name)) {
+      return match;
+    }
+    throw new Error(`Template variable "${name}" has no value and no fallback`);
+  });
+};
+
+/**
+ * Derive template variables from the profile data extracted by viewProfile
+ */
+export const buildTemplateVariables = (profile: {
+  name?: string;
+  headline?: string;
+  location?: string;
+  company?: string;
+  position?: string;
+}): TemplateVariables => {
+  const fullName = (profile.name || '').replace(/\s+/g, ' ').trim();
+  const [firstName = '', ...rest] = fullName.split(' ');
+  const headline = (profile.headline || '').trim();
+
+  // Headlines are usually "Position at Company" (or "bei" / "@" on German profiles)
+  const headlineParts = headline.split(/\s+(?:at|bei|@)\s+/i);
+  const position = profile.position || (headlineParts.length > 1 ? headlineParts[0].trim() : '');
+  const company = profile.company || (headlineParts.length > 1 ? headlineParts[1].split(/[|,·]/)[0].trim() : '');
+
+  return {
+    firstName,
+    lastName: rest.join(' '),
+    fullName,
+    headline,
+    company,
+    position,
+    location: (profile.location || '').trim(),
+  };
+};
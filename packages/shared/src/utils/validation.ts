@@ -1,11 +1,44 @@
 import Joi from 'joi';
+import { findUnknownTemplateVariables, TEMPLATE_VARIABLES } from './template';
+import { canonicalProfileUrl } from './profileIdentity';
+import { normalizeSuppressionValue } from './suppression';
+import { INVITE_NOTE_MAX_LENGTH, MESSAGE_MAX_LENGTH, CAMPAIGN_DEFAULTS, MAX_CONNECTION_CHECKS_PER_JOB, MAX_WITHDRAWALS_PER_JOB, SEARCH_SCRAPE_DEFAULTS, SUPPRESSION_TYPES, SUPPRESSION_DEFAULTS, LEAD_STATUS, LEAD_DEFAULTS, PROFILE_JOB_TYPES, JOB_STATUS, JOB_EXPORT_FORMATS, IDEMPOTENCY_DEFAULTS, JOB_LIST_DEFAULTS, PROXY_PROTOCOLS, PROXY_STATUS } from './constants';
+
+// Notes and messages may contain {{variable}} placeholders; reject unknown ones at enqueue time
+const templateString = Joi.string().custom((value: string, helpers) => {
+  const unknown = findUnknownTemplateVariables(value);
+  if (unknown.length > 0) {
+    return helpers.message({
+      custom: `"${helpers.state.path?.join('.')}" uses unknown template variable(s): ${unknown.join(', ')}. Allowed: ${TEMPLATE_VARIABLES.join(', ')}`,
+    });
+  }
+  return value;
+});
+
+const idempotencyKey = Joi.string().trim().min(1).max(IDEMPOTENCY_DEFAULTS.MAX_KEY_LENGTH);
+
+const jobTags = Joi.array().items(Joi.string().trim().min(1).max(100)).max(JOB_LIST_DEFAULTS.MAX_TAGS);
+
+// Profiles may be given in any URL or URN form; jobs are stored and keyed by the canonical URL
+const profileReference = Joi.string().custom((value: string, helpers) => {
+  const profileUrl = canonicalProfileUrl(value);
+  if (!profileUrl) {
+    return helpers.message({
+      custom: `"${helpers.state.path?.join('.')}" must be a LinkedIn profile URL, Sales Navigator lead URL or member URN`,
+    });
+  }
+  return profileUrl;
+});
 
 export const inviteJobSchema = Joi.object({
   type: Joi.string().valid('invite').required(),
-  profileUrl: Joi.string().uri().required(),
-  note: Joi.string().max(300).optional(),
+  profileUrl: profileReference.required(),
+  note: templateString.max(INVITE_NOTE_MAX_LENGTH).optional(),
+  duplicatePolicy: Joi.string().valid('skip', 'allow', 'fail').optional(),
   accountId: Joi.string().uuid().optional(),
   workflowId: Joi.string().optional(),
+  idempotencyKey: idempotencyKey.optional(),
+  tags: jobTags.optional(),
   n8nWebhookUrl: Joi.string().uri().optional(),
   priority: Joi.number().min(1).max(10).optional(),
   delay: Joi.number().min(0).optional(),
@@ -13,10 +46,13 @@ export const inviteJobSchema = Joi.object({
 
 export const messageJobSchema = Joi.object({
   type: Joi.string().valid('message').required(),
-  profileUrl: Joi.string().uri().required(),
-  message: Joi.string().min(1).max(8000).required(),
+  profileUrl: profileReference.required(),
+  message: templateString.min(1).max(MESSAGE_MAX_LENGTH).required(),
+  duplicatePolicy: Joi.string().valid('skip', 'allow', 'fail').optional(),
   accountId: Joi.string().uuid().optional(),
   workflowId: Joi.string().optional(),
+  idempotencyKey: idempotencyKey.optional(),
+  tags: jobTags.optional(),
   n8nWebhookUrl: Joi.string().uri().optional(),
   priority: Joi.number().min(1).max(10).optional(),
   delay: Joi.number().min(0).optional(),
@@ -24,26 +60,308 @@ export const messageJobSchema = Joi.object({
 
 export const profileViewJobSchema = Joi.object({
   type: Joi.string().valid('profile_view').required(),
-  profileUrl: Joi.string().uri().required(),
+  profileUrl: profileReference.required(),
   accountId: Joi.string().uuid().optional(),
   workflowId: Joi.string().optional(),
+  idempotencyKey: idempotencyKey.optional(),
+  tags: jobTags.optional(),
   n8nWebhookUrl: Joi.string().uri().optional(),
   priority: Joi.number().min(1).max(10).optional(),
   delay: Joi.number().min(0).optional(),
 });
 
-export const linkedInJobSchema = Joi.alternatives().try(
-  inviteJobSchema,
-  messageJobSchema,
-  profileViewJobSchema
-);
+export const checkConnectionJobSchema = Joi.object({
+  type: Joi.string().valid('check_connection').required(),
+  profileUrl: profileReference,
+  profileUrls: Joi.array().items(profileReference).min(1).max(MAX_CONNECTION_CHECKS_PER_JOB),
+  accountId: Joi.string().uuid().optional(),
+  workflowId: Joi.string().optional(),
+  idempotencyKey: idempotencyKey.optional(),
+  tags: jobTags.optional(),
+  n8nWebhookUrl: Joi.string().uri().optional(),
+  priority: Joi.number().min(1).max(10).optional(),
+  delay: Joi.number().min(0).optional(),
+}).xor('profileUrl', 'profileUrls');
+
+export const withdrawInvitationJobSchema = Joi.object({
+  type: Joi.string().valid('withdraw_invitation').required(),
+  profileUrl: profileReference,
+  olderThanDays: Joi.number().integer().min(1).max(365),
+  maxWithdrawals: Joi.number().integer().min(1).max(MAX_WITHDRAWALS_PER_JOB).optional(),
+  accountId: Joi.string().uuid().optional(),
+  workflowId: Joi.string().optional(),
+  idempotencyKey: idempotencyKey.optional(),
+  tags: jobTags.optional(),
+  n8nWebhookUrl: Joi.string().uri().optional(),
+  priority: Joi.number().min(1).max(10).optional(),
+  delay: Joi.number().min(0).optional(),
+}).xor('profileUrl', 'olderThanDays');
+
+export const syncInboxJobSchema = Joi.object({
+  type: Joi.string().valid('sync_inbox').required(),
+  maxThreads: Joi.number().integer().min(1).max(100).optional(),
+  accountId: Joi.string().uuid().optional(),
+  workflowId: Joi.string().optional(),
+  idempotencyKey: idempotencyKey.optional(),
+  tags: jobTags.optional(),
+  n8nWebhookUrl: Joi.string().uri().optional(),
+  priority: Joi.number().min(1).max(10).optional(),
+  delay: Joi.number().min(0).optional(),
+});
 
+// Thread replies have no profile to render template variables from, so the text is sent as-is
+export const replyInThreadJobSchema = Joi.object({
+  type: Joi.string().valid('reply_in_thread').required(),
+  threadUrn: Joi.string().pattern(/^urn:li:messagingThread:.+/),
+  threadUrl: Joi.string().uri().pattern(/\/messaging\/thread\//),
+  message: Joi.string().min(1).max(MESSAGE_MAX_LENGTH).required(),
+  accountId: Joi.string().uuid().optional(),
+  workflowId: Joi.string().optional(),
+  idempotencyKey: idempotencyKey.optional(),
+  tags: jobTags.optional(),
+  n8nWebhookUrl: Joi.string().uri().optional(),
+  priority: Joi.number().min(1).max(10).optional(),
+  delay: Joi.number().min(0).optional(),
+}).xor('threadUrn', 'threadUrl');
+
+export const searchScrapeJobSchema = Joi.object({
+  type: Joi.string().valid('search_scrape').required(),
+  searchUrl: Joi.string().uri().pattern(/linkedin\.com\/search\/results\/people/).required(),
+  maxResults: Joi.number().integer().min(1).max(SEARCH_SCRAPE_DEFAULTS.MAX_RESULTS_LIMIT).optional(),
+  accountId: Joi.string().uuid().optional(),
+  workflowId: Joi.string().optional(),
+  idempotencyKey: idempotencyKey.optional(),
+  tags: jobTags.optional(),
+  n8nWebhookUrl: Joi.string().uri().optional(),
+  priority: Joi.number().min(1).max(10).optional(),
+  delay: Joi.number().min(0).optional(),
+});
+
+// Switch on the job type so validation errors name the offending field
+// instead of "does not match any of the allowed types"
+const jobSchemasByType = {
+  invite: inviteJobSchema,
+  message: messageJobSchema,
+  profile_view: profileViewJobSchema,
+  check_connection: checkConnectionJobSchema,
+  withdraw_invitation: withdrawInvitationJobSchema,
+  sync_inbox: syncInboxJobSchema,
+  reply_in_thread: replyInThreadJobSchema,
+  search_scrape: searchScrapeJobSchema,
+};
+
+export const linkedInJobSchema = Joi.alternatives().conditional('.type', {
+  switch: Object.entries(jobSchemasByType).map(([type, schema]) => ({ is: type, then: schema })),
+  otherwise: Joi.object({
+    type: Joi.string().valid(...Object.keys(jobSchemasByType)).required(),
+  }).unknown(),
+});
+
+// Templates are validated as a job for a stand-in profile; each lead's job is validated again when created
+const LIST_TEMPLATE_PROFILE_URL = 'https://www.linkedin.com/in/list-member/';
+
+const listJobTemplateSchema = Joi.object({
+  type: Joi.string().valid(...PROFILE_JOB_TYPES).required(),
+  profileUrl: Joi.forbidden(),
+  profileUrls: Joi.forbidden(),
+}).unknown().custom((job, helpers) => {
+  const { error } = linkedInJobSchema.validate({ ...job, profileUrl: LIST_TEMPLATE_PROFILE_URL });
+  if (error) {
+    return helpers.message({ custom: `"job" is not a valid job template: ${error.details[0].message}` });
+  }
+  return job;
+});
+
+const leadStatusSchema = Joi.string().valid(...Object.values(LEAD_STATUS));
+
+// Either inline jobs, or one job template run for the leads of a list
 export const bulkJobSchema = Joi.object({
-  jobs: Joi.array().items(linkedInJobSchema).min(1).max(100).required(),
+  jobs: Joi.array().items(linkedInJobSchema).min(1).max(100),
+  listId: Joi.string().uuid(),
+  job: listJobTemplateSchema,
+  leadStatus: Joi.array().items(leadStatusSchema).min(1).optional(),
   workflowId: Joi.string().optional(),
   n8nWebhookUrl: Joi.string().uri().optional(),
+}).xor('jobs', 'listId').with('listId', 'job').without('jobs', ['job', 'leadStatus']);
+
+export const campaignStepSchema = Joi.object({
+  type: Joi.string().valid('profile_view', 'invite', 'wait_for_acceptance', 'message', 'follow_up').required(),
+  delayMs: Joi.number().min(0).optional(),
+  delayDays: Joi.number().min(0).max(365).optional(),
+  note: Joi.when('type', {
+    is: 'invite',
+    then: templateString.max(INVITE_NOTE_MAX_LENGTH).optional(),
+    otherwise: Joi.forbidden(),
+  }),
+  message: Joi.when('type', {
+    is: Joi.valid('message', 'follow_up'),
+    then: templateString.min(1).max(MESSAGE_MAX_LENGTH).required(),
+    otherwise: Joi.forbidden(),
+  }),
+  conditions: Joi.array().items(Joi.string().valid('stop_if_replied', 'skip_if_connected')).unique().optional(),
+  timeoutDays: Joi.when('type', {
+    is: 'wait_for_acceptance',
+    then: Joi.number().min(1).max(90).optional(),
+    otherwise: Joi.forbidden(),
+  }),
+}).oxor('delayMs', 'delayDays');
+
+export const campaignSchema = Joi.object({
+  name: Joi.string().min(1).max(200).required(),
+  accountId: Joi.string().uuid().optional(),
+  steps: Joi.array().items(campaignStepSchema).min(1).max(20).required(),
+  n8nWebhookUrl: Joi.string().uri().optional(),
+});
+
+export const campaignEnrollmentSchema = Joi.object({
+  profileUrls: Joi.array().items(profileReference).min(1).max(CAMPAIGN_DEFAULTS.MAX_ENROLLMENTS_PER_REQUEST).required(),
+});
+
+export const campaignEnrollmentEventSchema = Joi.object({
+  event: Joi.string().valid('connected', 'replied').required(),
+});
+
+// Values are stored normalized so the worker can compare them directly
+const suppressionEntrySchema = Joi.object({
+  type: Joi.string().valid(...SUPPRESSION_TYPES).required(),
+  value: Joi.string().max(SUPPRESSION_DEFAULTS.MAX_VALUE_LENGTH).required(),
+  reason: Joi.string().max(500).optional(),
+}).custom((entry, helpers) => {
+  const value = normalizeSuppressionValue(entry.type, entry.value);
+  if (!value) {
+    return helpers.message({
+      custom: `"${helpers.state.path?.join('.')}.value" is not a valid ${entry.type} suppression value`,
+    });
+  }
+  return { ...entry, value };
+});
+
+export const suppressionEntriesSchema = Joi.object({
+  entries: Joi.array().items(suppressionEntrySchema).min(1).max(SUPPRESSION_DEFAULTS.MAX_ENTRIES_PER_REQUEST).required(),
+});
+
+// Query parameters of the job history export; type and status may be repeated
+export const jobExportQuerySchema = Joi.object({
+  format: Joi.string().valid(...JOB_EXPORT_FORMATS).default('csv'),
+  workflowRunId: Joi.string().uuid().optional(),
+  type: Joi.array().items(Joi.string().valid(...Object.keys(jobSchemasByType))).single().optional(),
+  status: Joi.array().items(Joi.string().valid(...Object.values(JOB_STATUS))).single().optional(),
+  from: Joi.date().iso().optional(),
+  to: Joi.date().iso().min(Joi.ref('from')).optional(),
+});
+
+// Query parameters of the job listing; type and status may be repeated
+export const jobListQuerySchema = Joi.object({
+  type: Joi.array().items(Joi.string().valid(...Object.keys(jobSchemasByType))).single().optional(),
+  status: Joi.array().items(Joi.string().valid(...Object.values(JOB_STATUS))).single().optional(),
+  accountId: Joi.string().uuid().optional(),
+  workflowRunId: Joi.string().uuid().optional(),
+  profileUrl: profileReference.optional(),
+  tag: Joi.string().trim().min(1).max(100).optional(),
+  createdFrom: Joi.date().iso().optional(),
+  createdTo: Joi.date().iso().optional(),
+  completedFrom: Joi.date().iso().optional(),
+  completedTo: Joi.date().iso().optional(),
+  limit: Joi.number().integer().min(1).max(JOB_LIST_DEFAULTS.MAX_LIMIT).default(JOB_LIST_DEFAULTS.DEFAULT_LIMIT),
+  cursor: Joi.string().max(500).optional(),
+});
+
+export const jobStatusBatchSchema = Joi.object({
+  jobIds: Joi.array().items(Joi.string().uuid()).min(1).max(JOB_LIST_DEFAULTS.MAX_STATUS_BATCH).unique().required(),
+});
+
+export const jobRetrySchema = Joi.object({
+  force: Joi.boolean().default(false),
+});
+
+// New queue options for a waiting or delayed job; runAt is an absolute alternative to delay
+export const jobUpdateSchema = Joi.object({
+  priority: Joi.number().min(1).max(10).optional(),
+  delay: Joi.number().min(0).optional(),
+  runAt: Joi.date().iso().optional(),
+}).or('priority', 'delay', 'runAt').oxor('delay', 'runAt');
+
+const csvColumn = Joi.string().trim().min(1).max(200);
+
+// Multipart form fields of a CSV import; mapping values are CSV column headers.
+// Note and message templates are checked per row once the row's variables are filled in.
+export const csvImportSchema = Joi.object({
+  type: Joi.string().valid(...PROFILE_JOB_TYPES).required(),
+  mapping: Joi.object({
+    profileUrl: csvColumn.required(),
+    note: csvColumn.optional(),
+    message: csvColumn.optional(),
+    accountId: csvColumn.optional(),
+    variables: Joi.object().pattern(/^[A-Za-z][A-Za-z0-9_]*$/, csvColumn).optional(),
+  }).required(),
+  note: Joi.string().max(5000).optional(),
+  message: Joi.string().max(20000).optional(),
+  accountId: Joi.string().uuid().optional(),
+  duplicatePolicy: Joi.string().valid('skip', 'allow', 'fail').optional(),
+  priority: Joi.number().min(1).max(10).optional(),
+  workflowId: Joi.string().optional(),
+  n8nWebhookUrl: Joi.string().uri().optional(),
+});
+
+const proxyFields = {
+  host: Joi.string().hostname(),
+  port: Joi.number().integer().min(1).max(65535),
+  protocol: Joi.string().valid(...PROXY_PROTOCOLS),
+  username: Joi.string().max(255).allow(null),
+  password: Joi.string().max(255).allow(null),
+  region: Joi.string().max(100).allow(null),
+};
+
+export const proxySchema = Joi.object({
+  ...proxyFields,
+  host: proxyFields.host.required(),
+  port: proxyFields.port.required(),
+  protocol: proxyFields.protocol.default('http'),
+});
+
+// Only the health check marks a proxy failed
+export const proxyUpdateSchema = Joi.object({
+  ...proxyFields,
+  status: Joi.string().valid(PROXY_STATUS.ACTIVE, PROXY_STATUS.DISABLED),
+}).min(1);
+
+export const accountProxySchema = Joi.object({
+  proxyId: Joi.string().uuid().allow(null).required(),
+});
+
+const leadFields = {
+  name: Joi.string().max(200).allow(null),
+  headline: Joi.string().max(500).allow(null),
+  location: Joi.string().max(200).allow(null),
+  company: Joi.string().max(200).allow(null),
+  status: leadStatusSchema,
+  tags: Joi.array().items(Joi.string().trim().min(1).max(100)).max(LEAD_DEFAULTS.MAX_TAGS),
+  ownerAccountId: Joi.string().uuid().allow(null),
+  enrichment: Joi.object().unknown(),
+};
+
+export const leadSchema = Joi.object({
+  profileUrl: profileReference.required(),
+  ...leadFields,
+});
+
+export const leadImportSchema = Joi.object({
+  leads: Joi.array().items(leadSchema).min(1).max(LEAD_DEFAULTS.MAX_LEADS_PER_REQUEST).required(),
+  listId: Joi.string().uuid().optional(),
 });
 
+export const leadUpdateSchema = Joi.object(leadFields).min(1);
+
+export const leadListSchema = Joi.object({
+  name: Joi.string().min(1).max(200).required(),
+  description: Joi.string().max(1000).allow(null).optional(),
+});
+
+export const leadListMembersSchema = Joi.object({
+  leadIds: Joi.array().items(Joi.string().uuid()).min(1).max(LEAD_DEFAULTS.MAX_LEADS_PER_REQUEST),
+  profileUrls: Joi.array().items(profileReference).min(1).max(LEAD_DEFAULTS.MAX_LEADS_PER_REQUEST),
+}).or('leadIds', 'profileUrls');
+
 export const validateJobData = (data: any) => {
   const { error, value } = linkedInJobSchema.validate(data);
   if (error) {
@@ -58,4 +376,158 @@ export const validateBulkJobData = (data: any) => {
     throw new Error(`Validation error: ${error.details[0].message}`);
   }
   return value;
-};
\ No newline at end of file
+};
+
+export const validateCampaignData = (data: any) => {
+  const { error, value } = campaignSchema.validate(data);
+  if (error) {
+    throw new Error(`Validation error: ${error.details[0].message}`);
+  }
+  return value;
+};
+
+export const validateCampaignEnrollmentData = (data: any) => {
+  const { error, value } = campaignEnrollmentSchema.validate(data);
+  if (error) {
+    throw new Error(`Validation error: ${error.details[0].message}`);
+  }
+  return value;
+};
+
+export const validateCampaignEnrollmentEvent = (data: any) => {
+  const { error, value } = campaignEnrollmentEventSchema.validate(data);
+  if (error) {
+    throw new Error(`Validation error: ${error.details[0].message}`);
+  }
+  return value;
+};
+
+export const validateSuppressionEntries = (data: any) => {
+  const { error, value } = suppressionEntriesSchema.validate(data);
+  if (error) {
+    throw new Error(`Validation error: ${error.details[0].message}`);
+  }
+  return value;
+};
+
+export const validateProxyData = (data: any) => {
+  const { error, value } = proxySchema.validate(data);
+  if (error) {
+    throw new Error(`Validation error: ${error.details[0].message}`);
+  }
+  return value;
+};
+
+export const validateProxyUpdateData = (data: any) => {
+  const { error, value } = proxyUpdateSchema.validate(data);
+  if (error) {
+    throw new Error(`Validation error: ${error.details[0].message}`);
+  }
+  return value;
+};
+
+export const validateAccountProxyData = (data: any) => {
+  const { error, value } = accountProxySchema.validate(data);
+  if (error) {
+    throw new Error(`Validation error: ${error.details[0].message}`);
+  }
+  return value;
+};
+
+export const validateLeadData = (data: any) => {
+  const { error, value } = leadSchema.validate(data);
+  if (error) {
+    throw new Error(`Validation error: ${error.details[0].message}`);
+  }
+  return value;
+};
+
+export const validateLeadImportData = (data: any) => {
+  const { error, value } = leadImportSchema.validate(data);
+  if (error) {
+    throw new Error(`Validation error: ${error.details[0].message}`);
+  }
+  return value;
+};
+
+export const validateLeadUpdateData = (data: any) => {
+  const { error, value } = leadUpdateSchema.validate(data);
+  if (error) {
+    throw new Error(`Validation error: ${error.details[0].message}`);
+  }
+  return value;
+};
+
+export const validateLeadListData = (data: any) => {
+  const { error, value } = leadListSchema.validate(data);
+  if (error) {
+    throw new Error(`Validation error: ${error.details[0].message}`);
+  }
+  return value;
+};
+
+export const validateLeadListMembersData = (data: any) => {
+  const { error, value } = leadListMembersSchema.validate(data);
+  if (error) {
+    throw new Error(`Validation error: ${error.details[0].message}`);
+  }
+  return value;
+};
+
+export const validateCsvImportData = (data: any) => {
+  // Multipart forms send the mapping as a JSON string
+  let mapping = data?.mapping;
+  if (typeof mapping === 'string') {
+    try {
+      mapping = JSON.parse(mapping);
+    } catch {
+      throw new Error('Validation error: "mapping" must be a JSON object');
+    }
+  }
+
+  const { error, value } = csvImportSchema.validate({ ...data, mapping });
+  if (error) {
+    throw new Error(`Validation error: ${error.details[0].message}`);
+  }
+  return value;
+};
+
+export const validateJobExportQuery = (data: any) => {
+  const { error, value } = jobExportQuerySchema.validate(data);
+  if (error) {
+    throw new Error(`Validation error: ${error.details[0].message}`);
+  }
+  return value;
+};
+
+export const validateJobListQuery = (data: any) => {
+  const { error, value } = jobListQuerySchema.validate(data);
+  if (error) {
+    throw new Error(`Validation error: ${error.details[0].message}`);
+  }
+  return value;
+};
+
+export const validateJobStatusBatchData = (data: any) => {
+  const { error, value } = jobStatusBatchSchema.validate(data);
+  if (error) {
+    throw new Error(`Validation error: ${error.details[0].message}`);
+  }
+  return value;
+};
+
+export const validateJobRetryData = (data: any) => {
+  const { error, value } = jobRetrySchema.validate(data ?? {});
+  if (error) {
+    throw new Error(`Validation error: ${error.details[0].message}`);
+  }
+  return value;
+};
+
+export const validateJobUpdateData = (data: any) => {
+  const { error, value } = jobUpdateSchema.validate(data);
+  if (error) {
+    throw new Error(`Validation error: ${error.details[0].message}`);
+  }
+  return value;
+};
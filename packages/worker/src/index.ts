@@ -1,6 +1,6 @@
 import { Worker } from 'bullmq';
 import { config } from 'dotenv';
-import { processJob } from '@linkedin-bot-suite/bot-core';
+import { processJob, closeBrowserPool } from '@linkedin-bot-suite/bot-core';
 import { LinkedInJob } from '@linkedin-bot-suite/shared';
 import fetch from 'node-fetch';
 import Redis from 'ioredis';
@@ -34,11 +34,16 @@ console.log(`Starting LinkedIn Bot Worker...`);
 console.log(`Queue: ${queueName}`);
 console.log(`Concurrency: ${concurrency}`);
 
-// Validate cookies at startup
+// Validate global cookies at startup. Jobs with an accountId load their own
+// session from linkedin_accounts, so a bad global session must not stop the worker.
 (async () => {
+  if (!process.env.LINKEDIN_COOKIES_JSON) {
+    console.log('ℹ️ LINKEDIN_COOKIES_JSON not set - only jobs with an accountId can be processed');
+    return;
+  }
   if (!(await validateCookies())) {
-    console.error('❌ LinkedIn cookies invalid at startup – exiting.');
-    process.exit(1);
+    console.error('⚠️ Global LinkedIn cookies invalid at startup – jobs without an accountId will fail until they are refreshed');
+    return;
   }
   console.log('✅ LinkedIn cookies validated successfully at startup');
 })();
@@ -248,7 +253,7 @@ let isShuttingDown = false;
 worker.on('active', (job) => {
   activeJobs++;
   healthCheckStats.jobsProcessed++;
-  console.log(`Processing job ${job.id}: ${job.data.type} - ${job.data.profileUrl} (Active: ${activeJobs})`);
+  console.log(`Processing job ${job.id}: ${job.data.type} - ${('profileUrl' in job.data && job.data.profileUrl) || 'no profile'} (Active: ${activeJobs})`);
 });
 
 worker.on('completed', (job, result) => {
@@ -307,6 +312,9 @@ async function gracefulShutdown(signal: string) {
     await worker.close();
     console.log('Worker closed successfully');
     
+    // Close the warm per-account browsers; their profiles stay on disk
+    await closeBrowserPool();
+    
     // Clean shutdown
     clearTimeout(shutdownTimeout);
     console.log('Graceful shutdown completed');
@@ -7,7 +7,12 @@ create table if not exists public.linkedin_accounts (
   cookies_url text not null,
   proxy text,
   daily_limit int default 50,
+  weekly_invite_limit int default 100,
+  daily_message_limit int default 100,
+  daily_profile_view_limit int default 80,
+  -- Rolling-window usage, written back by the worker after each successful action
   invites_sent int default 0,
+  invites_sent_week int default 0,
   messages_sent int default 0,
   profile_views int default 0,
   last_activity_at timestamptz,
@@ -16,6 +21,28 @@ create table if not exists public.linkedin_accounts (
   updated_at timestamptz default now()
 );
 
+-- Table: proxies (per-client proxy registry; accounts keep the one they are assigned)
+create table if not exists public.proxies (
+  id uuid primary key default gen_random_uuid(),
+  client_slug text not null,
+  host text not null,
+  port int not null check (port between 1 and 65535),
+  protocol text not null default 'http' check (protocol in ('http', 'https')),
+  username text,
+  password text,
+  region text,
+  status text not null default 'active' check (status in ('active', 'failed', 'disabled')),
+  consecutive_failures int not null default 0,
+  last_checked_at timestamptz,
+  last_error text,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+-- Sticky proxy assignment; accounts whose proxy is deleted get a new one on their next job
+alter table public.linkedin_accounts
+  add column if not exists proxy_id uuid references public.proxies(id) on delete set null;
+
 -- Table: outreach_logs (enhanced)
 create table if not exists public.outreach_logs (
   id bigserial primary key,
@@ -43,6 +70,7 @@ create table if not exists public.api_keys (
 -- Table: workflow_runs (new)
 create table if not exists public.workflow_runs (
   id uuid primary key default gen_random_uuid(),
+  client_slug text, -- null for runs recorded before runs were stored per client
   workflow_id text not null,
   n8n_execution_id text,
   status text default 'pending' check (status in ('pending', 'running', 'completed', 'failed')),
@@ -57,30 +85,260 @@ create table if not exists public.workflow_runs (
 -- Table: job_history (new)
 create table if not exists public.job_history (
   id uuid primary key default gen_random_uuid(),
+  client_slug text, -- null for rows recorded before jobs were stored per client
   workflow_run_id uuid references public.workflow_runs(id),
-  job_type text not null check (job_type in ('invite', 'message', 'profile_view')),
+  job_type text not null check (job_type in ('invite', 'message', 'profile_view', 'check_connection', 'withdraw_invitation', 'sync_inbox', 'reply_in_thread', 'search_scrape')),
   job_data jsonb not null,
-  status text default 'pending' check (status in ('pending', 'processing', 'completed', 'failed', 'retry')),
-  attempts int default 0,
+  status text default 'pending' check (status in ('pending', 'processing', 'completed', 'failed', 'retry', 'skipped_duplicate', 'suppressed', 'cancelled', 'timed_out')),
+  attempts int default 0, -- runs started by a worker, across retries
   created_at timestamptz default now(),
   started_at timestamptz,
   completed_at timestamptz,
   error_message text,
+  error_category text, -- e.g. authentication_failed; some categories are only retried when forced
   result jsonb
 );
 
+-- Table: idempotency_keys (responses replayed for repeated requests, per API key)
+create table if not exists public.idempotency_keys (
+  id uuid primary key default gen_random_uuid(),
+  api_key_id uuid not null references public.api_keys(id) on delete cascade,
+  key text not null, -- "request:<Idempotency-Key>" or "job:<idempotencyKey>"
+  request_hash text not null,
+  status text not null default 'processing' check (status in ('processing', 'completed')),
+  response_status int,
+  response_body jsonb,
+  created_at timestamptz default now(),
+  expires_at timestamptz not null,
+  unique (api_key_id, key)
+);
+
+-- Table: connection_states (last observed relationship per profile and account)
+create table if not exists public.connection_states (
+  id uuid primary key default gen_random_uuid(),
+  client_slug text not null,
+  account_id text not null default '', -- '' for the global session
+  profile_url text not null,
+  state text not null check (state in ('connected', 'pending', 'not_connected', 'follow_only')),
+  checked_at timestamptz default now(),
+  changed_at timestamptz default now(),
+  unique (client_slug, account_id, profile_url)
+);
+
+-- Table: inbox_threads (messaging conversations per account)
+create table if not exists public.inbox_threads (
+  id uuid primary key default gen_random_uuid(),
+  client_slug text not null,
+  account_id text not null default '', -- '' for the global session
+  thread_urn text not null,
+  thread_url text,
+  participants jsonb default '[]'::jsonb,
+  profile_url text, -- the lead for one-to-one threads
+  last_message_urn text,
+  last_message_at timestamptz,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  unique (client_slug, account_id, thread_urn)
+);
+
+-- Table: inbox_messages
+create table if not exists public.inbox_messages (
+  id uuid primary key default gen_random_uuid(),
+  thread_id uuid not null references public.inbox_threads(id) on delete cascade,
+  message_urn text not null,
+  sender_name text,
+  sender_profile_url text,
+  is_inbound boolean not null default false,
+  sent_at timestamptz,
+  text text,
+  created_at timestamptz default now(),
+  unique (thread_id, message_urn)
+);
+
+-- Table: leads (people per client, keyed on the canonical profile URL)
+create table if not exists public.leads (
+  id uuid primary key default gen_random_uuid(),
+  client_slug text not null,
+  profile_url text not null,
+  name text,
+  headline text,
+  location text,
+  company text,
+  degree text,
+  status text not null default 'new' check (status in ('new', 'viewed', 'invited', 'connected', 'messaged', 'replied')),
+  tags text[] not null default '{}',
+  owner_account_id uuid references public.linkedin_accounts(id) on delete set null,
+  enrichment jsonb not null default '{}',
+  source text, -- search_scrape, api, import
+  source_job_id uuid,
+  source_url text,
+  last_job_id uuid,
+  last_job_type text,
+  last_job_status text,
+  last_activity_at timestamptz,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  unique (client_slug, profile_url)
+);
+
+-- Table: lead_lists (named lists of leads, e.g. targets of a bulk job request)
+create table if not exists public.lead_lists (
+  id uuid primary key default gen_random_uuid(),
+  client_slug text not null,
+  name text not null,
+  description text,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create table if not exists public.lead_list_members (
+  list_id uuid not null references public.lead_lists(id) on delete cascade,
+  lead_id uuid not null references public.leads(id) on delete cascade,
+  added_at timestamptz default now(),
+  primary key (list_id, lead_id)
+);
+
+-- Table: profile_identities (vanity name <-> member URN mappings learned from profile pages)
+create table if not exists public.profile_identities (
+  id uuid primary key default gen_random_uuid(),
+  public_identifier text unique,
+  member_id text not null unique, -- ACoAA... id of urn:li:fsd_profile
+  sales_navigator_id text unique,
+  resolved_at timestamptz default now()
+);
+
+-- Table: contact_registry (every invite/message per account and canonical profile)
+create table if not exists public.contact_registry (
+  id uuid primary key default gen_random_uuid(),
+  client_slug text not null,
+  account_id text not null default '', -- '' for the global session
+  profile_url text not null,
+  action text not null check (action in ('invite', 'message')),
+  job_id uuid not null unique,
+  status text not null default 'queued' check (status in ('queued', 'in_progress', 'contacted', 'skipped', 'failed')),
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  contacted_at timestamptz
+);
+
+-- Table: suppression_entries (per-client do-not-contact list, values stored normalized)
+create table if not exists public.suppression_entries (
+  id uuid primary key default gen_random_uuid(),
+  client_slug text not null,
+  type text not null check (type in ('profile', 'company', 'keyword')),
+  value text not null, -- canonical profile URL, urn:li:company:<id> or lowercased name, lowercased keyword
+  reason text,
+  created_at timestamptz default now(),
+  unique (client_slug, type, value)
+);
+
+-- Table: campaigns (multi-step outreach sequences)
+create table if not exists public.campaigns (
+  id uuid primary key default gen_random_uuid(),
+  client_slug text not null,
+  name text not null,
+  account_id uuid references public.linkedin_accounts(id),
+  status text default 'active' check (status in ('active', 'paused', 'archived')),
+  steps jsonb not null,
+  n8n_webhook_url text,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+-- Table: campaign_enrollments (one row per lead per campaign)
+create table if not exists public.campaign_enrollments (
+  id uuid primary key default gen_random_uuid(),
+  campaign_id uuid not null references public.campaigns(id) on delete cascade,
+  profile_url text not null,
+  status text default 'active' check (status in ('active', 'waiting', 'completed', 'stopped', 'failed')),
+  current_step int default 0,
+  connection_status text default 'unknown' check (connection_status in ('unknown', 'pending', 'connected')),
+  replied_at timestamptz,
+  waiting_until timestamptz,
+  last_job_id uuid,
+  stop_reason text,
+  error_message text,
+  enrolled_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  completed_at timestamptz,
+  unique (campaign_id, profile_url)
+);
+
+-- Upgrades: columns and checks added after a table was first created. "create table if not exists"
+-- leaves an existing table as it is, so every change to one is repeated here; safe to run again.
+alter table public.linkedin_accounts
+  add column if not exists weekly_invite_limit int default 100,
+  add column if not exists daily_message_limit int default 100,
+  add column if not exists daily_profile_view_limit int default 80,
+  add column if not exists invites_sent_week int default 0;
+
+alter table public.workflow_runs
+  add column if not exists client_slug text;
+
+alter table public.job_history
+  add column if not exists client_slug text,
+  add column if not exists error_category text;
+
+-- Rows written before the client was stored carry it in the queued job data
+update public.job_history set client_slug = job_data ->> 'clientSlug'
+where client_slug is null and job_data ->> 'clientSlug' is not null;
+update public.workflow_runs r set client_slug = (
+  select h.client_slug from public.job_history h
+  where h.workflow_run_id = r.id and h.client_slug is not null
+  limit 1
+)
+where r.client_slug is null;
+
+alter table public.job_history drop constraint if exists job_history_job_type_check;
+alter table public.job_history add constraint job_history_job_type_check
+  check (job_type in ('invite', 'message', 'profile_view', 'check_connection', 'withdraw_invitation', 'sync_inbox', 'reply_in_thread', 'search_scrape'));
+
+alter table public.job_history drop constraint if exists job_history_status_check;
+alter table public.job_history add constraint job_history_status_check
+  check (status in ('pending', 'processing', 'completed', 'failed', 'retry', 'skipped_duplicate', 'suppressed', 'cancelled', 'timed_out'));
+
 -- Indexes for better performance
 create index if not exists idx_linkedin_accounts_client_slug on public.linkedin_accounts(client_slug);
 create index if not exists idx_linkedin_accounts_active on public.linkedin_accounts(is_active);
+create index if not exists idx_linkedin_accounts_proxy_id on public.linkedin_accounts(proxy_id);
+create index if not exists idx_proxies_client_status on public.proxies(client_slug, status);
 create index if not exists idx_outreach_logs_account_id on public.outreach_logs(account_id);
 create index if not exists idx_outreach_logs_created_at on public.outreach_logs(created_at);
 create index if not exists idx_api_keys_key_hash on public.api_keys(key_hash);
 create index if not exists idx_api_keys_client_slug on public.api_keys(client_slug);
 create index if not exists idx_workflow_runs_workflow_id on public.workflow_runs(workflow_id);
 create index if not exists idx_workflow_runs_status on public.workflow_runs(status);
+create index if not exists idx_workflow_runs_client_slug on public.workflow_runs(client_slug);
 create index if not exists idx_job_history_workflow_run_id on public.job_history(workflow_run_id);
 create index if not exists idx_job_history_status on public.job_history(status);
 create index if not exists idx_job_history_created_at on public.job_history(created_at);
+create index if not exists idx_idempotency_keys_expires_at on public.idempotency_keys(expires_at);
+create index if not exists idx_job_history_client_created on public.job_history(client_slug, created_at, id);
+create index if not exists idx_connection_states_profile_url on public.connection_states(profile_url);
+create index if not exists idx_inbox_threads_profile_url on public.inbox_threads(profile_url);
+create index if not exists idx_inbox_messages_sent_at on public.inbox_messages(sent_at);
+create index if not exists idx_leads_source_job_id on public.leads(source_job_id);
+create index if not exists idx_leads_client_status on public.leads(client_slug, status);
+create index if not exists idx_leads_tags on public.leads using gin(tags);
+create index if not exists idx_lead_lists_client_slug on public.lead_lists(client_slug);
+create index if not exists idx_lead_list_members_lead_id on public.lead_list_members(lead_id);
+create index if not exists idx_contact_registry_lookup on public.contact_registry(client_slug, account_id, profile_url, action);
+
+-- Only one job per account, profile and action may be contacting at a time; the worker's claim relies on it.
+-- Older in-progress duplicates left by earlier versions are released first so the index can be built.
+update public.contact_registry c set status = 'failed', updated_at = now()
+where c.status = 'in_progress' and exists (
+  select 1 from public.contact_registry newer
+  where newer.status = 'in_progress'
+    and newer.client_slug = c.client_slug and newer.account_id = c.account_id
+    and newer.profile_url = c.profile_url and newer.action = c.action
+    and (newer.updated_at, newer.id) > (c.updated_at, c.id)
+);
+create unique index if not exists idx_contact_registry_active_claim on public.contact_registry(client_slug, account_id, profile_url, action)
+  where status = 'in_progress';
+create index if not exists idx_campaigns_client_slug on public.campaigns(client_slug);
+create index if not exists idx_campaign_enrollments_campaign_id on public.campaign_enrollments(campaign_id);
+create index if not exists idx_campaign_enrollments_status on public.campaign_enrollments(status);
 
 -- RLS (Row Level Security) policies
 alter table public.linkedin_accounts enable row level security;
@@ -88,14 +346,30 @@ alter table public.outreach_logs enable row level security;
 alter table public.api_keys enable row level security;
 alter table public.workflow_runs enable row level security;
 alter table public.job_history enable row level security;
+alter table public.idempotency_keys enable row level security;
+alter table public.connection_states enable row level security;
+alter table public.inbox_threads enable row level security;
+alter table public.inbox_messages enable row level security;
+alter table public.leads enable row level security;
+alter table public.lead_lists enable row level security;
+alter table public.lead_list_members enable row level security;
+alter table public.profile_identities enable row level security;
+alter table public.contact_registry enable row level security;
+alter table public.suppression_entries enable row level security;
+alter table public.campaigns enable row level security;
+alter table public.campaign_enrollments enable row level security;
+alter table public.proxies enable row level security;
 
--- Basic RLS policies (can be customized based on your needs)
+-- Basic RLS policies (can be customized based on your needs); dropped first so the script can be run again
+drop policy if exists "Users can view their own accounts" on public.linkedin_accounts;
 create policy "Users can view their own accounts" on public.linkedin_accounts
   for select using (auth.jwt() ->> 'client_slug' = client_slug);
 
+drop policy if exists "Service role has full access" on public.linkedin_accounts;
 create policy "Service role has full access" on public.linkedin_accounts
   for all using (auth.jwt() ->> 'role' = 'service_role');
 
+drop policy if exists "Users can view their own logs" on public.outreach_logs;
 create policy "Users can view their own logs" on public.outreach_logs
   for select using (
     exists (
@@ -105,31 +379,143 @@ create policy "Users can view their own logs" on public.outreach_logs
     )
   );
 
+drop policy if exists "Service role has full access to logs" on public.outreach_logs;
 create policy "Service role has full access to logs" on public.outreach_logs
   for all using (auth.jwt() ->> 'role' = 'service_role');
 
+drop policy if exists "Users can view their own API keys" on public.api_keys;
 create policy "Users can view their own API keys" on public.api_keys
   for select using (client_slug = auth.jwt() ->> 'client_slug');
 
+drop policy if exists "Service role has full access to API keys" on public.api_keys;
 create policy "Service role has full access to API keys" on public.api_keys
   for all using (auth.jwt() ->> 'role' = 'service_role');
 
+drop policy if exists "Users can view their own workflows" on public.workflow_runs;
 create policy "Users can view their own workflows" on public.workflow_runs
+  for select using (client_slug = auth.jwt() ->> 'client_slug');
+
+drop policy if exists "Service role has full access to workflows" on public.workflow_runs;
+create policy "Service role has full access to workflows" on public.workflow_runs
+  for all using (auth.jwt() ->> 'role' = 'service_role');
+
+drop policy if exists "Users can view their own job history" on public.job_history;
+create policy "Users can view their own job history" on public.job_history
+  for select using (client_slug = auth.jwt() ->> 'client_slug');
+
+drop policy if exists "Service role has full access to job history" on public.job_history;
+create policy "Service role has full access to job history" on public.job_history
+  for all using (auth.jwt() ->> 'role' = 'service_role');
+
+drop policy if exists "Service role has full access to idempotency keys" on public.idempotency_keys;
+create policy "Service role has full access to idempotency keys" on public.idempotency_keys
+  for all using (auth.jwt() ->> 'role' = 'service_role');
+
+drop policy if exists "Users can view their own connection states" on public.connection_states;
+create policy "Users can view their own connection states" on public.connection_states
+  for select using (client_slug = auth.jwt() ->> 'client_slug');
+
+drop policy if exists "Service role has full access to connection states" on public.connection_states;
+create policy "Service role has full access to connection states" on public.connection_states
+  for all using (auth.jwt() ->> 'role' = 'service_role');
+
+drop policy if exists "Users can view their own inbox threads" on public.inbox_threads;
+create policy "Users can view their own inbox threads" on public.inbox_threads
+  for select using (client_slug = auth.jwt() ->> 'client_slug');
+
+drop policy if exists "Service role has full access to inbox threads" on public.inbox_threads;
+create policy "Service role has full access to inbox threads" on public.inbox_threads
+  for all using (auth.jwt() ->> 'role' = 'service_role');
+
+drop policy if exists "Users can view their own inbox messages" on public.inbox_messages;
+create policy "Users can view their own inbox messages" on public.inbox_messages
   for select using (
     exists (
-      select 1 from public.job_history 
-      where workflow_run_id = workflow_runs.id 
-      and job_data ->> 'clientSlug' = auth.jwt() ->> 'client_slug'
+      select 1 from public.inbox_threads
+      where id = inbox_messages.thread_id
+      and client_slug = auth.jwt() ->> 'client_slug'
     )
   );
 
-create policy "Service role has full access to workflows" on public.workflow_runs
+drop policy if exists "Service role has full access to inbox messages" on public.inbox_messages;
+create policy "Service role has full access to inbox messages" on public.inbox_messages
   for all using (auth.jwt() ->> 'role' = 'service_role');
 
-create policy "Users can view their own job history" on public.job_history
-  for select using (job_data ->> 'clientSlug' = auth.jwt() ->> 'client_slug');
+drop policy if exists "Users can view their own leads" on public.leads;
+create policy "Users can view their own leads" on public.leads
+  for select using (client_slug = auth.jwt() ->> 'client_slug');
 
-create policy "Service role has full access to job history" on public.job_history
+drop policy if exists "Service role has full access to leads" on public.leads;
+create policy "Service role has full access to leads" on public.leads
+  for all using (auth.jwt() ->> 'role' = 'service_role');
+
+drop policy if exists "Users can view their own lead lists" on public.lead_lists;
+create policy "Users can view their own lead lists" on public.lead_lists
+  for select using (client_slug = auth.jwt() ->> 'client_slug');
+
+drop policy if exists "Service role has full access to lead lists" on public.lead_lists;
+create policy "Service role has full access to lead lists" on public.lead_lists
+  for all using (auth.jwt() ->> 'role' = 'service_role');
+
+drop policy if exists "Users can view their own lead list members" on public.lead_list_members;
+create policy "Users can view their own lead list members" on public.lead_list_members
+  for select using (
+    exists (
+      select 1 from public.lead_lists
+      where lead_lists.id = lead_list_members.list_id
+      and lead_lists.client_slug = auth.jwt() ->> 'client_slug'
+    )
+  );
+
+drop policy if exists "Service role has full access to lead list members" on public.lead_list_members;
+create policy "Service role has full access to lead list members" on public.lead_list_members
+  for all using (auth.jwt() ->> 'role' = 'service_role');
+
+drop policy if exists "Service role has full access to profile identities" on public.profile_identities;
+create policy "Service role has full access to profile identities" on public.profile_identities
+  for all using (auth.jwt() ->> 'role' = 'service_role');
+
+drop policy if exists "Users can view their own contacts" on public.contact_registry;
+create policy "Users can view their own contacts" on public.contact_registry
+  for select using (client_slug = auth.jwt() ->> 'client_slug');
+
+drop policy if exists "Service role has full access to contacts" on public.contact_registry;
+create policy "Service role has full access to contacts" on public.contact_registry
+  for all using (auth.jwt() ->> 'role' = 'service_role');
+
+drop policy if exists "Users can view their own suppression entries" on public.suppression_entries;
+create policy "Users can view their own suppression entries" on public.suppression_entries
+  for select using (client_slug = auth.jwt() ->> 'client_slug');
+
+drop policy if exists "Service role has full access to suppression entries" on public.suppression_entries;
+create policy "Service role has full access to suppression entries" on public.suppression_entries
+  for all using (auth.jwt() ->> 'role' = 'service_role');
+
+drop policy if exists "Users can view their own campaigns" on public.campaigns;
+create policy "Users can view their own campaigns" on public.campaigns
+  for select using (client_slug = auth.jwt() ->> 'client_slug');
+
+drop policy if exists "Service role has full access to campaigns" on public.campaigns;
+create policy "Service role has full access to campaigns" on public.campaigns
+  for all using (auth.jwt() ->> 'role' = 'service_role');
+
+drop policy if exists "Users can view their own enrollments" on public.campaign_enrollments;
+create policy "Users can view their own enrollments" on public.campaign_enrollments
+  for select using (
+    exists (
+      select 1 from public.campaigns
+      where id = campaign_enrollments.campaign_id
+      and client_slug = auth.jwt() ->> 'client_slug'
+    )
+  );
+
+drop policy if exists "Service role has full access to enrollments" on public.campaign_enrollments;
+create policy "Service role has full access to enrollments" on public.campaign_enrollments
+  for all using (auth.jwt() ->> 'role' = 'service_role');
+
+-- Proxies hold credentials, so only the service role reads them
+drop policy if exists "Service role has full access to proxies" on public.proxies;
+create policy "Service role has full access to proxies" on public.proxies
   for all using (auth.jwt() ->> 'role' = 'service_role');
 
 -- Functions for updating timestamps
@@ -142,10 +528,21 @@ end;
 $$ language plpgsql;
 
 -- Triggers for updating timestamps
+drop trigger if exists update_linkedin_accounts_updated_at on public.linkedin_accounts;
 create trigger update_linkedin_accounts_updated_at 
   before update on public.linkedin_accounts
   for each row execute function update_updated_at_column();
 
+drop trigger if exists update_campaigns_updated_at on public.campaigns;
+create trigger update_campaigns_updated_at
+  before update on public.campaigns
+  for each row execute function update_updated_at_column();
+
+drop trigger if exists update_proxies_updated_at on public.proxies;
+create trigger update_proxies_updated_at
+  before update on public.proxies
+  for each row execute function update_updated_at_column();
+
 -- Function to generate API key hash
 create or replace function generate_api_key()
 returns text as $$
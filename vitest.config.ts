@@ -0,0 +1,19 @@
+import { defineConfig } from 'vitest/config';
+import { resolve } from 'path';
+
+// Tests import the workspace packages from source, so they run without a build
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@linkedin-bot-suite/shared': resolve(__dirname, 'packages/shared/src'),
+      '@linkedin-bot-suite/linkedin': resolve(__dirname, 'packages/linkedin/src'),
+      '@linkedin-bot-suite/bot-core': resolve(__dirname, 'packages/bot-core/src'),
+    },
+  },
+  test: {
+    include: ['packages/*/test/**/*.test.ts'],
+    // Browser tests launch Chrome and wait out the extractor's human-like delays
+    testTimeout: 60000,
+    hookTimeout: 60000,
+  },
+});